@@ -60,4 +60,33 @@ function makeConfig(file, format) {
   }
 }
 
-export default [makeConfig(pkg.main, "umd"), makeConfig(pkg.module, "esm"), makeConfig(pkg.browser, "iife")]
+// Code generators, a separate entry point that is not included in the client bundles
+const codegenLibConfig = ["esm", "cjs"].map((format) => ({
+  input: `${inputPath}/codegen/index.ts`,
+  output: {
+    file: pkg.exports["./codegen"][format === "esm" ? "import" : "require"],
+    format,
+    sourcemap: true,
+  },
+  plugins: [resolve(), typescript()],
+}))
+
+// Command line code generator, runs in node
+const codegenConfig = {
+  input: `${inputPath}/codegen/cli.ts`,
+  output: {
+    file: pkg.bin["youtrack-codegen"],
+    format: "esm",
+    banner: "#!/usr/bin/env node",
+  },
+  external: [/^node:/],
+  plugins: [resolve(), typescript()],
+}
+
+export default [
+  makeConfig(pkg.main, "umd"),
+  makeConfig(pkg.module, "esm"),
+  makeConfig(pkg.browser, "iife"),
+  ...codegenLibConfig,
+  codegenConfig,
+]
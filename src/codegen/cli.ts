@@ -0,0 +1,95 @@
+/// <reference types="node" />
+import { readFileSync, writeFileSync } from "node:fs"
+
+import { collectClientEndpoints, formatCoverageReport, generateMissingStubs, openApiCoverage } from "./openapi"
+import { generateProjectFields } from "./projectFields"
+
+const usage = `Usage:
+  youtrack-codegen <custom-fields.json> [--name <Name>] [--import <module>] [--out <file.ts>]
+  youtrack-codegen openapi <openapi.json> [--stubs] [--api <Resource>] [--out <file>]
+
+Generates types of the project custom fields from the JSON dump of Admin.Projects.getProjectCustomFields.
+The dump must be fetched with fields: $type,field(name,fieldType(id,isMultiValue)),bundle(values(name))
+
+The openapi command reports operations of the local copy of YouTrack api/openapi.json that have no methods
+in the client. With --stubs it generates methods for the missing operations (of the --api resource only).`
+
+type CodegenArgs = {
+  command?: "openapi"
+  input?: string
+  name?: string
+  importFrom?: string
+  out?: string
+  stubs?: boolean
+  api?: string
+}
+
+/**
+ * Parses command line arguments of the generator.
+ * @param args - Arguments without node and script paths.
+ * @returns Input file and generator options.
+ */
+const parseCodegenArgs = (argv: string[]) => {
+  const openapi = argv[0] === "openapi"
+  const options: CodegenArgs = openapi ? { command: "openapi" } : {}
+  const args = openapi ? argv.slice(1) : argv
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    switch (arg) {
+      case "--name":
+        options.name = args[++i]
+        break
+      case "--import":
+        options.importFrom = args[++i]
+        break
+      case "--out":
+        options.out = args[++i]
+        break
+      case "--stubs":
+        options.stubs = true
+        break
+      case "--api":
+        options.api = args[++i]
+        break
+      default:
+        if (arg.startsWith("-") || options.input) {
+          throw new Error(`Unexpected argument "${arg}"`)
+        }
+        options.input = arg
+    }
+  }
+  return options
+}
+
+const generate = async ({ command, input = "", name, importFrom, stubs, api }: CodegenArgs) => {
+  const document = JSON.parse(readFileSync(input, "utf8"))
+  if (command !== "openapi") {
+    return generateProjectFields(document, { name, importFrom })
+  }
+  const report = openApiCoverage(document, await collectClientEndpoints())
+  return stubs ? generateMissingStubs(document, report, api) : formatCoverageReport(report)
+}
+
+const main = async () => {
+  try {
+    const options = parseCodegenArgs(process.argv.slice(2))
+    if (!options.input) {
+      console.error(usage)
+      return 1
+    }
+    const source = await generate(options)
+    if (options.out) {
+      writeFileSync(options.out, source)
+    } else {
+      process.stdout.write(source)
+    }
+    return 0
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error)
+    return 1
+  }
+}
+
+main().then((code) => {
+  process.exitCode = code
+})
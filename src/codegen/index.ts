@@ -0,0 +1,2 @@
+export * from "./projectFields"
+export * from "./openapi"
@@ -0,0 +1,421 @@
+import type { FetchFunc, HttpMethod } from "../types"
+import { ResourceApi } from "../resources/common"
+import { YouTrack } from "../youtrack"
+
+type OpenApiSchema = { $ref?: string; type?: string; items?: OpenApiSchema }
+
+type OpenApiParameter = {
+  name: string
+  in: "path" | "query" | "header" | "cookie"
+  description?: string
+  required?: boolean
+  schema?: OpenApiSchema
+}
+
+type OpenApiContent = { content?: Record<string, { schema?: OpenApiSchema }> }
+
+export type OpenApiOperationObject = {
+  operationId?: string
+  summary?: string
+  description?: string
+  parameters?: Array<OpenApiParameter | { $ref: string }>
+  requestBody?: OpenApiContent
+  responses?: Record<string, OpenApiContent>
+}
+
+// Subset of the OpenAPI document (e.g. `api/openapi.json` of YouTrack) used by the generator
+export type OpenApiDocument = {
+  paths: Record<string, Partial<Record<string, OpenApiOperationObject>>>
+  components?: { parameters?: Record<string, OpenApiParameter> }
+}
+
+export type OpenApiOperation = {
+  method: HttpMethod
+  path: string // Path of the operation relative to `api`, e.g. "/issues/{id}/comments"
+  summary?: string
+  operation: OpenApiOperationObject
+}
+
+// Endpoint requested by the method of the client resource
+export type ClientEndpoint = {
+  api: string // Name of the resource in the client, e.g. "Issues" or "Admin.Projects"
+  name: string // Name of the method
+  method: HttpMethod
+  path: string // Path relative to `api` with parameters replaced by "{}", e.g. "/issues/{}/comments"
+}
+
+// Method of the client resource that failed before sending a request, its endpoint is unknown
+export type ClientMethodFailure = {
+  api: string // Name of the resource in the client
+  name: string // Name of the method
+  error: unknown // Error thrown by the method
+}
+
+// Endpoints of the client methods and methods that failed before the request
+export type ClientEndpoints = {
+  endpoints: ClientEndpoint[]
+  failed: ClientMethodFailure[]
+}
+
+export type OpenApiCoverageReport = {
+  total: number // Number of operations in the document
+  covered: Array<OpenApiOperation & { methods: string[] }> // Operations with methods of the client
+  missing: Array<OpenApiOperation & { api?: string }> // Operations without methods, `api` is the suggested resource
+  unknown: ClientEndpoint[] // Methods of the client with endpoints missing in the document
+  failed: ClientMethodFailure[] // Methods of the client that failed before the request, not matched with operations
+}
+
+const HTTP_METHODS = ["get", "post", "put", "patch", "delete"]
+
+// Upper limit of the requests of one method while collecting the endpoints
+const MAX_METHOD_REQUESTS = 5
+
+const isParam = (segment: string) => /^\{.*\}$/.test(segment)
+const normalizePath = (path: string) =>
+  `/${path
+    .split("?")[0]
+    .replace(/^\/?api\//, "")
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => (isParam(segment) ? "{}" : segment))
+    .join("/")}`
+const endpointKey = (method: string, path: string) => `${method.toUpperCase()} ${normalizePath(path)}`
+
+/**
+ * Lists operations of the OpenAPI document.
+ * @param document - OpenAPI document.
+ * @returns Operations sorted by path and method.
+ */
+export const openApiOperations = (document: OpenApiDocument): OpenApiOperation[] =>
+  Object.entries(document.paths)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .flatMap(([path, item]) =>
+      HTTP_METHODS.filter((method) => item[method]).map((method) => {
+        const operation = item[method] as OpenApiOperationObject
+        return { method: method.toUpperCase() as HttpMethod, path, summary: operation.summary, operation }
+      }),
+    )
+
+/**
+ * Collects endpoints of the client methods. Each method of the resources is called with placeholder arguments
+ * and requests are recorded by the fake transport, no requests are sent to the server.
+ * Methods that throw before the request (e.g. on validation of the placeholder arguments) are reported as failed.
+ * @param createClient - Creates the client with the transport. Default: `new YouTrack("", transport)`.
+ * @returns Endpoints of the client methods and methods that failed before the request.
+ */
+export const collectClientEndpoints = async (
+  createClient: (transport: FetchFunc) => YouTrack = (transport) => new YouTrack("", transport),
+): Promise<ClientEndpoints> => {
+  const collected: ClientEndpoints = { endpoints: [], failed: [] }
+  let current: Omit<ClientEndpoint, "method" | "path"> | undefined
+  let requests = 0
+
+  const client = createClient((async ({ url, method = "GET" }) => {
+    if (current && requests++ < MAX_METHOD_REQUESTS) {
+      collected.endpoints.push({ ...current, method, path: normalizePath(url) })
+    }
+    return {}
+  }) as FetchFunc)
+
+  for (const [api, resource] of clientResources(client)) {
+    for (const [name, method] of resourceMethods(resource)) {
+      current = { api, name }
+      requests = 0
+      try {
+        const result = method.apply(
+          resource,
+          Array.from({ length: method.length }, (_, i) => `{${i}}`),
+        )
+        await (isAsyncIterable(result) ? result[Symbol.asyncIterator]().next() : result)
+      } catch (error) {
+        // Methods can fail on the empty response after the request is recorded
+        if (!requests) {
+          collected.failed.push({ api, name, error })
+        }
+      }
+    }
+  }
+  current = undefined
+  return collected
+}
+
+/**
+ * Compares operations of the OpenAPI document with endpoints of the client.
+ * @param document - OpenAPI document, e.g. local copy of `api/openapi.json` of YouTrack.
+ * @param client - Endpoints of the client and failed methods collected with `collectClientEndpoints`.
+ * @returns Covered and missing operations, client endpoints missing in the document and failed methods.
+ */
+export const openApiCoverage = (
+  document: OpenApiDocument,
+  { endpoints, failed }: ClientEndpoints,
+): OpenApiCoverageReport => {
+  const operations = openApiOperations(document)
+  const byKey = new Map<string, ClientEndpoint[]>()
+  for (const endpoint of endpoints) {
+    const key = endpointKey(endpoint.method, endpoint.path)
+    byKey.set(key, [...(byKey.get(key) ?? []), endpoint])
+  }
+
+  const report: OpenApiCoverageReport = { total: operations.length, covered: [], missing: [], unknown: [], failed }
+  const documented = new Set<string>()
+  for (const operation of operations) {
+    const key = endpointKey(operation.method, operation.path)
+    documented.add(key)
+    const methods = byKey.get(key)
+    if (methods) {
+      report.covered.push({ ...operation, methods: [...new Set(methods.map(({ api, name }) => `${api}.${name}`))] })
+    } else {
+      report.missing.push({ ...operation, api: suggestResource(operation.path, endpoints) })
+    }
+  }
+  report.unknown = endpoints.filter((endpoint) => !documented.has(endpointKey(endpoint.method, endpoint.path)))
+  return report
+}
+
+/**
+ * Formats the coverage report as text: summary, missing operations grouped by the suggested resource,
+ * client endpoints missing in the document and client methods failed before the request.
+ * @param report - Coverage report.
+ * @returns Text of the report.
+ */
+export const formatCoverageReport = (report: OpenApiCoverageReport): string => {
+  const percent = report.total ? Math.floor((report.covered.length / report.total) * 100) : 100
+  const lines = [`OpenAPI coverage: ${report.covered.length}/${report.total} operations (${percent}%)`]
+
+  const groups = new Map<string, OpenApiCoverageReport["missing"]>()
+  for (const operation of report.missing) {
+    const api = operation.api ?? "(no resource)"
+    groups.set(api, [...(groups.get(api) ?? []), operation])
+  }
+  if (groups.size) {
+    lines.push("", "Missing operations:")
+  }
+  for (const [api, operations] of [...groups].sort(([a], [b]) => a.localeCompare(b))) {
+    lines.push(`  ${api}`)
+    for (const { method, path, summary } of operations) {
+      lines.push(`    ${method} ${path}${summary ? ` - ${summary}` : ""}`)
+    }
+  }
+
+  if (report.unknown.length) {
+    lines.push("", "Client methods missing in the OpenAPI document:")
+    for (const { api, name, method, path } of report.unknown) {
+      lines.push(`  ${api}.${name}: ${method} ${path}`)
+    }
+  }
+
+  if (report.failed.length) {
+    lines.push("", "Client methods failed before the request:")
+    for (const { api, name, error } of report.failed) {
+      lines.push(`  ${api}.${name}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+  return `${lines.join("\n")}\n`
+}
+
+/**
+ * Generates the method of the resource for the OpenAPI operation in the style of the client resources:
+ * fields schema is typed with `Schema<T>`, the request is built with `RequestBuilder`.
+ * @param document - OpenAPI document.
+ * @param operation - Operation of the document.
+ * @returns Source of the method.
+ */
+export const generateOperationStub = (document: OpenApiDocument, operation: OpenApiOperation): string => {
+  const { method, path, operation: op } = operation
+  const parameters = (op.parameters ?? []).map((param) => resolveParameter(document, param))
+  const segments = path.split("/").filter(Boolean)
+
+  // Path parameters are named by the previous segment if the name is generic, e.g. /issues/{id} -> issueId
+  const pathArgs = new Map<string, string>()
+  segments.forEach((segment, i) => {
+    if (isParam(segment)) {
+      const name = segment.slice(1, -1)
+      const arg = name === "id" && i > 0 ? `${singular(segments[i - 1])}Id` : camelCase(name)
+      pathArgs.set(name, [...pathArgs.values()].includes(arg) ? `${arg}${i}` : arg)
+    }
+  })
+  const url = segments.map((segment) => (isParam(segment) ? `\${${pathArgs.get(segment.slice(1, -1))}}` : segment))
+
+  const entity = schemaType(responseSchema(op))
+  const list = responseSchema(op)?.type === "array"
+  const body = schemaType(op.requestBody?.content?.["application/json"]?.schema)
+  const query = parameters.filter((param) => param.in === "query")
+  const hasFields = query.some((param) => param.name === "fields") && entity
+  const hasList = query.some((param) => param.name === "$top")
+  const other = query.filter((param) => !["fields", "$skip", "$top"].includes(param.name))
+
+  const builders = [
+    ...(hasFields ? ["fields"] : []),
+    ...(hasList ? ['$skip: "number"', '$top: "number"'] : []),
+    ...other.filter((param) => queryType(param) !== "string").map((param) => `${param.name}: "${queryType(param)}"`),
+  ]
+  const stringParams = other.filter((param) => queryType(param) === "string")
+  if (stringParams.length) {
+    builders.push(`...queryParams(${stringParams.map((param) => JSON.stringify(param.name)).join(", ")})`)
+  }
+
+  const paramsType = [
+    ...(hasFields ? ["FieldsParam<TSchema>"] : []),
+    ...(hasList ? ["ListParams"] : []),
+    ...(other.length
+      ? [`{ ${other.map((param) => `${propertyName(param.name)}?: ${tsType(param)}`).join("; ")} }`]
+      : []),
+  ]
+
+  const result = entity ? (hasFields ? `Entity<${entity}, TSchema>` : entity) : method === "DELETE" ? "void" : "unknown"
+  const returns = list ? `${result}[]` : result
+  const args = [
+    ...[...pathArgs.values()].map((arg) => `${arg}: string`),
+    ...(["POST", "PUT", "PATCH"].includes(method) ? [`body: ${body ? `DeepPartial<${body}>` : "object"}`] : []),
+    ...(paramsType.length ? [`params?: ${paramsType.join(" & ")}`] : []),
+    "options?: RequestOptions",
+  ]
+  const call = { GET: "get()", DELETE: "delete()", PUT: "put()", PATCH: "patch()" }[method as string] ?? "post(body)"
+
+  const docs = [
+    op.summary ?? op.description ?? `${method} ${path}`,
+    ...[...pathArgs].map(([name, arg]) => `@param ${arg} - ${describe(parameters, name, "path")}`),
+    ...(args.some((arg) => arg.startsWith("body")) ? ["@param body - The request body."] : []),
+    ...(paramsType.length ? ["@param params - Optional parameters for the request."] : []),
+    ...query.map((param) => `@param params.${param.name} - ${describe(parameters, param.name, "query")}`),
+    "@param options - Request options: abort signal, timeout, retries and response validation.",
+    ...(result === "void" ? [] : [`@returns ${entity ? `The ${entity}${list ? " list" : ""}.` : "The response."}`]),
+  ]
+
+  return [
+    "  /**",
+    ...docs.map((line) => `   * ${line}`),
+    "   */",
+    `  async ${methodName(method, segments)}${hasFields ? `<TSchema extends Schema<${entity}>>` : ""}(`,
+    ...args.map((arg) => `    ${arg},`),
+    `  ): Promise<${returns}> {`,
+    `    return this.youtrack.fetch<${returns}>(`,
+    `      new RequestBuilder(\`api/${url.join("/")}\`, ${builders.length ? `{ ${builders.join(", ")} }` : "{}"}, ${paramsType.length ? "params" : "{}"}, options).${call},`,
+    "    )",
+    "  }",
+    "",
+  ].join("\n")
+}
+
+/**
+ * Generates methods for the operations missing in the client, grouped by the suggested resource.
+ * @param document - OpenAPI document.
+ * @param report - Coverage report.
+ * @param api - Generate methods of the specified resource only, e.g. "Issues".
+ * @returns Source of the methods.
+ */
+export const generateMissingStubs = (document: OpenApiDocument, report: OpenApiCoverageReport, api?: string) =>
+  report.missing
+    .filter((operation) => !api || operation.api === api)
+    .map(
+      (operation) =>
+        `  // ${operation.api ?? "(no resource)"}: ${operation.method} ${operation.path}\n${generateOperationStub(document, operation)}`,
+    )
+    .join("\n")
+
+const clientResources = (client: YouTrack): Array<[string, ResourceApi]> =>
+  Object.entries(client).flatMap(([key, value]): Array<[string, ResourceApi]> => {
+    if (value instanceof ResourceApi) {
+      return [[key, value]]
+    }
+    if (key === "Admin" && value && typeof value === "object") {
+      return Object.entries(value)
+        .filter(([, resource]) => resource instanceof ResourceApi)
+        .map(([name, resource]) => [`Admin.${name}`, resource as ResourceApi])
+    }
+    return []
+  })
+
+const isMethod = (value: unknown): value is (...args: string[]) => unknown => typeof value === "function"
+
+const resourceMethods = (resource: ResourceApi): Map<string, (...args: string[]) => unknown> => {
+  const methods = new Map<string, (...args: string[]) => unknown>()
+  for (let proto = Object.getPrototypeOf(resource); proto && proto !== ResourceApi.prototype; ) {
+    for (const name of Object.getOwnPropertyNames(proto)) {
+      const value = proto[name]
+      if (name !== "constructor" && !methods.has(name) && isMethod(value)) {
+        methods.set(name, value)
+      }
+    }
+    proto = Object.getPrototypeOf(proto)
+  }
+  return methods
+}
+
+const isAsyncIterable = (value: unknown): value is AsyncIterable<unknown> =>
+  !!value && typeof (value as AsyncIterable<unknown>)[Symbol.asyncIterator] === "function"
+
+// Resource of the client endpoint with the longest common path prefix
+const suggestResource = (path: string, endpoints: ClientEndpoint[]) => {
+  const segments = normalizePath(path).split("/")
+  let best: { api: string; length: number } | undefined
+  for (const endpoint of endpoints) {
+    const other = endpoint.path.split("/")
+    let length = 0
+    while (length < segments.length && segments[length] === other[length]) {
+      length++
+    }
+    if (length > 1 && length > (best?.length ?? 0)) {
+      best = { api: endpoint.api, length }
+    }
+  }
+  return best?.api
+}
+
+const resolveParameter = (document: OpenApiDocument, param: OpenApiParameter | { $ref: string }) =>
+  "$ref" in param
+    ? (document.components?.parameters?.[param.$ref.split("/").pop() ?? ""] ?? { name: param.$ref, in: "header" })
+    : param
+
+const responseSchema = (op: OpenApiOperationObject) => {
+  const response = op.responses?.["200"] ?? op.responses?.default
+  return response?.content?.["application/json"]?.schema
+}
+
+const schemaType = (schema?: OpenApiSchema): string | undefined => {
+  const ref = schema?.type === "array" ? schema.items?.$ref : schema?.$ref
+  return ref?.split("/").pop()
+}
+
+const queryType = (param: OpenApiParameter) => {
+  const type = param.schema?.type
+  return type === "integer" || type === "number" ? "number" : type === "boolean" ? "boolean" : "string"
+}
+
+const tsType = (param: OpenApiParameter) => (param.schema?.type === "array" ? "string[]" : queryType(param))
+
+const describe = (parameters: OpenApiParameter[], name: string, location: string) =>
+  parameters.find((param) => param.name === name && param.in === location)?.description ?? name
+
+const propertyName = (name: string) => (/^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name))
+
+const camelCase = (name: string) => name.replace(/[^A-Za-z0-9]+(.)/g, (_, char: string) => char.toUpperCase())
+const pascalCase = (name: string) => camelCase(name).replace(/^./, (char) => char.toUpperCase())
+const singular = (name: string) => camelCase(name.replace(/ies$/, "y").replace(/s$/, ""))
+
+// Name of the method by HTTP method and path, e.g. GET /issues/{id}/comments -> getIssueComments
+const methodName = (method: HttpMethod, segments: string[]) => {
+  const item = segments.length > 0 && isParam(segments[segments.length - 1])
+  const names = segments
+    .filter((segment) => segment !== "admin")
+    .map((segment, i, all) => {
+      if (isParam(segment)) {
+        return ""
+      }
+      const followedByParam = isParam(all[i + 1] ?? "")
+      const created = method === "POST" && !item && i === all.length - 1
+      return pascalCase(followedByParam || created ? singular(segment) : segment)
+    })
+    .join("")
+
+  switch (method) {
+    case "GET":
+      return `get${names}${item ? "ById" : ""}`
+    case "DELETE":
+      return `delete${names}`
+    case "POST":
+      return item ? `update${names}` : `create${names}`
+    default:
+      return `update${names}`
+  }
+}
@@ -0,0 +1,116 @@
+import type { ProjectFieldDescriptor, SimpleFieldValueType } from "../types"
+
+// Fields of project custom fields required by the generator
+export const PROJECT_FIELDS_CODEGEN_FIELDS = "$type,field(name,fieldType(id,isMultiValue)),bundle(values(name))"
+
+// Project custom field from the JSON dump of `Admin.Projects.getProjectCustomFields`
+export type ProjectCustomFieldDump = {
+  $type: string
+  field: { name: string | null; fieldType?: { id?: string; isMultiValue?: boolean } | null } | null
+  bundle?: { values?: Array<{ name: string }> | null } | null
+}
+
+export type GenerateProjectFieldsOptions = {
+  name?: string // Prefix of the generated names, e.g. "Demo" for `DemoFields`. Default: "Project"
+  importFrom?: string // Module to import types from. Default: "youtrack-client"
+}
+
+const BUNDLE_TYPES: Record<string, [string, string]> = {
+  EnumProjectCustomField: ["SingleEnumIssueCustomField", "MultiEnumIssueCustomField"],
+  VersionProjectCustomField: ["SingleVersionIssueCustomField", "MultiVersionIssueCustomField"],
+  BuildProjectCustomField: ["SingleBuildIssueCustomField", "MultiBuildIssueCustomField"],
+  OwnedProjectCustomField: ["SingleOwnedIssueCustomField", "MultiOwnedIssueCustomField"],
+  StateProjectCustomField: ["StateIssueCustomField", "StateIssueCustomField"],
+}
+
+const VALUE_TYPES: Record<string, [string, string]> = {
+  UserProjectCustomField: ["SingleUserIssueCustomField", "MultiUserIssueCustomField"],
+  GroupProjectCustomField: ["SingleGroupIssueCustomField", "MultiGroupIssueCustomField"],
+  PeriodProjectCustomField: ["PeriodIssueCustomField", "PeriodIssueCustomField"],
+  DateProjectCustomField: ["DateIssueCustomField", "DateIssueCustomField"],
+  TextProjectCustomField: ["TextIssueCustomField", "TextIssueCustomField"],
+}
+
+const SIMPLE_VALUE_TYPES: SimpleFieldValueType[] = ["string", "integer", "float", "date and time"]
+
+/**
+ * Converts project custom field to the descriptor of the field in issues.
+ * @param field - Project custom field fetched with `PROJECT_FIELDS_CODEGEN_FIELDS`.
+ * @returns Name of the field and its descriptor.
+ */
+export const projectFieldDescriptor = (field: ProjectCustomFieldDump): [string, ProjectFieldDescriptor] => {
+  const name = field.field?.name
+  if (!name) {
+    throw new Error(`Name of the ${field.$type} is missing, fetch custom fields with ${PROJECT_FIELDS_CODEGEN_FIELDS}`)
+  }
+
+  const fieldType = field.field?.fieldType
+  const multi = fieldType?.isMultiValue ?? fieldType?.id?.endsWith("[*]") ?? false
+
+  if (field.$type in BUNDLE_TYPES) {
+    const $type = BUNDLE_TYPES[field.$type][multi ? 1 : 0]
+    const values = field.bundle?.values?.map((value) => value.name)
+    return [name, { $type, ...(values ? { values } : {}) } as ProjectFieldDescriptor]
+  }
+  if (field.$type in VALUE_TYPES) {
+    return [name, { $type: VALUE_TYPES[field.$type][multi ? 1 : 0] } as ProjectFieldDescriptor]
+  }
+  if (field.$type === "SimpleProjectCustomField") {
+    // Date fields are simple fields in the project, but date fields in issues
+    const id = fieldType?.id ?? "string"
+    if (id === "date") {
+      return [name, { $type: "DateIssueCustomField" }]
+    }
+    const valueType = SIMPLE_VALUE_TYPES.find((type) => type === id) ?? "string"
+    return [name, { $type: "SimpleIssueCustomField", valueType }]
+  }
+
+  throw new Error(`Unsupported type ${field.$type} of custom field "${name}"`)
+}
+
+/**
+ * Generates TypeScript module with descriptor of the project custom fields and types of their values.
+ * Each field is mapped to `$type` of the field in issues and literal values of its bundle.
+ * The descriptor is used with `ProjectIssues` to read and update the fields.
+ *
+ * Example:
+ * const customFields = JSON.parse(readFileSync("demo-fields.json", "utf8"))
+ * writeFileSync("demoFields.ts", generateProjectFields(customFields, { name: "Demo" }))
+ *
+ * @param customFields - Project custom fields fetched with `PROJECT_FIELDS_CODEGEN_FIELDS`.
+ * @param options - Generator options.
+ * @returns Source of the TypeScript module.
+ */
+export const generateProjectFields = (
+  customFields: ProjectCustomFieldDump[],
+  options: GenerateProjectFieldsOptions = {},
+): string => {
+  const { name = "Project", importFrom = "youtrack-client" } = options
+  if (!/^[A-Za-z_$][\w$]*$/.test(name)) {
+    throw new Error(`Invalid name "${name}", it must be a valid identifier`)
+  }
+
+  const fields = customFields.map(projectFieldDescriptor).map(([fieldName, descriptor]) => {
+    const props = Object.entries(descriptor).map(([key, value]) => `${key}: ${literal(value)}`)
+    return `  ${propertyKey(fieldName)}: { ${props.join(", ")} },`
+  })
+
+  return [
+    "// Generated by youtrack-client from project custom fields. Do not edit manually.",
+    `import type { ProjectFieldInputs, ProjectFieldsDescriptor, ProjectFieldValues } from ${JSON.stringify(importFrom)}`,
+    "",
+    `export const ${name}Fields = {`,
+    ...fields,
+    "} as const satisfies ProjectFieldsDescriptor",
+    "",
+    `export type ${name}Fields = typeof ${name}Fields`,
+    `export type ${name}FieldValues = ProjectFieldValues<${name}Fields>`,
+    `export type ${name}FieldInputs = ProjectFieldInputs<${name}Fields>`,
+    "",
+  ].join("\n")
+}
+
+const literal = (value: unknown): string =>
+  Array.isArray(value) ? `[${value.map(literal).join(", ")}]` : JSON.stringify(value)
+
+const propertyKey = (key: string) => (/^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key))
@@ -0,0 +1,180 @@
+import type { DeepPartial, Issue, IssueCustomFieldsBody } from "../types"
+import { CommandBuilder, commandIssues, RequestAbortedError, RequestLimiter, YouTrackError } from "../utils"
+import type { YouTrack } from "../youtrack"
+
+// Command applied to the issues in chunks, e.g. `{ command: "State Fixed", comment: "Fixed in 2.0" }`
+export type BulkIssueCommand = {
+  command: string | CommandBuilder
+  comment?: string
+}
+
+// Changes of the issue applied to each issue with Issues.updateIssue
+export type BulkIssueUpdate = {
+  update: DeepPartial<Omit<Issue, "customFields">> & IssueCustomFieldsBody
+}
+
+export type BulkIssueChange = string | CommandBuilder | BulkIssueCommand | BulkIssueUpdate
+
+export type BulkUpdateOptions = {
+  chunkSize?: number // Number of issues in one command request. Default: 50
+  concurrency?: number // Maximum number of requests in flight. Default: 4
+  muteUpdateNotifications?: boolean // Do not send notifications on the changes
+  // Apply the command to each issue of the failed chunk to find the failed issues. Enable only for commands that
+  // can be applied twice, e.g. setting field values, not votes, work items or comments. Default: false
+  splitFailedChunks?: boolean
+  signal?: AbortSignal // Stops starting new requests, issues that were not updated are skipped
+}
+
+export type BulkUpdateFailure = {
+  issue: string // Issue id as passed to the helper or idReadable of the issue found by the query
+  error: YouTrackError
+}
+
+export type BulkUpdateSkip = {
+  issue: string
+  reason: "duplicate" | "aborted"
+}
+
+export type BulkUpdateResult = {
+  succeeded: string[]
+  failed: BulkUpdateFailure[]
+  skipped: BulkUpdateSkip[]
+}
+
+export const BULK_UPDATE_CHUNK_SIZE = 50
+export const BULK_UPDATE_CONCURRENCY = 4
+
+const chunks = <T>(items: T[], size: number): T[][] => {
+  const result: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    result.push(items.slice(i, i + size))
+  }
+  return result
+}
+
+/**
+ * Resolves the issues to update. Duplicated ids are skipped.
+ * @param youtrack - YouTrack client.
+ * @param issues - Search query or list of issue ids.
+ * @param result - Result that receives the skipped duplicates.
+ * @param signal - Signal to cancel the search requests.
+ * @returns Unique issue ids.
+ */
+const resolveIssues = async (
+  youtrack: YouTrack,
+  issues: string | string[],
+  result: BulkUpdateResult,
+  signal?: AbortSignal,
+) => {
+  let ids: string[] = []
+  if (typeof issues !== "string") {
+    ids = issues
+  } else {
+    for await (const issue of youtrack.Issues.iterateIssues({ query: issues, fields: "id,idReadable" }, { signal })) {
+      ids.push(issue.idReadable)
+    }
+  }
+  const unique = new Set<string>()
+  for (const id of ids) {
+    if (unique.has(id)) {
+      result.skipped.push({ issue: id, reason: "duplicate" })
+    } else {
+      unique.add(id)
+    }
+  }
+  return [...unique]
+}
+
+/**
+ * Applies the same change to many issues.
+ * Commands are applied to chunks of issues. If the command fails for a chunk, all issues of the chunk are failed,
+ * or with `splitFailedChunks` the command is applied to each issue of the chunk separately to find the failed issues.
+ * Issue updates are sent for each issue.
+ * Errors of the requests do not stop the update, they are reported in the result.
+ * @param youtrack - YouTrack client.
+ * @param issues - Search query or list of issue ids (database ids or readable ids).
+ * @param change - Command, e.g. `"State Fixed"`, command builder or `{ command, comment }`, or `{ update }` with the issue changes.
+ * @param options - Chunk size, concurrency limit, retries of the failed chunks and abort signal.
+ * @returns Updated, failed and skipped issues.
+ */
+export const bulkUpdateIssues = async (
+  youtrack: YouTrack,
+  issues: string | string[],
+  change: BulkIssueChange,
+  options: BulkUpdateOptions = {},
+): Promise<BulkUpdateResult> => {
+  const {
+    chunkSize = BULK_UPDATE_CHUNK_SIZE,
+    concurrency = BULK_UPDATE_CONCURRENCY,
+    splitFailedChunks,
+    signal,
+  } = options
+  const params = options.muteUpdateNotifications ? { muteUpdateNotifications: true } : {}
+  const limiter = new RequestLimiter({ maxConcurrent: concurrency })
+  const result: BulkUpdateResult = { succeeded: [], failed: [], skipped: [] }
+  const ids = await resolveIssues(youtrack, issues, result, signal)
+
+  const run = (group: string[], task: () => Promise<unknown>): Promise<YouTrackError | undefined> =>
+    limiter.schedule(async () => {
+      if (signal?.aborted) {
+        result.skipped.push(...group.map((issue) => ({ issue, reason: "aborted" as const })))
+        return
+      }
+      try {
+        await task()
+        result.succeeded.push(...group)
+      } catch (error) {
+        if (!(error instanceof YouTrackError)) {
+          throw error
+        }
+        if (error instanceof RequestAbortedError && signal?.aborted) {
+          result.skipped.push(...group.map((issue) => ({ issue, reason: "aborted" as const })))
+          return
+        }
+        return error
+      }
+    })
+
+  const fail = (issue: string, error: YouTrackError | undefined) => {
+    if (error) {
+      result.failed.push({ issue, error })
+    }
+  }
+
+  if (typeof change === "object" && "update" in change) {
+    const update = (issue: string) =>
+      run([issue], () => youtrack.Issues.updateIssue(issue, change.update, params, { signal })).then((error) =>
+        fail(issue, error),
+      )
+    await Promise.all(ids.map(update))
+    return result
+  }
+
+  const { command, comment } =
+    typeof change === "string" || change instanceof CommandBuilder ? { command: change } : change
+  const apply = (group: string[]) =>
+    run(group, () =>
+      youtrack.Commands.applyCommandToIssues(
+        { query: String(command), comment, issues: commandIssues(group) },
+        params,
+        { signal },
+      ),
+    )
+
+  await Promise.all(
+    chunks(ids, chunkSize).map(async (chunk) => {
+      const error = await apply(chunk)
+      if (!error) {
+        return
+      }
+      if (chunk.length === 1 || !splitFailedChunks) {
+        for (const issue of chunk) {
+          fail(issue, error)
+        }
+        return
+      }
+      await Promise.all(chunk.map((issue) => apply([issue]).then((error) => fail(issue, error))))
+    }),
+  )
+  return result
+}
@@ -0,0 +1,243 @@
+import type {
+  ActivityCategory,
+  ActivityItem,
+  ChangeFeedEvents,
+  ChangeFeedListener,
+  ChangeFeedOptions,
+  CursorStore,
+} from "../types"
+import { activityCategoryId } from "../utils"
+import type { YouTrack } from "../youtrack"
+
+export const CHANGE_FEED_CATEGORIES: ActivityCategory[] = [
+  "IssueCreatedCategory",
+  "CustomFieldCategory",
+  "CommentsCategory",
+  "LinksCategory",
+  "SprintCategory",
+]
+
+export const CHANGE_FEED_FIELDS =
+  "id,$type,timestamp,category(id),targetMember,author(id,login,fullName),field(id,name,presentation)," +
+  "target(id,idReadable,summary,issue(id,idReadable)),added(id,name,idReadable,summary,text,login,presentation)," +
+  "removed(id,name,idReadable,summary,text,login,presentation)"
+
+/**
+ * Keeps the cursor in memory. The feed restarts from the `since` timestamp after the process restart.
+ */
+export class MemoryCursorStore implements CursorStore {
+  constructor(private cursor?: string) {}
+
+  load() {
+    return this.cursor
+  }
+
+  save(cursor: string) {
+    this.cursor = cursor
+  }
+}
+
+/**
+ * Polls activities of issues and emits typed events for the new activities.
+ * The position of the feed is persisted with cursor store, activities seen recently are skipped.
+ */
+export class ChangeFeed {
+  private listeners = new Map<keyof ChangeFeedEvents, Set<(event: never) => void>>()
+  private seen = new Set<string>()
+  private store: CursorStore
+  private since: number
+  private cursor: string | undefined
+  private loaded = false
+  private active = false
+  private timer: ReturnType<typeof setTimeout> | undefined
+  private polling: Promise<number> | undefined
+
+  constructor(
+    private youtrack: YouTrack,
+    private options: ChangeFeedOptions = {},
+  ) {
+    this.store = options.store ?? new MemoryCursorStore()
+    this.since = options.since ?? Date.now()
+  }
+
+  /**
+   * True if the feed polls activities on the interval.
+   */
+  get running(): boolean {
+    return this.active
+  }
+
+  /**
+   * Subscribes to the feed events.
+   * Errors thrown by the listener are emitted as `error` event, other listeners and the poll are not affected.
+   * @param event - Name of the event.
+   * @param listener - Called with the event payload.
+   * @returns Function that removes the listener.
+   */
+  public on<K extends keyof ChangeFeedEvents>(event: K, listener: ChangeFeedListener<K>): () => void {
+    const listeners = this.listeners.get(event) ?? new Set()
+    this.listeners.set(event, listeners.add(listener))
+    return () => listeners.delete(listener)
+  }
+
+  /**
+   * Starts polling: the first poll is performed immediately, next polls are performed after the interval.
+   * Errors of the polls are emitted as `error` event.
+   * @returns The feed.
+   */
+  public start(): this {
+    if (!this.active) {
+      this.active = true
+      this.schedule(0)
+    }
+    return this
+  }
+
+  /**
+   * Stops polling. The poll in progress is finished.
+   */
+  public stop(): void {
+    this.active = false
+    clearTimeout(this.timer)
+    this.timer = undefined
+  }
+
+  /**
+   * Requests the new activities and emits events for them.
+   * Concurrent calls share the poll in progress.
+   * @returns Number of the emitted activities.
+   */
+  public poll(): Promise<number> {
+    this.polling ??= this.pollActivities().finally(() => {
+      this.polling = undefined
+    })
+    return this.polling
+  }
+
+  private schedule(delay: number) {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.poll()
+      } catch (error) {
+        this.emit("error", error)
+      }
+      if (this.active) {
+        this.schedule(this.options.interval ?? 60000)
+      }
+    }, delay)
+  }
+
+  private async pollActivities(): Promise<number> {
+    const { categories = CHANGE_FEED_CATEGORIES, issueQuery, fields: schema = CHANGE_FEED_FIELDS } = this.options
+
+    if (!this.loaded) {
+      this.cursor = (await this.store.load()) ?? undefined
+      this.loaded = true
+    }
+
+    let saving = Promise.resolve()
+    const activities = this.youtrack.Activities.iterateActivities({
+      categories,
+      issueQuery,
+      fields: schema,
+      cursor: this.cursor,
+      ...(this.cursor ? {} : { start: String(this.since) }),
+      onCursor: (cursor) => {
+        if (cursor !== this.cursor) {
+          this.cursor = cursor
+          saving = saving.then(() => this.store.save(cursor))
+        }
+      },
+    })
+
+    let emitted = 0
+    for await (const activity of activities) {
+      if (this.isDuplicate(activity.id)) {
+        continue
+      }
+      // Events are typed by CHANGE_FEED_FIELDS, activities requested with other fields are emitted as is
+      this.dispatch(activity as ActivityItem)
+      emitted++
+    }
+    await saving
+    return emitted
+  }
+
+  private isDuplicate(id: string): boolean {
+    if (this.seen.has(id)) {
+      return true
+    }
+    this.seen.add(id)
+    if (this.seen.size > (this.options.dedupeSize ?? 1000)) {
+      this.seen.delete(this.seen.values().next().value as string)
+    }
+    return false
+  }
+
+  private dispatch(activity: ActivityItem) {
+    this.emit("activity", activity)
+
+    switch (activityCategoryId(activity)) {
+      case "IssueCreatedCategory": {
+        const created = activity as ChangeFeedEvents["issueCreated"]["activity"]
+        return this.emit("issueCreated", { activity: created, issue: created.target })
+      }
+      case "CustomFieldCategory": {
+        const changed = activity as ChangeFeedEvents["fieldChanged"]["activity"]
+        return this.emit("fieldChanged", {
+          activity: changed,
+          issue: changed.target,
+          field: changed.field?.name ?? changed.targetMember ?? "",
+          oldValue: changed.removed ?? [],
+          newValue: changed.added ?? [],
+        })
+      }
+      case "CommentsCategory": {
+        const comment = activity as ChangeFeedEvents["commentAdded"]["activity"]
+        if (comment.added?.length) {
+          this.emit("commentAdded", {
+            activity: comment,
+            issue: comment.target?.issue ?? null,
+            comments: comment.added,
+          })
+        }
+        return
+      }
+      case "LinksCategory": {
+        const link = activity as ChangeFeedEvents["linkAdded"]["activity"]
+        if (link.added?.length) {
+          this.emit("linkAdded", {
+            activity: link,
+            issue: link.target,
+            linkType: link.targetMember,
+            issues: link.added,
+          })
+        }
+        return
+      }
+      case "SprintCategory": {
+        const sprint = activity as ChangeFeedEvents["sprintChanged"]["activity"]
+        return this.emit("sprintChanged", {
+          activity: sprint,
+          issue: sprint.target,
+          added: sprint.added ?? [],
+          removed: sprint.removed ?? [],
+        })
+      }
+    }
+  }
+
+  private emit<K extends keyof ChangeFeedEvents>(event: K, payload: ChangeFeedEvents[K]) {
+    const listeners = (this.listeners.get(event) ?? []) as Iterable<ChangeFeedListener<K>>
+    for (const listener of listeners) {
+      try {
+        listener(payload)
+      } catch (error) {
+        // Errors of listeners do not stop the feed, errors of the error listeners are ignored
+        if (event !== "error") {
+          this.emit("error", error)
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import type { ParsedCommand } from "../types"
+import { CommandError, commandIssues } from "../utils"
+import type { CommandBuilder } from "../utils"
+import type { YouTrack } from "../youtrack"
+
+export const COMMAND_RESULT_FIELDS = "query,commands(description,error,delete)"
+
+export type ApplyCommandOptions = {
+  comment?: string // Comment added to the issues with the command
+  dryRun?: boolean // Check the command with command suggestions without applying it
+  muteUpdateNotifications?: boolean // Do not send notifications on the changes
+}
+
+export type CommandResult = {
+  query: string // Applied or checked command
+  commands: Pick<ParsedCommand, "description" | "error" | "delete">[] // Commands parsed by YouTrack
+}
+
+/**
+ * Checks the command with command suggestions of YouTrack. The command is not applied.
+ * @param youtrack - YouTrack client.
+ * @param issues - Database or readable ids of the issues the command is checked for.
+ * @param command - Command string or builder.
+ * @returns Commands parsed by YouTrack.
+ * @throws {CommandError} If any of the parsed commands has an error.
+ */
+export const checkCommand = async (
+  youtrack: YouTrack,
+  issues: string[],
+  command: string | CommandBuilder,
+): Promise<CommandResult> => {
+  const query = String(command)
+  const { commands = [] } = await youtrack.Commands.getCommandSuggestions(
+    { query, issues: commandIssues(issues) },
+    { fields: COMMAND_RESULT_FIELDS },
+  )
+  if (commands.some(({ error }) => error)) {
+    throw new CommandError(query, commands)
+  }
+  return { query, commands }
+}
+
+/**
+ * Applies the command to the issues. With `dryRun` option the command is only checked with command suggestions.
+ * @param youtrack - YouTrack client.
+ * @param issues - Database or readable ids of the issues.
+ * @param command - Command string or builder, e.g. `command().set("State", "In Progress").tag("release")`.
+ * @param options - Comment, dry run and notifications options.
+ * @returns Commands parsed by YouTrack.
+ * @throws {CommandError} In dry run mode if any of the parsed commands has an error.
+ */
+export const applyCommand = async (
+  youtrack: YouTrack,
+  issues: string | string[],
+  command: string | CommandBuilder,
+  options: ApplyCommandOptions = {},
+): Promise<CommandResult> => {
+  const ids = typeof issues === "string" ? [issues] : issues
+  if (options.dryRun) {
+    return checkCommand(youtrack, ids, command)
+  }
+  const query = String(command)
+  const { commands = [] } = await youtrack.Commands.applyCommandToIssues(
+    { query, comment: options.comment, issues: commandIssues(ids) },
+    { fields: COMMAND_RESULT_FIELDS, ...(options.muteUpdateNotifications ? { muteUpdateNotifications: true } : {}) },
+  )
+  return { query, commands }
+}
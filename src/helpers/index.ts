@@ -0,0 +1,8 @@
+export * from "./changeFeed"
+export * from "./projectIssues"
+export * from "./bulkUpdate"
+export * from "./commands"
+export * from "./timesheet"
+export * from "./workTime"
+export * from "./workItemImport"
+export * from "./issueHistory"
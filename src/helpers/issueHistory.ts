@@ -0,0 +1,46 @@
+import type { IssueHistoryActivity, IssueSnapshot, IssueTimeline } from "../types"
+import {
+  ISSUE_HISTORY_ACTIVITY_FIELDS,
+  ISSUE_HISTORY_CATEGORIES,
+  ISSUE_HISTORY_FIELDS,
+  issueSnapshotAt,
+  issueTimeline,
+} from "../utils"
+import type { YouTrack } from "../youtrack"
+
+/**
+ * Fetches the issue with its custom field, summary and project activities and reconstructs timelines of the fields.
+ * @param youtrack - YouTrack client.
+ * @param issueId - Id or readable id of the issue.
+ * @returns Initial values and changes of the summary, project and custom fields.
+ */
+export const fetchIssueTimeline = async (youtrack: YouTrack, issueId: string): Promise<IssueTimeline> => {
+  const issue = await youtrack.Issues.getIssueById(issueId, { fields: ISSUE_HISTORY_FIELDS })
+  const activities: IssueHistoryActivity[] = []
+  for await (const activity of youtrack.Issues.iterateActivities(issueId, {
+    categories: ISSUE_HISTORY_CATEGORIES,
+    fields: ISSUE_HISTORY_ACTIVITY_FIELDS,
+  })) {
+    activities.push(activity)
+  }
+  return issueTimeline(issue, activities)
+}
+
+/**
+ * Fetches values of the issue fields at the point in time.
+ *
+ * Example:
+ * const { fields } = await fetchIssueSnapshot(yt, "PRJ-123", new Date("2024-03-01"))
+ * fields.State // "Open"
+ * fields.Assignee // "john"
+ *
+ * @param youtrack - YouTrack client.
+ * @param issueId - Id or readable id of the issue.
+ * @param at - Point in time: timestamp in milliseconds or date.
+ * @returns Snapshot of the summary, project and custom fields.
+ */
+export const fetchIssueSnapshot = async (
+  youtrack: YouTrack,
+  issueId: string,
+  at: number | Date,
+): Promise<IssueSnapshot> => issueSnapshotAt(await fetchIssueTimeline(youtrack, issueId), at)
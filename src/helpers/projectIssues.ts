@@ -0,0 +1,209 @@
+import type {
+  Issue,
+  IssueCustomFieldUpdate,
+  ProjectFieldDescriptor,
+  ProjectFieldInput,
+  ProjectFieldInputs,
+  ProjectFieldsDescriptor,
+  ProjectFieldValues,
+  Schema,
+  SimpleFieldValueType,
+} from "../types"
+import {
+  buildField,
+  CustomFieldError,
+  dateField,
+  enumField,
+  findCustomField,
+  getDateField,
+  getEnumField,
+  getEnumsField,
+  getFieldValue,
+  getPeriodField,
+  getTextField,
+  getUserField,
+  getUsersField,
+  groupField,
+  multiBuildField,
+  multiEnumField,
+  multiGroupField,
+  multiOwnedField,
+  multiUserField,
+  multiVersionField,
+  ownedField,
+  periodField,
+  simpleField,
+  stateField,
+  stateMachineField,
+  textField,
+  userField,
+  versionField,
+} from "../utils"
+import type { WithCustomFields } from "../utils"
+import type { YouTrack } from "../youtrack"
+
+export const PROJECT_ISSUE_FIELDS = [
+  "id",
+  "idReadable",
+  { customFields: ["$type", "name", { value: ["name", "login", "minutes", "text"] }] },
+] as const satisfies Schema<Issue>
+
+// Value of the field for update by `$type` of the field, simple fields accept values of all value types
+type FieldInput<K extends ProjectFieldDescriptor["$type"], V = SimpleFieldValueType> = V extends SimpleFieldValueType
+  ? ProjectFieldInput<ProjectFieldDescriptor & { $type: K; valueType: V }>
+  : never
+
+type FieldBuilders = {
+  [K in ProjectFieldDescriptor["$type"]]: (name: string, value: FieldInput<K>) => IssueCustomFieldUpdate
+}
+
+const FIELD_BUILDERS: FieldBuilders = {
+  SingleEnumIssueCustomField: enumField,
+  MultiEnumIssueCustomField: multiEnumField,
+  StateIssueCustomField: stateField,
+  StateMachineIssueCustomField: stateMachineField,
+  SingleVersionIssueCustomField: versionField,
+  MultiVersionIssueCustomField: multiVersionField,
+  SingleBuildIssueCustomField: buildField,
+  MultiBuildIssueCustomField: multiBuildField,
+  SingleOwnedIssueCustomField: ownedField,
+  MultiOwnedIssueCustomField: multiOwnedField,
+  SingleGroupIssueCustomField: groupField,
+  MultiGroupIssueCustomField: multiGroupField,
+  SingleUserIssueCustomField: userField,
+  MultiUserIssueCustomField: multiUserField,
+  PeriodIssueCustomField: periodField,
+  DateIssueCustomField: dateField,
+  TextIssueCustomField: textField,
+  SimpleIssueCustomField: simpleField,
+}
+
+/**
+ * Reads and updates custom fields of the project issues by the descriptor generated with `generateProjectFields`.
+ * Values are typed by the descriptor, unknown fields and bundle values are rejected before the request.
+ *
+ * Example:
+ * const demo = new ProjectIssues(yt, "0-0", DemoFields)
+ * const { Priority } = await demo.getFields("DEMO-1") // "Critical" | "Major" | ... | null
+ * await demo.updateFields("DEMO-1", { Priority: "Major", Assignee: "john" })
+ */
+export class ProjectIssues<T extends ProjectFieldsDescriptor> {
+  constructor(
+    private youtrack: YouTrack,
+    public readonly projectId: string, // Database ID of the project
+    public readonly fields: T,
+  ) {}
+
+  /**
+   * Create an issue in the project.
+   * @param body - Summary and description of the issue.
+   * @param values - Values of the custom fields.
+   * @returns ID of the created issue and values of its custom fields.
+   */
+  async createIssue(
+    body: { summary: string; description?: string },
+    values: ProjectFieldInputs<T> = {},
+  ): Promise<{ id: string; idReadable: string; fields: ProjectFieldValues<T> }> {
+    const issue = await this.youtrack.Issues.createIssue(
+      { ...body, project: { id: this.projectId }, customFields: this.customFieldsBody(values) },
+      { fields: PROJECT_ISSUE_FIELDS },
+    )
+    return { id: issue.id, idReadable: issue.idReadable, fields: this.decodeFields(issue) }
+  }
+
+  /**
+   * Read custom fields of the issue.
+   * @param issueId - The database ID or project ID of the issue.
+   * @returns Decoded values of the custom fields, fields missing in the issue are empty.
+   */
+  async getFields(issueId: string): Promise<ProjectFieldValues<T>> {
+    return this.decodeFields(await this.youtrack.Issues.getIssueById(issueId, { fields: PROJECT_ISSUE_FIELDS }))
+  }
+
+  /**
+   * Update custom fields of the issue. Fields which are not specified are not changed, `null` clears the field.
+   * @param issueId - The database ID or project ID of the issue.
+   * @param values - Values of the custom fields.
+   * @returns Decoded values of the custom fields after the update.
+   */
+  async updateFields(issueId: string, values: ProjectFieldInputs<T>): Promise<ProjectFieldValues<T>> {
+    return this.decodeFields(
+      await this.youtrack.Issues.updateIssue(
+        issueId,
+        { customFields: this.customFieldsBody(values) },
+        { fields: PROJECT_ISSUE_FIELDS },
+      ),
+    )
+  }
+
+  /**
+   * Decode custom fields of the fetched issue.
+   * @param issue - Issue fetched with `customFields($type,name,value(name,login,minutes,text))`.
+   * @returns Decoded values of the custom fields, fields missing in the issue are empty.
+   */
+  public decodeFields(issue: WithCustomFields): ProjectFieldValues<T> {
+    const values: Record<string, unknown> = {}
+    for (const [name, descriptor] of Object.entries(this.fields)) {
+      const $type = findCustomField(issue, name)?.$type
+      if ($type && $type !== descriptor.$type) {
+        throw new CustomFieldError(`Custom field "${name}" is ${$type}, expected ${descriptor.$type}`, name)
+      }
+      values[name] = decodeField(issue, name, descriptor)
+    }
+    return values as ProjectFieldValues<T>
+  }
+
+  /**
+   * Build bodies of the custom fields for the issue update.
+   * @param values - Values of the custom fields.
+   * @returns Bodies of the custom fields with `$type` of the project fields.
+   */
+  public customFieldsBody(values: ProjectFieldInputs<T>): IssueCustomFieldUpdate[] {
+    return Object.entries(values)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => {
+        const descriptor = this.fields[name]
+        if (!descriptor) {
+          throw new CustomFieldError(`Custom field "${name}" is not found in the project fields`, name)
+        }
+        if ("values" in descriptor && descriptor.values && value !== null) {
+          for (const item of Array.isArray(value) ? value : [value]) {
+            if (!descriptor.values.includes(item)) {
+              throw new CustomFieldError(`"${item}" is not a value of custom field "${name}"`, name)
+            }
+          }
+        }
+        return fieldBody(descriptor.$type, name, value)
+      })
+  }
+}
+
+const fieldBody = <K extends ProjectFieldDescriptor["$type"]>($type: K, name: string, value: FieldInput<K>) =>
+  FIELD_BUILDERS[$type](name, value)
+
+const decodeField = (issue: WithCustomFields, name: string, descriptor: ProjectFieldDescriptor) => {
+  switch (descriptor.$type) {
+    case "MultiEnumIssueCustomField":
+    case "MultiVersionIssueCustomField":
+    case "MultiBuildIssueCustomField":
+    case "MultiOwnedIssueCustomField":
+    case "MultiGroupIssueCustomField":
+      return getEnumsField(issue, name) ?? []
+    case "MultiUserIssueCustomField":
+      return (getUsersField(issue, name) ?? []).map((user) => user.login)
+    case "SingleUserIssueCustomField":
+      return getUserField(issue, name)?.login ?? null
+    case "PeriodIssueCustomField":
+      return getPeriodField(issue, name) ?? null
+    case "DateIssueCustomField":
+      return getDateField(issue, name) ?? null
+    case "TextIssueCustomField":
+      return getTextField(issue, name) ?? null
+    case "SimpleIssueCustomField":
+      return descriptor.valueType === "date and time"
+        ? (getDateField(issue, name) ?? null)
+        : (getFieldValue(issue, name) ?? null)
+    default:
+      return getEnumField(issue, name) ?? null
+  }
+}
@@ -0,0 +1,51 @@
+import type { TimesheetOptions, TimesheetReport, TimesheetWorkItem } from "../types"
+import { aggregateWorkItems, formatSearchDate, TIMESHEET_WORK_ITEM_FIELDS } from "../utils"
+import type { YouTrack } from "../youtrack"
+
+export type TimesheetQuery = {
+  from?: Date | string // First date of the report (YYYY-MM-DD), inclusive
+  to?: Date | string // Last date of the report (YYYY-MM-DD), inclusive
+  authors?: string[] // Logins of the work item authors, "me" for the current user
+  query?: string // Search query of the issues, e.g. "project: DEMO"
+  pageSize?: number // Number of work items requested per page. Default: 100
+}
+
+const dateParam = (date?: Date | string) => (date instanceof Date ? formatSearchDate(date) : date)
+
+/**
+ * Fetches work items of the timesheet page by page.
+ * @param youtrack - YouTrack client.
+ * @param query - Date range, authors and search query of the issues.
+ * @returns Work items with the fields of `TIMESHEET_WORK_ITEM_FIELDS`.
+ */
+export const fetchTimesheetWorkItems = async (
+  youtrack: YouTrack,
+  query: TimesheetQuery = {},
+): Promise<TimesheetWorkItem[]> => {
+  const items: TimesheetWorkItem[] = []
+  const workItems = youtrack.WorkItems.iterateWorkItems({
+    fields: TIMESHEET_WORK_ITEM_FIELDS,
+    startDate: dateParam(query.from),
+    endDate: dateParam(query.to),
+    author: query.authors,
+    query: query.query,
+    pageSize: query.pageSize,
+  })
+  for await (const item of workItems) {
+    items.push(item)
+  }
+  return items
+}
+
+/**
+ * Fetches work items and aggregates them by user, day, week, issue, project, type and attribute values.
+ * @param youtrack - YouTrack client.
+ * @param query - Date range, authors and search query of the issues.
+ * @param options - First day of the week.
+ * @returns Timesheet report with totals in minutes.
+ */
+export const fetchTimesheet = async (
+  youtrack: YouTrack,
+  query: TimesheetQuery = {},
+  options: TimesheetOptions = {},
+): Promise<TimesheetReport> => aggregateWorkItems(await fetchTimesheetWorkItems(youtrack, query), options)
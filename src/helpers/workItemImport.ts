@@ -0,0 +1,317 @@
+import type { WorkItemRow, WorkItemRowError } from "../types"
+import {
+  DurationFormatError,
+  NotFoundError,
+  parseDuration,
+  RequestLimiter,
+  workItemRows,
+  workItemsCsv,
+  YouTrackError,
+} from "../utils"
+import type { DurationOptions } from "../utils"
+import type { YouTrack } from "../youtrack"
+import { fetchTimesheetWorkItems } from "./timesheet"
+import type { TimesheetQuery } from "./timesheet"
+import { WORK_TIME_SETTINGS_FIELDS } from "./workTime"
+
+export type WorkItemImportOptions = {
+  dryRun?: boolean // Only validate the rows, work items are not created
+  concurrency?: number // Maximum number of requests in flight. Default: 4
+  muteUpdateNotifications?: boolean // Do not send notifications on the changes
+  duration?: DurationOptions // Work time settings used to parse durations. Default: global work time settings
+}
+
+// Body of the work item resolved from the row
+export type WorkItemImportBody = {
+  date: number
+  duration: { minutes: number }
+  author?: { id: string }
+  type?: { id: string }
+  text?: string
+  attributes?: { id: string; value: { id: string } }[]
+}
+
+export type WorkItemImportItem = {
+  row: number // Index of the row in the imported rows
+  issue: string
+  body: WorkItemImportBody
+}
+
+export type WorkItemImportValidation = {
+  items: WorkItemImportItem[] // Rows without errors
+  errors: WorkItemRowError[]
+}
+
+export type WorkItemImportResult = WorkItemImportValidation & {
+  created: { row: number; id: string }[]
+  failed: { row: number; error: YouTrackError }[]
+}
+
+export type WorkItemExportOptions = {
+  format?: "csv" | "json" // Default: "csv"
+  duration?: DurationOptions // Work time settings used to format durations
+  separator?: string // Separator of the CSV cells. Default: ","
+}
+
+type CreateWorkItemBody = Parameters<YouTrack["IssueTimeTracking"]["createIssueWorkItem"]>[1]
+
+type ProjectTimeTracking = {
+  enabled: boolean
+  types: Map<string, string>
+  attributes: Map<string, { id: string; values: Map<string, string> }>
+}
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/
+
+const byName = <T extends { name?: string | null }>(items: T[] = []) =>
+  new Map(items.filter(({ name }) => name).map((item) => [item.name as string, item]))
+
+/**
+ * Requests each key once under the concurrency limit. Failed requests resolve to the YouTrack error.
+ * @param keys - Keys of the entities, duplicates are requested once.
+ * @param limiter - Concurrency limiter of the requests.
+ * @param load - Requests the entity by key.
+ * @returns Entities or errors by key.
+ */
+const loadAll = async <T>(keys: string[], limiter: RequestLimiter, load: (key: string) => Promise<T>) => {
+  const unique = [...new Set(keys)]
+  const results = await Promise.all(
+    unique.map((key) =>
+      limiter.schedule(() =>
+        load(key).catch((error) => {
+          if (error instanceof YouTrackError) {
+            return error
+          }
+          throw error
+        }),
+      ),
+    ),
+  )
+  return new Map(unique.map((key, index) => [key, results[index]]))
+}
+
+/**
+ * Resolves authors of the rows by login or full name. Users are scanned until every author is found by login,
+ * logins take precedence over full names of other users.
+ * @param youtrack - YouTrack client.
+ * @param authors - Logins or full names of the authors.
+ * @returns User ids by login or full name of the found authors.
+ */
+const loadUsers = async (youtrack: YouTrack, authors: Set<string>) => {
+  const users = new Map<string, string>()
+  const fullNames = new Map<string, string>()
+  for await (const user of youtrack.Users.iterateUsers({ fields: ["id", "login", "fullName"] })) {
+    if (user.login && authors.has(user.login)) {
+      users.set(user.login, user.id)
+    }
+    if (user.fullName && authors.has(user.fullName) && !fullNames.has(user.fullName)) {
+      fullNames.set(user.fullName, user.id)
+    }
+    if (users.size === authors.size) {
+      break
+    }
+  }
+  for (const [fullName, id] of fullNames) {
+    if (!users.has(fullName)) {
+      users.set(fullName, id)
+    }
+  }
+  return users
+}
+
+const loadDurationOptions = async (youtrack: YouTrack): Promise<DurationOptions> => {
+  const { minutesADay, workDays } = await youtrack.Admin.GlobalTimeTrackingSettings.getWorkTimeSettings({
+    fields: WORK_TIME_SETTINGS_FIELDS,
+  })
+  return { minutesADay, workDays }
+}
+
+const loadProjectTimeTracking = async (youtrack: YouTrack, projectId: string): Promise<ProjectTimeTracking> => {
+  const settings = await youtrack.Admin.Projects.getProjectTimeTrackingSettings(projectId, {
+    fields: ["enabled", { workItemTypes: ["id", "name"], attributes: ["id", "name", { values: ["id", "name"] }] }],
+  })
+  return {
+    enabled: settings.enabled,
+    types: new Map([...byName(settings.workItemTypes)].map(([name, { id }]) => [name, id])),
+    attributes: new Map(
+      [...byName(settings.attributes)].map(([name, { id, values }]) => [
+        name,
+        { id, values: new Map([...byName(values)].map(([value, { id }]) => [value, id])) },
+      ]),
+    ),
+  }
+}
+
+/**
+ * Validates rows of the work items import and resolves issues, authors, work item types and attribute values.
+ * Issues are requested by id, users by login or full name, types and attributes in the time tracking
+ * settings of the issue projects. Durations are parsed with the global work time settings unless specified.
+ * @param youtrack - YouTrack client.
+ * @param rows - Work item rows, e.g. from `parseWorkItemsCsv` or `parseWorkItemsJson`.
+ * @param options - Concurrency limit and work time settings used to parse durations.
+ * @returns Work items resolved from the valid rows and errors of the invalid rows.
+ */
+export const validateWorkItemImport = async (
+  youtrack: YouTrack,
+  rows: WorkItemRow[],
+  options: Pick<WorkItemImportOptions, "concurrency" | "duration"> = {},
+): Promise<WorkItemImportValidation> => {
+  const limiter = new RequestLimiter({ maxConcurrent: options.concurrency ?? 4 })
+  const issues = await loadAll(
+    rows.filter((row) => row.issue).map((row) => String(row.issue)),
+    limiter,
+    (issue) => youtrack.Issues.getIssueById(issue, { fields: ["id", { project: ["id", "shortName"] }] }),
+  )
+  const projectIds = [...issues.values()].flatMap((issue) =>
+    issue instanceof YouTrackError || !issue.project ? [] : [issue.project.id],
+  )
+  const projects = await loadAll(projectIds, limiter, (projectId) => loadProjectTimeTracking(youtrack, projectId))
+  const authors = new Set(rows.flatMap((row) => (row.author ? [row.author] : [])))
+  const users = authors.size ? await loadUsers(youtrack, authors) : new Map<string, string>()
+  const duration =
+    options.duration ??
+    (rows.some((row) => typeof row.duration === "string") ? await loadDurationOptions(youtrack) : undefined)
+
+  const result: WorkItemImportValidation = { items: [], errors: [] }
+  rows.forEach((row, index) => {
+    const errors: WorkItemRowError[] = []
+    const error = (field: keyof WorkItemRow, message: string) => errors.push({ row: index, field, message })
+    const body: WorkItemImportBody = { date: 0, duration: { minutes: 0 } }
+
+    const date = String(row.date ?? "")
+    body.date = Date.parse(`${date}T00:00:00Z`)
+    if (!DATE.test(date) || Number.isNaN(body.date)) {
+      error("date", `Invalid date "${date}", expected YYYY-MM-DD`)
+    }
+
+    try {
+      const minutes = typeof row.duration === "number" ? row.duration : parseDuration(row.duration ?? "", duration)
+      body.duration.minutes = minutes
+      if (!(minutes > 0)) {
+        error("duration", `Duration must be positive: "${row.duration}"`)
+      }
+    } catch (e) {
+      if (!(e instanceof DurationFormatError)) {
+        throw e
+      }
+      error("duration", e.message)
+    }
+
+    if (row.author) {
+      const author = users.get(row.author)
+      if (author) {
+        body.author = { id: author }
+      } else {
+        error("author", `User "${row.author}" is not found`)
+      }
+    }
+    if (row.text) {
+      body.text = row.text
+    }
+
+    const issue = row.issue ? issues.get(String(row.issue)) : undefined
+    if (!row.issue) {
+      error("issue", "Issue is required")
+    } else if (issue instanceof YouTrackError) {
+      error("issue", issue instanceof NotFoundError ? `Issue ${row.issue} is not found` : issue.message)
+    } else if (issue) {
+      const shortName = issue.project?.shortName
+      const project = issue.project ? projects.get(issue.project.id) : undefined
+      if (project instanceof YouTrackError) {
+        error("issue", `Time tracking settings of project ${shortName} are not available: ${project.message}`)
+      } else if (project && !project.enabled) {
+        error("issue", `Time tracking is disabled in project ${shortName}`)
+      } else if (project) {
+        if (row.type) {
+          const type = project.types.get(row.type)
+          if (type) {
+            body.type = { id: type }
+          } else {
+            error("type", `Work item type "${row.type}" is not used in project ${shortName}`)
+          }
+        }
+        for (const [name, value] of Object.entries(row.attributes ?? {})) {
+          const attribute = project.attributes.get(name)
+          const valueId = attribute?.values.get(value)
+          if (!attribute) {
+            error("attributes", `Attribute "${name}" is not found in project ${shortName}`)
+          } else if (!valueId) {
+            error("attributes", `Attribute "${name}" has no value "${value}"`)
+          } else {
+            body.attributes = [...(body.attributes ?? []), { id: attribute.id, value: { id: valueId } }]
+          }
+        }
+      }
+    }
+
+    if (errors.length) {
+      result.errors.push(...errors)
+    } else {
+      result.items.push({ row: index, issue: String(row.issue), body })
+    }
+  })
+  return result
+}
+
+/**
+ * Imports work items. All rows are validated first, no work items are created if any row has errors.
+ * Work items are created under the concurrency limit, errors of the requests are reported in the result.
+ * @param youtrack - YouTrack client.
+ * @param rows - Work item rows, e.g. from `parseWorkItemsCsv` or `parseWorkItemsJson`.
+ * @param options - Dry run, concurrency limit, notifications and work time settings used to parse durations.
+ * @returns Validation report, created and failed work items.
+ */
+export const importWorkItems = async (
+  youtrack: YouTrack,
+  rows: WorkItemRow[],
+  options: WorkItemImportOptions = {},
+): Promise<WorkItemImportResult> => {
+  const validation = await validateWorkItemImport(youtrack, rows, options)
+  const result: WorkItemImportResult = { ...validation, created: [], failed: [] }
+  if (options.dryRun || validation.errors.length) {
+    return result
+  }
+
+  const limiter = new RequestLimiter({ maxConcurrent: options.concurrency ?? 4 })
+  const params = options.muteUpdateNotifications ? { muteUpdateNotifications: true } : {}
+  await Promise.all(
+    validation.items.map(({ row, issue, body }) =>
+      limiter
+        .schedule(() =>
+          // References that can be null (author, type) are not partial in the body type of the resource
+          youtrack.IssueTimeTracking.createIssueWorkItem(issue, body as CreateWorkItemBody, {
+            fields: ["id"],
+            ...params,
+          }),
+        )
+        .then(
+          ({ id }) => {
+            result.created.push({ row, id })
+          },
+          (error) => {
+            if (!(error instanceof YouTrackError)) {
+              throw error
+            }
+            result.failed.push({ row, error })
+          },
+        ),
+    ),
+  )
+  return result
+}
+
+/**
+ * Exports work items in the import format.
+ * @param youtrack - YouTrack client.
+ * @param query - Date range, authors and search query of the issues.
+ * @param options - Format (CSV or JSON), work time settings used to format durations and CSV separator.
+ * @returns CSV or JSON string.
+ */
+export const exportWorkItems = async (
+  youtrack: YouTrack,
+  query: TimesheetQuery = {},
+  options: WorkItemExportOptions = {},
+): Promise<string> => {
+  const rows = workItemRows(await fetchTimesheetWorkItems(youtrack, query), options.duration)
+  return options.format === "json" ? JSON.stringify(rows, null, 2) : workItemsCsv(rows, options.separator)
+}
@@ -0,0 +1,29 @@
+import type { WorkTimeAnalysis, WorkTimeAnalysisOptions } from "../types"
+import { analyzeWorkTime } from "../utils"
+import type { YouTrack } from "../youtrack"
+import { fetchTimesheet } from "./timesheet"
+import type { TimesheetQuery } from "./timesheet"
+
+export type WorkTimeAnalysisQuery = WorkTimeAnalysisOptions & Pick<TimesheetQuery, "query" | "pageSize">
+
+export const WORK_TIME_SETTINGS_FIELDS = "minutesADay,workDays,firstDayOfWeek"
+
+/**
+ * Fetches the global work time settings and work items of the period and compares the logged time
+ * of the users with the expected time.
+ * @param youtrack - YouTrack client.
+ * @param options - Period, users (work items of other users are not requested), issues query and tolerance.
+ * @returns Expected and logged time of each user by day and week with gaps, overtime and work on non-working days.
+ */
+export const fetchWorkTimeAnalysis = async (
+  youtrack: YouTrack,
+  options: WorkTimeAnalysisQuery,
+): Promise<WorkTimeAnalysis> => {
+  const { from, to, users, query, pageSize } = options
+  const settings = await youtrack.Admin.GlobalTimeTrackingSettings.getWorkTimeSettings({
+    fields: WORK_TIME_SETTINGS_FIELDS,
+  })
+  const firstDayOfWeek = options.firstDayOfWeek ?? settings.firstDayOfWeek
+  const report = await fetchTimesheet(youtrack, { from, to, authors: users, query, pageSize }, { firstDayOfWeek })
+  return analyzeWorkTime(report, settings, { ...options, firstDayOfWeek })
+}
@@ -2,3 +2,4 @@ export * from "./youtrack"
 export * from "./resources"
 export * from "./types"
 export * from "./utils"
+export * from "./helpers"
@@ -2,12 +2,16 @@ import type {
   ActivityCategory,
   ActivityCursorPage,
   ActivityItem,
+  ActivityItemOf,
+  ActivityStreamParams,
   Entity,
   FieldsParam,
   ListParams,
   Schema,
+  RequestOptions,
 } from "../types"
-import { fields, queryParams, RequestBuilder } from "../utils"
+import { activitiesPageFields, activityStream, fields, queryParams, RequestBuilder } from "../utils"
+import type { ActivityPage } from "../utils"
 import { ResourceApi } from "./common"
 
 type ActivityItemSchema = Schema<ActivityItem>
@@ -15,6 +19,10 @@ type ActivityCursorPageSchema = Schema<ActivityCursorPage>
 
 type ActivityItemEntity<TSchema extends ActivityItemSchema> = Entity<ActivityItem, TSchema>
 type ActivityCursorPageEntity<TSchema extends ActivityCursorPageSchema> = Entity<ActivityCursorPage, TSchema>
+type ActivityItemOfEntity<TCategory extends ActivityCategory, TSchema extends ActivityItemSchema> = Entity<
+  ActivityItemOf<TCategory>,
+  TSchema
+>
 
 type GetActivitiesParams = {
   categories?: ActivityCategory[]
@@ -47,10 +55,12 @@ export class ActivitiesApi extends ResourceApi {
    * @param params.end - Timestamp in milliseconds indicating the end of the time interval. If not set, defaults to Long.MAX_VALUE.
    * @param params.author - Filters activities by author. Can be specified as the database ID, login, Hub ID, or "me" for the currently logged in user.
    * @param params.issueQuery - Issue search query to filter activities related to specific issues.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A list of activities matching the specified criteria.
    */
   async getActivities<TSchema extends ActivityItemSchema>(
     params?: ListParams & FieldsParam<TSchema> & GetActivitiesParams,
+    options?: RequestOptions,
   ): Promise<ActivityItemEntity<TSchema>[]> {
     return this.youtrack.fetch<ActivityItemEntity<TSchema>[]>(
       new RequestBuilder(
@@ -60,6 +70,7 @@ export class ActivitiesApi extends ResourceApi {
           ...queryParams("$skip", "$top", "reverse", "categories", "author", "start", "end", "issueQuery"),
         },
         params,
+        options,
       ).get(),
     )
   }
@@ -69,14 +80,16 @@ export class ActivitiesApi extends ResourceApi {
    * @param itemId - The ID of the activity item to retrieve.
    * @param params - Optional parameters for the request.
    * @param params.fields - A list of ActivityItem attributes to include in the response. If not specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The details of the specified activity item.
    */
   async getActivityById<TSchema extends ActivityItemSchema>(
     itemId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ActivityItemEntity<TSchema>> {
     return this.youtrack.fetch<ActivityItemEntity<TSchema>>(
-      new RequestBuilder(`api/activities/${itemId}`, { fields }, params).get(),
+      new RequestBuilder(`api/activities/${itemId}`, { fields }, params, options).get(),
     )
   }
 
@@ -92,10 +105,12 @@ export class ActivitiesApi extends ResourceApi {
    * @param params.issueQuery - Filters activities related to specific issues using a search query.
    * @param params.cursor - Used for pagination. Indicates the position in the activity collection to start the next page. Cursors should be taken from previous responses.
    * @param params.activityId - ID of an activity to be included in the middle of the page. Helps to start the page from a specific activity.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A page of activities with pagination support, including cursors for navigation.
    */
   async getActivitiesPage<TSchema extends ActivityCursorPageSchema>(
     params?: GetActivitiesPageParams & FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ActivityCursorPageEntity<TSchema>> {
     // Perform the fetch request
     return this.youtrack.fetch<ActivityCursorPageEntity<TSchema>>(
@@ -106,7 +121,54 @@ export class ActivitiesApi extends ResourceApi {
           ...queryParams("categories", "reverse", "author", "start", "end", "issueQuery", "cursor", "activityId"),
         },
         params,
+        options,
       ).get(),
     )
   }
+
+  /**
+   * Iterate over activities page by page using cursors of the activity pages.
+   * Activities are narrowed to the types of the requested categories.
+   * @param params - Parameters for the request.
+   * @param params.fields - A list of ActivityItem attributes to include in the response. If not specified, only the entityID is returned.
+   * @param params.categories - Mandatory. Filters returned activities by one or more categories. At least one category must be specified.
+   * @param params.reverse - Indicates whether the order of returned activities is from newest to oldest (true) or oldest to newest (false). Default is false.
+   * @param params.start - Timestamp in milliseconds indicating the start of the time interval. Defaults to 0 if not provided.
+   * @param params.end - Timestamp in milliseconds indicating the end of the time interval. Defaults to Long.MAX_VALUE if not provided.
+   * @param params.author - Filters activities by author. Can be specified as the database ID, login, Hub ID, or "me" for the currently logged in user.
+   * @param params.issueQuery - Filters activities related to specific issues using a search query.
+   * @param params.activityId - ID of an activity to start the first page from.
+   * @param params.direction - Follow the next pages ("forward") or the previous pages ("backward"). Default is "forward".
+   * @param params.cursor - Cursor of the first page, e.g. persisted from the previous run.
+   * @param params.onCursor - Called with the cursor to resume from when all activities of the page are consumed.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of activities.
+   */
+  iterateActivities<TSchema extends ActivityItemSchema, TCategory extends ActivityCategory>(
+    params: GetActivitiesPageParams &
+      ActivityStreamParams &
+      FieldsParam<TSchema> & {
+        categories: TCategory[]
+      },
+    options?: RequestOptions,
+  ): AsyncGenerator<ActivityItemOfEntity<TCategory, TSchema>> {
+    const { direction, cursor, onCursor, fields: schema, activityId, ...rest } = params
+    const pageFields = activitiesPageFields(schema)
+
+    return activityStream(
+      (cursor, reverse) =>
+        this.youtrack.fetch<ActivityPage<ActivityItemOfEntity<TCategory, TSchema>>>(
+          new RequestBuilder(
+            "api/activitiesPage",
+            {
+              fields,
+              ...queryParams("categories", "reverse", "author", "start", "end", "issueQuery", "cursor", "activityId"),
+            },
+            { ...rest, ...(cursor ? { cursor } : { activityId }), ...(reverse && { reverse }), fields: pageFields },
+            options,
+          ).get(),
+        ),
+      { direction, cursor, onCursor },
+    )
+  }
 }
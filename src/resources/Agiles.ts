@@ -1,5 +1,15 @@
-import type { Agile, Sprint, Entity, FieldsParam, ListParams, Schema, DeepPartial } from "../types"
-import { RequestBuilder, fields } from "../utils"
+import type {
+  Agile,
+  Sprint,
+  Entity,
+  FieldsParam,
+  ListParams,
+  Schema,
+  DeepPartial,
+  PaginationParams,
+  RequestOptions,
+} from "../types"
+import { RequestBuilder, fields, paginate } from "../utils"
 import { ResourceApi } from "./common"
 
 type AgileSchema = Schema<Agile> | undefined
@@ -23,30 +33,50 @@ export class AgilesApi extends ResourceApi {
    * @param params.fields - A list of Agile attributes that should be returned in the response. If no field is specified, only the entityID is returned.
    * @param params.$skip - Optional. Lets you set a number of returned entities to skip before returning the first one.
    * @param params.$top - Optional. Lets you specify the maximum number of entries that are returned in the response. If you don't set the $top value, the server limits the maximum number of returned entries.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The list of all available agile boards
    */
   async getAgiles<TSchema extends AgileSchema = undefined>(
     params?: ListParams & FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<AgileEntity<TSchema>[]> {
     return this.youtrack.fetch<AgileEntity<TSchema>[]>(
-      new RequestBuilder("api/agiles", { fields, $skip: "number", $top: "number" }, params).get(),
+      new RequestBuilder("api/agiles", { fields, $skip: "number", $top: "number" }, params, options).get(),
     )
   }
 
+  /**
+   * Iterate over all agile boards. Boards are requested page by page.
+   * @param params - Optional parameters for the request.
+   * @param params.fields - A list of Agile attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of agile boards.
+   */
+  iterateAgiles<TSchema extends AgileSchema>(
+    params?: PaginationParams & FieldsParam<TSchema>,
+    options?: RequestOptions,
+  ): AsyncGenerator<AgileEntity<TSchema>> {
+    return paginate((page) => this.getAgiles<TSchema>({ ...params, ...page }, options), params)
+  }
+
   /**
    * Create a new agile board
    * @param body - Body with required fields: name, projects (id - Ids of the project that need to be associated with the board).
    * @param params - Optional parameters for the request.
    * @param params.fields - A list of Agile attributes that should be returned in the response. If no field is specified, only the entityID is returned.
    * @param params.template - The name of the board template that should be used. Possible values: kanban, scrum, version, custom, personal.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The created agile board.
    */
   async createAgile<TSchema extends AgileSchema>(
     body: Omit<Agile, "id">,
     params?: AgileTemplateParam & FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<AgileEntity<TSchema>[]> {
     return this.youtrack.fetch<AgileEntity<TSchema>[]>(
-      new RequestBuilder("api/agiles", { fields, template: "string" }, params).post(body),
+      new RequestBuilder("api/agiles", { fields, template: "string" }, params, options).post(body),
     )
   }
 
@@ -55,14 +85,16 @@ export class AgilesApi extends ResourceApi {
    * @param agileId - The ID of the agile board.
    * @param params - Optional parameters for the request.
    * @param params.fields - A list of Agile attributes to include in the response. If not specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The settings of the specified agile board.
    */
   async getAgileById<TSchema extends AgileSchema>(
     agileId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<AgileEntity<TSchema>> {
     return this.youtrack.fetch<AgileEntity<TSchema>>(
-      new RequestBuilder(`api/agiles/${agileId}`, { fields }, params).get(),
+      new RequestBuilder(`api/agiles/${agileId}`, { fields }, params, options).get(),
     )
   }
 
@@ -72,15 +104,17 @@ export class AgilesApi extends ResourceApi {
    * @param body - The updated settings for the agile board, excluding the Id.
    * @param params - Optional parameters for the request.
    * @param params.fields - A list of Agile attributes to include in the response. If not specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The updated settings of the specified agile board.
    */
   async updateAgile<TSchema extends AgileSchema>(
     agileId: string,
     body: DeepPartial<Agile>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<AgileEntity<TSchema>> {
     return this.youtrack.fetch<AgileEntity<TSchema>>(
-      new RequestBuilder(`api/agiles/${agileId}`, { fields }, params).post(body),
+      new RequestBuilder(`api/agiles/${agileId}`, { fields }, params, options).post(body),
     )
   }
 
@@ -89,14 +123,16 @@ export class AgilesApi extends ResourceApi {
    * @param agileId - The Id of the agile board.
    * @param params - Optional parameters including fields.
    * @param params.fields - A list of Agile attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The deleted agile board information.
    */
   async deleteAgile<TSchema extends AgileSchema>(
     agileId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<AgileEntity<TSchema>> {
     return this.youtrack.fetch<AgileEntity<TSchema>>(
-      new RequestBuilder(`api/agiles/${agileId}`, { fields }, params).delete(),
+      new RequestBuilder(`api/agiles/${agileId}`, { fields }, params, options).delete(),
     )
   }
   /**
@@ -106,17 +142,42 @@ export class AgilesApi extends ResourceApi {
    * @param params.fields - A list of Agile attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$skip - The number of entries to skip in the response. Useful for pagination.
    * @param params.$top - The maximum number of entries to return. If not specified, the server limits the number of entries returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The list of sprints for the specified agile board.
    */
   async getAgileSprints<TSchema extends SprintSchema>(
     agileId: string,
     params?: ListParams & FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<SprintEntity<TSchema>[]> {
     return this.youtrack.fetch<SprintEntity<TSchema>[]>(
-      new RequestBuilder(`api/agiles/${agileId}/sprints`, { fields, $skip: "number", $top: "number" }, params).get(),
+      new RequestBuilder(
+        `api/agiles/${agileId}/sprints`,
+        { fields, $skip: "number", $top: "number" },
+        params,
+        options,
+      ).get(),
     )
   }
 
+  /**
+   * Iterate over all sprints of the agile board. Sprints are requested page by page.
+   * @param agileID - The ID of the agile board.
+   * @param params - Optional parameters including fields, $skip, and $top for pagination.
+   * @param params.fields - A list of Agile attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of sprints of the agile board.
+   */
+  iterateAgileSprints<TSchema extends SprintSchema>(
+    agileId: string,
+    params?: PaginationParams & FieldsParam<TSchema>,
+    options?: RequestOptions,
+  ): AsyncGenerator<SprintEntity<TSchema>> {
+    return paginate((page) => this.getAgileSprints<TSchema>(agileId, { ...params, ...page }, options), params)
+  }
+
   /**
    * Create a new sprint for the specified agile board.
    * @param agileID - The ID of the agile board.
@@ -124,17 +185,22 @@ export class AgilesApi extends ResourceApi {
    * @param params - Optional parameters for the request.
    * @param params.fields - Optional. A list of Sprint attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.muteUpdateNotifications - Optional. Set this parameter to true if no notifications should be sent on changes made by this request.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The created sprint.
    */
   async createAgileSprint<TSchema extends SprintSchema>(
     agileId: string,
     body: { name: string } | DeepPartial<Sprint>, // Required field: name
     params?: FieldsParam<TSchema> & { muteUpdateNotifications?: boolean },
+    options?: RequestOptions,
   ): Promise<SprintEntity<TSchema>> {
     return this.youtrack.fetch<SprintEntity<TSchema>>(
-      new RequestBuilder(`api/agiles/${agileId}/sprints`, { fields, muteUpdateNotifications: "boolean" }, params).post(
-        body,
-      ),
+      new RequestBuilder(
+        `api/agiles/${agileId}/sprints`,
+        { fields, muteUpdateNotifications: "boolean" },
+        params,
+        options,
+      ).post(body),
     )
   }
 
@@ -144,15 +210,17 @@ export class AgilesApi extends ResourceApi {
    * @param sprintId - The Id of the sprint or "current" for the current sprint.
    * @param params - Optional parameters for the request.
    * @param params.fields - Optional. A list of Sprint attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The settings of the specified sprint.
    */
   async getAgileSprintById<TSchema extends SprintSchema>(
     agileId: string,
     sprintId: string | "current",
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<SprintEntity<TSchema>> {
     return this.youtrack.fetch<SprintEntity<TSchema>>(
-      new RequestBuilder(`api/agiles/${agileId}/sprints/${sprintId}`, { fields }, params).get(),
+      new RequestBuilder(`api/agiles/${agileId}/sprints/${sprintId}`, { fields }, params, options).get(),
     )
   }
 
@@ -162,15 +230,17 @@ export class AgilesApi extends ResourceApi {
    * @param sprintId - The Id of the sprint to be deleted.
    * @param params - Optional parameters for the request.
    * @param params.fields - Optional. A list of Sprint attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The deleted sprint information.
    */
   async deleteAgileSprint<TSchema extends SprintSchema>(
     agileId: string,
     sprintId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<SprintEntity<TSchema>> {
     return this.youtrack.fetch<SprintEntity<TSchema>>(
-      new RequestBuilder(`api/agiles/${agileId}/sprints/${sprintId}`, { fields }, params).delete(),
+      new RequestBuilder(`api/agiles/${agileId}/sprints/${sprintId}`, { fields }, params, options).delete(),
     )
   }
 
@@ -181,6 +251,7 @@ export class AgilesApi extends ResourceApi {
    * @param body - The updated sprint details excluding the Id.
    * @param params - Optional parameters for the request.
    * @param params.fields - A list of Sprint attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The updated sprint information.
    */
   async updateAgileSprint<TSchema extends SprintSchema>(
@@ -188,9 +259,10 @@ export class AgilesApi extends ResourceApi {
     sprintId: string | "current",
     body: DeepPartial<Sprint>, // Body contains the updated sprint settings
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<SprintEntity<TSchema>> {
     return this.youtrack.fetch<SprintEntity<TSchema>>(
-      new RequestBuilder(`api/agiles/${agileId}/sprints/${sprintId}`, { fields }, params).post(body),
+      new RequestBuilder(`api/agiles/${agileId}/sprints/${sprintId}`, { fields }, params, options).post(body),
     )
   }
 }
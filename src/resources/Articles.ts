@@ -10,8 +10,10 @@ import type {
   Reaction,
   Schema,
   Tag,
+  PaginationParams,
+  RequestOptions,
 } from "../types"
-import { fields, queryParams, RequestBuilder } from "../utils"
+import { fields, queryParams, RequestBuilder, paginate } from "../utils"
 import { ResourceApi } from "./common"
 
 type ArticleSchema = Schema<Article>
@@ -36,32 +38,54 @@ export class ArticlesApi extends ResourceApi {
    * @param params.fields - A list of Article attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$top - Optional. Specifies the maximum number of entries that are returned in the response.
    * @param params.$skip - Optional. Specifies the number of returned entities to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The list of articles.
    */
   async getArticles<TSchema extends ArticleSchema>(
     params?: ListParams & FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ArticleEntity<TSchema>[]> {
     return this.youtrack.fetch<ArticleEntity<TSchema>[]>(
-      new RequestBuilder("api/articles", { fields, ...queryParams("$top", "$skip") }, params).get(),
+      new RequestBuilder("api/articles", { fields, ...queryParams("$top", "$skip") }, params, options).get(),
     )
   }
 
+  /**
+   * Iterate over all articles. Articles are requested page by page.
+   * @param params.fields - A list of Article attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of articles.
+   */
+  iterateArticles<TSchema extends ArticleSchema>(
+    params?: PaginationParams & FieldsParam<TSchema>,
+    options?: RequestOptions,
+  ): AsyncGenerator<ArticleEntity<TSchema>> {
+    return paginate((page) => this.getArticles<TSchema>({ ...params, ...page }, options), params)
+  }
+
   /**
    * Creates a new article.
    * @param body - Required fields: id (the database ID of the article to be linked as a sub-article).
    * @param params.fields - A list of Article attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.draftId - ID of a draft to publish as a new article. If no draftId is provided, the article is created from scratch. In this case, you must specify the project in the request payload.
    * @param params.muteUpdateNotifications - Set to true if no notifications should be sent on changes made by this request.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The created article.
    */
   async createArticle<TSchema extends ArticleSchema>(
     body: { id: string } | Partial<Article>,
     params?: FieldsParam<TSchema> & MuteUpdateNotificationsParam & { draftId?: string },
+    options?: RequestOptions,
   ): Promise<ArticleEntity<TSchema>> {
     return this.youtrack.fetch<ArticleEntity<TSchema>>(
-      new RequestBuilder("api/articles", { fields, ...queryParams("muteUpdateNotifications", "draftId") }, params).post(
-        body,
-      ),
+      new RequestBuilder(
+        "api/articles",
+        { fields, ...queryParams("muteUpdateNotifications", "draftId") },
+        params,
+        options,
+      ).post(body),
     )
   }
 
@@ -69,14 +93,16 @@ export class ArticlesApi extends ResourceApi {
    * Reads an article with a specific ID.
    * @param articleId - ID of the article. You can specify either the database ID (for example, 226-0) or the article ID in the project (for example, NP-A-1).
    * @param params.fields - A list of Article attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The requested article.
    */
   async getArticle<TSchema extends ArticleSchema>(
     articleId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ArticleEntity<TSchema>> {
     return this.youtrack.fetch<ArticleEntity<TSchema>>(
-      new RequestBuilder(`api/articles/${articleId}`, { fields }, params).get(),
+      new RequestBuilder(`api/articles/${articleId}`, { fields }, params, options).get(),
     )
   }
 
@@ -86,15 +112,22 @@ export class ArticlesApi extends ResourceApi {
    * @param body - The updated article data.
    * @param params.fields - A list of Article attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.muteUpdateNotifications - Set this parameter to true if no notifications should be sent on changes made by this request. This doesn't mute notifications sent by any workflow rules. Using this parameter requires Apply Commands Silently permission in all projects affected by the request.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The updated article.
    */
   async updateArticle<TSchema extends ArticleSchema>(
     articleId: string,
     body: DeepPartial<Article>,
     params?: FieldsParam<TSchema> & MuteUpdateNotificationsParam,
+    options?: RequestOptions,
   ): Promise<ArticleEntity<TSchema>> {
     return this.youtrack.fetch<ArticleEntity<TSchema>>(
-      new RequestBuilder(`api/articles/${articleId}`, { fields, muteUpdateNotifications: "string" }, params).post(body),
+      new RequestBuilder(
+        `api/articles/${articleId}`,
+        { fields, muteUpdateNotifications: "string" },
+        params,
+        options,
+      ).post(body),
     )
   }
 
@@ -102,14 +135,16 @@ export class ArticlesApi extends ResourceApi {
    * Deletes an article. Note that this operation cannot be undone.
    * @param articleId - ID of the article. You can specify either the database ID (for example, 226-0) or the article ID in the project (for example, NP-A-1).
    * @param params.fields - A list of Article attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The deleted article.
    */
   async deleteArticle<TSchema extends ArticleSchema>(
     articleId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ArticleEntity<TSchema>> {
     return this.youtrack.fetch<ArticleEntity<TSchema>>(
-      new RequestBuilder(`api/articles/${articleId}`, { fields }, params).delete(),
+      new RequestBuilder(`api/articles/${articleId}`, { fields }, params, options).delete(),
     )
   }
 
@@ -119,39 +154,62 @@ export class ArticlesApi extends ResourceApi {
    * @param params.fields - A list of ArticleAttachment attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$top - Optional. Specifies the maximum number of entries that are returned in the response.
    * @param params.$skip - Optional. Specifies the number of returned entities to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The list of attachments for the specified article.
    */
   async getArticleAttachments<TSchema extends ArticleAttachmentSchema>(
     articleId: string,
     params?: ListParams & FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ArticleAttachmentEntity<TSchema>[]> {
     return this.youtrack.fetch<ArticleAttachmentEntity<TSchema>[]>(
       new RequestBuilder(
         `api/articles/${articleId}/attachments`,
         { fields, ...queryParams("$top", "$skip") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all attachments of the article. Attachments are requested page by page.
+   * @param articleId - ID of the article. You can specify either the database ID (for example, 226-0) or the article ID in the project (for example, NP-A-1).
+   * @param params.fields - A list of ArticleAttachment attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of attachments of the article.
+   */
+  iterateArticleAttachments<TSchema extends ArticleAttachmentSchema>(
+    articleId: string,
+    params?: PaginationParams & FieldsParam<TSchema>,
+    options?: RequestOptions,
+  ): AsyncGenerator<ArticleAttachmentEntity<TSchema>> {
+    return paginate((page) => this.getArticleAttachments<TSchema>(articleId, { ...params, ...page }, options), params)
+  }
+
   /**
    * Adds an attachment to the article.
    * @param articleId - ID of the article to which the attachment will be added. You can specify either the database ID (for example, 226-0) or the article ID in the project (for example, NP-A-1).
    * @param body - A FormData object with attachment data.
    * @param params.fields - A list of ArticleAttachment attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.muteUpdateNotifications - Set to true if no notifications should be sent on changes made by this request.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The added attachment.
    */
   async createArticleAttachment<TSchema extends ArticleAttachmentSchema>(
     articleId: string,
     body: FormData,
     params?: FieldsParam<TSchema> & MuteUpdateNotificationsParam,
+    options?: RequestOptions,
   ): Promise<ArticleAttachmentEntity<TSchema>> {
     return this.youtrack.fetch<ArticleAttachmentEntity<TSchema>>(
       new RequestBuilder(
         `api/articles/${articleId}/attachments`,
         { fields, muteUpdateNotifications: "string" },
         params,
+        options,
       ).postFile(body),
     )
   }
@@ -161,15 +219,17 @@ export class ArticlesApi extends ResourceApi {
    * @param articleId - ID of the article. You can specify either the database ID (for example, 226-0) or the article ID in the project (for example, NP-A-1).
    * @param attachmentId - The database ID of the attachment.
    * @param params.fields - A list of ArticleAttachment attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The requested article attachment.
    */
   async getArticleAttachment<TSchema extends ArticleAttachmentSchema>(
     articleId: string,
     attachmentId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ArticleAttachmentEntity<TSchema>> {
     return this.youtrack.fetch<ArticleAttachmentEntity<TSchema>>(
-      new RequestBuilder(`api/articles/${articleId}/attachments/${attachmentId}`, { fields }, params).get(),
+      new RequestBuilder(`api/articles/${articleId}/attachments/${attachmentId}`, { fields }, params, options).get(),
     )
   }
 
@@ -179,6 +239,7 @@ export class ArticlesApi extends ResourceApi {
    * @param attachmentId - The database ID of the attachment.
    * @param body - The fields of the attachment to update.
    * @param params.fields - A list of ArticleAttachment attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The updated article attachment.
    */
   async updateArticleAttachment<TSchema extends ArticleAttachmentSchema>(
@@ -186,9 +247,12 @@ export class ArticlesApi extends ResourceApi {
     attachmentId: string,
     body: DeepPartial<ArticleAttachment>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ArticleAttachmentEntity<TSchema>> {
     return this.youtrack.fetch<ArticleAttachmentEntity<TSchema>>(
-      new RequestBuilder(`api/articles/${articleId}/attachments/${attachmentId}`, { fields }, params).post(body),
+      new RequestBuilder(`api/articles/${articleId}/attachments/${attachmentId}`, { fields }, params, options).post(
+        body,
+      ),
     )
   }
 
@@ -197,15 +261,17 @@ export class ArticlesApi extends ResourceApi {
    * @param articleId - ID of the article. You can specify either the database ID (for example, 226-0) or the article ID in the project (for example, NP-A-1).
    * @param attachmentId - The database ID of the attachment.
    * @param params.fields - A list of ArticleAttachment attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The deleted article attachment.
    */
   async deleteArticleAttachment<TSchema extends ArticleAttachmentSchema>(
     articleId: string,
     attachmentId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<void> {
     return this.youtrack.fetch<void>(
-      new RequestBuilder(`api/articles/${articleId}/attachments/${attachmentId}`, { fields }, params).delete(),
+      new RequestBuilder(`api/articles/${articleId}/attachments/${attachmentId}`, { fields }, params, options).delete(),
     )
   }
 
@@ -215,39 +281,62 @@ export class ArticlesApi extends ResourceApi {
    * @param params.fields - A list of Article attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$top - Optional. Specifies the maximum number of entries that are returned in the response.
    * @param params.$skip - Optional. Specifies the number of returned entities to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The list of sub-articles.
    */
   async getChildArticles<TSchema extends ArticleSchema>(
     articleId: string,
     params?: ListParams & FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ArticleEntity<TSchema>[]> {
     return this.youtrack.fetch<ArticleEntity<TSchema>[]>(
       new RequestBuilder(
         `api/articles/${articleId}/childArticles`,
         { fields, ...queryParams("$top", "$skip") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all sub-articles of the article. Articles are requested page by page.
+   * @param articleId - ID of the parent article. You can specify either the database ID (for example, 226-0) or the article ID in the project (for example, NP-A-1).
+   * @param params.fields - A list of Article attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of sub-articles of the article.
+   */
+  iterateChildArticles<TSchema extends ArticleSchema>(
+    articleId: string,
+    params?: PaginationParams & FieldsParam<TSchema>,
+    options?: RequestOptions,
+  ): AsyncGenerator<ArticleEntity<TSchema>> {
+    return paginate((page) => this.getChildArticles<TSchema>(articleId, { ...params, ...page }, options), params)
+  }
+
   /**
    * Adds a new sub-article to the current article.
    * @param articleId - ID of the parent article. You can specify either the database ID (for example, 226-0) or the article ID in the project (for example, NP-A-1).
    * @param body - Contains the ID of the sub-article to be linked.
    * @param params.fields - A list of Article attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.muteUpdateNotifications - Optional. Set to true to mute notifications sent on changes made by this request.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The updated parent article with the sub-article.
    */
   async addChildArticle<TSchema extends ArticleSchema>(
     articleId: string,
     body: { id: string } | Partial<Article>,
     params?: FieldsParam<TSchema> & MuteUpdateNotificationsParam,
+    options?: RequestOptions,
   ): Promise<ArticleEntity<TSchema>> {
     return this.youtrack.fetch<ArticleEntity<TSchema>>(
       new RequestBuilder(
         `api/articles/${articleId}/childArticles`,
         { fields, ...queryParams("muteUpdateNotifications") },
         params,
+        options,
       ).post(body),
     )
   }
@@ -257,15 +346,17 @@ export class ArticlesApi extends ResourceApi {
    * @param articleId - Id of the parent article. You can specify either the database ID (for example, 226-0) or the article ID in the project (for example, NP-A-1).
    * @param subArticleId - Id of the sub-article to retrieve.
    * @param params.fields - A list of Article attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The requested sub-article.
    */
   async getChildArticle<TSchema extends ArticleSchema>(
     articleId: string,
     subArticleId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ArticleEntity<TSchema>> {
     return this.youtrack.fetch<ArticleEntity<TSchema>>(
-      new RequestBuilder(`api/articles/${articleId}/childArticles/${subArticleId}`, { fields }, params).get(),
+      new RequestBuilder(`api/articles/${articleId}/childArticles/${subArticleId}`, { fields }, params, options).get(),
     )
   }
 
@@ -276,6 +367,7 @@ export class ArticlesApi extends ResourceApi {
    * @param body - The updated sub-article content.
    * @param params.fields - A list of Article attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.muteUpdateNotifications - Set to true if no notifications should be sent on changes made by this request.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The updated sub-article.
    */
   async updateChildArticle<TSchema extends ArticleSchema>(
@@ -283,12 +375,14 @@ export class ArticlesApi extends ResourceApi {
     subArticleId: string,
     body: DeepPartial<Article>,
     params?: FieldsParam<TSchema> & MuteUpdateNotificationsParam,
+    options?: RequestOptions,
   ): Promise<ArticleEntity<TSchema>> {
     return this.youtrack.fetch<ArticleEntity<TSchema>>(
       new RequestBuilder(
         `api/articles/${articleId}/childArticles/${subArticleId}`,
         { fields, muteUpdateNotifications: "boolean" },
         params,
+        options,
       ).post(body),
     )
   }
@@ -299,15 +393,22 @@ export class ArticlesApi extends ResourceApi {
    * @param articleId - ID of the parent article. You can specify either the database ID (for example, 226-0) or the article ID in the project (for example, NP-A-1).
    * @param subArticleId - ID of the sub-article to unlink.
    * @param params.fields - A list of Article attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The unlinked sub-article entity.
    */
   async removeChildArticleLink<TSchema extends ArticleSchema>(
     articleId: string,
     subArticleId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ArticleEntity<TSchema>> {
     return this.youtrack.fetch<ArticleEntity<TSchema>>(
-      new RequestBuilder(`api/articles/${articleId}/childArticles/${subArticleId}`, { fields }, params).delete(),
+      new RequestBuilder(
+        `api/articles/${articleId}/childArticles/${subArticleId}`,
+        { fields },
+        params,
+        options,
+      ).delete(),
     )
   }
 
@@ -317,21 +418,41 @@ export class ArticlesApi extends ResourceApi {
    * @param params.fields - A list of ArticleComment attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$top - Optional. Specifies the maximum number of entries that are returned in the response.
    * @param params.$skip - Optional. Specifies the number of returned entities to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The list of article comments.
    */
   async getArticleComments<TSchema extends ArticleCommentSchema>(
     articleId: string,
     params?: ListParams & FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ArticleCommentEntity<TSchema>[]> {
     return this.youtrack.fetch<ArticleCommentEntity<TSchema>[]>(
       new RequestBuilder(
         `api/articles/${articleId}/comments`,
         { fields, ...queryParams("$top", "$skip") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all comments of the article. Comments are requested page by page.
+   * @param articleId - ID of the article. You can specify either the database ID (for example, 226-0) or the article ID in the project (for example, NP-A-1).
+   * @param params.fields - A list of ArticleComment attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of comments of the article.
+   */
+  iterateArticleComments<TSchema extends ArticleCommentSchema>(
+    articleId: string,
+    params?: PaginationParams & FieldsParam<TSchema>,
+    options?: RequestOptions,
+  ): AsyncGenerator<ArticleCommentEntity<TSchema>> {
+    return paginate((page) => this.getArticleComments<TSchema>(articleId, { ...params, ...page }, options), params)
+  }
+
   /**
    * Adds a new comment to the article.
    * @param articleId - ID of the article. You can specify either the database ID (for example, 226-0) or the article ID in the project (for example, NP-A-1).
@@ -339,18 +460,21 @@ export class ArticlesApi extends ResourceApi {
    * @param params.fields - A list of ArticleComment attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.draftId - Optional. The ID of an existing draft that should be published.
    * @param params.muteUpdateNotifications - Optional. Set this to true to suppress notifications on changes made by this request.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The added comment.
    */
   async createArticleComment<TSchema extends ArticleCommentSchema>(
     articleId: string,
     body: { text: string } | DeepPartial<ArticleComment>,
     params?: FieldsParam<TSchema> & MuteUpdateNotificationsParam & { draftId?: string },
+    options?: RequestOptions,
   ): Promise<ArticleCommentEntity<TSchema>> {
     return this.youtrack.fetch<ArticleCommentEntity<TSchema>>(
       new RequestBuilder(
         `api/articles/${articleId}/comments`,
         { fields, ...queryParams("draftId", "muteUpdateNotifications") },
         params,
+        options,
       ).post(body),
     )
   }
@@ -360,15 +484,17 @@ export class ArticlesApi extends ResourceApi {
    * @param articleId - ID of the article. You can specify either the database ID (for example, 226-0) or the article ID in the project (for example, NP-A-1).
    * @param commentId - The database ID of the comment.
    * @param params.fields - A list of ArticleComment attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The specified comment.
    */
   async getArticleComment<TSchema extends ArticleCommentSchema>(
     articleId: string,
     commentId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ArticleCommentEntity<TSchema>> {
     return this.youtrack.fetch<ArticleCommentEntity<TSchema>>(
-      new RequestBuilder(`api/articles/${articleId}/comments/${commentId}`, { fields }, params).get(),
+      new RequestBuilder(`api/articles/${articleId}/comments/${commentId}`, { fields }, params, options).get(),
     )
   }
 
@@ -379,6 +505,7 @@ export class ArticlesApi extends ResourceApi {
    * @param body - Comment parameters
    * @param params.fields - A list of ArticleComment attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.muteUpdateNotifications - Set this parameter to true if no notifications should be sent on changes made by this request.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The updated comment.
    */
   async updateArticleComment<TSchema extends ArticleCommentSchema>(
@@ -386,12 +513,14 @@ export class ArticlesApi extends ResourceApi {
     commentId: string,
     body: { text: string } | DeepPartial<ArticleComment>,
     params?: FieldsParam<TSchema> & MuteUpdateNotificationsParam,
+    options?: RequestOptions,
   ): Promise<ArticleCommentEntity<TSchema>> {
     return this.youtrack.fetch<ArticleCommentEntity<TSchema>>(
       new RequestBuilder(
         `api/articles/${articleId}/comments/${commentId}`,
         { fields, muteUpdateNotifications: "boolean" },
         params,
+        options,
       ).post(body),
     )
   }
@@ -401,15 +530,17 @@ export class ArticlesApi extends ResourceApi {
    * @param articleId - ID of the article. You can specify either the database ID (for example, 226-0) or the article ID in the project (for example, NP-A-1).
    * @param commentId - The database ID of the comment.
    * @param params.fields - A list of ArticleComment attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The deleted comment.
    */
   async deleteArticleComment<TSchema extends ArticleCommentSchema>(
     articleId: string,
     commentId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ArticleCommentEntity<TSchema>> {
     return this.youtrack.fetch<ArticleCommentEntity<TSchema>>(
-      new RequestBuilder(`api/articles/${articleId}/comments/${commentId}`, { fields }, params).delete(),
+      new RequestBuilder(`api/articles/${articleId}/comments/${commentId}`, { fields }, params, options).delete(),
     )
   }
 
@@ -420,28 +551,54 @@ export class ArticlesApi extends ResourceApi {
    * @param params.fields - A list of Reaction attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$top - Optional. Specifies the maximum number of entries that are returned in the response.
    * @param params.$skip - Optional. Specifies the number of returned entities to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The list of reactions to the comment.
    */
   async getArticleCommentReactions<TSchema extends ReactionSchema>(
     articleId: string,
     commentId: string,
     params?: ListParams & FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ReactionEntity<TSchema>[]> {
     return this.youtrack.fetch<ReactionEntity<TSchema>[]>(
       new RequestBuilder(
         `api/articles/${articleId}/comments/${commentId}/reactions`,
         { fields, ...queryParams("$top", "$skip") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all reactions to the article comment. Reactions are requested page by page.
+   * @param articleId - ID of the article. You can specify either the database ID (for example, 226-0) or the article ID in the project (for example, NP-A-1).
+   * @param commentId - The database ID of the comment.
+   * @param params.fields - A list of Reaction attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of reactions to the article comment.
+   */
+  iterateArticleCommentReactions<TSchema extends ReactionSchema>(
+    articleId: string,
+    commentId: string,
+    params?: PaginationParams & FieldsParam<TSchema>,
+    options?: RequestOptions,
+  ): AsyncGenerator<ReactionEntity<TSchema>> {
+    return paginate(
+      (page) => this.getArticleCommentReactions<TSchema>(articleId, commentId, { ...params, ...page }, options),
+      params,
+    )
+  }
+
   /**
    * Adds a new reaction to a comment with a specific ID.
    * @param articleId - ID of the article. You can specify either the database ID (for example, 226-0) or the article ID in the project (for example, NP-A-1).
    * @param commentId - The database ID of the comment.
    * @param body - The reaction paramenters. Required fields: reaction.
    * @param params.fields - A list of Reaction attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The added reaction.
    */
   async createCommentReaction<TSchema extends ReactionSchema>(
@@ -449,9 +606,12 @@ export class ArticlesApi extends ResourceApi {
     commentId: string,
     body: { reaction: string } | DeepPartial<Reaction>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ReactionEntity<TSchema>> {
     return this.youtrack.fetch<ReactionEntity<TSchema>>(
-      new RequestBuilder(`api/articles/${articleId}/comments/${commentId}/reactions`, { fields }, params).post(body),
+      new RequestBuilder(`api/articles/${articleId}/comments/${commentId}/reactions`, { fields }, params, options).post(
+        body,
+      ),
     )
   }
 
@@ -461,6 +621,7 @@ export class ArticlesApi extends ResourceApi {
    * @param commentId - The database ID of the comment.
    * @param reactionId - The database ID of the reaction.
    * @param params.fields - A list of Reaction attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The specified reaction.
    */
   async getCommnetReaction<TSchema extends ReactionSchema>(
@@ -468,12 +629,14 @@ export class ArticlesApi extends ResourceApi {
     commentId: string,
     reactionId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ReactionEntity<TSchema>> {
     return this.youtrack.fetch<ReactionEntity<TSchema>>(
       new RequestBuilder(
         `api/articles/${articleId}/comments/${commentId}/reactions/${reactionId}`,
         { fields },
         params,
+        options,
       ).get(),
     )
   }
@@ -484,6 +647,7 @@ export class ArticlesApi extends ResourceApi {
    * @param commentId - The database ID of the comment.
    * @param reactionId - The database ID of the reaction.
    * @param params.fields - A list of Reaction attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The result of the delete operation.
    */
   async removeCommnetReaction<TSchema extends ReactionSchema>(
@@ -491,12 +655,14 @@ export class ArticlesApi extends ResourceApi {
     commentId: string,
     reactionId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ReactionEntity<TSchema>> {
     return this.youtrack.fetch<ReactionEntity<TSchema>>(
       new RequestBuilder(
         `api/articles/${articleId}/comments/${commentId}/reactions/${reactionId}`,
         { fields },
         params,
+        options,
       ).delete(),
     )
   }
@@ -505,14 +671,16 @@ export class ArticlesApi extends ResourceApi {
    * Gets the article that is the parent for the current one.
    * @param articleId - ID of the article. You can specify either the database ID (for example, 226-0) or the article ID in the project (for example, NP-A-1).
    * @param params.fields - A list of Article attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The parent article.
    */
   async getParentArticle<TSchema extends ArticleSchema>(
     articleId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ArticleEntity<TSchema>> {
     return this.youtrack.fetch<ArticleEntity<TSchema>>(
-      new RequestBuilder(`api/articles/${articleId}/parentArticle`, { fields }, params).get(),
+      new RequestBuilder(`api/articles/${articleId}/parentArticle`, { fields }, params, options).get(),
     )
   }
 
@@ -522,31 +690,57 @@ export class ArticlesApi extends ResourceApi {
    * @param params.fields - A list of Tag attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$top - Optional. Specifies the maximum number of entries that are returned in the response.
    * @param params.$skip - Optional. Specifies the number of returned entities to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The list of tags.
    */
   async getArticleTags<TSchema extends TagSchema>(
     articleId: string,
     params?: ListParams & FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<TagEntity<TSchema>[]> {
     return this.youtrack.fetch<TagEntity<TSchema>[]>(
-      new RequestBuilder(`api/articles/${articleId}/tags`, { fields, ...queryParams("$top", "$skip") }, params).get(),
+      new RequestBuilder(
+        `api/articles/${articleId}/tags`,
+        { fields, ...queryParams("$top", "$skip") },
+        params,
+        options,
+      ).get(),
     )
   }
 
+  /**
+   * Iterate over all tags of the article. Tags are requested page by page.
+   * @param articleId - ID of the article. You can specify either the database ID (for example, 226-0) or the article ID in the project (for example, NP-A-1).
+   * @param params.fields - A list of Tag attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of tags of the article.
+   */
+  iterateArticleTags<TSchema extends TagSchema>(
+    articleId: string,
+    params?: PaginationParams & FieldsParam<TSchema>,
+    options?: RequestOptions,
+  ): AsyncGenerator<TagEntity<TSchema>> {
+    return paginate((page) => this.getArticleTags<TSchema>(articleId, { ...params, ...page }, options), params)
+  }
+
   /**
    * Tags the article with an existing tag.
    * @param articleId - ID of the article. You can specify either the database ID (for example, 226-0) or the article ID in the project (for example, NP-A-1).
    * @param body - Tag parameters. Required fields: id - the database ID of the tag.
    * @param params.fields - A list of Tag attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The tagged article with updated information.
    */
   async createArticleTag<TSchema extends TagSchema>(
     articleId: string,
     body: { id: string } | DeepPartial<Tag>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<TagEntity<TSchema>> {
     return this.youtrack.fetch<TagEntity<TSchema>>(
-      new RequestBuilder(`api/articles/${articleId}/tags`, { fields }, params).post(body),
+      new RequestBuilder(`api/articles/${articleId}/tags`, { fields }, params, options).post(body),
     )
   }
 
@@ -555,15 +749,17 @@ export class ArticlesApi extends ResourceApi {
    * @param articleId - ID of the article. You can specify either the database ID (for example, 226-0) or the article ID in the project (for example, NP-A-1).
    * @param tagId - The database ID of the tag.
    * @param params.fields - A list of Tag attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The requested tag.
    */
   async getArticleTag<TSchema extends TagSchema>(
     articleId: string,
     tagId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<TagEntity<TSchema>> {
     return this.youtrack.fetch<TagEntity<TSchema>>(
-      new RequestBuilder(`api/articles/${articleId}/tags/${tagId}`, { fields }, params).get(),
+      new RequestBuilder(`api/articles/${articleId}/tags/${tagId}`, { fields }, params, options).get(),
     )
   }
 
@@ -572,15 +768,17 @@ export class ArticlesApi extends ResourceApi {
    * @param articleId - ID of the article. You can specify either the database ID (for example, 226-0) or the article ID in the project (for example, NP-A-1).
    * @param tagId - Database ID of the tag.
    * @param params.fields - A list of Tag attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The response after removing the tag.
    */
   async removeArticleTag<TSchema extends TagSchema>(
     articleId: string,
     tagId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<TagEntity<TSchema>> {
     return this.youtrack.fetch<TagEntity<TSchema>>(
-      new RequestBuilder(`api/articles/${articleId}/tags/${tagId}`, { fields }, params).delete(),
+      new RequestBuilder(`api/articles/${articleId}/tags/${tagId}`, { fields }, params, options).delete(),
     )
   }
 }
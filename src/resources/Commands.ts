@@ -1,4 +1,12 @@
-import type { CommandList, DeepPartial, Entity, FieldsParam, MuteUpdateNotificationsParam, Schema } from "../types"
+import type {
+  CommandList,
+  DeepPartial,
+  Entity,
+  FieldsParam,
+  MuteUpdateNotificationsParam,
+  Schema,
+  RequestOptions,
+} from "../types"
 import { fields, RequestBuilder } from "../utils"
 import { ResourceApi } from "./common"
 
@@ -15,14 +23,16 @@ export class CommandsApi extends ResourceApi {
    * @param body - Required fields: query - the command to apply, issues (id or idReadable of at least one issue that the command will be applied to).
    * @param params.fields - A list of CommandList attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.muteUpdateNotifications - Set this parameter to true if no notifications should be sent on changes made by this request.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The result of the command application.
    */
   async applyCommandToIssues<TSchema extends CommandListSchema>(
     body: DeepPartial<CommandList>,
     params?: FieldsParam<TSchema> | MuteUpdateNotificationsParam,
+    options?: RequestOptions,
   ): Promise<CommandListEntity<TSchema>> {
     return this.youtrack.fetch<CommandListEntity<TSchema>>(
-      new RequestBuilder("api/commands", { fields, muteUpdateNotifications: "string" }, params).post(body),
+      new RequestBuilder("api/commands", { fields, muteUpdateNotifications: "string" }, params, options).post(body),
     )
   }
 
@@ -30,14 +40,16 @@ export class CommandsApi extends ResourceApi {
    * Gets command suggestions for the specified query.
    * @param body - Required fields: query - the command that you'll get suggestions for.
    * @param params.fields - A list of CommandList attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A list of command suggestions based on the specified query.
    */
   async getCommandSuggestions<TSchema extends CommandListSchema>(
     body: DeepPartial<CommandList>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<CommandListEntity<TSchema>> {
     return this.youtrack.fetch<CommandListEntity<TSchema>>(
-      new RequestBuilder("api/commands/assist", { fields }, params).post(body),
+      new RequestBuilder("api/commands/assist", { fields }, params, options).post(body),
     )
   }
 }
@@ -1,5 +1,5 @@
-import type { Entity, FieldsParam, ListParams, Schema, UserGroup } from "../types"
-import { fields, queryParams, RequestBuilder } from "../utils"
+import type { Entity, FieldsParam, ListParams, Schema, UserGroup, RequestOptions, PaginationParams } from "../types"
+import { fields, queryParams, RequestBuilder, paginate } from "../utils"
 import { ResourceApi } from "./common"
 
 type UserGroupSchema = Schema<UserGroup>
@@ -16,28 +16,48 @@ export class GroupsApi extends ResourceApi {
    * @param params.fields - A list of UserGroup attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$top - Optional. Lets you specify the maximum number of entries that are returned in the response.
    * @param params.$skip - Optional. Lets you set a number of returned entities to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The list of user groups.
    */
   async getUserGroups<TSchema extends UserGroupSchema>(
     params?: FieldsParam<TSchema> | ListParams,
-  ): Promise<UserGroupEntity<TSchema>> {
-    return this.youtrack.fetch<UserGroupEntity<TSchema>>(
-      new RequestBuilder("api/groups", { fields, ...queryParams("$top", "$skip") }, params).get(),
+    options?: RequestOptions,
+  ): Promise<UserGroupEntity<TSchema>[]> {
+    return this.youtrack.fetch<UserGroupEntity<TSchema>[]>(
+      new RequestBuilder("api/groups", { fields, ...queryParams("$top", "$skip") }, params, options).get(),
     )
   }
 
+  /**
+   * Iterate over all user groups. Groups are requested page by page.
+   * @param params - Optional parameters for the request.
+   * @param params.fields - A list of UserGroup attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of user groups.
+   */
+  iterateUserGroups<TSchema extends UserGroupSchema>(
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<UserGroupEntity<TSchema>> {
+    return paginate((page) => this.getUserGroups<TSchema>({ ...params, ...page }, options), params)
+  }
+
   /**
    * Read attributes of the specific user group.
    * @param groupId - Database ID of the user group in YouTrack.
    * @param params.fields - A list of UserGroup attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The user group with the specified ID.
    */
   async getUserGroupById<TSchema extends UserGroupSchema>(
     groupId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<UserGroupEntity<TSchema>> {
     return this.youtrack.fetch<UserGroupEntity<TSchema>>(
-      new RequestBuilder(`api/groups/${groupId}`, { fields }, params).get(),
+      new RequestBuilder(`api/groups/${groupId}`, { fields }, params, options).get(),
     )
   }
 }
@@ -6,8 +6,10 @@ import type {
   Schema,
   IssueAttachment,
   DeepPartial,
+  RequestOptions,
+  PaginationParams,
 } from "../types"
-import { fields, queryParams, RequestBuilder } from "../utils"
+import { fields, queryParams, RequestBuilder, paginate } from "../utils"
 import { ResourceApi } from "./common"
 
 type IssueAttachmentSchema = Schema<IssueAttachment>
@@ -25,21 +27,42 @@ export class IssueAttechmentsApi extends ResourceApi {
    * @param params.fields - A list of IssueAttachment attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$top - Optional. Specifies the maximum number of entries to be returned. Defaults to the server limit if not set.
    * @param params.$skip - Optional. Specifies the number of entities to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the list of issue attachments.
    */
   async getIssueAttachments<TSchema extends IssueAttachmentSchema>(
     issueId: string,
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<IssueAttachmentEntity<TSchema>[]> {
     return this.youtrack.fetch<IssueAttachmentEntity<TSchema>[]>(
       new RequestBuilder(
         `api/issues/${issueId}/attachments`,
         { fields, ...queryParams("$skip", "$top") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all attachments of the issue. Attachments are requested page by page.
+   * @param issueId - The Id of the issue.
+   * @param params - Parameters for the request.
+   * @param params.fields - A list of IssueAttachment attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of attachments of the issue.
+   */
+  iterateIssueAttachments<TSchema extends IssueAttachmentSchema>(
+    issueId: string,
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<IssueAttachmentEntity<TSchema>> {
+    return paginate((page) => this.getIssueAttachments<TSchema>(issueId, { ...params, ...page }, options), params)
+  }
+
   /**
    * Add an attachment to the issue.
    * @param issueId - The Id of the issue.
@@ -47,18 +70,21 @@ export class IssueAttechmentsApi extends ResourceApi {
    * @param params - Parameters for the request.
    * @param params.fields - A list of IssueAttachment attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.muteUpdateNotifications - Set to true if no notifications should be sent on changes made by this request.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the added issue attachment.
    */
   async createIssueAttachment<TSchema extends IssueAttachmentSchema>(
     issueId: string,
     body: FormData,
     params?: FieldsParam<TSchema> & MuteUpdateNotificationsParam,
+    options?: RequestOptions,
   ): Promise<IssueAttachmentEntity<TSchema>> {
     return this.youtrack.fetch<IssueAttachmentEntity<TSchema>>(
       new RequestBuilder(
         `api/issues/${issueId}/attachments`,
         { fields, muteUpdateNotifications: "boolean" },
         params,
+        options,
       ).postFile(body),
     )
   }
@@ -69,15 +95,17 @@ export class IssueAttechmentsApi extends ResourceApi {
    * @param attachmentId - The database ID of the attachment.
    * @param params - Parameters for the request.
    * @param params.fields - A list of IssueAttachment attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the issue attachment.
    */
   async getIssueAttachmentById<TSchema extends IssueAttachmentSchema>(
     issueId: string,
     attachmentId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<IssueAttachmentEntity<TSchema>> {
     return this.youtrack.fetch<IssueAttachmentEntity<TSchema>>(
-      new RequestBuilder(`api/issues/${issueId}/attachments/${attachmentId}`, { fields }, params).get(),
+      new RequestBuilder(`api/issues/${issueId}/attachments/${attachmentId}`, { fields }, params, options).get(),
     )
   }
 
@@ -87,6 +115,7 @@ export class IssueAttechmentsApi extends ResourceApi {
    * @param attachmentId - The database ID of the attachment.
    * @param params - Parameters for the request.
    * @param params.fields - A list of IssueAttachment attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated issue attachment.
    */
   async updateIssueAttachment<TSchema extends IssueAttachmentSchema>(
@@ -94,9 +123,10 @@ export class IssueAttechmentsApi extends ResourceApi {
     attachmentId: string,
     body: DeepPartial<IssueAttachment>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<IssueAttachmentEntity<TSchema>> {
     return this.youtrack.fetch<IssueAttachmentEntity<TSchema>>(
-      new RequestBuilder(`api/issues/${issueId}/attachments/${attachmentId}`, { fields }, params).post(body),
+      new RequestBuilder(`api/issues/${issueId}/attachments/${attachmentId}`, { fields }, params, options).post(body),
     )
   }
 
@@ -106,15 +136,17 @@ export class IssueAttechmentsApi extends ResourceApi {
    * @param attachmentId - The database ID of the attachment.
    * @param params - Parameters for the request.
    * @param params.fields - A list of IssueAttachment attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves when the attachment is deleted.
    */
   async deleteIssueAttachment<TSchema extends IssueAttachmentSchema>(
     issueId: string,
     attachmentId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<IssueAttachmentEntity<TSchema>> {
     return this.youtrack.fetch<IssueAttachmentEntity<TSchema>>(
-      new RequestBuilder(`api/issues/${issueId}/attachments/${attachmentId}`, { fields }, params).delete(),
+      new RequestBuilder(`api/issues/${issueId}/attachments/${attachmentId}`, { fields }, params, options).delete(),
     )
   }
 }
@@ -7,8 +7,10 @@ import type {
   Schema,
   IssueComment,
   DeepPartial,
+  PaginationParams,
+  RequestOptions,
 } from "../types"
-import { fields, queryParams, RequestBuilder } from "../utils"
+import { fields, queryParams, RequestBuilder, paginate } from "../utils"
 import { ResourceApi } from "./common"
 
 type IssueCommentSchema = Schema<IssueComment>
@@ -29,17 +31,42 @@ export class IssueCommentsApi extends ResourceApi {
    * @param params.fields - A list of IssueComment attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$top - The maximum number of entries to return. Defaults are applied if not specified.
    * @param params.$skip - The number of entries to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to a list of issue comments.
    */
   async getIssueComments<TSchema extends IssueCommentSchema>(
     issueId: string,
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<IssueCommentEntity<TSchema>[]> {
     return this.youtrack.fetch<IssueCommentEntity<TSchema>[]>(
-      new RequestBuilder(`api/issues/${issueId}/comments`, { fields, ...queryParams("$top", "$skip") }, params).get(),
+      new RequestBuilder(
+        `api/issues/${issueId}/comments`,
+        { fields, ...queryParams("$top", "$skip") },
+        params,
+        options,
+      ).get(),
     )
   }
 
+  /**
+   * Iterate over all comments of the specific issue. Comments are requested page by page.
+   * @param issueId - The Id of the issue.
+   * @param params - Optional parameters for the request.
+   * @param params.fields - A list of IssueComment attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of comments of the issue.
+   */
+  iterateIssueComments<TSchema extends IssueCommentSchema>(
+    issueId: string,
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<IssueCommentEntity<TSchema>> {
+    return paginate((page) => this.getIssueComments<TSchema>(issueId, { ...params, ...page }, options), params)
+  }
+
   /**
    * Add a new comment to an issue with a specific ID.
    * @param issueId - The Id of the issue to which the comment will be added.
@@ -48,6 +75,7 @@ export class IssueCommentsApi extends ResourceApi {
    * @param params.fields - A list of IssueComment attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.draftId - ID of an existing draft to publish. Optional.
    * @param params.muteUpdateNotifications - Set to true if no notifications should be sent on changes made by this request.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the created comment.
    */
   async createIssueComment<TSchema extends IssueCommentSchema>(
@@ -57,12 +85,14 @@ export class IssueCommentsApi extends ResourceApi {
       MuteUpdateNotificationsParam & {
         draftId?: string
       },
+    options?: RequestOptions,
   ): Promise<IssueCommentEntity<TSchema>> {
     return this.youtrack.fetch<IssueCommentEntity<TSchema>>(
       new RequestBuilder(
         `api/issues/${issueId}/comments`,
         { fields, ...queryParams("draftId", "muteUpdateNotifications") },
         params,
+        options,
       ).post(body),
     )
   }
@@ -73,15 +103,17 @@ export class IssueCommentsApi extends ResourceApi {
    * @param commentId - The database ID of the comment to be read.
    * @param params - Optional parameters for the request.
    * @param params.fields - A list of IssueComment attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the comment.
    */
   async getIssueCommentById<TSchema extends IssueCommentSchema>(
     issueId: string,
     commentId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<IssueCommentEntity<TSchema>> {
     return this.youtrack.fetch<IssueCommentEntity<TSchema>>(
-      new RequestBuilder(`api/issues/${issueId}/comments/${commentId}`, { fields }, params).get(),
+      new RequestBuilder(`api/issues/${issueId}/comments/${commentId}`, { fields }, params, options).get(),
     )
   }
 
@@ -92,6 +124,7 @@ export class IssueCommentsApi extends ResourceApi {
    * @param body - The updated comment data.
    * @param params.fields - Optional. A list of IssueComment attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.muteUpdateNotifications - Optional. Set this parameter to true if no notifications should be sent on changes made by this request. This doesn't mute notifications sent by any workflow rules. Using this parameter requires Apply Commands Silently permission in all projects affected by the request.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated comment.
    */
   async updateIssueComment<TSchema extends IssueCommentSchema>(
@@ -99,12 +132,14 @@ export class IssueCommentsApi extends ResourceApi {
     commentId: string,
     body: DeepPartial<IssueComment>,
     params?: FieldsParam<TSchema> & MuteUpdateNotificationsParam,
+    options?: RequestOptions,
   ): Promise<IssueCommentEntity<TSchema>> {
     return this.youtrack.fetch<IssueCommentEntity<TSchema>>(
       new RequestBuilder(
         `api/issues/${issueId}/comments/${commentId}`,
         { fields, muteUpdateNotifications: "boolean" },
         params,
+        options,
       ).post(body),
     )
   }
@@ -116,15 +151,17 @@ export class IssueCommentsApi extends ResourceApi {
    * @param issueId - The ID of the issue that the comment belongs to.
    * @param commentId - The database ID of the comment to be deleted.
    * @param params.fields - Optional. A list of IssueComment attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves when the comment has been deleted.
    */
   async deleteIssueComment<TSchema extends IssueCommentSchema>(
     issueId: string,
     commentId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<IssueCommentEntity<TSchema>> {
     return this.youtrack.fetch<IssueCommentEntity<TSchema>>(
-      new RequestBuilder(`api/issues/${issueId}/comments/${commentId}`, { fields }, params).delete(),
+      new RequestBuilder(`api/issues/${issueId}/comments/${commentId}`, { fields }, params, options).delete(),
     )
   }
 
@@ -135,6 +172,7 @@ export class IssueCommentsApi extends ResourceApi {
    * @param commentId - The database ID of the comment that the reaction belongs to.
    * @param reactionId - The database ID of the reaction to retrieve.
    * @param params.fields - Optional. A list of Reaction attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the reaction.
    */
   async getIssueCommnetReaction<TSchema extends ReactionSchema>(
@@ -142,12 +180,14 @@ export class IssueCommentsApi extends ResourceApi {
     commentId: string,
     reactionId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ReactionEntity<TSchema>> {
     return this.youtrack.fetch<ReactionEntity<TSchema>>(
       new RequestBuilder(
         `api/issues/${issueId}/comments/${commentId}/reactions/${reactionId}`,
         { fields },
         params,
+        options,
       ).get(),
     )
   }
@@ -159,6 +199,7 @@ export class IssueCommentsApi extends ResourceApi {
    * @param commentId - The database ID of the comment that the reaction belongs to.
    * @param reactionId - The database ID of the reaction to remove.
    * @param params.fields - Optional. A list of Reaction attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the deleted reaction.
    */
   async deleteIssueCommnetReaction<TSchema extends ReactionSchema>(
@@ -166,12 +207,14 @@ export class IssueCommentsApi extends ResourceApi {
     commentId: string,
     reactionId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ReactionEntity<TSchema>> {
     return this.youtrack.fetch<ReactionEntity<TSchema>>(
       new RequestBuilder(
         `api/issues/${issueId}/comments/${commentId}/reactions/${reactionId}`,
         { fields },
         params,
+        options,
       ).delete(),
     )
   }
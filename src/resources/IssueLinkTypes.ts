@@ -1,5 +1,14 @@
-import type { DeepPartial, Entity, FieldsParam, IssueLinkType, ListParams, Schema } from "../types"
-import { fields, queryParams, RequestBuilder } from "../utils"
+import type {
+  DeepPartial,
+  Entity,
+  FieldsParam,
+  IssueLinkType,
+  ListParams,
+  Schema,
+  RequestOptions,
+  PaginationParams,
+} from "../types"
+import { fields, queryParams, RequestBuilder, paginate } from "../utils"
 import { ResourceApi } from "./common"
 
 type IssueLinkTypeSchema = Schema<IssueLinkType>
@@ -15,28 +24,47 @@ export class IssueLinkTypesApi extends ResourceApi {
    * @param params.fields - A list of IssueLinkType attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.top - Optional. The maximum number of entries to return in the response. The server returns a maximum of 42 entries if not specified.
    * @param params.skip - Optional. The number of entries to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A list of available issue link types.
    */
   async getIssueLinkTypes<TSchema extends IssueLinkTypeSchema>(
     params?: FieldsParam<TSchema> | ListParams,
-  ): Promise<IssueLinkTypeEntity<TSchema>> {
-    return this.youtrack.fetch<IssueLinkTypeEntity<TSchema>>(
-      new RequestBuilder("api/issueLinkTypes", { fields, ...queryParams("$top", "$skip") }, params).get(),
+    options?: RequestOptions,
+  ): Promise<IssueLinkTypeEntity<TSchema>[]> {
+    return this.youtrack.fetch<IssueLinkTypeEntity<TSchema>[]>(
+      new RequestBuilder("api/issueLinkTypes", { fields, ...queryParams("$top", "$skip") }, params, options).get(),
     )
   }
 
+  /**
+   * Iterate over all issue link types. Link types are requested page by page.
+   * @param params.fields - A list of IssueLinkType attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of issue link types.
+   */
+  iterateIssueLinkTypes<TSchema extends IssueLinkTypeSchema>(
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<IssueLinkTypeEntity<TSchema>> {
+    return paginate((page) => this.getIssueLinkTypes<TSchema>({ ...params, ...page }, options), params)
+  }
+
   /**
    * Creates a new issue link type.
    * @param body - Required fields: name, targetToSource, sourceToTarget.
    * @param params.fields - A list of IssueLinkType attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The created issue link type.
    */
   async createIssueLinkType<TSchema extends IssueLinkTypeSchema>(
     body: { name: string; targetToSource: string; sourceToTarget: string } | DeepPartial<IssueLinkType>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<IssueLinkTypeEntity<TSchema>> {
     return this.youtrack.fetch<IssueLinkTypeEntity<TSchema>>(
-      new RequestBuilder("api/issueLinkTypes", { fields }, params).post(body),
+      new RequestBuilder("api/issueLinkTypes", { fields }, params, options).post(body),
     )
   }
 
@@ -44,14 +72,16 @@ export class IssueLinkTypesApi extends ResourceApi {
    * Gets the attributes of the specified issue link type.
    * @param typeId - The Id of the issue link type.
    * @param fields - A list of IssueLinkType attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The specified issue link type.
    */
   async getIssueLinkType<TSchema extends IssueLinkTypeSchema>(
     typeId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<IssueLinkTypeEntity<TSchema>> {
     return this.youtrack.fetch<IssueLinkTypeEntity<TSchema>>(
-      new RequestBuilder(`api/issueLinkTypes/${typeId}`, { fields }, params).get(),
+      new RequestBuilder(`api/issueLinkTypes/${typeId}`, { fields }, params, options).get(),
     )
   }
 
@@ -60,15 +90,17 @@ export class IssueLinkTypesApi extends ResourceApi {
    * @param typeId - The ID of the issue link type to update.
    * @param body - The attributes to update for the issue link type.
    * @param params.fields - A list of IssueLinkType attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The updated issue link type.
    */
   async updateIssueLinkType<TSchema extends IssueLinkTypeSchema>(
     typeId: string,
     body: DeepPartial<IssueLinkType>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<IssueLinkTypeEntity<TSchema>> {
     return this.youtrack.fetch<IssueLinkTypeEntity<TSchema>>(
-      new RequestBuilder(`api/issueLinkTypes/${typeId}`, { fields }, params).post(body),
+      new RequestBuilder(`api/issueLinkTypes/${typeId}`, { fields }, params, options).post(body),
     )
   }
 
@@ -76,12 +108,16 @@ export class IssueLinkTypesApi extends ResourceApi {
    * Deletes the link type and its usages.
    * @param typeId - The Id of the issue link type to delete.
    * @param params.fields - A list of IssueLinkType attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The response from the deletion operation.
    */
   async deleteIssueLinkType<TSchema extends IssueLinkTypeSchema>(
     typeId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<void> {
-    return this.youtrack.fetch<void>(new RequestBuilder(`api/issueLinkTypes/${typeId}`, { fields }, params).delete())
+    return this.youtrack.fetch<void>(
+      new RequestBuilder(`api/issueLinkTypes/${typeId}`, { fields }, params, options).delete(),
+    )
   }
 }
@@ -7,8 +7,10 @@ import type {
   Issue,
   IssueLink,
   DeepPartial,
+  RequestOptions,
+  PaginationParams,
 } from "../types"
-import { fields, queryParams, RequestBuilder } from "../utils"
+import { fields, queryParams, RequestBuilder, paginate } from "../utils"
 import { ResourceApi } from "./common"
 
 type IssueSchema = Schema<Issue>
@@ -28,31 +30,57 @@ export class IssueLinksApi extends ResourceApi {
    * @param params.fields - A list of IssueLink attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$top - Optional. Specifies the maximum number of entries to return in the response.
    * @param params.$skip - Optional. Specifies the number of entities to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the list of issue links.
    */
   async getIssueLinks<TSchema extends IssueLinkSchema>(
     issueId: string,
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<IssueLinkEntity<TSchema>[]> {
     return this.youtrack.fetch<IssueLinkEntity<TSchema>[]>(
-      new RequestBuilder(`api/issues/${issueId}/links`, { fields, ...queryParams("$top", "$skip") }, params).get(),
+      new RequestBuilder(
+        `api/issues/${issueId}/links`,
+        { fields, ...queryParams("$top", "$skip") },
+        params,
+        options,
+      ).get(),
     )
   }
 
+  /**
+   * Iterate over all links of the issue. Links are requested page by page.
+   * @param issueId - The ID of the issue to retrieve links for.
+   * @param params.fields - A list of IssueLink attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of links of the issue.
+   */
+  iterateIssueLinks<TSchema extends IssueLinkSchema>(
+    issueId: string,
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<IssueLinkEntity<TSchema>> {
+    return paginate((page) => this.getIssueLinks<TSchema>(issueId, { ...params, ...page }, options), params)
+  }
+
   /**
    * Get the data for a specific link of the issue.
    * @param issueId - The ID of the issue.
    * @param linkId - The database ID of the issue link.
    * @param params.fields - A list of IssueLink attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the issue link data.
    */
   async getIssueLinkById<TSchema extends IssueLinkSchema>(
     issueId: string,
     linkId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<IssueLinkEntity<TSchema>> {
     return this.youtrack.fetch<IssueLinkEntity<TSchema>>(
-      new RequestBuilder(`api/issues/${issueId}/links/${linkId}`, { fields }, params).get(),
+      new RequestBuilder(`api/issues/${issueId}/links/${linkId}`, { fields }, params, options).get(),
     )
   }
 
@@ -63,12 +91,14 @@ export class IssueLinksApi extends ResourceApi {
    * @param params.fields - A list of Issue attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.top - Optional. Specifies the maximum number of entries that are returned in the response.
    * @param params.skip - Optional. Lets you set a number of returned entities to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the list of linked issues.
    */
   async getLinkedIssues<TSchema extends IssueSchema>(
     issueId: string,
     linkId: string,
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<IssueEntity<TSchema>[]> {
     return this.youtrack.fetch<IssueEntity<TSchema>[]>(
       new RequestBuilder(
@@ -78,10 +108,30 @@ export class IssueLinksApi extends ResourceApi {
           ...queryParams("$skip", "$top"),
         },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all issues linked to the issue with the specific link. Issues are requested page by page.
+   * @param issueId - The ID of the issue.
+   * @param linkId - The database ID of the link type.
+   * @param params.fields - A list of Issue attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of issues linked to the issue with the specific link.
+   */
+  iterateLinkedIssues<TSchema extends IssueSchema>(
+    issueId: string,
+    linkId: string,
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<IssueEntity<TSchema>> {
+    return paginate((page) => this.getLinkedIssues<TSchema>(issueId, linkId, { ...params, ...page }, options), params)
+  }
+
   /**
    * Link the current issue to another issue.
    * @param issueId - The ID of the current issue.
@@ -89,6 +139,7 @@ export class IssueLinksApi extends ResourceApi {
    * @param body - Required fields: id - the database ID of the issue you're linking to the current one.
    * @param params.fields - A list of Issue attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.muteUpdateNotifications - Set to true to avoid sending notifications for this update.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated issue.
    */
   async linkIssue<TSchema extends IssueSchema>(
@@ -96,6 +147,7 @@ export class IssueLinksApi extends ResourceApi {
     linkId: string,
     body: { linkedIssueId: string } & DeepPartial<IssueLink>,
     params?: FieldsParam<TSchema> & MuteUpdateNotificationsParam,
+    options?: RequestOptions,
   ): Promise<IssueEntity<TSchema>> {
     return this.youtrack.fetch<IssueEntity<TSchema>>(
       new RequestBuilder(
@@ -105,6 +157,7 @@ export class IssueLinksApi extends ResourceApi {
           muteUpdateNotifications: "boolean",
         },
         params,
+        options,
       ).post(body),
     )
   }
@@ -115,6 +168,7 @@ export class IssueLinksApi extends ResourceApi {
    * @param linkId - The database ID of the link type (with direction markers if applicable).
    * @param linkedIssueId - The database ID of the issue to unlink from the current one.
    * @param params.fields - A list of Issue attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated issue.
    */
   async unlinkIssue<TSchema extends IssueSchema>(
@@ -122,6 +176,7 @@ export class IssueLinksApi extends ResourceApi {
     linkId: string,
     linkedIssueId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<IssueEntity<TSchema>> {
     return this.youtrack.fetch<IssueEntity<TSchema>>(
       new RequestBuilder(
@@ -130,6 +185,7 @@ export class IssueLinksApi extends ResourceApi {
           fields,
         },
         params,
+        options,
       ).delete(),
     )
   }
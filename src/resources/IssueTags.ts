@@ -1,5 +1,5 @@
-import type { Entity, FieldsParam, ListParams, Schema, Tag } from "../types"
-import { fields, queryParams, RequestBuilder } from "../utils"
+import type { Entity, FieldsParam, ListParams, Schema, Tag, RequestOptions, PaginationParams } from "../types"
+import { fields, queryParams, RequestBuilder, paginate } from "../utils"
 import { ResourceApi } from "./common"
 
 type TagSchema = Schema<Tag>
@@ -16,11 +16,13 @@ export class IssueTagsApi extends ResourceApi {
    * @param params.fields - A list of Tag attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$skip - Optional. Set the number of returned entities to skip before returning the first one.
    * @param params.$top - Optional. Specify the maximum number of entries to return in the response. If not set, the server limits the number of returned entries.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the list of tags associated with the issue.
    */
   async getIssueTags<TSchema extends TagSchema>(
     issueId: string,
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<TagEntity<TSchema>[]> {
     return this.youtrack.fetch<TagEntity<TSchema>[]>(
       new RequestBuilder(
@@ -30,21 +32,41 @@ export class IssueTagsApi extends ResourceApi {
           ...queryParams("$top", "$skip"),
         },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all tags of the issue. Tags are requested page by page.
+   * @param issueId - The ID of the issue for which to get the tags.
+   * @param params.fields - A list of Tag attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of tags of the issue.
+   */
+  iterateIssueTags<TSchema extends TagSchema>(
+    issueId: string,
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<TagEntity<TSchema>> {
+    return paginate((page) => this.getIssueTags<TSchema>(issueId, { ...params, ...page }, options), params)
+  }
+
   /**
    * Tag the issue with an existing tag.
    * @param issueId - The ID of the issue to tag.
    * @param body - Required fields: id - the id of the tag to add to the issue.
    * @param params.fields - A list of Tag attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the tagged issue with the specified tag.
    */
   async addTagToIssue<TSchema extends TagSchema>(
     issueId: string,
     body: { id: string },
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<TagEntity<TSchema>> {
     return this.youtrack.fetch<TagEntity<TSchema>>(
       new RequestBuilder(
@@ -53,6 +75,7 @@ export class IssueTagsApi extends ResourceApi {
           fields,
         },
         params,
+        options,
       ).post(body),
     )
   }
@@ -62,12 +85,14 @@ export class IssueTagsApi extends ResourceApi {
    * @param issueId - The ID of the issue.
    * @param tagId - The ID of the tag to retrieve.
    * @param params.fields - A list of Tag attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the specified tag on the issue.
    */
   async getIssueTagById<TSchema extends TagSchema>(
     issueId: string,
     tagId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<TagEntity<TSchema>> {
     return this.youtrack.fetch<TagEntity<TSchema>>(
       new RequestBuilder(
@@ -76,6 +101,7 @@ export class IssueTagsApi extends ResourceApi {
           fields,
         },
         params,
+        options,
       ).get(),
     )
   }
@@ -85,12 +111,14 @@ export class IssueTagsApi extends ResourceApi {
    * @param issueId - The ID of the issue.
    * @param tagId - The ID of the tag to remove.
    * @param params.fields - A list of Tag attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the response after removing the tag.
    */
   async deleteIssueTag<TSchema extends TagSchema>(
     issueId: string,
     tagId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<TagEntity<TSchema>> {
     return this.youtrack.fetch<TagEntity<TSchema>>(
       new RequestBuilder(
@@ -99,6 +127,7 @@ export class IssueTagsApi extends ResourceApi {
           fields,
         },
         params,
+        options,
       ).delete(),
     )
   }
@@ -9,8 +9,10 @@ import type {
   DeepPartial,
   DurationValue,
   AtLeastOne,
+  PaginationParams,
+  RequestOptions,
 } from "../types"
-import { fields, queryParams, RequestBuilder } from "../utils"
+import { fields, queryParams, RequestBuilder, paginate } from "../utils"
 import { ResourceApi } from "./common"
 
 type IssueTimeTrackingSchema = Schema<IssueTimeTracking>
@@ -28,11 +30,13 @@ export class IssueTimeTrackingApi extends ResourceApi {
    * Get work items of an issue and time tracking status.
    * @param issueId - The ID of the issue.
    * @param params.fields - A list of IssueTimeTracking attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the time tracking data for the issue.
    */
   async getIssueTimeTracking<TSchema extends IssueTimeTrackingSchema>(
     issueId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<IssueTimeTrackingEntity<TSchema>> {
     return this.youtrack.fetch<IssueTimeTrackingEntity<TSchema>>(
       new RequestBuilder(
@@ -41,6 +45,7 @@ export class IssueTimeTrackingApi extends ResourceApi {
           fields,
         },
         params,
+        options,
       ).get(),
     )
   }
@@ -52,21 +57,42 @@ export class IssueTimeTrackingApi extends ResourceApi {
    * @param params.fields - A list of IssueWorkItem attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$top - Optional. Specifies the maximum number of entries to return. If not provided, the server limits the number of entries.
    * @param params.$skip - Optional. Specifies the number of entries to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the list of work items for the issue.
    */
   async getIssueWorkItems<TSchema extends IssueWorkItemSchema>(
     issueId: string,
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<IssueWorkItemEntity<TSchema>[]> {
     return this.youtrack.fetch<IssueWorkItemEntity<TSchema>[]>(
       new RequestBuilder(
         `api/issues/${issueId}/timeTracking/workItems`,
         { fields, ...queryParams("$top", "$skip") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all work items of the specific issue. Work items are requested page by page.
+   * @param issueId - The ID of the issue.
+   * @param params - Optional parameters.
+   * @param params.fields - A list of IssueWorkItem attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of work items of the issue.
+   */
+  iterateIssueWorkItems<TSchema extends IssueWorkItemSchema>(
+    issueId: string,
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<IssueWorkItemEntity<TSchema>> {
+    return paginate((page) => this.getIssueWorkItems<TSchema>(issueId, { ...params, ...page }, options), params)
+  }
+
   /**
    * Add a new work item to the issue.
    * @param issueId - The ID of the issue.
@@ -74,12 +100,14 @@ export class IssueTimeTrackingApi extends ResourceApi {
    * @param params - Optional parameters.
    * @param params.fields - A list of IssueWorkItem attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.muteUpdateNotifications - Set to true if no notifications should be sent on changes made by this request. This doesn't mute notifications sent by any workflow rules.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the added work item.
    */
   async createIssueWorkItem<TSchema extends IssueWorkItemSchema>(
     issueId: string,
     body: { duration: AtLeastOne<DurationValue> } & DeepPartial<Omit<IssueWorkItem, "duration">>,
     params?: FieldsParam<TSchema> & MuteUpdateNotificationsParam,
+    options?: RequestOptions,
   ): Promise<IssueWorkItemEntity<TSchema>> {
     return this.youtrack.fetch<IssueWorkItemEntity<TSchema>>(
       new RequestBuilder(
@@ -89,6 +117,7 @@ export class IssueTimeTrackingApi extends ResourceApi {
           muteUpdateNotifications: "boolean",
         },
         params,
+        options,
       ).post(body),
     )
   }
@@ -99,15 +128,22 @@ export class IssueTimeTrackingApi extends ResourceApi {
    * @param workItemId - The ID of the work item to retrieve.
    * @param params - Optional parameters.
    * @param params.fields - A list of IssueWorkItem attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the specific work item.
    */
   async getIssueWorkItemById<TSchema extends IssueWorkItemSchema>(
     issueId: string,
     workItemId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<IssueWorkItemEntity<TSchema>> {
     return this.youtrack.fetch<IssueWorkItemEntity<TSchema>>(
-      new RequestBuilder(`api/issues/${issueId}/timeTracking/workItems/${workItemId}`, { fields }, params).get(),
+      new RequestBuilder(
+        `api/issues/${issueId}/timeTracking/workItems/${workItemId}`,
+        { fields },
+        params,
+        options,
+      ).get(),
     )
   }
 
@@ -119,6 +155,7 @@ export class IssueTimeTrackingApi extends ResourceApi {
    * @param params - Optional parameters.
    * @param params.fields - A list of IssueWorkItem attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.muteUpdateNotifications - Set this to true if no notifications should be sent on changes made by this request. This doesn't mute notifications sent by any workflow rules.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated work item.
    */
   async updateWorkItem<TSchema extends IssueWorkItemSchema>(
@@ -126,12 +163,14 @@ export class IssueTimeTrackingApi extends ResourceApi {
     workItemId: string,
     body: DeepPartial<Omit<IssueWorkItem, "duration">> & { duration?: AtLeastOne<DurationValue> },
     params?: FieldsParam<TSchema> & MuteUpdateNotificationsParam,
+    options?: RequestOptions,
   ): Promise<IssueWorkItemEntity<TSchema>> {
     return this.youtrack.fetch<IssueWorkItemEntity<TSchema>>(
       new RequestBuilder(
         `api/issues/${issueId}/timeTracking/workItems/${workItemId}`,
         { fields, muteUpdateNotifications: "boolean" },
         params,
+        options,
       ).post(body),
     )
   }
@@ -142,15 +181,22 @@ export class IssueTimeTrackingApi extends ResourceApi {
    * @param workItemId - The ID of the work item to delete.
    * @param params - Optional parameters.
    * @param params.fields - A list of IssueWorkItem attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the response of the deletion request.
    */
   async deleteIssueWorkItem<TSchema extends IssueWorkItemSchema>(
     issueId: string,
     workItemId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<IssueWorkItemEntity<TSchema>> {
     return this.youtrack.fetch<IssueWorkItemEntity<TSchema>>(
-      new RequestBuilder(`api/issues/${issueId}/timeTracking/workItems/${workItemId}`, { fields }, params).delete(),
+      new RequestBuilder(
+        `api/issues/${issueId}/timeTracking/workItems/${workItemId}`,
+        { fields },
+        params,
+        options,
+      ).delete(),
     )
   }
 }
@@ -1,5 +1,14 @@
-import type { Entity, FieldsParam, ListParams, MuteUpdateNotificationsParam, Schema, VcsChange } from "../types"
-import { fields, queryParams, RequestBuilder } from "../utils"
+import type {
+  Entity,
+  FieldsParam,
+  ListParams,
+  MuteUpdateNotificationsParam,
+  Schema,
+  VcsChange,
+  RequestOptions,
+  PaginationParams,
+} from "../types"
+import { fields, queryParams, RequestBuilder, paginate } from "../utils"
 import { ResourceApi } from "./common"
 
 type VcsChangeSchema = Schema<VcsChange>
@@ -17,17 +26,42 @@ export class IssueVcsChangesApi extends ResourceApi {
    * @param params.fields - A list of VcsChange attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$top - Optional. Lets you specify the maximum number of entries that are returned in the response.
    * @param params.$skip - Optional. Lets you set a number of returned entities to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the list of VCS changes linked to the issue.
    */
   async getIssueVcsChanges<TSchema extends VcsChangeSchema>(
     issueId: string,
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<VcsChangeEntity<TSchema>[]> {
     return this.youtrack.fetch<VcsChangeEntity<TSchema>[]>(
-      new RequestBuilder(`api/issues/${issueId}/vcsChanges`, { fields, ...queryParams("$top", "$skip") }, params).get(),
+      new RequestBuilder(
+        `api/issues/${issueId}/vcsChanges`,
+        { fields, ...queryParams("$top", "$skip") },
+        params,
+        options,
+      ).get(),
     )
   }
 
+  /**
+   * Iterate over all VCS changes of the issue. Changes are requested page by page.
+   * @param issueId - The ID of the issue.
+   * @param params - Optional parameters.
+   * @param params.fields - A list of VcsChange attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of VCS changes of the issue.
+   */
+  iterateIssueVcsChanges<TSchema extends VcsChangeSchema>(
+    issueId: string,
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<VcsChangeEntity<TSchema>> {
+    return paginate((page) => this.getIssueVcsChanges<TSchema>(issueId, { ...params, ...page }, options), params)
+  }
+
   /**
    * Link a new VCS change to an issue with a specific ID.
    * @param issueId - The ID of the issue.
@@ -35,6 +69,7 @@ export class IssueVcsChangesApi extends ResourceApi {
    * @param params - Optional parameters.
    * @param params.fields - A list of VcsChange attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.muteUpdateNotifications - Set to true if no notifications should be sent on issue changes caused by this request. Requires Apply Commands Silently permission.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the linked VCS change.
    */
   async linkIssueVcsChange<TSchema extends VcsChangeSchema>(
@@ -44,12 +79,14 @@ export class IssueVcsChangesApi extends ResourceApi {
       state: string // Required. The state of the VCS change.
     },
     params?: FieldsParam<TSchema> & MuteUpdateNotificationsParam,
+    options?: RequestOptions,
   ): Promise<VcsChangeEntity<TSchema>> {
     return this.youtrack.fetch<VcsChangeEntity<TSchema>>(
       new RequestBuilder(
         `api/issues/${issueId}/vcsChanges`,
         { fields, muteUpdateNotifications: "boolean" },
         params,
+        options,
       ).post(body),
     )
   }
@@ -60,15 +97,17 @@ export class IssueVcsChangesApi extends ResourceApi {
    * @param changeId - The database ID of the VCS change.
    * @param params - Optional parameters.
    * @param params.fields - A list of VcsChange attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the requested VCS change.
    */
   async getIssueVcsChangeById<TSchema extends VcsChangeSchema>(
     issueId: string,
     changeId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<VcsChangeEntity<TSchema>> {
     return this.youtrack.fetch<VcsChangeEntity<TSchema>>(
-      new RequestBuilder(`api/issues/${issueId}/vcsChanges/${changeId}`, { fields }, params).get(),
+      new RequestBuilder(`api/issues/${issueId}/vcsChanges/${changeId}`, { fields }, params, options).get(),
     )
   }
 
@@ -80,6 +119,7 @@ export class IssueVcsChangesApi extends ResourceApi {
    * @param params - Optional parameters.
    * @param params.fields - A list of VcsChange attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.muteUpdateNotifications - Set to true to suppress update notifications. This doesn't mute notifications sent by workflow rules.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated VCS change.
    */
   async updateIssueVcsChange<TSchema extends VcsChangeSchema>(
@@ -87,12 +127,14 @@ export class IssueVcsChangesApi extends ResourceApi {
     changeId: string,
     body: { state: string },
     params?: FieldsParam<TSchema> & MuteUpdateNotificationsParam,
+    options?: RequestOptions,
   ): Promise<VcsChangeEntity<TSchema>> {
     return this.youtrack.fetch<VcsChangeEntity<TSchema>>(
       new RequestBuilder(
         `api/issues/${issueId}/vcsChanges/${changeId}`,
         { fields, muteUpdateNotifications: "boolean" },
         params,
+        options,
       ).post(body),
     )
   }
@@ -103,15 +145,17 @@ export class IssueVcsChangesApi extends ResourceApi {
    * @param changeId - The database ID of the VCS change.
    * @param params - Optional parameters.
    * @param params.fields - A list of VcsChange attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves once the VCS change is detached.
    */
   async detachIssueVcsChange<TSchema extends VcsChangeSchema>(
     issueId: string,
     changeId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<VcsChangeEntity<TSchema>> {
     return this.youtrack.fetch<VcsChangeEntity<TSchema>>(
-      new RequestBuilder(`api/issues/${issueId}/vcsChanges/${changeId}`, { fields }, params).delete(),
+      new RequestBuilder(`api/issues/${issueId}/vcsChanges/${changeId}`, { fields }, params, options).delete(),
     )
   }
 }
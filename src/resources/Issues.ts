@@ -1,6 +1,9 @@
 import type {
+  ActivityCategory,
   ActivityCursorPage,
   ActivityItem,
+  ActivityItemOf,
+  ActivityStreamParams,
   CustomFieldsParam,
   Entity,
   FieldsParam,
@@ -14,10 +17,26 @@ import type {
   IssueCountResponse,
   IssueCustomField,
   DeepPartial,
+  PaginationParams,
+  IssueCustomFieldsBody,
+  IssueCustomFieldUpdate,
+  RequestOptions,
 } from "../types"
-import { fields, queryParams, RequestBuilder } from "../utils"
+import {
+  abortableSleep,
+  activitiesPageFields,
+  activityStream,
+  fields,
+  queryParams,
+  RequestBuilder,
+  paginate,
+} from "../utils"
+import type { ActivityPage } from "../utils"
 import { ResourceApi } from "./common"
 
+// Delay between requests while the server calculates the issue count
+const ISSUE_COUNT_POLL_INTERVAL = 500
+
 type IssueSchema = Schema<Issue>
 type ActivityItemSchema = Schema<ActivityItem>
 type IssueCountResponseSchema = Schema<IssueCountResponse>
@@ -33,6 +52,10 @@ type ActivityCursorPageEntity<TSchema extends ActivityCursorPageSchema> = Entity
 type IssueCustomFieldEntity<TSchema extends IssueCustomFieldSchema> = Entity<IssueCustomField, TSchema>
 type ProjectEntity<TSchema extends ProjectSchema> = Entity<Project, TSchema>
 type SprintEntity<TSchema extends SprintSchema> = Entity<Sprint, TSchema>
+type ActivityItemOfEntity<TCategory extends ActivityCategory, TSchema extends ActivityItemSchema> = Entity<
+  ActivityItemOf<TCategory>,
+  TSchema
+>
 
 /**
  * Resource that provides access to issues.
@@ -46,20 +69,40 @@ export class IssuesApi extends ResourceApi {
    * @param params.$skip - Optional. Lets you set a number of returned entities to skip before returning the first one.
    * @param params.query - Issue search query. Read more about the search syntax here: Search Query Reference.
    * @param params.customFields - The name of the custom field to show in the response. When you use this parameter and request the custom field data in the request URL, the response only shows the requested custom fields instead of all of them.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The list of issues that match the specified query.
    */
   async getIssues<TSchema extends IssueSchema>(
     params?: FieldsParam<TSchema> | ListParams | CustomFieldsParam | QueryParam,
+    options?: RequestOptions,
   ): Promise<IssueEntity<TSchema>[]> {
     return this.youtrack.fetch<IssueEntity<TSchema>[]>(
       new RequestBuilder(
         "api/issues",
         { fields, ...queryParams("$top", "$skip", "query", "customFields") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all issues that match the specified query. Issues are requested page by page.
+   * @param fields - A list of Issue attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.query - Issue search query. Read more about the search syntax here: Search Query Reference.
+   * @param params.customFields - The name of the custom field to show in the response. When you use this parameter and request the custom field data in the request URL, the response only shows the requested custom fields instead of all of them.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of issues that match the specified query.
+   */
+  iterateIssues<TSchema extends IssueSchema>(
+    params?: FieldsParam<TSchema> & PaginationParams & CustomFieldsParam & QueryParam,
+    options?: RequestOptions,
+  ): AsyncGenerator<IssueEntity<TSchema>> {
+    return paginate((page) => this.getIssues<TSchema>({ ...params, ...page }, options), params)
+  }
+
   /**
    * Create a new issue.
    * @param body.summary - The summary of the issue.
@@ -67,16 +110,22 @@ export class IssuesApi extends ResourceApi {
    * @param params.fields - A list of Issue attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.muteUpdateNotifications - Set to true if no notifications should be sent on changes made by this request.
    * @param params.draftId - The ID of the issue draft to create issue from.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The created issue.
    */
   async createIssue<TSchema extends IssueSchema>(
-    body: { summary: string; project: { id: string } } & DeepPartial<Omit<Issue, "project">>,
+    body: { summary: string; project: { id: string } } & DeepPartial<Omit<Issue, "project" | "customFields">> &
+      IssueCustomFieldsBody,
     params?: FieldsParam<TSchema> & MuteUpdateNotificationsParam & { draftId?: string },
+    options?: RequestOptions,
   ): Promise<IssueEntity<TSchema>> {
     return this.youtrack.fetch<IssueEntity<TSchema>>(
-      new RequestBuilder("api/issues", { fields, ...queryParams("draftId", "muteUpdateNotifications") }, params).post(
-        body,
-      ),
+      new RequestBuilder(
+        "api/issues",
+        { fields, ...queryParams("draftId", "muteUpdateNotifications") },
+        params,
+        options,
+      ).post(body),
     )
   }
 
@@ -84,14 +133,16 @@ export class IssuesApi extends ResourceApi {
    * Read an issue with specific ID.
    * @param issueId - The database ID or project ID of the issue.
    * @param params.fields - A list of Issue attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The requested issue.
    */
   async getIssueById<TSchema extends IssueSchema>(
     issueId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<IssueEntity<TSchema>> {
     return this.youtrack.fetch<IssueEntity<TSchema>>(
-      new RequestBuilder(`api/issues/${issueId}`, { fields }, params).get(),
+      new RequestBuilder(`api/issues/${issueId}`, { fields }, params, options).get(),
     )
   }
 
@@ -100,15 +151,19 @@ export class IssuesApi extends ResourceApi {
    * @param issueId - The database ID or project ID of the issue.
    * @param params.fields - A list of Issue attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.muteUpdateNotifications - Set to true if no notifications should be sent on changes made by this request.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The updated issue.
    */
   async updateIssue<TSchema extends IssueSchema>(
     issueId: string,
-    body: DeepPartial<Issue>,
+    body: DeepPartial<Omit<Issue, "customFields">> & IssueCustomFieldsBody,
     params?: FieldsParam<TSchema> & MuteUpdateNotificationsParam,
+    options?: RequestOptions,
   ): Promise<IssueEntity<TSchema>> {
     return this.youtrack.fetch<IssueEntity<TSchema>>(
-      new RequestBuilder(`api/issues/${issueId}`, { fields, muteUpdateNotifications: "boolean" }, params).post(body),
+      new RequestBuilder(`api/issues/${issueId}`, { fields, muteUpdateNotifications: "boolean" }, params, options).post(
+        body,
+      ),
     )
   }
 
@@ -116,14 +171,16 @@ export class IssuesApi extends ResourceApi {
    * Delete the issue. Note that this operation cannot be undone.
    * @param issueId - The database ID or project ID of the issue.
    * @param params.fields - A list of Issue attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves when the issue is deleted.
    */
   async deleteIssue<TSchema extends IssueSchema>(
     issueId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<IssueEntity<TSchema>> {
     return this.youtrack.fetch<IssueEntity<TSchema>>(
-      new RequestBuilder(`api/issues/${issueId}`, { fields }, params).delete(),
+      new RequestBuilder(`api/issues/${issueId}`, { fields }, params, options).delete(),
     )
   }
 
@@ -131,18 +188,20 @@ export class IssuesApi extends ResourceApi {
    * Get the number of issues found by a search.
    * @param query - The search query to get the number of issues for.
    * @param fields - A list of IssueCountResponse attributes that should be returned in the response. If no field is specified, only the entityId is returned.
-   * @returns A promise that resolves to the count of issues.
+   * @param options - Request options: abort signal, timeout, retries and response validation. The signal also cancels polling.
+   * @returns A promise that resolves to the count of issues. The count is polled until the server calculates it.
    */
   async getIssueCount<TSchema extends IssueCountResponseSchema>(
     body: { query: string },
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<{ count: number } & IssueCountResponseEntity<TSchema>> {
-    const response = await this.youtrack.fetch<{ count: number } & IssueCountResponseEntity<TSchema>>(
-      new RequestBuilder("api/issuesGetter/count", { fields }).post(body),
-    )
-    if (response.count === -1) {
-      // TODO: add pause
-      return this.getIssueCount(body, params)
+    const request = new RequestBuilder("api/issuesGetter/count", { fields }, params, options).post(body)
+    let response = await this.youtrack.fetch<{ count: number } & IssueCountResponseEntity<TSchema>>(request)
+    // The count is -1 until the server calculates it
+    while (response.count === -1) {
+      await abortableSleep(ISSUE_COUNT_POLL_INTERVAL, request)
+      response = await this.youtrack.fetch<{ count: number } & IssueCountResponseEntity<TSchema>>(request)
     }
     return response
   }
@@ -158,6 +217,7 @@ export class IssuesApi extends ResourceApi {
    * @param params.author - Filters activities by the author. Can be the database ID, login, Hub ID, or 'me' for the currently logged in user.
    * @param params.$top - Optional. Specifies the maximum number of entries to return in the response. Default limits apply if not set.
    * @param params.$skip - Optional. Lets you set a number of returned entities to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to a list of activities.
    */
   async getIssueActivities<TSchema extends ActivityItemSchema>(
@@ -170,6 +230,7 @@ export class IssuesApi extends ResourceApi {
         end?: string
         author?: string
       },
+    options?: RequestOptions,
   ): Promise<ActivityItemEntity<TSchema>[]> {
     return this.youtrack.fetch<ActivityItemEntity<TSchema>[]>(
       new RequestBuilder(
@@ -179,6 +240,7 @@ export class IssuesApi extends ResourceApi {
           ...queryParams("$top", "$skip", "categories", "reverse", "start", "end", "author"),
         },
         params,
+        options,
       ).get(),
     )
   }
@@ -188,15 +250,17 @@ export class IssuesApi extends ResourceApi {
    * @param issueId - The Id of the issue.
    * @param itemId - The database ID of the activity item.
    * @param params.fields - A list of ActivityItem attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the activity item.
    */
   async getIssueActivity<TSchema extends ActivityItemSchema>(
     issueId: string,
     itemId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ActivityItemEntity<TSchema>> {
     return this.youtrack.fetch<ActivityItemEntity<TSchema>>(
-      new RequestBuilder(`api/issues/${issueId}/activities/${itemId}`, { fields }, params).get(),
+      new RequestBuilder(`api/issues/${issueId}/activities/${itemId}`, { fields }, params, options).get(),
     )
   }
 
@@ -212,6 +276,7 @@ export class IssuesApi extends ResourceApi {
    * @param params.author - Filters activities by the author. You can specify the database ID, login, Hub ID, or 'me' for the currently logged in user.
    * @param params.cursor - For pagination. Use the cursor from the returned activity page to request the next page.
    * @param params.activityId - ID of the activity to include in the page. This activity is centered on the page.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the page of activity items.
    */
   async getActivitiesPage<TSchema extends ActivityCursorPageSchema>(
@@ -225,51 +290,123 @@ export class IssuesApi extends ResourceApi {
       cursor?: string
       activityId?: string
     },
+    options?: RequestOptions,
   ): Promise<ActivityCursorPageEntity<TSchema>> {
     return this.youtrack.fetch<ActivityCursorPageEntity<TSchema>>(
       new RequestBuilder(
         `api/issues/${issueId}/activitiesPage`,
         { fields, ...queryParams("categories", "reverse", "start", "end", "author", "cursor", "activityId") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over activities in the specific issue page by page using cursors of the activity pages.
+   * Activities are narrowed to the types of the requested categories.
+   * @param issueId - The Id of the issue.
+   * @param params - Parameters for the request.
+   * @param params.fields - A list of ActivityItem attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.categories - Mandatory. Filters returned activities by categories. You must specify at least one category per request.
+   * @param params.reverse - Indicates whether the order of returning activities is from newest to oldest (true) or oldest to newest (false). Defaults to false.
+   * @param params.start - The timestamp in milliseconds indicating the start of the time interval for the activity timestamp. Defaults to 0 if not set.
+   * @param params.end - The timestamp in milliseconds indicating the end of the time interval for the activity timestamp. Defaults to Long.MAX_VALUE if not set.
+   * @param params.author - Filters activities by the author. You can specify the database ID, login, Hub ID, or 'me' for the currently logged in user.
+   * @param params.activityId - ID of the activity to start the first page from.
+   * @param params.direction - Follow the next pages ("forward") or the previous pages ("backward"). Defaults to "forward".
+   * @param params.cursor - Cursor of the first page, e.g. persisted from the previous run.
+   * @param params.onCursor - Called with the cursor to resume from when all activities of the page are consumed.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of the issue activities.
+   */
+  iterateActivities<TSchema extends ActivityItemSchema, TCategory extends ActivityCategory>(
+    issueId: string,
+    params: ActivityStreamParams &
+      FieldsParam<TSchema> & {
+        categories: TCategory[]
+        reverse?: boolean
+        start?: string
+        end?: string
+        author?: string
+        activityId?: string
+      },
+    options?: RequestOptions,
+  ): AsyncGenerator<ActivityItemOfEntity<TCategory, TSchema>> {
+    const { direction, cursor, onCursor, fields: schema, activityId, ...rest } = params
+    const pageFields = activitiesPageFields(schema)
+
+    return activityStream(
+      (cursor, reverse) =>
+        this.youtrack.fetch<ActivityPage<ActivityItemOfEntity<TCategory, TSchema>>>(
+          new RequestBuilder(
+            `api/issues/${issueId}/activitiesPage`,
+            { fields, ...queryParams("categories", "reverse", "start", "end", "author", "cursor", "activityId") },
+            { ...rest, ...(cursor ? { cursor } : { activityId }), ...(reverse && { reverse }), fields: pageFields },
+            options,
+          ).get(),
+        ),
+      { direction, cursor, onCursor },
+    )
+  }
+
   /**
    * Get the list of available custom fields of the issue.
    * @param issueId - The ID of the issue.
    * @param params.fields - A list of IssueCustomField attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$top - Optional. Specifies the maximum number of entries to return. The server returns a maximum of 42 entries if not specified.
    * @param params.$skip - Optional. Specifies the number of entries to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the list of custom fields.
    */
   async getIssueCustomFields<TSchema extends IssueCustomFieldSchema>(
     issueId: string,
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<IssueCustomFieldEntity<TSchema>[]> {
     return this.youtrack.fetch<IssueCustomFieldEntity<TSchema>[]>(
       new RequestBuilder(
         `api/issues/${issueId}/customFields`,
         { fields, ...queryParams("$top", "$skip") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all custom fields of the issue. Custom fields are requested page by page.
+   * @param issueId - The ID of the issue.
+   * @param params.fields - A list of IssueCustomField attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of custom fields of the issue.
+   */
+  iterateIssueCustomFields<TSchema extends IssueCustomFieldSchema>(
+    issueId: string,
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<IssueCustomFieldEntity<TSchema>> {
+    return paginate((page) => this.getIssueCustomFields<TSchema>(issueId, { ...params, ...page }, options), params)
+  }
+
   /**
    * Get a specific custom field in the issue.
    * @param issueId - The ID of the issue.
    * @param fieldId - The entity ID of the custom field in the issue.
    * @param params.fields - A list of IssueCustomField attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the custom field.
    */
   async getIssueCustomFieldById<TSchema extends IssueCustomFieldSchema>(
     issueId: string,
     fieldId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<IssueCustomFieldEntity<TSchema>> {
     return this.youtrack.fetch<IssueCustomFieldEntity<TSchema>>(
-      new RequestBuilder(`api/issues/${issueId}/customFields/${fieldId}`, { fields }, params).get(),
+      new RequestBuilder(`api/issues/${issueId}/customFields/${fieldId}`, { fields }, params, options).get(),
     )
   }
 
@@ -280,19 +417,22 @@ export class IssuesApi extends ResourceApi {
    * @param body - The new value to set for the custom field.
    * @param params.fields - A list of IssueCustomField attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.muteUpdateNotifications - Set to true to suppress notifications about changes made by this request.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated custom field.
    */
   async updateIssueCustomField<TSchema extends IssueCustomFieldSchema>(
     issueId: string,
     fieldId: string,
-    body: DeepPartial<IssueCustomField>,
+    body: DeepPartial<IssueCustomField> | IssueCustomFieldUpdate,
     params?: FieldsParam<TSchema> & MuteUpdateNotificationsParam,
+    options?: RequestOptions,
   ): Promise<IssueCustomFieldEntity<TSchema>> {
     return this.youtrack.fetch<IssueCustomFieldEntity<TSchema>>(
       new RequestBuilder(
         `api/issues/${issueId}/customFields/${fieldId}`,
         { fields, muteUpdateNotifications: "boolean" },
         params,
+        options,
       ).post(body),
     )
   }
@@ -301,11 +441,13 @@ export class IssuesApi extends ResourceApi {
    * Get the project to which the issue belongs.
    * @param issueId - The ID of the issue.
    * @param params.fields - A list of Project attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the project.
    */
   async getIssueProject<TSchema extends ProjectSchema>(
     issueId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ProjectEntity<TSchema>> {
     return this.youtrack.fetch<ProjectEntity<TSchema>>(
       new RequestBuilder(
@@ -314,6 +456,7 @@ export class IssuesApi extends ResourceApi {
           fields,
         },
         params,
+        options,
       ).get(),
     )
   }
@@ -324,12 +467,14 @@ export class IssuesApi extends ResourceApi {
    * @param body - Required fields: id - the database ID of the project.
    * @param params.fields - A list of Project attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.muteUpdateNotifications - Set this to true if no notifications should be sent on changes made by this request. This doesn't mute notifications sent by any workflow rules. Requires Apply Commands Silently permission.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated project.
    */
   async changeIssueProject<TSchema extends ProjectSchema>(
     issueId: string,
     body: { id: string },
     params?: FieldsParam<TSchema> & MuteUpdateNotificationsParam,
+    options?: RequestOptions,
   ): Promise<ProjectEntity<TSchema>> {
     return this.youtrack.fetch<ProjectEntity<TSchema>>(
       new RequestBuilder(
@@ -339,6 +484,7 @@ export class IssuesApi extends ResourceApi {
           muteUpdateNotifications: "boolean",
         },
         params,
+        options,
       ).post(body),
     )
   }
@@ -349,11 +495,13 @@ export class IssuesApi extends ResourceApi {
    * @param params.fields - A list of Sprint attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$skip - Optional. Set the number of returned entities to skip before returning the first one.
    * @param params.$top - Optional. Specify the maximum number of entries to return in the response. If not set, the server limits the number of returned entries.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the list of sprints associated with the issue.
    */
   async getIssueSprints<TSchema extends SprintSchema>(
     issueId: string,
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<SprintEntity<TSchema>[]> {
     return this.youtrack.fetch<SprintEntity<TSchema>[]>(
       new RequestBuilder(
@@ -363,7 +511,25 @@ export class IssuesApi extends ResourceApi {
           ...queryParams("$skip", "$top"),
         },
         params,
+        options,
       ).get(),
     )
   }
+
+  /**
+   * Iterate over all sprints of the issue. Sprints are requested page by page.
+   * @param issueId - The ID of the issue for which to get the sprints.
+   * @param params.fields - A list of Sprint attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of sprints of the issue.
+   */
+  iterateIssueSprints<TSchema extends SprintSchema>(
+    issueId: string,
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<SprintEntity<TSchema>> {
+    return paginate((page) => this.getIssueSprints<TSchema>(issueId, { ...params, ...page }, options), params)
+  }
 }
@@ -1,5 +1,14 @@
-import type { DeepPartial, Entity, FieldsParam, ListParams, SavedQuery, Schema } from "../types"
-import { fields, queryParams, RequestBuilder } from "../utils"
+import type {
+  DeepPartial,
+  Entity,
+  FieldsParam,
+  ListParams,
+  SavedQuery,
+  Schema,
+  PaginationParams,
+  RequestOptions,
+} from "../types"
+import { fields, queryParams, RequestBuilder, paginate } from "../utils"
 import { ResourceApi } from "./common"
 
 type SavedQuerySchema = Schema<SavedQuery>
@@ -15,28 +24,47 @@ export class SavedQueriesApi extends ResourceApi {
    * @param fields - A list of SavedQuery attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param top - Optional. Lets you specify the maximum number of entries that are returned in the response. If not set, the server limits the maximum number of returned entries.
    * @param skip - Optional. Lets you set a number of returned entities to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A list of saved queries visible to the current user.
    */
   async getSavedQueries<TSchema extends SavedQuerySchema>(
     params?: ListParams & FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<SavedQueryEntity<TSchema>[]> {
     return this.youtrack.fetch<SavedQueryEntity<TSchema>[]>(
-      new RequestBuilder("api/savedQueries", { fields, ...queryParams("$top", "$skip") }, params).get(),
+      new RequestBuilder("api/savedQueries", { fields, ...queryParams("$top", "$skip") }, params, options).get(),
     )
   }
 
+  /**
+   * Iterate over all saved queries. Saved queries are requested page by page.
+   * @param fields - A list of SavedQuery attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of saved queries.
+   */
+  iterateSavedQueries<TSchema extends SavedQuerySchema>(
+    params?: PaginationParams & FieldsParam<TSchema>,
+    options?: RequestOptions,
+  ): AsyncGenerator<SavedQueryEntity<TSchema>> {
+    return paginate((page) => this.getSavedQueries<TSchema>({ ...params, ...page }, options), params)
+  }
+
   /**
    * Create a new saved search.
    * @param body - Required fields: name, query.
    * @param fields - A list of SavedQuery attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The created saved search.
    */
   async createSavedQuery<TSchema extends SavedQuerySchema>(
     body: { name: string; query: string } | DeepPartial<SavedQuery>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<SavedQueryEntity<TSchema>> {
     return this.youtrack.fetch<SavedQueryEntity<TSchema>>(
-      new RequestBuilder("api/savedQueries", { fields }, params).post(body),
+      new RequestBuilder("api/savedQueries", { fields }, params, options).post(body),
     )
   }
 
@@ -44,14 +72,16 @@ export class SavedQueriesApi extends ResourceApi {
    * Read settings of the saved search with the specified ID.
    * @param queryId - Id of the saved search.
    * @param fields - A list of SavedQuery attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The settings of the specified saved search.
    */
   async getSavedQueryById<TSchema extends SavedQuerySchema>(
     queryId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<SavedQueryEntity<TSchema>> {
     return this.youtrack.fetch<SavedQueryEntity<TSchema>>(
-      new RequestBuilder(`api/savedQueries/${queryId}`, { fields }, params).get(),
+      new RequestBuilder(`api/savedQueries/${queryId}`, { fields }, params, options).get(),
     )
   }
 
@@ -60,15 +90,17 @@ export class SavedQueriesApi extends ResourceApi {
    * @param queryId - Id of the saved search.
    * @param body - The fields to update. Provide the fields that need to be modified.
    * @param fields - A list of SavedQuery attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The updated saved search.
    */
   async updateSavedQuery<TSchema extends SavedQuerySchema>(
     queryId: string,
     body: DeepPartial<SavedQuery>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<SavedQueryEntity<TSchema>> {
     return this.youtrack.fetch<SavedQueryEntity<TSchema>>(
-      new RequestBuilder(`api/savedQueries/${queryId}`, { fields }, params).post(body),
+      new RequestBuilder(`api/savedQueries/${queryId}`, { fields }, params, options).post(body),
     )
   }
 
@@ -76,14 +108,16 @@ export class SavedQueriesApi extends ResourceApi {
    * Delete the saved search with the specified ID.
    * @param queryId - Database ID of the saved search.
    * @param params - A list of SavedQuery attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The deleted saved search.
    */
   async deleteSavedQuery<TSchema extends SavedQuerySchema>(
     queryId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<SavedQueryEntity<TSchema>> {
     return this.youtrack.fetch<SavedQueryEntity<TSchema>>(
-      new RequestBuilder(`api/savedQueries/${queryId}`, { fields }, params).delete(),
+      new RequestBuilder(`api/savedQueries/${queryId}`, { fields }, params, options).delete(),
     )
   }
 }
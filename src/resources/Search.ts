@@ -1,4 +1,4 @@
-import type { SearchSuggestions, Entity, FieldsParam, Schema, SearchSuggestionsMutable } from "../types"
+import type { SearchSuggestions, Entity, FieldsParam, Schema, SearchSuggestionsMutable, RequestOptions } from "../types"
 import { fields, RequestBuilder } from "../utils"
 import { ResourceApi } from "./common"
 
@@ -14,14 +14,16 @@ export class SearchApi extends ResourceApi {
    * Get search query suggestions for the currently entered search query.
    * @param query - The current search query for which suggestions are requested.
    * @param fields - A list of SearchSuggestions attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns Search query suggestions.
    */
   async getSearchSuggestions<TSchema extends SearchSuggestionsSchema>(
     body: Partial<SearchSuggestionsMutable>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<SearchSuggestionsEntity<TSchema>> {
     return this.youtrack.fetch<SearchSuggestionsEntity<TSchema>>(
-      new RequestBuilder("api/search/assist", { fields }, params).post(body),
+      new RequestBuilder("api/search/assist", { fields }, params, options).post(body),
     )
   }
 }
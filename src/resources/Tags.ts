@@ -8,8 +8,10 @@ import type {
   Schema,
   CustomFieldsParam,
   DeepPartial,
+  PaginationParams,
+  RequestOptions,
 } from "../types"
-import { fields, RequestBuilder, queryParams } from "../utils"
+import { fields, RequestBuilder, queryParams, paginate } from "../utils"
 import { ResourceApi } from "./common"
 
 type TagSchema = Schema<Tag>
@@ -30,28 +32,56 @@ export class TagsApi extends ResourceApi {
    * @param params.$skip - The number of entries to skip in the response. Useful for pagination.
    * @param params.$top - The maximum number of entries to return. If not specified, the server limits the number of entries returned.
    * @param params.query - A search query to filter the list of tags by name. For more details on query syntax, see Query Syntax.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A list of tags visible to the current user that match the specified criteria.
    */
   async getTags<TSchema extends TagSchema>(
     params?: ListParams & FieldsParam<TSchema> & QueryParam,
+    options?: RequestOptions,
   ): Promise<TagEntity<TSchema>[]> {
     return this.youtrack.fetch<TagEntity<TSchema>[]>(
-      new RequestBuilder("api/tags", { fields, $skip: "number", $top: "number", query: "string" }, params).get(),
+      new RequestBuilder(
+        "api/tags",
+        { fields, $skip: "number", $top: "number", query: "string" },
+        params,
+        options,
+      ).get(),
     )
   }
 
+  /**
+   * Iterate over all tags that are visible to the current user. Tags are requested page by page.
+   * @param params - Optional parameters for the request.
+   * @param params.fields - A list of Tag attributes to include in the response. If not specified, only the entityId is returned.
+   * @param params.query - A search query to filter the list of tags by name. For more details on query syntax, see Query Syntax.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of tags visible to the current user.
+   */
+  iterateTags<TSchema extends TagSchema>(
+    params?: PaginationParams & FieldsParam<TSchema> & QueryParam,
+    options?: RequestOptions,
+  ): AsyncGenerator<TagEntity<TSchema>> {
+    return paginate((page) => this.getTags<TSchema>({ ...params, ...page }, options), params)
+  }
+
   /**
    * Get settings of the tag with the specified Id.
    * @param tagId - The Id of the tag to retrieve.
    * @param params - Optional parameters for the request.
    * @param params.fields - A list of Tag attributes to include in the response. If not specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The details of the specified tag.
    */
   async getTagById<TSchema extends TagSchema>(
     tagId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<TagEntity<TSchema>> {
-    return this.youtrack.fetch<TagEntity<TSchema>>(new RequestBuilder(`api/tags/${tagId}`, { fields }, params).get())
+    return this.youtrack.fetch<TagEntity<TSchema>>(
+      new RequestBuilder(`api/tags/${tagId}`, { fields }, params, options).get(),
+    )
   }
 
   /**
@@ -59,13 +89,17 @@ export class TagsApi extends ResourceApi {
    * @param body - The tag details to create. Must include the `name` field.
    * @param params - Optional parameters for the request.
    * @param params.fields - A list of Tag attributes to include in the response. If not specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The newly created tag.
    */
   async createTag<TSchema extends TagSchema>(
     body: DeepPartial<Tag>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<TagEntity<TSchema>> {
-    return this.youtrack.fetch<TagEntity<TSchema>>(new RequestBuilder("api/tags", { fields }, params).post(body))
+    return this.youtrack.fetch<TagEntity<TSchema>>(
+      new RequestBuilder("api/tags", { fields }, params, options).post(body),
+    )
   }
 
   /**
@@ -74,15 +108,17 @@ export class TagsApi extends ResourceApi {
    * @param body - The updated tag details. Must include any fields that need to be modified.
    * @param params - Optional parameters for the request.
    * @param params.fields - A list of Tag attributes to include in the response. If not specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The updated tag.
    */
   async updateTag<TSchema extends TagSchema>(
     tagId: string,
     body: DeepPartial<Tag>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<TagEntity<TSchema>> {
     return this.youtrack.fetch<TagEntity<TSchema>>(
-      new RequestBuilder(`api/tags/${tagId}`, { fields }, params).post(body),
+      new RequestBuilder(`api/tags/${tagId}`, { fields }, params, options).post(body),
     )
   }
 
@@ -91,13 +127,17 @@ export class TagsApi extends ResourceApi {
    * @param tagId - The database Id of the tag to delete.
    * @param params - Optional parameters for the request.
    * @param params.fields - A comma-separated list of Tag attributes to include in the response. If not specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The deleted tag.
    */
   async deleteTag<TSchema extends TagSchema>(
     tagId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<TagEntity<TSchema>> {
-    return this.youtrack.fetch<TagEntity<TSchema>>(new RequestBuilder(`api/tags/${tagId}`, { fields }, params).delete())
+    return this.youtrack.fetch<TagEntity<TSchema>>(
+      new RequestBuilder(`api/tags/${tagId}`, { fields }, params, options).delete(),
+    )
   }
 
   /**
@@ -108,11 +148,13 @@ export class TagsApi extends ResourceApi {
    * @param params.$skip - The number of entries to skip in the response. Useful for pagination.
    * @param params.$top - The maximum number of entries to return. If not specified, the server limits the number of entries returned.
    * @param params.customFields - Specifies the custom fields to show in the response. Can be used multiple times to include multiple custom fields.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A list of issues that the specified tag is associated with.
    */
   async getIssuesByTag<TSchema extends IssueSchema>(
     tagId: string,
     params?: ListParams & FieldsParam<TSchema> & CustomFieldsParam,
+    options?: RequestOptions,
   ): Promise<IssueEntity<TSchema>[]> {
     return this.youtrack.fetch<IssueEntity<TSchema>[]>(
       new RequestBuilder(
@@ -122,7 +164,27 @@ export class TagsApi extends ResourceApi {
           ...queryParams("$skip", "$top", "customFields"),
         },
         params,
+        options,
       ).get(),
     )
   }
+
+  /**
+   * Iterate over all issues that the specific tag is added to. Issues are requested page by page.
+   * @param tagId - The database Id of the tag.
+   * @param params - Optional parameters for the request.
+   * @param params.fields - A list of Issue attributes to include in the response. If not specified, only the entityId is returned.
+   * @param params.customFields - Specifies the custom fields to show in the response. Can be used multiple times to include multiple custom fields.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of issues that the specified tag is associated with.
+   */
+  iterateIssuesByTag<TSchema extends IssueSchema>(
+    tagId: string,
+    params?: PaginationParams & FieldsParam<TSchema> & CustomFieldsParam,
+    options?: RequestOptions,
+  ): AsyncGenerator<IssueEntity<TSchema>> {
+    return paginate((page) => this.getIssuesByTag<TSchema>(tagId, { ...params, ...page }, options), params)
+  }
 }
@@ -10,8 +10,10 @@ import type {
   Schema,
   Tag,
   DeepPartial,
+  PaginationParams,
+  RequestOptions,
 } from "../types"
-import { fields, queryParams, RequestBuilder } from "../utils"
+import { fields, queryParams, RequestBuilder, paginate } from "../utils"
 import { ResourceApi } from "./common"
 
 type UserSchema = Schema<User>
@@ -45,10 +47,12 @@ export class UsersApi extends ResourceApi {
    * @param params.fields - A list of User attributes to include in the response. If not specified, only the entityID is returned.
    * @param params.$skip - The number of entries to skip in the response. Useful for pagination.
    * @param params.$top - The maximum number of entries to return. If not specified, the server limits the number of entries returned (42 by default).
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A list of users in YouTrack, with optional pagination.
    */
   async getUsers<TSchema extends UserSchema>(
     params?: ListParams & FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<UserEntity<TSchema>[]> {
     return this.youtrack.fetch<UserEntity<TSchema>[]>(
       new RequestBuilder(
@@ -58,23 +62,44 @@ export class UsersApi extends ResourceApi {
           ...queryParams("$skip", "$top"),
         },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all users. Users are requested page by page.
+   * @param params - Optional parameters for the request.
+   * @param params.fields - A list of User attributes to include in the response. If not specified, only the entityID is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of users.
+   */
+  iterateUsers<TSchema extends UserSchema>(
+    params?: PaginationParams & FieldsParam<TSchema>,
+    options?: RequestOptions,
+  ): AsyncGenerator<UserEntity<TSchema>> {
+    return paginate((page) => this.getUsers<TSchema>({ ...params, ...page }, options), params)
+  }
+
   /**
    * Read the settings of the YouTrack profile of a specific user.
    * @param userId - The Id of the user in YouTrack.
    * @param params - Optional parameters for the request.
    * @param params.fields - A list of User attributes to include in the response. If not specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The settings of the specified user's YouTrack profile.
    * @requires Read User Basic permission for basic information, or Read User permission for accessing all data.
    */
   async getUserProfile<TSchema extends UserSchema>(
     userId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<UserEntity<TSchema>> {
-    return this.youtrack.fetch<UserEntity<TSchema>>(new RequestBuilder(`api/users/${userId}`, { fields }, params).get())
+    return this.youtrack.fetch<UserEntity<TSchema>>(
+      new RequestBuilder(`api/users/${userId}`, { fields }, params, options).get(),
+    )
   }
 
   /**
@@ -83,14 +108,16 @@ export class UsersApi extends ResourceApi {
    * @param userId - The Id of the user in YouTrack.
    * @param params - Optional parameters for the request.
    * @param params.fields - A list of GeneralUserProfile attributes to include in the response. If not specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The general profile settings of the specified user.
    */
   async getUserGeneralProfile<TSchema extends GeneralUserProfileSchema>(
     userId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<GeneralUserProfileEntity<TSchema>> {
     return this.youtrack.fetch<GeneralUserProfileEntity<TSchema>>(
-      new RequestBuilder(`api/users/${userId}/profiles/general`, { fields }, params).get(),
+      new RequestBuilder(`api/users/${userId}/profiles/general`, { fields }, params, options).get(),
     )
   }
 
@@ -101,15 +128,17 @@ export class UsersApi extends ResourceApi {
    * @param data - The data to update in the user's general profile.
    * @param params - Optional parameters for the request.
    * @param params.fields - A list of GeneralUserProfile attributes to include in the response. If not specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The updated general profile settings of the specified user.
    */
   async updateUserGeneralProfile<TSchema extends GeneralUserProfileSchema>(
     userID: string,
     data: DeepPartial<GeneralUserProfile>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<GeneralUserProfileEntity<TSchema>> {
     return this.youtrack.fetch<GeneralUserProfileEntity<TSchema>>(
-      new RequestBuilder(`api/users/${userID}/profiles/general`, { fields }, params).post(data),
+      new RequestBuilder(`api/users/${userID}/profiles/general`, { fields }, params, options).post(data),
     )
   }
 
@@ -119,14 +148,16 @@ export class UsersApi extends ResourceApi {
    * @param userId - The Id of the user in YouTrack.
    * @param params - Optional parameters for the request.
    * @param params.fields - A list of NotificationsUserProfile attributes to include in the response. If not specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The notification settings of the specified user's profile.
    */
   async getUserNotificationProfile<TSchema extends NotificationsUserProfileSchema>(
     userId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<NotificationsUserProfileEntity<TSchema>> {
     return this.youtrack.fetch<NotificationsUserProfileEntity<TSchema>>(
-      new RequestBuilder(`api/users/${userId}/profiles/notifications`, { fields }, params).get(),
+      new RequestBuilder(`api/users/${userId}/profiles/notifications`, { fields }, params, options).get(),
     )
   }
 
@@ -137,15 +168,17 @@ export class UsersApi extends ResourceApi {
    * @param body - The updated notification settings for the user profile.
    * @param params - Optional parameters for the request.
    * @param params.fields - A list of NotificationsUserProfile attributes to include in the response. If not specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The updated notification settings of the user's profile.
    */
   async updateUserNotificationProfile<TSchema extends NotificationsUserProfileSchema>(
     userId: string,
     body: DeepPartial<NotificationsUserProfile>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<NotificationsUserProfileEntity<TSchema>> {
     return this.youtrack.fetch<NotificationsUserProfileEntity<TSchema>>(
-      new RequestBuilder(`api/users/${userId}/profiles/notifications`, { fields }, params).post(body),
+      new RequestBuilder(`api/users/${userId}/profiles/notifications`, { fields }, params, options).post(body),
     )
   }
 
@@ -155,14 +188,16 @@ export class UsersApi extends ResourceApi {
    * @param userId - The ID of the user in YouTrack.
    * @param params - Optional parameters for the request.
    * @param params.fields - A list of TimeTrackingUserProfile attributes to include in the response. If not specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The time tracking settings of the user's profile.
    */
   async getUserTimeTrackingProfile<TSchema extends TimeTrackingUserProfileSchema>(
     userId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<TimeTrackingUserProfileEntity<TSchema>> {
     return this.youtrack.fetch<TimeTrackingUserProfileEntity<TSchema>>(
-      new RequestBuilder(`api/users/${userId}/profiles/timetracking`, { fields }, params).get(),
+      new RequestBuilder(`api/users/${userId}/profiles/timetracking`, { fields }, params, options).get(),
     )
   }
 
@@ -173,15 +208,17 @@ export class UsersApi extends ResourceApi {
    * @param data - The updated time tracking settings.
    * @param params - Optional parameters for the request.
    * @param params.fields - A list of TimeTrackingUserProfile attributes to include in the response. If not specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The updated time tracking settings of the user's profile.
    */
   async updateUserTimeTrackingProfile<TSchema extends TimeTrackingUserProfileSchema>(
     userId: string,
     data: DeepPartial<TimeTrackingUserProfile>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<TimeTrackingUserProfileEntity<TSchema>> {
     return this.youtrack.fetch<TimeTrackingUserProfileEntity<TSchema>>(
-      new RequestBuilder(`api/users/${userId}/profiles/timetracking`, { fields }, params).post(data),
+      new RequestBuilder(`api/users/${userId}/profiles/timetracking`, { fields }, params, options).post(data),
     )
   }
 
@@ -192,11 +229,13 @@ export class UsersApi extends ResourceApi {
    * @param params.fields - A list of SavedQuery attributes to include in the response. If not specified, only the entityId is returned.
    * @param params.$skip - The number of entities to skip before returning the first one.
    * @param params.$top - The maximum number of entries returned in the response. Defaults to 42 if not set.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A list of saved queries created by the user.
    */
   async getUserSavedQueries<TSchema extends SavedQuerySchema>(
     userId: string,
     params?: ListParams & FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<SavedQueryEntity<TSchema>[]> {
     return this.youtrack.fetch<SavedQueryEntity<TSchema>[]>(
       new RequestBuilder(
@@ -207,10 +246,29 @@ export class UsersApi extends ResourceApi {
           $top: "number",
         },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all saved queries of the user. Saved queries are requested page by page.
+   * @param userId - The Id of the user in YouTrack.
+   * @param params - Optional parameters for the request.
+   * @param params.fields - A list of SavedQuery attributes to include in the response. If not specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of saved queries of the user.
+   */
+  iterateUserSavedQueries<TSchema extends SavedQuerySchema>(
+    userId: string,
+    params?: PaginationParams & FieldsParam<TSchema>,
+    options?: RequestOptions,
+  ): AsyncGenerator<SavedQueryEntity<TSchema>> {
+    return paginate((page) => this.getUserSavedQueries<TSchema>(userId, { ...params, ...page }, options), params)
+  }
+
   /**
    * Get the list of all tags that belong to the specified user.
    * @param userId - The Id of the user in YouTrack.
@@ -218,11 +276,13 @@ export class UsersApi extends ResourceApi {
    * @param params.fields - A list of Tag attributes to include in the response. If not specified, only the entityId is returned.
    * @param params.$skip - The number of entities to skip before returning the first one.
    * @param params.$top - The maximum number of entries returned in the response. Defaults to 42 if not set.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A list of tags that belong to the user.
    */
   async getUserTags<TSchema extends TagSchema>(
     userId: string,
     params?: ListParams & FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<TagEntity<TSchema>[]> {
     return this.youtrack.fetch<TagEntity<TSchema>[]>(
       new RequestBuilder(
@@ -232,17 +292,42 @@ export class UsersApi extends ResourceApi {
           ...queryParams("$skip", "$top"),
         },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all tags of the user. Tags are requested page by page.
+   * @param userId - The Id of the user in YouTrack.
+   * @param params - Optional parameters for the request.
+   * @param params.fields - A list of Tag attributes to include in the response. If not specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of tags of the user.
+   */
+  iterateUserTags<TSchema extends TagSchema>(
+    userId: string,
+    params?: PaginationParams & FieldsParam<TSchema>,
+    options?: RequestOptions,
+  ): AsyncGenerator<TagEntity<TSchema>> {
+    return paginate((page) => this.getUserTags<TSchema>(userId, { ...params, ...page }, options), params)
+  }
+
   /**
    * Read the profile settings of the currently logged-in user.
    * @param params - Optional parameters for the request.
    * @param params.fields - A list of attributes to include in the response. If not specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The profile settings of the currently logged-in user.
    */
-  async getCurrentUserProfile<TSchema extends UserSchema>(params?: FieldsParam<TSchema>): Promise<UserEntity<TSchema>> {
-    return this.youtrack.fetch<UserEntity<TSchema>>(new RequestBuilder("api/users/me", { fields }, params).get())
+  async getCurrentUserProfile<TSchema extends UserSchema>(
+    params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
+  ): Promise<UserEntity<TSchema>> {
+    return this.youtrack.fetch<UserEntity<TSchema>>(
+      new RequestBuilder("api/users/me", { fields }, params, options).get(),
+    )
   }
 }
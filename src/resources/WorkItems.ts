@@ -1,10 +1,32 @@
-import type { Entity, FieldsParam, IssueWorkItem, ListParams, QueryParam, Schema } from "../types"
-import { fields, queryParams, RequestBuilder } from "../utils"
+import type {
+  Entity,
+  FieldsParam,
+  IssueWorkItem,
+  ListParams,
+  QueryParam,
+  Schema,
+  PaginationParams,
+  RequestOptions,
+} from "../types"
+import { fields, queryParams, RequestBuilder, paginate } from "../utils"
 import { ResourceApi } from "./common"
 
 type WorkItemSchema = Schema<IssueWorkItem>
 type WorkItemEntity<TSchema extends WorkItemSchema> = Entity<IssueWorkItem, TSchema>
 
+type GetWorkItemsParams = {
+  startDate?: string
+  endDate?: string
+  start?: number
+  end?: number
+  createdStart?: number
+  createdEnd?: number
+  updatedStart?: number
+  updatedEnd?: number
+  author?: string | string[]
+  creator?: string | string[]
+}
+
 /**
  * Resource that provides access to work items.
  * https://www.jetbrains.com/help/youtrack/devportal/resource-api-workItems.html
@@ -27,23 +49,12 @@ export class WorkItemsApi extends ResourceApi {
    * @param params.updatedEnd - A timestamp in milliseconds indicating the end of the interval during which work items were updated.
    * @param params.author - Filter work items by their author. Can be a user ID, login, Hub ID, or "me" for the currently logged-in user. Use multiple parameters for multiple authors.
    * @param params.creator - Filter work items by their creator. Can be a user ID, login, Hub ID, or "me" for the currently logged-in user. Use multiple parameters for multiple creators.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A list of work items that match the specified criteria.
    */
   async getWorkItems<TSchema extends WorkItemSchema>(
-    params?: FieldsParam<TSchema> &
-      ListParams &
-      QueryParam & {
-        startDate?: string
-        endDate?: string
-        start?: number
-        end?: number
-        createdStart?: number
-        createdEnd?: number
-        updatedStart?: number
-        updatedEnd?: number
-        author?: string
-        creator?: string
-      },
+    params?: FieldsParam<TSchema> & ListParams & QueryParam & GetWorkItemsParams,
+    options?: RequestOptions,
   ): Promise<WorkItemEntity<TSchema>[]> {
     return this.youtrack.fetch<WorkItemEntity<TSchema>[]>(
       new RequestBuilder(
@@ -67,22 +78,52 @@ export class WorkItemsApi extends ResourceApi {
           ),
         },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all work items that belong to issues that match a search query. Work items are requested page by page.
+   * @param params - Optional parameters for the request.
+   * @param params.fields - A list of IssueWorkItem attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.query - Issue search query. For more information, refer to the Search Query Reference.
+   * @param params.startDate - The start date of the time interval where the work item dates belong (YYYY-MM-DD).
+   * @param params.endDate - The end date of the time interval where the work item dates belong (YYYY-MM-DD).
+   * @param params.start - A timestamp in milliseconds indicating the start of the interval where the work item dates belong.
+   * @param params.end - A timestamp in milliseconds indicating the end of the interval where the work item dates belong.
+   * @param params.createdStart - A timestamp in milliseconds indicating the start of the interval during which work items were created.
+   * @param params.createdEnd - A timestamp in milliseconds indicating the end of the interval during which work items were created.
+   * @param params.updatedStart - A timestamp in milliseconds indicating the start of the interval during which work items were updated.
+   * @param params.updatedEnd - A timestamp in milliseconds indicating the end of the interval during which work items were updated.
+   * @param params.author - Filter work items by their author. Can be a user ID, login, Hub ID, or "me" for the currently logged-in user. Use multiple parameters for multiple authors.
+   * @param params.creator - Filter work items by their creator. Can be a user ID, login, Hub ID, or "me" for the currently logged-in user. Use multiple parameters for multiple creators.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of work items that match the specified criteria.
+   */
+  iterateWorkItems<TSchema extends WorkItemSchema>(
+    params?: FieldsParam<TSchema> & PaginationParams & QueryParam & GetWorkItemsParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<WorkItemEntity<TSchema>> {
+    return paginate((page) => this.getWorkItems<TSchema>({ ...params, ...page }, options), params)
+  }
+
   /**
    * Get a specific work item.
    * @param itemId - The database Id of the work item.
    * @param fields - A list of IssueWorkItem attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The specified work item.
    */
   async getWorkItem<TSchema extends WorkItemSchema>(
     itemId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<WorkItemEntity<TSchema>> {
     return this.youtrack.fetch<WorkItemEntity<TSchema>>(
-      new RequestBuilder(`api/workItems/${itemId}`, { fields }, params).get(),
+      new RequestBuilder(`api/workItems/${itemId}`, { fields }, params, options).get(),
     )
   }
 }
@@ -1,4 +1,4 @@
-import type { Schema, FieldsParam, Entity, BackupFile } from "../../types"
+import type { Schema, FieldsParam, Entity, BackupFile, RequestOptions } from "../../types"
 import { fields, RequestBuilder } from "../../utils"
 import { ResourceApi } from "../common"
 
@@ -11,14 +11,16 @@ export class BackupFilesApi extends ResourceApi {
    * @param fileId - The name of the backup file.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of BackupFile attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the details of the specified backup file.
    */
   async getBackupFileData<TSchema extends BackupFileSchema>(
     fileId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<BackupFileEntity<TSchema>> {
     return this.youtrack.fetch<BackupFileEntity<TSchema>>(
-      new RequestBuilder(`api/admin/databaseBackup/backups/${fileId}`, { fields }, params).get(),
+      new RequestBuilder(`api/admin/databaseBackup/backups/${fileId}`, { fields }, params, options).get(),
     )
   }
 }
@@ -1,5 +1,15 @@
-import type { Schema, BuildBundle, FieldsParam, Entity, ListParams, BuildBundleElement, DeepPartial } from "../../types"
-import { fields, queryParams, RequestBuilder } from "../../utils"
+import type {
+  Schema,
+  BuildBundle,
+  FieldsParam,
+  Entity,
+  ListParams,
+  BuildBundleElement,
+  DeepPartial,
+  PaginationParams,
+  RequestOptions,
+} from "../../types"
+import { fields, queryParams, RequestBuilder, paginate } from "../../utils"
 import { ResourceApi } from "../common"
 
 type BuildBundleSchema = Schema<BuildBundle>
@@ -15,34 +25,55 @@ export class BuildBundlesApi extends ResourceApi {
    * @param params.fields - A list of BuildBundle attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$skip - Optional. The number of returned entities to skip before returning the first one.
    * @param params.$top - Optional. The maximum number of entries that are returned in the response.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the list of BuildBundle entities.
    */
   async getBuildBundles<TSchema extends BuildBundleSchema>(
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<BuildBundleEntity<TSchema>[]> {
     return this.youtrack.fetch<BuildBundleEntity<TSchema>[]>(
       new RequestBuilder(
         "api/admin/customFieldSettings/bundles/build",
         { fields, ...queryParams("$skip", "$top") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all build bundles. Bundles are requested page by page.
+   * @param params - Optional parameters.
+   * @param params.fields - A list of BuildBundle attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of build bundles.
+   */
+  iterateBuildBundles<TSchema extends BuildBundleSchema>(
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<BuildBundleEntity<TSchema>> {
+    return paginate((page) => this.getBuildBundles<TSchema>({ ...params, ...page }, options), params)
+  }
+
   /**
    * Create a new set of builds.
    * Requires permissions: Update Project or Low-level Admin Write.
    * @param body - The details of the new BuildBundle to create.
    * @param params - Optional parameters.
    * @param params.fields - A list of BuildBundle attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the created BuildBundle entity.
    */
   async createBuildBundle<TSchema extends BuildBundleSchema>(
     body: DeepPartial<BuildBundle>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<BuildBundleEntity<TSchema>> {
     return this.youtrack.fetch<BuildBundleEntity<TSchema>>(
-      new RequestBuilder("api/admin/customFieldSettings/bundles/build", { fields }, params).post(body),
+      new RequestBuilder("api/admin/customFieldSettings/bundles/build", { fields }, params, options).post(body),
     )
   }
 
@@ -52,14 +83,16 @@ export class BuildBundlesApi extends ResourceApi {
    * @param bundleId - The database ID of the build bundle.
    * @param params - Optional parameters.
    * @param params.fields - A list of BuildBundle attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the requested BuildBundle entity.
    */
   async getBuildBundleById<TSchema extends BuildBundleSchema>(
     bundleId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<BuildBundleEntity<TSchema>> {
     return this.youtrack.fetch<BuildBundleEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/bundles/build/${bundleId}`, { fields }, params).get(),
+      new RequestBuilder(`api/admin/customFieldSettings/bundles/build/${bundleId}`, { fields }, params, options).get(),
     )
   }
 
@@ -69,15 +102,19 @@ export class BuildBundlesApi extends ResourceApi {
    * @param bundleId - The database ID of the build bundle.
    * @param body - The udpdated build bundle.
    * @param fields - Optional. A list of BuildBundle attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated BuildBundle entity.
    */
   async updateBuildBundle<TSchema extends BuildBundleSchema>(
     bundleId: string,
     body: DeepPartial<BuildBundle>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<BuildBundleEntity<TSchema>> {
     return this.youtrack.fetch<BuildBundleEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/bundles/build/${bundleId}`, { fields }, params).post(body),
+      new RequestBuilder(`api/admin/customFieldSettings/bundles/build/${bundleId}`, { fields }, params, options).post(
+        body,
+      ),
     )
   }
 
@@ -86,14 +123,21 @@ export class BuildBundlesApi extends ResourceApi {
    * Requires Update Project permission in all projects where the bundle is used. If the bundle is not used in any field, Update Project permission is required in at least one project.
    * @param bundleId - The database ID of the build bundle to delete.
    * @param fields - Optional. A list of BuildBundle attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the deleted BuildBundle entity.
    */
   async deleteBuildBundle<TSchema extends BuildBundleSchema>(
     bundleId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<BuildBundleEntity<TSchema>> {
     return this.youtrack.fetch<BuildBundleEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/bundles/build/${bundleId}`, { fields }, params).delete(),
+      new RequestBuilder(
+        `api/admin/customFieldSettings/bundles/build/${bundleId}`,
+        { fields },
+        params,
+        options,
+      ).delete(),
     )
   }
 
@@ -101,37 +145,62 @@ export class BuildBundlesApi extends ResourceApi {
    * Get the list of all build values in the specific build bundle.
    * @param bundleId - The database ID of the build bundle.
    * @param params - Optional parameters for fields, $skip, and $top.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to a list of BuildBundleElement entities.
    */
   async getBuildBundleValues<TSchema extends BuildBundleElementSchema>(
     bundleId: string,
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<BuildBundleElementEntity<TSchema>[]> {
     return this.youtrack.fetch<BuildBundleElementEntity<TSchema>[]>(
       new RequestBuilder(
         `api/admin/customFieldSettings/bundles/build/${bundleId}/values`,
         { fields, ...queryParams("$top", "$skip") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all values of the specific build bundle. Values are requested page by page.
+   * @param bundleId - The database ID of the build bundle.
+   * @param params - Optional parameters for the request.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of build bundle values.
+   */
+  iterateBuildBundleValues<TSchema extends BuildBundleElementSchema>(
+    bundleId: string,
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<BuildBundleElementEntity<TSchema>> {
+    return paginate((page) => this.getBuildBundleValues<TSchema>(bundleId, { ...params, ...page }, options), params)
+  }
+
   /**
    * Add a new build to the specific build bundle.
    * @param bundleId - The database ID of the build bundle.
    * @param body - The build details, including the required name.
    * @param params - Optional fields to include in the response.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the newly added BuildBundleElement entity.
    */
   async addBuildToBundle<TSchema extends BuildBundleElementSchema>(
     bundleId: string,
     body: { name: string } & DeepPartial<BuildBundleElement>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<BuildBundleElementEntity<TSchema>> {
     return this.youtrack.fetch<BuildBundleElementEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/bundles/build/${bundleId}/values`, { fields }, params).post(
-        body,
-      ),
+      new RequestBuilder(
+        `api/admin/customFieldSettings/bundles/build/${bundleId}/values`,
+        { fields },
+        params,
+        options,
+      ).post(body),
     )
   }
 
@@ -140,18 +209,21 @@ export class BuildBundlesApi extends ResourceApi {
    * @param bundleId - The database ID of the build bundle.
    * @param elementId - The database ID of the build value.
    * @param params - Optional fields to include in the response.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the specified BuildBundleElement entity.
    */
   async getBuildFromBundle<TSchema extends BuildBundleElementSchema>(
     bundleId: string,
     elementId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<BuildBundleElementEntity<TSchema>> {
     return this.youtrack.fetch<BuildBundleElementEntity<TSchema>>(
       new RequestBuilder(
         `api/admin/customFieldSettings/bundles/build/${bundleId}/values/${elementId}`,
         { fields },
         params,
+        options,
       ).get(),
     )
   }
@@ -162,6 +234,7 @@ export class BuildBundlesApi extends ResourceApi {
    * @param elementId - The database ID of the build value.
    * @param body - The updated build details.
    * @param params - Optional fields to include in the response.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated BuildBundleElement entity.
    */
   async updateBuildInBundle<TSchema extends BuildBundleElementSchema>(
@@ -169,12 +242,14 @@ export class BuildBundlesApi extends ResourceApi {
     elementId: string,
     body: DeepPartial<BuildBundleElement>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<BuildBundleElementEntity<TSchema>> {
     return this.youtrack.fetch<BuildBundleElementEntity<TSchema>>(
       new RequestBuilder(
         `api/admin/customFieldSettings/bundles/build/${bundleId}/values/${elementId}`,
         { fields },
         params,
+        options,
       ).post(body),
     )
   }
@@ -184,18 +259,21 @@ export class BuildBundlesApi extends ResourceApi {
    * @param bundleId - The database ID of the build bundle.
    * @param elementId - The database ID of the build value to remove.
    * @param params - Optional fields to include in the response.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the removed BuildBundleElement entity.
    */
   async removeBuildFromBundle<TSchema extends BuildBundleElementSchema>(
     bundleId: string,
     elementId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<BuildBundleElementEntity<TSchema>> {
     return this.youtrack.fetch<BuildBundleElementEntity<TSchema>>(
       new RequestBuilder(
         `api/admin/customFieldSettings/bundles/build/${bundleId}/values/${elementId}`,
         { fields },
         params,
+        options,
       ).delete(),
     )
   }
@@ -8,8 +8,10 @@ import type {
   CustomFieldDefaults,
   ProjectCustomField,
   DeepPartial,
+  RequestOptions,
+  PaginationParams,
 } from "../../types"
-import { fields, queryParams, RequestBuilder } from "../../utils"
+import { fields, queryParams, RequestBuilder, paginate } from "../../utils"
 import { ResourceApi } from "../common"
 
 type CustomFieldSchema = Schema<CustomField>
@@ -29,25 +31,45 @@ export class CustomFieldsApi extends ResourceApi {
    * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$top - Optional. Maximum number of entries to return.
    * @param params.$skip - Optional. Number of entries to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to a list of CustomField entities.
    */
   async getCustomFields<TSchema extends CustomFieldSchema>(
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<CustomFieldEntity<TSchema>[]> {
     return this.youtrack.fetch<CustomFieldEntity<TSchema>[]>(
       new RequestBuilder(
         "api/admin/customFieldSettings/customFields",
         { fields, ...queryParams("$skip", "$top") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all custom fields. Custom fields are requested page by page.
+   * @param params - Optional parameters for response filtering.
+   * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of custom fields.
+   */
+  iterateCustomFields<TSchema extends CustomFieldSchema>(
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<CustomFieldEntity<TSchema>> {
+    return paginate((page) => this.getCustomFields<TSchema>({ ...params, ...page }, options), params)
+  }
+
   /**
    * Create a new custom field in the system.
    * @param body - Required fields: name, fieldType.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the created CustomField entity.
    */
   async createCustomField<TSchema extends CustomFieldSchema>(
@@ -56,9 +78,10 @@ export class CustomFieldsApi extends ResourceApi {
       fieldType: FieldType
     } & DeepPartial<CustomField>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<CustomFieldEntity<TSchema>> {
     return this.youtrack.fetch<CustomFieldEntity<TSchema>>(
-      new RequestBuilder("api/admin/customFieldSettings/customFields", { fields }, params).post(body),
+      new RequestBuilder("api/admin/customFieldSettings/customFields", { fields }, params, options).post(body),
     )
   }
 
@@ -67,14 +90,16 @@ export class CustomFieldsApi extends ResourceApi {
    * @param fieldId - The database ID of the custom field.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the requested CustomField entity.
    */
   async getCustomFieldById<TSchema extends CustomFieldSchema>(
     fieldId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<CustomFieldEntity<TSchema>> {
     return this.youtrack.fetch<CustomFieldEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/customFields/${fieldId}`, { fields }, params).get(),
+      new RequestBuilder(`api/admin/customFieldSettings/customFields/${fieldId}`, { fields }, params, options).get(),
     )
   }
 
@@ -84,15 +109,19 @@ export class CustomFieldsApi extends ResourceApi {
    * @param body - The fields to update in the custom field.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated CustomField entity.
    */
   async updateCustomField<TSchema extends CustomFieldSchema>(
     fieldId: string,
     body: DeepPartial<CustomField>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<CustomFieldEntity<TSchema>> {
     return this.youtrack.fetch<CustomFieldEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/customFields/${fieldId}`, { fields }, params).post(body),
+      new RequestBuilder(`api/admin/customFieldSettings/customFields/${fieldId}`, { fields }, params, options).post(
+        body,
+      ),
     )
   }
 
@@ -101,14 +130,16 @@ export class CustomFieldsApi extends ResourceApi {
    * @param fieldId - The database ID of the custom field.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the deleted CustomField entity.
    */
   async deleteCustomField<TSchema extends CustomFieldSchema>(
     fieldId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<CustomFieldEntity<TSchema>> {
     return this.youtrack.fetch<CustomFieldEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/customFields/${fieldId}`, { fields }, params).delete(),
+      new RequestBuilder(`api/admin/customFieldSettings/customFields/${fieldId}`, { fields }, params, options).delete(),
     )
   }
 
@@ -118,36 +149,58 @@ export class CustomFieldsApi extends ResourceApi {
    * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$top - Optional. Maximum number of entries to return.
    * @param params.$skip - Optional. Number of entries to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the list of FieldType entities.
    */
   async getFieldTypes<TSchema extends FieldTypeSchema>(
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<FieldTypeEntity<TSchema>[]> {
     return this.youtrack.fetch<FieldTypeEntity<TSchema>[]>(
       new RequestBuilder(
         "api/admin/customFieldSettings/types",
         { fields, ...queryParams("$top", "$skip") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all custom field types. Field types are requested page by page.
+   * @param params - Optional parameters for response filtering.
+   * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of custom field types.
+   */
+  iterateFieldTypes<TSchema extends FieldTypeSchema>(
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<FieldTypeEntity<TSchema>> {
+    return paginate((page) => this.getFieldTypes<TSchema>({ ...params, ...page }, options), params)
+  }
+
   /**
    * Get default settings for the field.
    * @param fieldId - The database ID of the custom field.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the CustomFieldDefaults entity.
    */
   async getCustomFieldDefaults<TSchema extends CustomFieldDefaultsSchema>(
     fieldId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<CustomFieldDefaultsEntity<TSchema>> {
     return this.youtrack.fetch<CustomFieldDefaultsEntity<TSchema>>(
       new RequestBuilder(
         `api/admin/customFieldSettings/customFields/${fieldId}/fieldDefaults`,
         { fields },
         params,
+        options,
       ).get(),
     )
   }
@@ -158,18 +211,21 @@ export class CustomFieldsApi extends ResourceApi {
    * @param body - The new default settings for the field.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated CustomFieldDefaults entity.
    */
   async updateCustomFieldDefaults<TSchema extends CustomFieldDefaultsSchema>(
     fieldId: string,
     body: DeepPartial<CustomFieldDefaults>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<CustomFieldDefaultsEntity<TSchema>> {
     return this.youtrack.fetch<CustomFieldDefaultsEntity<TSchema>>(
       new RequestBuilder(
         `api/admin/customFieldSettings/customFields/${fieldId}/fieldDefaults`,
         { fields },
         params,
+        options,
       ).post(body),
     )
   }
@@ -182,18 +238,39 @@ export class CustomFieldsApi extends ResourceApi {
    * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$top - Optional. The maximum number of entries to return in the response.
    * @param params.$skip - Optional. The number of entities to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the list of ProjectCustomField entities.
    */
   async getCustomFieldInstances<TSchema extends ProjectCustomFieldSchema>(
     fieldId: string,
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<ProjectCustomFieldEntity<TSchema>[]> {
     return this.youtrack.fetch<ProjectCustomFieldEntity<TSchema>[]>(
       new RequestBuilder(
         `api/admin/customFieldSettings/customFields/${fieldId}/instances`,
         { fields, ...queryParams("$top", "$skip") },
         params,
+        options,
       ).get(),
     )
   }
+
+  /**
+   * Iterate over all instances of the custom field in projects. Instances are requested page by page.
+   * @param fieldId - The database ID of the custom field.
+   * @param params - Optional parameters for response filtering.
+   * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of instances of the custom field in projects.
+   */
+  iterateCustomFieldInstances<TSchema extends ProjectCustomFieldSchema>(
+    fieldId: string,
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<ProjectCustomFieldEntity<TSchema>> {
+    return paginate((page) => this.getCustomFieldInstances<TSchema>(fieldId, { ...params, ...page }, options), params)
+  }
 }
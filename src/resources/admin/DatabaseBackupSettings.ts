@@ -1,4 +1,12 @@
-import type { Schema, FieldsParam, Entity, DatabaseBackupSettings, BackupStatus, DeepPartial } from "../../types"
+import type {
+  Schema,
+  FieldsParam,
+  Entity,
+  DatabaseBackupSettings,
+  BackupStatus,
+  DeepPartial,
+  RequestOptions,
+} from "../../types"
 import { fields, RequestBuilder } from "../../utils"
 import { ResourceApi } from "../common"
 
@@ -16,13 +24,15 @@ export class DatabaseBackupSettingsApi extends ResourceApi {
    * Read the database backup settings.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of DatabaseBackupSettings attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the current database backup settings.
    */
   async getDatabaseBackupSettings<TSchema extends DatabaseBackupSettingsSchema>(
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<DatabaseBackupSettingsEntity<TSchema>> {
     return this.youtrack.fetch<DatabaseBackupSettingsEntity<TSchema>>(
-      new RequestBuilder("api/admin/databaseBackup/settings", { fields }, params).get(),
+      new RequestBuilder("api/admin/databaseBackup/settings", { fields }, params, options).get(),
     )
   }
 
@@ -31,14 +41,16 @@ export class DatabaseBackupSettingsApi extends ResourceApi {
    * @param body - The updated database backup settings.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of DatabaseBackupSettings attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated database backup settings.
    */
   async updateDatabaseBackupSettings<TSchema extends DatabaseBackupSettingsSchema>(
     body: DeepPartial<DatabaseBackupSettings>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<DatabaseBackupSettingsEntity<TSchema>> {
     return this.youtrack.fetch<DatabaseBackupSettingsEntity<TSchema>>(
-      new RequestBuilder("api/admin/databaseBackup/settings", { fields: fields }, params).post(body),
+      new RequestBuilder("api/admin/databaseBackup/settings", { fields: fields }, params, options).post(body),
     )
   }
 
@@ -46,13 +58,15 @@ export class DatabaseBackupSettingsApi extends ResourceApi {
    * Read the status of the backup process.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of BackupStatus attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the current backup status.
    */
   async getBackupStatus<TSchema extends BackupStatusSchema>(
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<BackupStatusEntity<TSchema>> {
     return this.youtrack.fetch<BackupStatusEntity<TSchema>>(
-      new RequestBuilder("api/admin/databaseBackup/settings/backupStatus", { fields }, params).get(),
+      new RequestBuilder("api/admin/databaseBackup/settings/backupStatus", { fields }, params, options).get(),
     )
   }
 }
@@ -1,5 +1,15 @@
-import type { Schema, FieldsParam, Entity, ListParams, EnumBundle, EnumBundleElement, DeepPartial } from "../../types"
-import { fields, queryParams, RequestBuilder } from "../../utils"
+import type {
+  Schema,
+  FieldsParam,
+  Entity,
+  ListParams,
+  EnumBundle,
+  EnumBundleElement,
+  DeepPartial,
+  PaginationParams,
+  RequestOptions,
+} from "../../types"
+import { fields, queryParams, RequestBuilder, paginate } from "../../utils"
 import { ResourceApi } from "../common"
 
 type EnumBundleSchema = Schema<EnumBundle>
@@ -15,33 +25,54 @@ export class EnumBundlesApi extends ResourceApi {
    * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$skip - Optional. The number of returned entities to skip before returning the first one.
    * @param params.$top - Optional. The maximum number of entries that are returned in the response.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to an array of EnumBundle entities.
    */
   async getEnumBundles<TSchema extends EnumBundleSchema>(
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<EnumBundleEntity<TSchema>[]> {
     return this.youtrack.fetch<EnumBundleEntity<TSchema>[]>(
       new RequestBuilder(
         "api/admin/customFieldSettings/bundles/enum",
         { fields, ...queryParams("$skip", "$top") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all enum bundles. Bundles are requested page by page.
+   * @param params - Optional fields for response filtering.
+   * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of enum bundles.
+   */
+  iterateEnumBundles<TSchema extends EnumBundleSchema>(
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<EnumBundleEntity<TSchema>> {
+    return paginate((page) => this.getEnumBundles<TSchema>({ ...params, ...page }, options), params)
+  }
+
   /**
    * Create a new set of values of the enum type.
    * @param body - Required fields for the new enum bundle.
    * @param params - Optional fields for response filtering.
    * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the created EnumBundle entity.
    */
   async createEnumBundle<TSchema extends EnumBundleSchema>(
     body: { name: string } | DeepPartial<EnumBundle>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<EnumBundleEntity<TSchema>> {
     return this.youtrack.fetch<EnumBundleEntity<TSchema>>(
-      new RequestBuilder("api/admin/customFieldSettings/bundles/enum", { fields }, params).post(body),
+      new RequestBuilder("api/admin/customFieldSettings/bundles/enum", { fields }, params, options).post(body),
     )
   }
 
@@ -50,14 +81,16 @@ export class EnumBundlesApi extends ResourceApi {
    * @param bundleId - The database Id of the enum bundle.
    * @param params - Optional fields for response filtering.
    * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the requested EnumBundle entity.
    */
   async getEnumBundle<TSchema extends EnumBundleSchema>(
     bundleId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<EnumBundleEntity<TSchema>> {
     return this.youtrack.fetch<EnumBundleEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/bundles/enum/${bundleId}`, { fields }, params).get(),
+      new RequestBuilder(`api/admin/customFieldSettings/bundles/enum/${bundleId}`, { fields }, params, options).get(),
     )
   }
 
@@ -67,15 +100,19 @@ export class EnumBundlesApi extends ResourceApi {
    * @param body - The updated values for the enum bundle.
    * @param params - Optional fields for response filtering.
    * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated EnumBundle entity.
    */
   async updateEnumBundle<TSchema extends EnumBundleSchema>(
     bundleID: string,
     body: DeepPartial<EnumBundle>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<EnumBundleEntity<TSchema>> {
     return this.youtrack.fetch<EnumBundleEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/bundles/enum/${bundleID}`, { fields }, params).post(body),
+      new RequestBuilder(`api/admin/customFieldSettings/bundles/enum/${bundleID}`, { fields }, params, options).post(
+        body,
+      ),
     )
   }
   /**
@@ -83,14 +120,21 @@ export class EnumBundlesApi extends ResourceApi {
    * @param bundleId - The database ID of the enum bundle to delete.
    * @param params - Optional fields for response filtering.
    * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the deleted EnumBundle entity.
    */
   async deleteEnumBundle<TSchema extends EnumBundleSchema>(
     bundleId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<EnumBundleEntity<TSchema>> {
     return this.youtrack.fetch<EnumBundleEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/bundles/enum/${bundleId}`, { fields }, params).delete(),
+      new RequestBuilder(
+        `api/admin/customFieldSettings/bundles/enum/${bundleId}`,
+        { fields },
+        params,
+        options,
+      ).delete(),
     )
   }
 
@@ -101,38 +145,64 @@ export class EnumBundlesApi extends ResourceApi {
    * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$skip - Optional. The number of returned entities to skip before returning the first one.
    * @param params.$top - Optional. The maximum number of entries that are returned in the response.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to a list of EnumBundleElement entities.
    */
   async getEnumBundleValues<TSchema extends EnumBundleElementSchema>(
     bundleId: string,
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<EnumBundleElementEntity<TSchema>[]> {
     return this.youtrack.fetch<EnumBundleElementEntity<TSchema>[]>(
       new RequestBuilder(
         `api/admin/customFieldSettings/bundles/enum/${bundleId}/values`,
         { fields, ...queryParams("$top", "$skip") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all values of the specific enum bundle. Values are requested page by page.
+   * @param bundleId - The database ID of the enum bundle.
+   * @param params - Optional parameters for response filtering and pagination.
+   * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of enum bundle values.
+   */
+  iterateEnumBundleValues<TSchema extends EnumBundleElementSchema>(
+    bundleId: string,
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<EnumBundleElementEntity<TSchema>> {
+    return paginate((page) => this.getEnumBundleValues<TSchema>(bundleId, { ...params, ...page }, options), params)
+  }
+
   /**
    * Add a new enumerated value to the bundle.
    * @param bundleId - The database ID of the enum bundle.
    * @param body - The enumerated value to add, must include a name.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the newly created EnumBundleElement entity.
    */
   async addEnumBundleValue<TSchema extends EnumBundleElementSchema>(
     bundleId: string,
     body: { name: string } & DeepPartial<EnumBundleElement>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<EnumBundleElementEntity<TSchema>> {
     return this.youtrack.fetch<EnumBundleElementEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/bundles/enum/${bundleId}/values`, { fields }, params).post(
-        body,
-      ),
+      new RequestBuilder(
+        `api/admin/customFieldSettings/bundles/enum/${bundleId}/values`,
+        { fields },
+        params,
+        options,
+      ).post(body),
     )
   }
 
@@ -142,18 +212,21 @@ export class EnumBundlesApi extends ResourceApi {
    * @param elementId - The database ID of the enumerated value.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the requested EnumBundleElement entity.
    */
   async getEnumBundleValueById<TSchema extends EnumBundleElementSchema>(
     bundleId: string,
     elementId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<EnumBundleElementEntity<TSchema>> {
     return this.youtrack.fetch<EnumBundleElementEntity<TSchema>>(
       new RequestBuilder(
         `api/admin/customFieldSettings/bundles/enum/${bundleId}/values/${elementId}`,
         { fields },
         params,
+        options,
       ).get(),
     )
   }
@@ -165,6 +238,7 @@ export class EnumBundlesApi extends ResourceApi {
    * @param body - The updated values for the enumerated value.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated EnumBundleElement entity.
    */
   async updateEnumBundleValue<TSchema extends EnumBundleElementSchema>(
@@ -172,12 +246,14 @@ export class EnumBundlesApi extends ResourceApi {
     elementId: string,
     body: { name: string } & DeepPartial<EnumBundleElement>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<EnumBundleElementEntity<TSchema>> {
     return this.youtrack.fetch<EnumBundleElementEntity<TSchema>>(
       new RequestBuilder(
         `api/admin/customFieldSettings/bundles/enum/${bundleId}/values/${elementId}`,
         { fields },
         params,
+        options,
       ).post(body),
     )
   }
@@ -188,18 +264,21 @@ export class EnumBundlesApi extends ResourceApi {
    * @param elementId - The database ID of the enumerated value.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the removed EnumBundleElement entity.
    */
   async deleteEnumBundleValue<TSchema extends EnumBundleElementSchema>(
     bundleId: string,
     elementId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<EnumBundleElementEntity<TSchema>> {
     return this.youtrack.fetch<EnumBundleElementEntity<TSchema>>(
       new RequestBuilder(
         `api/admin/customFieldSettings/bundles/enum/${bundleId}/values/${elementId}`,
         { fields },
         params,
+        options,
       ).delete(),
     )
   }
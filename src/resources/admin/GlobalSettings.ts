@@ -10,6 +10,7 @@ import type {
   RestCorsSettings,
   SystemSettings,
   DeepPartial,
+  RequestOptions,
 } from "../../types"
 import { fields, RequestBuilder } from "../../utils"
 import { ResourceApi } from "../common"
@@ -35,13 +36,15 @@ export class GlobalSettingsApi extends ResourceApi {
    * Get the global settings.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of GlobalSettings attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the global settings.
    */
   async getGlobalSettings<TSchema extends GlobalSettingsSchema>(
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<GlobalSettingsEntity<TSchema>> {
     return this.youtrack.fetch<GlobalSettingsEntity<TSchema>>(
-      new RequestBuilder("api/admin/globalSettings", { fields }, params).get(),
+      new RequestBuilder("api/admin/globalSettings", { fields }, params, options).get(),
     )
   }
 
@@ -50,14 +53,16 @@ export class GlobalSettingsApi extends ResourceApi {
    * @param body - The updated settings.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of GlobalSettings attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated global settings.
    */
   async updateGlobalSettings<TSchema extends GlobalSettingsSchema>(
     body: DeepPartial<GlobalSettings>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<GlobalSettingsEntity<TSchema>> {
     return this.youtrack.fetch<GlobalSettingsEntity<TSchema>>(
-      new RequestBuilder("api/admin/globalSettings", { fields }, params).post(body),
+      new RequestBuilder("api/admin/globalSettings", { fields }, params, options).post(body),
     )
   }
 
@@ -65,13 +70,15 @@ export class GlobalSettingsApi extends ResourceApi {
    * Read the visual settings of the YouTrack service.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of AppearanceSettings attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the visual settings of the service.
    */
   async getAppearanceSettings<TSchema extends AppearanceSettingsSchema>(
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<AppearanceSettingsEntity<TSchema>> {
     return this.youtrack.fetch<AppearanceSettingsEntity<TSchema>>(
-      new RequestBuilder("api/admin/globalSettings/appearanceSettings", { fields }, params).get(),
+      new RequestBuilder("api/admin/globalSettings/appearanceSettings", { fields }, params, options).get(),
     )
   }
 
@@ -80,14 +87,16 @@ export class GlobalSettingsApi extends ResourceApi {
    * @param body - The updated appearance settings.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of AppearanceSettings attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated visual settings.
    */
   async updateAppearanceSettings<TSchema extends AppearanceSettingsSchema>(
     body: DeepPartial<AppearanceSettings>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<AppearanceSettingsEntity<TSchema>> {
     return this.youtrack.fetch<AppearanceSettingsEntity<TSchema>>(
-      new RequestBuilder("api/admin/globalSettings/appearanceSettings", { fields }, params).post(body),
+      new RequestBuilder("api/admin/globalSettings/appearanceSettings", { fields }, params, options).post(body),
     )
   }
 
@@ -95,11 +104,15 @@ export class GlobalSettingsApi extends ResourceApi {
    * Read the license of the YouTrack service.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of License attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the current license settings.
    */
-  async getLicense<TSchema extends LicenseSchema>(params?: FieldsParam<TSchema>): Promise<LicenseEntity<TSchema>> {
+  async getLicense<TSchema extends LicenseSchema>(
+    params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
+  ): Promise<LicenseEntity<TSchema>> {
     return this.youtrack.fetch<LicenseEntity<TSchema>>(
-      new RequestBuilder("api/admin/globalSettings/license", { fields }, params).get(),
+      new RequestBuilder("api/admin/globalSettings/license", { fields }, params, options).get(),
     )
   }
 
@@ -108,14 +121,16 @@ export class GlobalSettingsApi extends ResourceApi {
    * @param body - The updated license settings.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of License attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated license settings.
    */
   async updateLicense<TSchema extends LicenseSchema>(
     body: DeepPartial<License>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<LicenseEntity<TSchema>> {
     return this.youtrack.fetch<LicenseEntity<TSchema>>(
-      new RequestBuilder("api/admin/globalSettings/license", { fields }, params).post(body),
+      new RequestBuilder("api/admin/globalSettings/license", { fields }, params, options).post(body),
     )
   }
 
@@ -123,13 +138,15 @@ export class GlobalSettingsApi extends ResourceApi {
    * Read the current system language of the YouTrack service.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of LocaleSettings attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the current locale settings.
    */
   async getLocaleSettings<TSchema extends LocaleSettingsSchema>(
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<LocaleSettingsEntity<TSchema>> {
     return this.youtrack.fetch<LocaleSettingsEntity<TSchema>>(
-      new RequestBuilder("api/admin/globalSettings/localeSettings", { fields }, params).get(),
+      new RequestBuilder("api/admin/globalSettings/localeSettings", { fields }, params, options).get(),
     )
   }
 
@@ -138,14 +155,16 @@ export class GlobalSettingsApi extends ResourceApi {
    * @param body - The updated locale settings (including the target locale).
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of LocaleSettings attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated locale settings.
    */
   async updateLocaleSettings<TSchema extends LocaleSettingsSchema>(
     body: DeepPartial<LocaleSettings>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<LocaleSettingsEntity<TSchema>> {
     return this.youtrack.fetch<LocaleSettingsEntity<TSchema>>(
-      new RequestBuilder("api/admin/globalSettings/localeSettings", { fields }, params).post(body),
+      new RequestBuilder("api/admin/globalSettings/localeSettings", { fields }, params, options).post(body),
     )
   }
 
@@ -153,13 +172,15 @@ export class GlobalSettingsApi extends ResourceApi {
    * Read the notification settings of the YouTrack service.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of NotificationSettings attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the current notification settings.
    */
   async getNotificationSettings<TSchema extends NotificationSettingsSchema>(
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<NotificationSettingsEntity<TSchema>> {
     return this.youtrack.fetch<NotificationSettingsEntity<TSchema>>(
-      new RequestBuilder("api/admin/globalSettings/notificationSettings", { fields }, params).get(),
+      new RequestBuilder("api/admin/globalSettings/notificationSettings", { fields }, params, options).get(),
     )
   }
 
@@ -168,14 +189,16 @@ export class GlobalSettingsApi extends ResourceApi {
    * @param body - The updated notification settings.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of NotificationSettings attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated notification settings.
    */
   async updateNotificationSettings<TSchema extends NotificationSettingsSchema>(
     body: DeepPartial<NotificationSettings>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<NotificationSettingsEntity<TSchema>> {
     return this.youtrack.fetch<NotificationSettingsEntity<TSchema>>(
-      new RequestBuilder("api/admin/globalSettings/notificationSettings", { fields }, params).post(body),
+      new RequestBuilder("api/admin/globalSettings/notificationSettings", { fields }, params, options).post(body),
     )
   }
 
@@ -183,13 +206,15 @@ export class GlobalSettingsApi extends ResourceApi {
    * Read the Resource Sharing (CORS) settings of the YouTrack service.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of RestCorsSettings attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the current RestCors settings.
    */
   async getRestSettings<TSchema extends RestCorsSettingsSchema>(
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<RestCorsSettingsEntity<TSchema>> {
     return this.youtrack.fetch<RestCorsSettingsEntity<TSchema>>(
-      new RequestBuilder("api/admin/globalSettings/restSettings", { fields }, params).get(),
+      new RequestBuilder("api/admin/globalSettings/restSettings", { fields }, params, options).get(),
     )
   }
 
@@ -198,14 +223,16 @@ export class GlobalSettingsApi extends ResourceApi {
    * @param body - The updated CORS settings.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of RestCorsSettings attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated RestCors settings.
    */
   async updateRestSettings<TSchema extends RestCorsSettingsSchema>(
     body: DeepPartial<RestCorsSettings>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<RestCorsSettingsEntity<TSchema>> {
     return this.youtrack.fetch<RestCorsSettingsEntity<TSchema>>(
-      new RequestBuilder("api/admin/globalSettings/restSettings", { fields }, params).post(body),
+      new RequestBuilder("api/admin/globalSettings/restSettings", { fields }, params, options).post(body),
     )
   }
 
@@ -213,13 +240,15 @@ export class GlobalSettingsApi extends ResourceApi {
    * Read the System settings of the YouTrack service.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of SystemSettings attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the current System settings.
    */
   async getSystemSettings<TSchema extends SystemSettingsSchema>(
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<SystemSettingsEntity<TSchema>> {
     return this.youtrack.fetch<SystemSettingsEntity<TSchema>>(
-      new RequestBuilder("api/admin/globalSettings/systemSettings", { fields }, params).get(),
+      new RequestBuilder("api/admin/globalSettings/systemSettings", { fields }, params, options).get(),
     )
   }
 
@@ -228,14 +257,16 @@ export class GlobalSettingsApi extends ResourceApi {
    * @param body - The updated system settings.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of SystemSettings attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated System settings.
    */
   async updateSystemSettings<TSchema extends SystemSettingsSchema>(
     body: DeepPartial<SystemSettings>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<SystemSettingsEntity<TSchema>> {
     return this.youtrack.fetch<SystemSettingsEntity<TSchema>>(
-      new RequestBuilder("api/admin/globalSettings/systemSettings", { fields }, params).post(body),
+      new RequestBuilder("api/admin/globalSettings/systemSettings", { fields }, params, options).post(body),
     )
   }
 }
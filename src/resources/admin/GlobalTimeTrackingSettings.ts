@@ -7,8 +7,10 @@ import type {
   WorkItemType,
   WorkTimeSettings,
   DeepPartial,
+  RequestOptions,
+  PaginationParams,
 } from "../../types"
-import { fields, queryParams, RequestBuilder } from "../../utils"
+import { fields, queryParams, RequestBuilder, paginate } from "../../utils"
 import { ResourceApi } from "../common"
 
 type TimeTrackingSettingsSchema = Schema<GlobalTimeTrackingSettings>
@@ -27,13 +29,15 @@ export class GlobalTimeTrackingSettingsApi extends ResourceApi {
    * Read the global time tracking settings of the service.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of GlobalTimeTrackingSettings attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the global time tracking settings of the service.
    */
   async getGlobalTimeTrackingSettings<TSchema extends TimeTrackingSettingsSchema>(
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<TimeTrackingSettingsEntity<TSchema>> {
     return this.youtrack.fetch<TimeTrackingSettingsEntity<TSchema>>(
-      new RequestBuilder("api/admin/timeTrackingSettings", { fields }, params).get(),
+      new RequestBuilder("api/admin/timeTrackingSettings", { fields }, params, options).get(),
     )
   }
 
@@ -43,34 +47,55 @@ export class GlobalTimeTrackingSettingsApi extends ResourceApi {
    * @param params.fields - A list of WorkItemType attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$skip - Optional. Number of returned entities to skip before returning the first one.
    * @param params.$top - Optional. Maximum number of entries that are returned in the response.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The list of work item types.
    */
   async getWorkItemTypes<TSchema extends WorkItemTypeSchema>(
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<Array<WorkItemTypeEntity<TSchema>>> {
     return this.youtrack.fetch<Array<WorkItemTypeEntity<TSchema>>>(
       new RequestBuilder(
         "api/admin/timeTrackingSettings/workItemTypes",
         { fields, ...queryParams("$skip", "$top") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all work item types. Work item types are requested page by page.
+   * @param params - Optional parameters for response filtering.
+   * @param params.fields - A list of WorkItemType attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of work item types.
+   */
+  iterateWorkItemTypes<TSchema extends WorkItemTypeSchema>(
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<WorkItemTypeEntity<TSchema>> {
+    return paginate((page) => this.getWorkItemTypes<TSchema>({ ...params, ...page }, options), params)
+  }
+
   /**
    * Create a new work item type.
    * @param body - Required fields: name.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of WorkItemType attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The created work item type.
    * @requires permissions Low-level Admin Write or Update Project.
    */
   async createWorkItemType<TSchema extends WorkItemTypeSchema>(
     body: { name: string } | DeepPartial<WorkItemType>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<WorkItemTypeEntity<TSchema>> {
     return this.youtrack.fetch<WorkItemTypeEntity<TSchema>>(
-      new RequestBuilder("api/admin/timeTrackingSettings/workItemTypes", { fields }, params).post(body),
+      new RequestBuilder("api/admin/timeTrackingSettings/workItemTypes", { fields }, params, options).post(body),
     )
   }
 
@@ -79,15 +104,17 @@ export class GlobalTimeTrackingSettingsApi extends ResourceApi {
    * @param typeId - Database ID of the work item type.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of WorkItemType attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The requested work item type.
    * @requires permissions Read Work Item.
    */
   async getWorkItemTypeById<TSchema extends WorkItemTypeSchema>(
     typeId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<WorkItemTypeEntity<TSchema>> {
     return this.youtrack.fetch<WorkItemTypeEntity<TSchema>>(
-      new RequestBuilder(`api/admin/timeTrackingSettings/workItemTypes/${typeId}`, { fields }, params).get(),
+      new RequestBuilder(`api/admin/timeTrackingSettings/workItemTypes/${typeId}`, { fields }, params, options).get(),
     )
   }
 
@@ -97,6 +124,7 @@ export class GlobalTimeTrackingSettingsApi extends ResourceApi {
    * @param body - The properties to update in the work item type as JSON.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of WorkItemType attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The updated work item type.
    * @requires permissions Low-level Admin Write.
    */
@@ -104,9 +132,12 @@ export class GlobalTimeTrackingSettingsApi extends ResourceApi {
     typeId: string,
     body: DeepPartial<WorkItemType>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<WorkItemTypeEntity<TSchema>> {
     return this.youtrack.fetch<WorkItemTypeEntity<TSchema>>(
-      new RequestBuilder(`api/admin/timeTrackingSettings/workItemTypes/${typeId}`, { fields }, params).post(body),
+      new RequestBuilder(`api/admin/timeTrackingSettings/workItemTypes/${typeId}`, { fields }, params, options).post(
+        body,
+      ),
     )
   }
 
@@ -115,15 +146,22 @@ export class GlobalTimeTrackingSettingsApi extends ResourceApi {
    * @param typeId - Database ID of the work item type.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of WorkItemType attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The result of the deletion.
    * @requires permissions Low-level Admin Write.
    */
   async deleteWorkItemType<TSchema extends WorkItemTypeSchema>(
     typeId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<WorkItemTypeEntity<TSchema>> {
     return this.youtrack.fetch<WorkItemTypeEntity<TSchema>>(
-      new RequestBuilder(`api/admin/timeTrackingSettings/workItemTypes/${typeId}`, { fields }, params).delete(),
+      new RequestBuilder(
+        `api/admin/timeTrackingSettings/workItemTypes/${typeId}`,
+        { fields },
+        params,
+        options,
+      ).delete(),
     )
   }
 
@@ -131,14 +169,16 @@ export class GlobalTimeTrackingSettingsApi extends ResourceApi {
    * Read the system work time settings.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of WorkTimeSettings attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The current work time settings.
    * @requires permissions Read Work Item.
    */
   async getWorkTimeSettings<TSchema extends WorkTimeSettingsSchema>(
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<WorkTimeSettingsEntity<TSchema>> {
     return this.youtrack.fetch<WorkTimeSettingsEntity<TSchema>>(
-      new RequestBuilder("api/admin/timeTrackingSettings/workTimeSettings", { fields }, params).get(),
+      new RequestBuilder("api/admin/timeTrackingSettings/workTimeSettings", { fields }, params, options).get(),
     )
   }
 
@@ -147,15 +187,17 @@ export class GlobalTimeTrackingSettingsApi extends ResourceApi {
    * @param body - Properties to update in the work time settings.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of WorkTimeSettings attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The updated work time settings.
    * @requires permissions Low-level Admin Write.
    */
   async updateWorkTimeSettings<TSchema extends WorkTimeSettingsSchema>(
     body: DeepPartial<WorkTimeSettings>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<WorkTimeSettingsEntity<TSchema>> {
     return this.youtrack.fetch<WorkTimeSettingsEntity<TSchema>>(
-      new RequestBuilder("api/admin/timeTrackingSettings/workTimeSettings", { fields }, params).post(body),
+      new RequestBuilder("api/admin/timeTrackingSettings/workTimeSettings", { fields }, params, options).post(body),
     )
   }
 }
@@ -1,5 +1,15 @@
-import type { Schema, OwnedBundle, FieldsParam, Entity, ListParams, OwnedBundleElement, DeepPartial } from "../../types"
-import { fields, queryParams, RequestBuilder } from "../../utils"
+import type {
+  Schema,
+  OwnedBundle,
+  FieldsParam,
+  Entity,
+  ListParams,
+  OwnedBundleElement,
+  DeepPartial,
+  PaginationParams,
+  RequestOptions,
+} from "../../types"
+import { fields, queryParams, RequestBuilder, paginate } from "../../utils"
 import { ResourceApi } from "../common"
 
 type OwnedBundleSchema = Schema<OwnedBundle>
@@ -15,33 +25,54 @@ export class OwnedBundlesApi extends ResourceApi {
    * @param params.fields - A list of OwnedBundle attributes that should be returned in the response. If no field is specified, only the entityID is returned.
    * @param params.$top - Maximum number of entries to return in the response.
    * @param params.$skip - Number of entries to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the list of owned bundles.
    */
   async getOwnedBundles<TSchema extends OwnedBundleSchema>(
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<OwnedBundleEntity<TSchema>[]> {
     return this.youtrack.fetch<OwnedBundleEntity<TSchema>[]>(
       new RequestBuilder(
         "api/admin/customFieldSettings/bundles/owned",
         { fields, ...queryParams("$top", "$skip") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all owned field bundles. Bundles are requested page by page.
+   * @param params - Optional parameters for response filtering and pagination.
+   * @param params.fields - A list of OwnedBundle attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of owned field bundles.
+   */
+  iterateOwnedBundles<TSchema extends OwnedBundleSchema>(
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<OwnedBundleEntity<TSchema>> {
+    return paginate((page) => this.getOwnedBundles<TSchema>({ ...params, ...page }, options), params)
+  }
+
   /**
    * Create a new owned bundle in the system.
    * @param body - The details of the new owned bundle.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of OwnedBundle attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the created owned bundle.
    */
   async createOwnedBundle<TSchema extends OwnedBundleSchema>(
     body: DeepPartial<OwnedBundle>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<OwnedBundleEntity<TSchema>> {
     return this.youtrack.fetch<OwnedBundleEntity<TSchema>>(
-      new RequestBuilder("api/admin/customFieldSettings/bundles/owned", { fields }, params).post(body),
+      new RequestBuilder("api/admin/customFieldSettings/bundles/owned", { fields }, params, options).post(body),
     )
   }
 
@@ -50,14 +81,16 @@ export class OwnedBundlesApi extends ResourceApi {
    * @param bundleId - The database ID of the bundle.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of OwnedBundle attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the owned bundle with the specified ID.
    */
   async getOwnedBundleById<TSchema extends OwnedBundleSchema>(
     bundleId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<OwnedBundleEntity<TSchema>> {
     return this.youtrack.fetch<OwnedBundleEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/bundles/owned/${bundleId}`, { fields }, params).get(),
+      new RequestBuilder(`api/admin/customFieldSettings/bundles/owned/${bundleId}`, { fields }, params, options).get(),
     )
   }
 
@@ -67,15 +100,19 @@ export class OwnedBundlesApi extends ResourceApi {
    * @param body - The updated owned bundle data.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of OwnedBundle attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated owned bundle.
    */
   async updateOwnedBundle<TSchema extends OwnedBundleSchema>(
     bundleId: string,
     body: DeepPartial<OwnedBundle>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<OwnedBundleEntity<TSchema>> {
     return this.youtrack.fetch<OwnedBundleEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/bundles/owned/${bundleId}`, { fields }, params).post(body),
+      new RequestBuilder(`api/admin/customFieldSettings/bundles/owned/${bundleId}`, { fields }, params, options).post(
+        body,
+      ),
     )
   }
 
@@ -84,14 +121,21 @@ export class OwnedBundlesApi extends ResourceApi {
    * @param bundleId - The database ID of the owned bundle.
    * @param params - Optional parameters for response filtering and pagination.
    * @param params.fields - A list of OwnedBundleElement attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves when the owned bundle is deleted.
    */
   async deleteOwnedBundle<TSchema extends OwnedBundleSchema>(
     bundleId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<OwnedBundleEntity<TSchema>> {
     return this.youtrack.fetch<OwnedBundleEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/bundles/owned/${bundleId}`, { fields }, params).delete(),
+      new RequestBuilder(
+        `api/admin/customFieldSettings/bundles/owned/${bundleId}`,
+        { fields },
+        params,
+        options,
+      ).delete(),
     )
   }
 
@@ -102,38 +146,64 @@ export class OwnedBundlesApi extends ResourceApi {
    * @param params.fields - A list of OwnedBundleElement attributes that should be returned in the response. If no field is specified, only the entityID is returned.
    * @param params.$top - Maximum number of entries to return in the response.
    * @param params.$skip - Number of entries to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the list of owned values in the bundle.
    */
   async getOwnedBundleValues<TSchema extends OwnedBundleElementSchema>(
     bundleId: string,
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<OwnedBundleElementEntity<TSchema>[]> {
     return this.youtrack.fetch<OwnedBundleElementEntity<TSchema>[]>(
       new RequestBuilder(
         `api/admin/customFieldSettings/bundles/owned/${bundleId}/values`,
         { fields, ...queryParams("$top", "$skip") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all values of the specific owned bundle. Values are requested page by page.
+   * @param bundleId - The database ID of the owned bundle.
+   * @param params - Optional parameters for response filtering and pagination.
+   * @param params.fields - A list of OwnedBundleElement attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of owned bundle values.
+   */
+  iterateOwnedBundleValues<TSchema extends OwnedBundleElementSchema>(
+    bundleId: string,
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<OwnedBundleElementEntity<TSchema>> {
+    return paginate((page) => this.getOwnedBundleValues<TSchema>(bundleId, { ...params, ...page }, options), params)
+  }
+
   /**
    * Add a new owned to the bundle.
    * @param bundleId - The database ID of the owned bundle.
    * @param body - The details of the new owned (required: name).
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of OwnedBundleElement attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the added owned element.
    */
   async addOwnedToBundle<TSchema extends OwnedBundleElementSchema>(
     bundleId: string,
     body: { name: string } & DeepPartial<OwnedBundleElement>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<OwnedBundleElementEntity<TSchema>> {
     return this.youtrack.fetch<OwnedBundleElementEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/bundles/owned/${bundleId}/values`, { fields }, params).post(
-        body,
-      ),
+      new RequestBuilder(
+        `api/admin/customFieldSettings/bundles/owned/${bundleId}/values`,
+        { fields },
+        params,
+        options,
+      ).post(body),
     )
   }
 
@@ -144,6 +214,7 @@ export class OwnedBundlesApi extends ResourceApi {
    * @param body - The updated owned value data.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of OwnedBundleElement attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated owned element.
    */
   async updateOwnedBundleValue<TSchema extends OwnedBundleElementSchema>(
@@ -151,12 +222,14 @@ export class OwnedBundlesApi extends ResourceApi {
     elementId: string,
     body: DeepPartial<OwnedBundleElement>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<OwnedBundleElementEntity<TSchema>> {
     return this.youtrack.fetch<OwnedBundleElementEntity<TSchema>>(
       new RequestBuilder(
         `api/admin/customFieldSettings/bundles/owned/${bundleId}/values/${elementId}`,
         { fields },
         params,
+        options,
       ).post(body),
     )
   }
@@ -167,18 +240,21 @@ export class OwnedBundlesApi extends ResourceApi {
    * @param elementId - The database ID of the owned value.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of OwnedBundleElement attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves when the owned value is removed.
    */
   async removeOwnedFromBundle<TSchema extends OwnedBundleElementSchema>(
     bundleId: string,
     elementId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<OwnedBundleElementEntity<TSchema>> {
     return this.youtrack.fetch<OwnedBundleElementEntity<TSchema>>(
       new RequestBuilder(
         `api/admin/customFieldSettings/bundles/owned/${bundleId}/values/${elementId}`,
         { fields },
         params,
+        options,
       ).delete(),
     )
   }
@@ -12,8 +12,11 @@ import type {
   ProjectTimeTrackingSettings,
   WorkItemType,
   DeepPartial,
+  PaginationParams,
+  IssueCustomFieldsBody,
+  RequestOptions,
 } from "../../types"
-import { fields, queryParams, RequestBuilder } from "../../utils"
+import { fields, queryParams, RequestBuilder, paginate } from "../../utils"
 import { ResourceApi } from "../common"
 
 type ProjectSchema = Schema<Project>
@@ -40,30 +43,50 @@ export class ProjectsApi extends ResourceApi {
    * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$top - Optional. The maximum number of entries to return in the response.
    * @param params.$skip - Optional. The number of entities to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the list of Project entities.
    */
   async getProjects<TSchema extends ProjectSchema>(
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<ProjectEntity<TSchema>[]> {
     return this.youtrack.fetch<ProjectEntity<TSchema>[]>(
-      new RequestBuilder("api/admin/projects", { fields, ...queryParams("$top", "$skip") }, params).get(),
+      new RequestBuilder("api/admin/projects", { fields, ...queryParams("$top", "$skip") }, params, options).get(),
     )
   }
 
+  /**
+   * Iterate over all projects. Projects are requested page by page.
+   * @param params - Optional parameters for response filtering.
+   * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of projects.
+   */
+  iterateProjects<TSchema extends ProjectSchema>(
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<ProjectEntity<TSchema>> {
+    return paginate((page) => this.getProjects<TSchema>({ ...params, ...page }, options), params)
+  }
+
   /**
    * Create a project in YouTrack.
    * @param body - Required fields: name, shortName, leader (id of the project owner user).
    * @param params - Optional parameters for response filtering and template selection.
    * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.template - Optional. Specify the template to use for the new project (e.g., 'scrum', 'kanban'). If not specified, the default settings will be used.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the created Project entity.
    */
   async createProject<TSchema extends ProjectSchema>(
     body: { name: string; shortName: string; leader: { id: string } } & DeepPartial<Omit<Project, "leader">>,
     params?: FieldsParam<TSchema> & { template?: string },
+    options?: RequestOptions,
   ): Promise<ProjectEntity<TSchema>> {
     return this.youtrack.fetch<ProjectEntity<TSchema>>(
-      new RequestBuilder("api/admin/projects", { fields, template: "string" }, params).post(body),
+      new RequestBuilder("api/admin/projects", { fields, template: "string" }, params, options).post(body),
     )
   }
 
@@ -72,14 +95,16 @@ export class ProjectsApi extends ResourceApi {
    * @param projectId - The ID of the project (can be the database entity ID or the short name).
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the requested Project entity.
    */
   async getProjectById<TSchema extends ProjectSchema>(
     projectId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ProjectEntity<TSchema>> {
     return this.youtrack.fetch<ProjectEntity<TSchema>>(
-      new RequestBuilder(`api/admin/projects/${projectId}`, { fields }, params).get(),
+      new RequestBuilder(`api/admin/projects/${projectId}`, { fields }, params, options).get(),
     )
   }
 
@@ -89,15 +114,17 @@ export class ProjectsApi extends ResourceApi {
    * @param body - The fields to update in the project.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated Project entity.
    */
   async updateProject<TSchema extends ProjectSchema>(
     projectId: string,
     body: DeepPartial<Project>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ProjectEntity<TSchema>> {
     return this.youtrack.fetch<ProjectEntity<TSchema>>(
-      new RequestBuilder(`api/admin/projects/${projectId}`, { fields }, params).post(body),
+      new RequestBuilder(`api/admin/projects/${projectId}`, { fields }, params, options).post(body),
     )
   }
 
@@ -106,14 +133,16 @@ export class ProjectsApi extends ResourceApi {
    * @param projectId - The ID of the project (can be the database entity ID or the short name).
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves when the project is deleted.
    */
   async deleteProject<TSchema extends ProjectSchema>(
     projectId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ProjectEntity<TSchema>> {
     return this.youtrack.fetch<ProjectEntity<TSchema>>(
-      new RequestBuilder(`api/admin/projects/${projectId}`, { fields }, params).delete(),
+      new RequestBuilder(`api/admin/projects/${projectId}`, { fields }, params, options).delete(),
     )
   }
 
@@ -124,21 +153,42 @@ export class ProjectsApi extends ResourceApi {
    * @param params.fields - A list of Article attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$top - Optional. Maximum number of entries to return.
    * @param params.$skip - Optional. Number of returned entities to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to a list of Article entities.
    */
   async getProjectArticles<TSchema extends ArticleSchema>(
     projectId: string,
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<ArticleEntity<TSchema>[]> {
     return this.youtrack.fetch<ArticleEntity<TSchema>[]>(
       new RequestBuilder(
         `api/admin/projects/${projectId}/articles`,
         { fields, ...queryParams("$top", "$skip") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all articles of the specific project. Articles are requested page by page.
+   * @param projectId - The ID of the project (can be the database entity ID or the short name).
+   * @param params - Optional parameters for response filtering.
+   * @param params.fields - A list of Article attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of articles of the specific project.
+   */
+  iterateProjectArticles<TSchema extends ArticleSchema>(
+    projectId: string,
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<ArticleEntity<TSchema>> {
+    return paginate((page) => this.getProjectArticles<TSchema>(projectId, { ...params, ...page }, options), params)
+  }
+
   /**
    * Read the list of custom fields that are attached to a specific project.
    * @param projectId - The ID of the project (can be the database entity ID or the short name).
@@ -146,36 +196,59 @@ export class ProjectsApi extends ResourceApi {
    * @param params.fields - A list of ProjectCustomField attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$top - Optional. Maximum number of entries to return.
    * @param params.$skip - Optional. Number of returned entities to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to a list of ProjectCustomField entities.
    */
   async getProjectCustomFields<TSchema extends ProjectCustomFieldSchema>(
     projectId: string,
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<ProjectCustomFieldEntity<TSchema>[]> {
     return this.youtrack.fetch<ProjectCustomFieldEntity<TSchema>[]>(
       new RequestBuilder(
         `api/admin/projects/${projectId}/customFields`,
         { fields, ...queryParams("$top", "$skip") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all custom fields of the specific project. Custom fields are requested page by page.
+   * @param projectId - The ID of the project (can be the database entity ID or the short name).
+   * @param params - Optional parameters for response filtering.
+   * @param params.fields - A list of ProjectCustomField attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of custom fields of the specific project.
+   */
+  iterateProjectCustomFields<TSchema extends ProjectCustomFieldSchema>(
+    projectId: string,
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<ProjectCustomFieldEntity<TSchema>> {
+    return paginate((page) => this.getProjectCustomFields<TSchema>(projectId, { ...params, ...page }, options), params)
+  }
+
   /**
    * Attach the custom field to the project.
    * @param projectId - The ID of the project (can be the database entity ID or the short name).
    * @param body - The custom field to attach, including its ID and type.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of ProjectCustomField attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the attached ProjectCustomField entity.
    */
   async addCustomFieldToProject<TSchema extends ProjectCustomFieldSchema>(
     projectId: string,
     body: { field: { id: string } } & DeepPartial<Omit<ProjectCustomField, "field">>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ProjectCustomFieldEntity<TSchema>> {
     return this.youtrack.fetch<ProjectCustomFieldEntity<TSchema>>(
-      new RequestBuilder(`api/admin/projects/${projectId}/customFields`, { fields }, params).post(body),
+      new RequestBuilder(`api/admin/projects/${projectId}/customFields`, { fields }, params, options).post(body),
     )
   }
 
@@ -185,15 +258,17 @@ export class ProjectsApi extends ResourceApi {
    * @param fieldId - The database ID of the project custom field.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of ProjectCustomField attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the requested ProjectCustomField entity.
    */
   async getProjectCustomFieldById<TSchema extends ProjectCustomFieldSchema>(
     projectId: string,
     fieldId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ProjectCustomFieldEntity<TSchema>> {
     return this.youtrack.fetch<ProjectCustomFieldEntity<TSchema>>(
-      new RequestBuilder(`api/admin/projects/${projectId}/customFields/${fieldId}`, { fields }, params).get(),
+      new RequestBuilder(`api/admin/projects/${projectId}/customFields/${fieldId}`, { fields }, params, options).get(),
     )
   }
 
@@ -204,6 +279,7 @@ export class ProjectsApi extends ResourceApi {
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of ProjectCustomField attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param body - The new settings for the project custom field.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated ProjectCustomField entity.
    */
   async updateProjectCustomField<TSchema extends ProjectCustomFieldSchema>(
@@ -211,9 +287,12 @@ export class ProjectsApi extends ResourceApi {
     fieldId: string,
     body: DeepPartial<ProjectCustomField>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ProjectCustomFieldEntity<TSchema>> {
     return this.youtrack.fetch<ProjectCustomFieldEntity<TSchema>>(
-      new RequestBuilder(`api/admin/projects/${projectId}/customFields/${fieldId}`, { fields }, params).post(body),
+      new RequestBuilder(`api/admin/projects/${projectId}/customFields/${fieldId}`, { fields }, params, options).post(
+        body,
+      ),
     )
   }
 
@@ -223,15 +302,22 @@ export class ProjectsApi extends ResourceApi {
    * @param fieldId - The database ID of the project custom field.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of ProjectCustomField attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the result of the deletion.
    */
   async removeProjectCustomField<TSchema extends ProjectCustomFieldSchema>(
     projectId: string,
     fieldId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ProjectCustomFieldEntity<TSchema>> {
     return this.youtrack.fetch<ProjectCustomFieldEntity<TSchema>>(
-      new RequestBuilder(`api/admin/projects/${projectId}/customFields/${fieldId}`, { fields }, params).delete(),
+      new RequestBuilder(
+        `api/admin/projects/${projectId}/customFields/${fieldId}`,
+        { fields },
+        params,
+        options,
+      ).delete(),
     )
   }
 
@@ -245,21 +331,43 @@ export class ProjectsApi extends ResourceApi {
    * @param params.$skip - Optional. Lets you set a number of returned entities to skip before returning the first one.
    * @param params.$top - Optional. Lets you specify the maximum number of entries that are returned in the response.
    * @param params.customFields - The name of the custom field(s) to show in the response. Use this parameter multiple times to show more than one custom field.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to a list of issues in the specified project.
    */
   async getProjectIssues<TSchema extends IssueSchema>(
     projectId: string,
     params?: FieldsParam<TSchema> | ListParams | CustomFieldsParam,
+    options?: RequestOptions,
   ): Promise<IssueEntity<TSchema>[]> {
     return this.youtrack.fetch<IssueEntity<TSchema>[]>(
       new RequestBuilder(
         `api/admin/projects/${projectId}/issues`,
         { fields, ...queryParams("$top", "$skip", "customFields") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all issues of the specific project. Issues are requested page by page.
+   * @param projectId - The ID of the project (can be the database entity ID or the short name).
+   * @param params - Optional parameters for response filtering.
+   * @param params.fields - A list of Issue attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.customFields - The name of the custom field(s) to show in the response. Use this parameter multiple times to show more than one custom field.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of issues of the project.
+   */
+  iterateProjectIssues<TSchema extends IssueSchema>(
+    projectId: string,
+    params?: FieldsParam<TSchema> & PaginationParams & CustomFieldsParam,
+    options?: RequestOptions,
+  ): AsyncGenerator<IssueEntity<TSchema>> {
+    return paginate((page) => this.getProjectIssues<TSchema>(projectId, { ...params, ...page }, options), params)
+  }
+
   /**
    * Create a new issue in the specified project.
    * Required fields: summary.
@@ -268,18 +376,21 @@ export class ProjectsApi extends ResourceApi {
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of Issue attributes that should be returned in the response. If no field is specified, only the entityID is returned.
    * @param params.muteUpdateNotifications - Set to true to mute notifications for this request. Requires Apply Commands Silently permission.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the created issue.
    */
   async createProjectIssue<TSchema extends IssueSchema>(
     projectId: string,
-    body: { summary: string } & DeepPartial<Issue>,
+    body: { summary: string } & DeepPartial<Omit<Issue, "customFields">> & IssueCustomFieldsBody,
     params?: FieldsParam<TSchema> & MuteUpdateNotificationsParam,
+    options?: RequestOptions,
   ): Promise<IssueEntity<TSchema>> {
     return this.youtrack.fetch<IssueEntity<TSchema>>(
       new RequestBuilder(
         `api/admin/projects/${projectId}/issues`,
         { fields, muteUpdateNotifications: "boolean" },
         params,
+        options,
       ).post(body),
     )
   }
@@ -289,15 +400,17 @@ export class ProjectsApi extends ResourceApi {
    * @param projectId - The database ID or project ID of the project.
    * @param issueId - The database ID or project ID of the issue.
    * @param params.fields - A list of Issue attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The requested issue.
    */
   async getProjectIssueById<TSchema extends IssueSchema>(
     projectId: string,
     issueId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<IssueEntity<TSchema>> {
     return this.youtrack.fetch<IssueEntity<TSchema>>(
-      new RequestBuilder(`api/admin/projects/${projectId}/issues/${issueId}`, { fields }, params).get(),
+      new RequestBuilder(`api/admin/projects/${projectId}/issues/${issueId}`, { fields }, params, options).get(),
     )
   }
 
@@ -306,19 +419,22 @@ export class ProjectsApi extends ResourceApi {
    * @param issueId - The database ID or project ID of the issue.
    * @param params.fields - A list of Issue attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.muteUpdateNotifications - Set to true if no notifications should be sent on changes made by this request.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns The updated issue.
    */
   async updateProjectIssue<TSchema extends IssueSchema>(
     projectId: string,
     issueId: string,
-    body: DeepPartial<Issue>,
+    body: DeepPartial<Omit<Issue, "customFields">> & IssueCustomFieldsBody,
     params?: FieldsParam<TSchema> & MuteUpdateNotificationsParam,
+    options?: RequestOptions,
   ): Promise<IssueEntity<TSchema>> {
     return this.youtrack.fetch<IssueEntity<TSchema>>(
       new RequestBuilder(
         `api/admin/projects/${projectId}/issues/${issueId}`,
         { fields, muteUpdateNotifications: "boolean" },
         params,
+        options,
       ).post(body),
     )
   }
@@ -327,15 +443,17 @@ export class ProjectsApi extends ResourceApi {
    * Delete the issue. Note that this operation cannot be undone.
    * @param issueId - The database ID or project ID of the issue.
    * @param params.fields - A list of Issue attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves when the issue is deleted.
    */
   async deleteProjectIssue<TSchema extends IssueSchema>(
     projectId: string,
     issueId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<IssueEntity<TSchema>> {
     return this.youtrack.fetch<IssueEntity<TSchema>>(
-      new RequestBuilder(`api/admin/projects/${projectId}/issues/${issueId}`, { fields }, params).delete(),
+      new RequestBuilder(`api/admin/projects/${projectId}/issues/${issueId}`, { fields }, params, options).delete(),
     )
   }
 
@@ -344,14 +462,16 @@ export class ProjectsApi extends ResourceApi {
    * @param projectId - The ID of the project (can be the database entity ID or the short name).
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of ProjectTimeTrackingSettings attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the time tracking settings of the project.
    */
   async getProjectTimeTrackingSettings<TSchema extends ProjectTimeTrackingSettingsSchema>(
     projectId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ProjectTimeTrackingSettingsEntity<TSchema>> {
     return this.youtrack.fetch<ProjectTimeTrackingSettingsEntity<TSchema>>(
-      new RequestBuilder(`api/admin/projects/${projectId}/timeTrackingSettings`, { fields }, params).get(),
+      new RequestBuilder(`api/admin/projects/${projectId}/timeTrackingSettings`, { fields }, params, options).get(),
     )
   }
 
@@ -361,15 +481,19 @@ export class ProjectsApi extends ResourceApi {
    * @param body - The new time tracking settings to apply.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of ProjectTimeTrackingSettings attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated time tracking settings of the project.
    */
   async updateProjectTimeTrackingSettings<TSchema extends ProjectTimeTrackingSettingsSchema>(
     projectId: string,
     body: DeepPartial<ProjectTimeTrackingSettings>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<ProjectTimeTrackingSettingsEntity<TSchema>> {
     return this.youtrack.fetch<ProjectTimeTrackingSettingsEntity<TSchema>>(
-      new RequestBuilder(`api/admin/projects/${projectId}/timeTrackingSettings`, { fields }, params).post(body),
+      new RequestBuilder(`api/admin/projects/${projectId}/timeTrackingSettings`, { fields }, params, options).post(
+        body,
+      ),
     )
   }
 
@@ -380,21 +504,42 @@ export class ProjectsApi extends ResourceApi {
    * @param params.fields - A list of WorkItemType attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$top - Optional. Specifies the maximum number of entries to return. If not provided, the server limits the number of entries.
    * @param params.$skip - Optional. Specifies the number of entries to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the list of work items for the project.
    */
   async getProjectWorkItemTypes<TSchema extends WorkItemTypeSchema>(
     projectId: string,
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<WorkItemTypeEntity<TSchema>[]> {
     return this.youtrack.fetch<WorkItemTypeEntity<TSchema>[]>(
       new RequestBuilder(
         `api/admin/projects/${projectId}/timeTrackingSettings/workItemTypes`,
         { fields, ...queryParams("$top", "$skip") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all work item types of the specific project. Work item types are requested page by page.
+   * @param issueId - The ID of the project.
+   * @param params - Optional parameters.
+   * @param params.fields - A list of WorkItemType attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of work item types of the specific project.
+   */
+  iterateProjectWorkItemTypes<TSchema extends WorkItemTypeSchema>(
+    projectId: string,
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<WorkItemTypeEntity<TSchema>> {
+    return paginate((page) => this.getProjectWorkItemTypes<TSchema>(projectId, { ...params, ...page }, options), params)
+  }
+
   /**
    * Add a new work item to the project.
    * @param projectId - The ID of the project.
@@ -402,12 +547,14 @@ export class ProjectsApi extends ResourceApi {
    * @param params - Optional parameters.
    * @param params.fields - A list of WorkItemType attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.muteUpdateNotifications - Set to true if no notifications should be sent on changes made by this request. This doesn't mute notifications sent by any workflow rules.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the added work item.
    */
   async addProjectWorkItemType<TSchema extends WorkItemTypeSchema>(
     projectId: string,
     body: { duration: number } & DeepPartial<WorkItemType>,
     params?: FieldsParam<TSchema> & MuteUpdateNotificationsParam,
+    options?: RequestOptions,
   ): Promise<WorkItemTypeEntity<TSchema>> {
     return this.youtrack.fetch<WorkItemTypeEntity<TSchema>>(
       new RequestBuilder(
@@ -417,6 +564,7 @@ export class ProjectsApi extends ResourceApi {
           muteUpdateNotifications: "boolean",
         },
         params,
+        options,
       ).post(body),
     )
   }
@@ -427,18 +575,21 @@ export class ProjectsApi extends ResourceApi {
    * @param workItemId - The ID of the work item to retrieve.
    * @param params - Optional parameters.
    * @param params.fields - A list of WorkItemType attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the specific work item.
    */
   async getProjectWorkItemTypeById<TSchema extends WorkItemTypeSchema>(
     projectId: string,
     workItemId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<WorkItemTypeEntity<TSchema>> {
     return this.youtrack.fetch<WorkItemTypeEntity<TSchema>>(
       new RequestBuilder(
         `api/admin/projects/${projectId}/timeTrackingSettings/workItems/${workItemId}`,
         { fields },
         params,
+        options,
       ).get(),
     )
   }
@@ -449,18 +600,21 @@ export class ProjectsApi extends ResourceApi {
    * @param workItemId - The ID of the work item to delete.
    * @param params - Optional parameters.
    * @param params.fields - A list of WorkItemType attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the response of the deletion request.
    */
   async deleteProjectWorkItemType<TSchema extends WorkItemTypeSchema>(
     projectId: string,
     workItemId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<WorkItemTypeEntity<TSchema>> {
     return this.youtrack.fetch<WorkItemTypeEntity<TSchema>>(
       new RequestBuilder(
         `api/admin/projects/${projectId}/timeTrackingSettings/workItems/${workItemId}`,
         { fields },
         params,
+        options,
       ).delete(),
     )
   }
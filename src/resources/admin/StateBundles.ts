@@ -1,5 +1,15 @@
-import type { Schema, StateBundle, FieldsParam, Entity, ListParams, StateBundleElement, DeepPartial } from "../../types"
-import { fields, queryParams, RequestBuilder } from "../../utils"
+import type {
+  Schema,
+  StateBundle,
+  FieldsParam,
+  Entity,
+  ListParams,
+  StateBundleElement,
+  DeepPartial,
+  PaginationParams,
+  RequestOptions,
+} from "../../types"
+import { fields, queryParams, RequestBuilder, paginate } from "../../utils"
 import { ResourceApi } from "../common"
 
 type StateBundleSchema = Schema<StateBundle>
@@ -15,33 +25,54 @@ export class StateBundlesApi extends ResourceApi {
    * @param params.fields - A list of StateBundle attributes that should be returned in the response. If no field is specified, only the entityID is returned.
    * @param params.$top - Maximum number of entries to return in the response.
    * @param params.$skip - Number of entries to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the list of state bundles.
    */
   async getStateBundles<TSchema extends StateBundleSchema>(
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<StateBundleEntity<TSchema>[]> {
     return this.youtrack.fetch<StateBundleEntity<TSchema>[]>(
       new RequestBuilder(
         "api/admin/customFieldSettings/bundles/state",
         { fields, ...queryParams("$top", "$skip") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all state bundles. Bundles are requested page by page.
+   * @param params - Optional parameters for response filtering and pagination.
+   * @param params.fields - A list of StateBundle attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of state bundles.
+   */
+  iterateStateBundles<TSchema extends StateBundleSchema>(
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<StateBundleEntity<TSchema>> {
+    return paginate((page) => this.getStateBundles<TSchema>({ ...params, ...page }, options), params)
+  }
+
   /**
    * Create a new state bundle in the system.
    * @param body - The details of the new state bundle.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of StateBundle attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the created state bundle.
    */
   async createStateBundle<TSchema extends StateBundleSchema>(
     body: DeepPartial<StateBundle>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<StateBundleEntity<TSchema>> {
     return this.youtrack.fetch<StateBundleEntity<TSchema>>(
-      new RequestBuilder("api/admin/customFieldSettings/bundles/state", { fields }, params).post(body),
+      new RequestBuilder("api/admin/customFieldSettings/bundles/state", { fields }, params, options).post(body),
     )
   }
 
@@ -50,14 +81,16 @@ export class StateBundlesApi extends ResourceApi {
    * @param bundleId - The database ID of the bundle.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of StateBundle attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the state bundle with the specified ID.
    */
   async getStateBundleById<TSchema extends StateBundleSchema>(
     bundleId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<StateBundleEntity<TSchema>> {
     return this.youtrack.fetch<StateBundleEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/bundles/state/${bundleId}`, { fields }, params).get(),
+      new RequestBuilder(`api/admin/customFieldSettings/bundles/state/${bundleId}`, { fields }, params, options).get(),
     )
   }
 
@@ -67,15 +100,19 @@ export class StateBundlesApi extends ResourceApi {
    * @param body - The updated state bundle data.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of StateBundle attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated state bundle.
    */
   async updateStateBundle<TSchema extends StateBundleSchema>(
     bundleId: string,
     body: DeepPartial<StateBundle>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<StateBundleEntity<TSchema>> {
     return this.youtrack.fetch<StateBundleEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/bundles/state/${bundleId}`, { fields }, params).post(body),
+      new RequestBuilder(`api/admin/customFieldSettings/bundles/state/${bundleId}`, { fields }, params, options).post(
+        body,
+      ),
     )
   }
 
@@ -84,14 +121,21 @@ export class StateBundlesApi extends ResourceApi {
    * @param bundleId - The database ID of the state bundle.
    * @param params - Optional parameters for response filtering and pagination.
    * @param params.fields - A list of StateBundleElement attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves when the state bundle is deleted.
    */
   async deleteStateBundle<TSchema extends StateBundleSchema>(
     bundleId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<StateBundleEntity<TSchema>> {
     return this.youtrack.fetch<StateBundleEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/bundles/state/${bundleId}`, { fields }, params).delete(),
+      new RequestBuilder(
+        `api/admin/customFieldSettings/bundles/state/${bundleId}`,
+        { fields },
+        params,
+        options,
+      ).delete(),
     )
   }
 
@@ -102,38 +146,64 @@ export class StateBundlesApi extends ResourceApi {
    * @param params.fields - A list of StateBundleElement attributes that should be returned in the response. If no field is specified, only the entityID is returned.
    * @param params.$top - Maximum number of entries to return in the response.
    * @param params.$skip - Number of entries to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the list of state values in the bundle.
    */
   async getStateBundleValues<TSchema extends StateBundleElementSchema>(
     bundleId: string,
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<StateBundleElementEntity<TSchema>[]> {
     return this.youtrack.fetch<StateBundleElementEntity<TSchema>[]>(
       new RequestBuilder(
         `api/admin/customFieldSettings/bundles/state/${bundleId}/values`,
         { fields, ...queryParams("$top", "$skip") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all values of the specific state bundle. Values are requested page by page.
+   * @param bundleId - The database ID of the state bundle.
+   * @param params - Optional parameters for response filtering and pagination.
+   * @param params.fields - A list of StateBundleElement attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of state bundle values.
+   */
+  iterateStateBundleValues<TSchema extends StateBundleElementSchema>(
+    bundleId: string,
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<StateBundleElementEntity<TSchema>> {
+    return paginate((page) => this.getStateBundleValues<TSchema>(bundleId, { ...params, ...page }, options), params)
+  }
+
   /**
    * Add a new state to the bundle.
    * @param bundleId - The database ID of the state bundle.
    * @param body - The details of the new state (required: name).
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of StateBundleElement attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the added state element.
    */
   async addStateToBundle<TSchema extends StateBundleElementSchema>(
     bundleId: string,
     body: { name: string } & DeepPartial<StateBundleElement>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<StateBundleElementEntity<TSchema>> {
     return this.youtrack.fetch<StateBundleElementEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/bundles/state/${bundleId}/values`, { fields }, params).post(
-        body,
-      ),
+      new RequestBuilder(
+        `api/admin/customFieldSettings/bundles/state/${bundleId}/values`,
+        { fields },
+        params,
+        options,
+      ).post(body),
     )
   }
 
@@ -144,6 +214,7 @@ export class StateBundlesApi extends ResourceApi {
    * @param body - The updated state value data.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of StateBundleElement attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated state element.
    */
   async updateStateBundleValue<TSchema extends StateBundleElementSchema>(
@@ -151,12 +222,14 @@ export class StateBundlesApi extends ResourceApi {
     elementId: string,
     body: DeepPartial<StateBundleElement>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<StateBundleElementEntity<TSchema>> {
     return this.youtrack.fetch<StateBundleElementEntity<TSchema>>(
       new RequestBuilder(
         `api/admin/customFieldSettings/bundles/state/${bundleId}/values/${elementId}`,
         { fields },
         params,
+        options,
       ).post(body),
     )
   }
@@ -167,18 +240,21 @@ export class StateBundlesApi extends ResourceApi {
    * @param elementId - The database ID of the state value.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of StateBundleElement attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves when the state value is removed.
    */
   async removeStateFromBundle<TSchema extends StateBundleElementSchema>(
     bundleId: string,
     elementId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<StateBundleElementEntity<TSchema>> {
     return this.youtrack.fetch<StateBundleElementEntity<TSchema>>(
       new RequestBuilder(
         `api/admin/customFieldSettings/bundles/state/${bundleId}/values/${elementId}`,
         { fields },
         params,
+        options,
       ).delete(),
     )
   }
@@ -1,4 +1,4 @@
-import type { Schema, FieldsParam, Entity, Telemetry } from "../../types"
+import type { Schema, FieldsParam, Entity, Telemetry, RequestOptions } from "../../types"
 import { fields, RequestBuilder } from "../../utils"
 import { ResourceApi } from "../common"
 
@@ -10,13 +10,15 @@ export class TelemetryDataApi extends ResourceApi {
    * Read available telemetry data of the YouTrack service.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of Telemetry attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the telemetry data of the YouTrack service.
    */
   async getTelemetryData<TSchema extends TelemetrySchema>(
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<TelemetryEntity<TSchema>> {
     return this.youtrack.fetch<TelemetryEntity<TSchema>>(
-      new RequestBuilder("api/admin/telemetry", { fields }, params).get(),
+      new RequestBuilder("api/admin/telemetry", { fields }, params, options).get(),
     )
   }
 }
@@ -1,5 +1,16 @@
-import type { Schema, UserBundle, FieldsParam, Entity, ListParams, User, UserGroup, DeepPartial } from "../../types"
-import { fields, queryParams, RequestBuilder } from "../../utils"
+import type {
+  Schema,
+  UserBundle,
+  FieldsParam,
+  Entity,
+  ListParams,
+  User,
+  UserGroup,
+  DeepPartial,
+  RequestOptions,
+  PaginationParams,
+} from "../../types"
+import { fields, queryParams, RequestBuilder, paginate } from "../../utils"
 import { ResourceApi } from "../common"
 
 type UserBundleSchema = Schema<UserBundle>
@@ -17,33 +28,54 @@ export class UserBundlesApi extends ResourceApi {
    * @param params.fields - A list of UserBundle attributes that should be returned in the response. If no field is specified, only the entityID is returned.
    * @param params.$top - Maximum number of entries to return in the response.
    * @param params.$skip - Number of entries to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the list of user bundles.
    */
   async getUserBundles<TSchema extends UserBundleSchema>(
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<UserBundleEntity<TSchema>[]> {
     return this.youtrack.fetch<UserBundleEntity<TSchema>[]>(
       new RequestBuilder(
         "api/admin/customFieldSettings/bundles/user",
         { fields, ...queryParams("$top", "$skip") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all user bundles. Bundles are requested page by page.
+   * @param params - Optional parameters for response filtering and pagination.
+   * @param params.fields - A list of UserBundle attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of user bundles.
+   */
+  iterateUserBundles<TSchema extends UserBundleSchema>(
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<UserBundleEntity<TSchema>> {
+    return paginate((page) => this.getUserBundles<TSchema>({ ...params, ...page }, options), params)
+  }
+
   /**
    * Create a new user bundle in the system.
    * @param body - The details of the new user bundle.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of UserBundle attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the created user bundle.
    */
   async createUserBundle<TSchema extends UserBundleSchema>(
     body: DeepPartial<UserBundle>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<UserBundleEntity<TSchema>> {
     return this.youtrack.fetch<UserBundleEntity<TSchema>>(
-      new RequestBuilder("api/admin/customFieldSettings/bundles/user", { fields }, params).post(body),
+      new RequestBuilder("api/admin/customFieldSettings/bundles/user", { fields }, params, options).post(body),
     )
   }
 
@@ -52,14 +84,16 @@ export class UserBundlesApi extends ResourceApi {
    * @param bundleId - The database ID of the bundle.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of UserBundle attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the user bundle with the specified ID.
    */
   async getUserBundleById<TSchema extends UserBundleSchema>(
     bundleId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<UserBundleEntity<TSchema>> {
     return this.youtrack.fetch<UserBundleEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/bundles/user/${bundleId}`, { fields }, params).get(),
+      new RequestBuilder(`api/admin/customFieldSettings/bundles/user/${bundleId}`, { fields }, params, options).get(),
     )
   }
 
@@ -69,15 +103,19 @@ export class UserBundlesApi extends ResourceApi {
    * @param body - The updated user bundle data.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of UserBundle attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated user bundle.
    */
   async updateUserBundle<TSchema extends UserBundleSchema>(
     bundleId: string,
     body: DeepPartial<UserBundle>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<UserBundleEntity<TSchema>> {
     return this.youtrack.fetch<UserBundleEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/bundles/user/${bundleId}`, { fields }, params).post(body),
+      new RequestBuilder(`api/admin/customFieldSettings/bundles/user/${bundleId}`, { fields }, params, options).post(
+        body,
+      ),
     )
   }
 
@@ -86,14 +124,21 @@ export class UserBundlesApi extends ResourceApi {
    * @param bundleId - The database ID of the user bundle.
    * @param params - Optional parameters for response filtering and pagination.
    * @param params.fields - A list of UserBundleElement attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves when the user bundle is deleted.
    */
   async deleteUserBundle<TSchema extends UserBundleSchema>(
     bundleId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<UserBundleEntity<TSchema>> {
     return this.youtrack.fetch<UserBundleEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/bundles/user/${bundleId}`, { fields }, params).delete(),
+      new RequestBuilder(
+        `api/admin/customFieldSettings/bundles/user/${bundleId}`,
+        { fields },
+        params,
+        options,
+      ).delete(),
     )
   }
 
@@ -104,21 +149,45 @@ export class UserBundlesApi extends ResourceApi {
    * @param params.fields - A list of User attributes that should be returned in the response. If no field is specified, only the entityID is returned.
    * @param params.$top - Maximum number of entries to return in the response.
    * @param params.$skip - Number of entries to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the list of users in the bundle.
    */
   async getUserBundleAggregatedUsers<TSchema extends UserSchema>(
     bundleId: string,
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<UserEntity<TSchema>[]> {
     return this.youtrack.fetch<UserEntity<TSchema>[]>(
       new RequestBuilder(
         `api/admin/customFieldSettings/bundles/user/${bundleId}/aggregatedUsers`,
         { fields, ...queryParams("$top", "$skip") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all users of the user bundle, including members of its groups. Users are requested page by page.
+   * @param bundleId - The database ID of the user bundle.
+   * @param params - Optional parameters for response filtering and pagination.
+   * @param params.fields - A list of User attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of users of the user bundle, including members of its groups.
+   */
+  iterateUserBundleAggregatedUsers<TSchema extends UserSchema>(
+    bundleId: string,
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<UserEntity<TSchema>> {
+    return paginate(
+      (page) => this.getUserBundleAggregatedUsers<TSchema>(bundleId, { ...params, ...page }, options),
+      params,
+    )
+  }
+
   /**
    * Get the list of all groups that are added to a specific user bundle.
    * @param bundleId - The database ID of the user bundle.
@@ -126,38 +195,64 @@ export class UserBundlesApi extends ResourceApi {
    * @param params.fields - A list of UserGroup attributes that should be returned in the response. If no field is specified, only the entityID is returned.
    * @param params.$top - Maximum number of entries to return in the response.
    * @param params.$skip - Number of entries to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the list of groups in the bundle.
    */
   async getUserBundleUserGroups<TSchema extends UserGroupSchema>(
     bundleId: string,
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<UserGroupEntity<TSchema>[]> {
     return this.youtrack.fetch<UserGroupEntity<TSchema>[]>(
       new RequestBuilder(
         `api/admin/customFieldSettings/bundles/user/${bundleId}/groups`,
         { fields, ...queryParams("$top", "$skip") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all groups of the user bundle. Groups are requested page by page.
+   * @param bundleId - The database ID of the user bundle.
+   * @param params - Optional parameters for response filtering and pagination.
+   * @param params.fields - A list of UserGroup attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of groups of the user bundle.
+   */
+  iterateUserBundleUserGroups<TSchema extends UserGroupSchema>(
+    bundleId: string,
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<UserGroupEntity<TSchema>> {
+    return paginate((page) => this.getUserBundleUserGroups<TSchema>(bundleId, { ...params, ...page }, options), params)
+  }
+
   /**
    * Add an existing group to the bundle.
    * @param bundleId - The database ID of the user bundle.
    * @param body - The ID of the group to add to the bundle.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of UserGroup attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the added group.
    */
   async addUserGroupToUserBundle<TSchema extends UserGroupSchema>(
     bundleId: string,
     body: { id: string },
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<UserGroupEntity<TSchema>> {
     return this.youtrack.fetch<UserGroupEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/bundles/user/${bundleId}/groups`, { fields }, params).post(
-        body,
-      ),
+      new RequestBuilder(
+        `api/admin/customFieldSettings/bundles/user/${bundleId}/groups`,
+        { fields },
+        params,
+        options,
+      ).post(body),
     )
   }
 
@@ -167,18 +262,21 @@ export class UserBundlesApi extends ResourceApi {
    * @param groupId - The database ID of the user group.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of UserGroup attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the group with the specified ID.
    */
   async getUserGroupInBundleById<TSchema extends UserGroupSchema>(
     bundleId: string,
     groupId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<UserGroupEntity<TSchema>> {
     return this.youtrack.fetch<UserGroupEntity<TSchema>>(
       new RequestBuilder(
         `api/admin/customFieldSettings/bundles/user/${bundleId}/groups/${groupId}`,
         { fields },
         params,
+        options,
       ).get(),
     )
   }
@@ -189,18 +287,21 @@ export class UserBundlesApi extends ResourceApi {
    * @param groupId - The database ID of the user group to remove.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of UserGroup attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves when the group is removed from the bundle.
    */
   async deleteUserGroupFromUserBundle<TSchema extends UserGroupSchema>(
     bundleId: string,
     groupId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<UserGroupEntity<TSchema>> {
     return this.youtrack.fetch<UserGroupEntity<TSchema>>(
       new RequestBuilder(
         `api/admin/customFieldSettings/bundles/user/${bundleId}/groups/${groupId}`,
         { fields },
         params,
+        options,
       ).delete(),
     )
   }
@@ -212,38 +313,67 @@ export class UserBundlesApi extends ResourceApi {
    * @param params.fields - A list of User attributes that should be returned in the response. If no field is specified, only the entityID is returned.
    * @param params.$top - Maximum number of entries to return in the response.
    * @param params.$skip - Number of entries to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the list of users in the bundle.
    */
   async getUserBundleIndividualUsers<TSchema extends UserSchema>(
     bundleId: string,
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<UserEntity<TSchema>[]> {
     return this.youtrack.fetch<UserEntity<TSchema>[]>(
       new RequestBuilder(
         `api/admin/customFieldSettings/bundles/user/${bundleId}/individuals`,
         { fields, ...queryParams("$top", "$skip") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all users added to the user bundle individually. Users are requested page by page.
+   * @param bundleId - The database ID of the user bundle.
+   * @param params - Optional parameters for response filtering and pagination.
+   * @param params.fields - A list of User attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of users added to the user bundle individually.
+   */
+  iterateUserBundleIndividualUsers<TSchema extends UserSchema>(
+    bundleId: string,
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<UserEntity<TSchema>> {
+    return paginate(
+      (page) => this.getUserBundleIndividualUsers<TSchema>(bundleId, { ...params, ...page }, options),
+      params,
+    )
+  }
+
   /**
    * Add an existing user to the bundle.
    * @param bundleId - The database ID of the user bundle.
    * @param body - The ID of the user to add to the bundle.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of User attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the added user.
    */
   async addIndividualUserToUserBundle<TSchema extends UserSchema>(
     bundleId: string,
     body: { id: string },
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<UserEntity<TSchema>> {
     return this.youtrack.fetch<UserEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/bundles/user/${bundleId}/individuals`, { fields }, params).post(
-        body,
-      ),
+      new RequestBuilder(
+        `api/admin/customFieldSettings/bundles/user/${bundleId}/individuals`,
+        { fields },
+        params,
+        options,
+      ).post(body),
     )
   }
 
@@ -253,18 +383,21 @@ export class UserBundlesApi extends ResourceApi {
    * @param userId - The database ID of the user.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of User attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the user with the specified ID.
    */
   async getIndividualUserInBundleById<TSchema extends UserSchema>(
     bundleId: string,
     userId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<UserEntity<TSchema>> {
     return this.youtrack.fetch<UserEntity<TSchema>>(
       new RequestBuilder(
         `api/admin/customFieldSettings/bundles/user/${bundleId}/individuals/${userId}`,
         { fields },
         params,
+        options,
       ).get(),
     )
   }
@@ -275,18 +408,21 @@ export class UserBundlesApi extends ResourceApi {
    * @param userId - The database ID of the user to remove.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of User attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves when the user is removed from the bundle.
    */
   async removeIndividualUserFromUserBundle<TSchema extends UserSchema>(
     bundleId: string,
     userId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<UserEntity<TSchema>> {
     return this.youtrack.fetch<UserEntity<TSchema>>(
       new RequestBuilder(
         `api/admin/customFieldSettings/bundles/user/${bundleId}/individuals/${userId}`,
         { fields },
         params,
+        options,
       ).delete(),
     )
   }
@@ -6,8 +6,10 @@ import type {
   ListParams,
   VersionBundleElement,
   DeepPartial,
+  PaginationParams,
+  RequestOptions,
 } from "../../types"
-import { fields, queryParams, RequestBuilder } from "../../utils"
+import { fields, queryParams, RequestBuilder, paginate } from "../../utils"
 import { ResourceApi } from "../common"
 
 type VersionBundleSchema = Schema<VersionBundle>
@@ -23,33 +25,54 @@ export class VersionBundlesApi extends ResourceApi {
    * @param params.fields - A list of VersionBundle attributes that should be returned in the response. If no field is specified, only the entityID is returned.
    * @param params.$top - Maximum number of entries to return in the response.
    * @param params.$skip - Number of entries to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the list of version bundles.
    */
   async getVersionBundles<TSchema extends VersionBundleSchema>(
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<VersionBundleEntity<TSchema>[]> {
     return this.youtrack.fetch<VersionBundleEntity<TSchema>[]>(
       new RequestBuilder(
         "api/admin/customFieldSettings/bundles/version",
         { fields, ...queryParams("$top", "$skip") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all version bundles. Bundles are requested page by page.
+   * @param params - Optional parameters for response filtering and pagination.
+   * @param params.fields - A list of VersionBundle attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of version bundles.
+   */
+  iterateVersionBundles<TSchema extends VersionBundleSchema>(
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<VersionBundleEntity<TSchema>> {
+    return paginate((page) => this.getVersionBundles<TSchema>({ ...params, ...page }, options), params)
+  }
+
   /**
    * Create a new version bundle in the system.
    * @param body - The details of the new version bundle.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of VersionBundle attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the created version bundle.
    */
   async createVersionBundle<TSchema extends VersionBundleSchema>(
     body: DeepPartial<VersionBundle>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<VersionBundleEntity<TSchema>> {
     return this.youtrack.fetch<VersionBundleEntity<TSchema>>(
-      new RequestBuilder("api/admin/customFieldSettings/bundles/version", { fields }, params).post(body),
+      new RequestBuilder("api/admin/customFieldSettings/bundles/version", { fields }, params, options).post(body),
     )
   }
 
@@ -58,14 +81,21 @@ export class VersionBundlesApi extends ResourceApi {
    * @param bundleId - The database ID of the bundle.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of VersionBundle attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the version bundle with the specified ID.
    */
   async getVersionBundleById<TSchema extends VersionBundleSchema>(
     bundleId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<VersionBundleEntity<TSchema>> {
     return this.youtrack.fetch<VersionBundleEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/bundles/version/${bundleId}`, { fields }, params).get(),
+      new RequestBuilder(
+        `api/admin/customFieldSettings/bundles/version/${bundleId}`,
+        { fields },
+        params,
+        options,
+      ).get(),
     )
   }
 
@@ -75,15 +105,19 @@ export class VersionBundlesApi extends ResourceApi {
    * @param body - The updated version bundle data.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of VersionBundle attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated version bundle.
    */
   async updateVersionBundle<TSchema extends VersionBundleSchema>(
     bundleId: string,
     body: DeepPartial<VersionBundle>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<VersionBundleEntity<TSchema>> {
     return this.youtrack.fetch<VersionBundleEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/bundles/version/${bundleId}`, { fields }, params).post(body),
+      new RequestBuilder(`api/admin/customFieldSettings/bundles/version/${bundleId}`, { fields }, params, options).post(
+        body,
+      ),
     )
   }
 
@@ -92,14 +126,21 @@ export class VersionBundlesApi extends ResourceApi {
    * @param bundleId - The database ID of the version bundle.
    * @param params - Optional parameters for response filtering and pagination.
    * @param params.fields - A list of VersionBundleElement attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves when the version bundle is deleted.
    */
   async deleteVersionBundle<TSchema extends VersionBundleSchema>(
     bundleId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<VersionBundleEntity<TSchema>> {
     return this.youtrack.fetch<VersionBundleEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/bundles/version/${bundleId}`, { fields }, params).delete(),
+      new RequestBuilder(
+        `api/admin/customFieldSettings/bundles/version/${bundleId}`,
+        { fields },
+        params,
+        options,
+      ).delete(),
     )
   }
 
@@ -110,38 +151,64 @@ export class VersionBundlesApi extends ResourceApi {
    * @param params.fields - A list of VersionBundleElement attributes that should be returned in the response. If no field is specified, only the entityID is returned.
    * @param params.$top - Maximum number of entries to return in the response.
    * @param params.$skip - Number of entries to skip before returning the first one.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the list of version values in the bundle.
    */
   async getVersionBundleValues<TSchema extends VersionBundleElementSchema>(
     bundleId: string,
     params?: FieldsParam<TSchema> & ListParams,
+    options?: RequestOptions,
   ): Promise<VersionBundleElementEntity<TSchema>[]> {
     return this.youtrack.fetch<VersionBundleElementEntity<TSchema>[]>(
       new RequestBuilder(
         `api/admin/customFieldSettings/bundles/version/${bundleId}/values`,
         { fields, ...queryParams("$top", "$skip") },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all values of the specific version bundle. Values are requested page by page.
+   * @param bundleId - The database ID of the version bundle.
+   * @param params - Optional parameters for response filtering and pagination.
+   * @param params.fields - A list of VersionBundleElement attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of version bundle values.
+   */
+  iterateVersionBundleValues<TSchema extends VersionBundleElementSchema>(
+    bundleId: string,
+    params?: FieldsParam<TSchema> & PaginationParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<VersionBundleElementEntity<TSchema>> {
+    return paginate((page) => this.getVersionBundleValues<TSchema>(bundleId, { ...params, ...page }, options), params)
+  }
+
   /**
    * Add a new version to the bundle.
    * @param bundleId - The database ID of the version bundle.
    * @param body - The details of the new version (required: name).
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of VersionBundleElement attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the added version element.
    */
   async addVersionToBundle<TSchema extends VersionBundleElementSchema>(
     bundleId: string,
     body: { name: string } & DeepPartial<VersionBundleElement>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<VersionBundleElementEntity<TSchema>> {
     return this.youtrack.fetch<VersionBundleElementEntity<TSchema>>(
-      new RequestBuilder(`api/admin/customFieldSettings/bundles/version/${bundleId}/values`, { fields }, params).post(
-        body,
-      ),
+      new RequestBuilder(
+        `api/admin/customFieldSettings/bundles/version/${bundleId}/values`,
+        { fields },
+        params,
+        options,
+      ).post(body),
     )
   }
 
@@ -152,6 +219,7 @@ export class VersionBundlesApi extends ResourceApi {
    * @param body - The updated version value data.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of VersionBundleElement attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to the updated version element.
    */
   async updateVersionBundleValue<TSchema extends VersionBundleElementSchema>(
@@ -159,12 +227,14 @@ export class VersionBundlesApi extends ResourceApi {
     elementId: string,
     body: DeepPartial<VersionBundleElement>,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<VersionBundleElementEntity<TSchema>> {
     return this.youtrack.fetch<VersionBundleElementEntity<TSchema>>(
       new RequestBuilder(
         `api/admin/customFieldSettings/bundles/version/${bundleId}/values/${elementId}`,
         { fields },
         params,
+        options,
       ).post(body),
     )
   }
@@ -175,18 +245,21 @@ export class VersionBundlesApi extends ResourceApi {
    * @param elementId - The database ID of the version value.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of VersionBundleElement attributes that should be returned in the response. If no field is specified, only the entityID is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves when the version value is removed.
    */
   async removeVersionFromBundle<TSchema extends VersionBundleElementSchema>(
     bundleId: string,
     elementId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<VersionBundleElementEntity<TSchema>> {
     return this.youtrack.fetch<VersionBundleElementEntity<TSchema>>(
       new RequestBuilder(
         `api/admin/customFieldSettings/bundles/version/${bundleId}/values/${elementId}`,
         { fields },
         params,
+        options,
       ).delete(),
     )
   }
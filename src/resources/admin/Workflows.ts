@@ -1,5 +1,15 @@
-import type { Schema, FieldsParam, Entity, ListParams, Workflow, WorkflowLog, WorkflowRule } from "../../types"
-import { fields, queryParams, RequestBuilder } from "../../utils"
+import type {
+  Schema,
+  FieldsParam,
+  Entity,
+  ListParams,
+  Workflow,
+  WorkflowLog,
+  WorkflowRule,
+  RequestOptions,
+  PaginationParams,
+} from "../../types"
+import { fields, queryParams, RequestBuilder, paginate } from "../../utils"
 import { ResourceApi } from "../common"
 
 type WorkflowSchema = Schema<Workflow>
@@ -17,10 +27,12 @@ export class WorkflowsApi extends ResourceApi {
    * @param params.$top - Optional. Maximum number of entries to return. Use -1 for all entries.
    * @param params.$skip - Optional. Number of entries to skip before returning the first one.
    * @param params.query - Optional. Filter workflows by language (e.g., "language:JS,mps").
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to a list of Workflow entities.
    */
   async getWorkflows<TSchema extends WorkflowSchema>(
     params?: FieldsParam<TSchema> & ListParams & { query?: string },
+    options?: RequestOptions,
   ): Promise<WorkflowEntity<TSchema>[]> {
     return this.youtrack.fetch<WorkflowEntity<TSchema>[]>(
       new RequestBuilder(
@@ -31,19 +43,39 @@ export class WorkflowsApi extends ResourceApi {
           query: "string",
         },
         params,
+        options,
       ).get(),
     )
   }
 
+  /**
+   * Iterate over all workflows. Workflows are requested page by page.
+   * @param params - Optional parameters for response filtering.
+   * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param params.query - Optional. Filter workflows by language (e.g., "language:JS,mps").
+   * @param params.$skip - The number of entries to skip before the first page.
+   * @param params.pageSize - The number of entries requested per page. Default: 100.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
+   * @returns Async iterator of workflows.
+   */
+  iterateWorkflows<TSchema extends WorkflowSchema>(
+    params?: FieldsParam<TSchema> & PaginationParams & { query?: string },
+    options?: RequestOptions,
+  ): AsyncGenerator<WorkflowEntity<TSchema>> {
+    return paginate((page) => this.getWorkflows<TSchema>({ ...params, ...page }, options), params)
+  }
+
   /**
    * Get workflow by id.
    * @param params - Optional parameters for response filtering.
    * @param params.fields - A list of attributes that should be returned in the response. If no field is specified, only the entityId is returned.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to a Workflow entity.
    */
   async getWorkflowById<TSchema extends WorkflowSchema>(
     workflowId: string,
     params?: FieldsParam<TSchema>,
+    options?: RequestOptions,
   ): Promise<WorkflowEntity<TSchema>> {
     return this.youtrack.fetch<WorkflowEntity<TSchema>>(
       new RequestBuilder(
@@ -52,6 +84,7 @@ export class WorkflowsApi extends ResourceApi {
           fields,
         },
         params,
+        options,
       ).get(),
     )
   }
@@ -59,9 +92,10 @@ export class WorkflowsApi extends ResourceApi {
   /**
    * Download a workflow as a zip file.
    * @param workflowName - The name of the workflow to download.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to a Blob containing the workflow zip file.
    */
-  async downloadWorkflow(workflowName: string): Promise<Blob> {
+  async downloadWorkflow(workflowName: string, options?: RequestOptions): Promise<Blob> {
     // Remove @ prefix if present, but don't encode the whole name
     const cleanWorkflowName = workflowName.replace(/^@/, "")
 
@@ -69,6 +103,7 @@ export class WorkflowsApi extends ResourceApi {
       url: `api/admin/workflows/${cleanWorkflowName}`,
       method: "GET",
       headers: { Accept: "application/zip" },
+      ...options,
     })
   }
 
@@ -76,13 +111,16 @@ export class WorkflowsApi extends ResourceApi {
    * Upload a workflow from a zip file.
    * @param workflowName - The name of the workflow (used for the filename).
    * @param file - The zip file containing the workflow data.
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves when the workflow is successfully uploaded.
    */
-  async uploadWorkflow(workflowName: string, file: File | Blob): Promise<void> {
+  async uploadWorkflow(workflowName: string, file: File | Blob, options?: RequestOptions): Promise<void> {
     const formData = new FormData()
     formData.append("file", file, `${workflowName}.zip`)
 
-    return this.youtrack.fetch<void>(new RequestBuilder("api/admin/workflows/import", {}, {}).postFile(formData))
+    return this.youtrack.fetch<void>(
+      new RequestBuilder("api/admin/workflows/import", {}, {}, options).postFile(formData),
+    )
   }
 
   /**
@@ -93,12 +131,14 @@ export class WorkflowsApi extends ResourceApi {
    * @param params.fields - A list of WorkflowLog attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$top - Optional. Maximum number of log entries to return. Use -1 for all entries.
    * @param params.query - Optional. Timestamp to filter logs from (logs newer than this timestamp).
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to a list of WorkflowLog entities.
    */
   async getWorkflowLogs<TSchema extends WorkflowLogSchema>(
     workflowId: string,
     ruleId: string,
     params?: FieldsParam<TSchema> & { $top?: number; query?: string },
+    options?: RequestOptions,
   ): Promise<WorkflowLogEntity<TSchema>[]> {
     return this.youtrack.fetch<WorkflowLogEntity<TSchema>[]>(
       new RequestBuilder(
@@ -109,6 +149,7 @@ export class WorkflowsApi extends ResourceApi {
           query: "string",
         },
         params,
+        options,
       ).get(),
     )
   }
@@ -121,12 +162,14 @@ export class WorkflowsApi extends ResourceApi {
    * @param params.fields - A list of WorkflowRule attributes that should be returned in the response. If no field is specified, only the entityId is returned.
    * @param params.$top - Optional. Maximum number of entries to return. Use -1 for all entries.
    * @param params.query - Optional. Filter query (e.g., "language:JS,visual,mps").
+   * @param options - Request options: abort signal, timeout, retries and response validation.
    * @returns A promise that resolves to a WorkflowRule entity.
    */
   async getWorkflowRule<TSchema extends WorkflowRuleSchema>(
     workflowId: string,
     ruleId: string,
     params?: FieldsParam<TSchema> & { $top?: number; query?: string },
+    options?: RequestOptions,
   ): Promise<WorkflowRuleEntity<TSchema>> {
     return this.youtrack.fetch<WorkflowRuleEntity<TSchema>>(
       new RequestBuilder(
@@ -137,6 +180,7 @@ export class WorkflowsApi extends ResourceApi {
           query: "string",
         },
         params,
+        options,
       ).get(),
     )
   }
@@ -18,3 +18,14 @@ export type QueryParam = {
 export type MuteUpdateNotificationsParam = {
   muteUpdateNotifications?: boolean
 }
+
+export type PaginationParams = {
+  pageSize?: number // The number of entries requested per page. Default: 100
+  $skip?: number // The number of entries to skip before the first page
+}
+
+export type ActivityStreamParams = {
+  direction?: "forward" | "backward" // Follow afterCursor (forward) or beforeCursor (backward) of pages. Default: forward
+  cursor?: string // Cursor of the page to start from, e.g. persisted from the previous run
+  onCursor?: (cursor: string) => void // Called when all activities of the page are consumed with the cursor to resume from
+}
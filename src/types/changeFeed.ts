@@ -0,0 +1,70 @@
+import type {
+  ActivityCategory,
+  ActivityItem,
+  CommentActivityItem,
+  CustomFieldActivityItem,
+  IssueCreatedActivityItem,
+  LinksActivityItem,
+  SprintActivityItem,
+} from "./entities"
+
+// Storage of the change feed position
+export type CursorStore = {
+  load: () => Promise<string | undefined> | string | undefined // Returns the cursor saved by the previous run
+  save: (cursor: string) => Promise<void> | void // Persists the cursor after the page of activities is emitted
+}
+
+export type ChangeFeedOptions = {
+  categories?: ActivityCategory[] // Categories of activities to request. Default: categories of the typed events
+  issueQuery?: string // Search query to filter issues of the activities
+  interval?: number // Delay in milliseconds between polls. Default: 60000
+  since?: number // Timestamp in milliseconds to start from if the store has no cursor. Default: creation time of the feed
+  store?: CursorStore // Storage of the cursor. Default: in-memory store
+  fields?: string // Fields of the activity items. Default: fields used by the typed events
+  dedupeSize?: number // Number of the latest activity ids remembered to skip duplicates. Default: 1000
+}
+
+export type IssueCreatedEvent = {
+  activity: IssueCreatedActivityItem
+  issue: IssueCreatedActivityItem["target"]
+}
+
+export type FieldChangedEvent = {
+  activity: CustomFieldActivityItem
+  issue: CustomFieldActivityItem["target"]
+  field: string // Name of the changed custom field
+  oldValue: CustomFieldActivityItem["removed"]
+  newValue: CustomFieldActivityItem["added"]
+}
+
+export type CommentAddedEvent = {
+  activity: CommentActivityItem
+  issue: CommentActivityItem["target"]["issue"]
+  comments: CommentActivityItem["added"]
+}
+
+export type LinkAddedEvent = {
+  activity: LinksActivityItem
+  issue: LinksActivityItem["target"]
+  linkType: string | null // Name of the link direction, e.g. "relates to"
+  issues: LinksActivityItem["added"]
+}
+
+export type SprintChangedEvent = {
+  activity: SprintActivityItem
+  issue: SprintActivityItem["target"]
+  added: SprintActivityItem["added"]
+  removed: SprintActivityItem["removed"]
+}
+
+export type ChangeFeedEvents = {
+  issueCreated: IssueCreatedEvent
+  fieldChanged: FieldChangedEvent
+  commentAdded: CommentAddedEvent
+  linkAdded: LinkAddedEvent
+  sprintChanged: SprintChangedEvent
+  activity: ActivityItem // Any new activity item, including activities without typed event
+  error: unknown // Error of the poll or of the event listener, polling continues after the interval
+}
+
+export type ChangeFeedListener<K extends keyof ChangeFeedEvents> = (event: ChangeFeedEvents[K]) => void
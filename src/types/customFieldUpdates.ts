@@ -0,0 +1,49 @@
+import type { IssueCustomField } from "./entities"
+import type { DeepPartial, DurationPresentation } from "./utils"
+
+// Reference to the bundle element or user group by name or database ID
+export type BundleElementRef = { name: string } | { id: string }
+
+// Reference to the user by login or database ID
+export type UserRef = { login: string } | { id: string }
+
+// Period value by duration in minutes or by presentation, e.g. "1h 30m"
+export type PeriodValueRef = { minutes: number } | { presentation: DurationPresentation | string }
+
+// Body of the issue custom field for createIssue, updateIssue and updateIssueCustomField requests
+export type CustomFieldUpdate<TType extends string, TValue> = {
+  $type: TType
+  name: string
+  value: TValue
+}
+
+export type IssueCustomFieldUpdate =
+  | CustomFieldUpdate<"SimpleIssueCustomField", string | number | null>
+  | CustomFieldUpdate<"DateIssueCustomField", number | null>
+  | CustomFieldUpdate<"PeriodIssueCustomField", PeriodValueRef | null>
+  | CustomFieldUpdate<"TextIssueCustomField", { text: string } | null>
+  | CustomFieldUpdate<
+      | "SingleEnumIssueCustomField"
+      | "StateIssueCustomField"
+      | "StateMachineIssueCustomField"
+      | "SingleVersionIssueCustomField"
+      | "SingleBuildIssueCustomField"
+      | "SingleOwnedIssueCustomField"
+      | "SingleGroupIssueCustomField",
+      BundleElementRef | null
+    >
+  | CustomFieldUpdate<
+      | "MultiEnumIssueCustomField"
+      | "MultiVersionIssueCustomField"
+      | "MultiBuildIssueCustomField"
+      | "MultiOwnedIssueCustomField"
+      | "MultiGroupIssueCustomField",
+      BundleElementRef[]
+    >
+  | CustomFieldUpdate<"SingleUserIssueCustomField", UserRef | null>
+  | CustomFieldUpdate<"MultiUserIssueCustomField", UserRef[]>
+
+// Custom fields of the issue body, accepts results of the custom field builders
+export type IssueCustomFieldsBody = {
+  customFields?: Array<DeepPartial<IssueCustomField> | IssueCustomFieldUpdate>
+}
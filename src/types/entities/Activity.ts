@@ -53,6 +53,21 @@ export type ActivityCursorPage = EntityBase<"ActivityCursorPage"> & {
   reverse: boolean // Indicates whether the order of returning activities on the page is from newest to oldest or the opposite. If false, then the oldest activity item that matches a selected filter is returned first. If true, then the newest activity is returned first. By default, false. Read-only.
 }
 
+/**
+ * ActivityItemOf<TCategory> selects activity item types that can have one of the specified categories.
+ *
+ * Example:
+ * type Item = ActivityItemOf<"CommentsCategory" | "SummaryCategory">
+ * // CommentActivityItem | SummaryActivityItem
+ */
+export type ActivityItemOf<TCategory extends ActivityCategory> = ActivityItem extends infer T
+  ? T extends { category: infer C }
+    ? [Extract<C, TCategory>] extends [never]
+      ? never
+      : T
+    : never
+  : never
+
 export type ActivityCategory =
   | "ArticleCommentAttachmentsCategory"
   | "ArticleTagsCategory"
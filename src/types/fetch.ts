@@ -1,3 +1,5 @@
+import type { FieldsSchema } from "./fields"
+
 export type HttpMethod = "GET" | "DELETE" | "HEAD" | "OPTIONS" | "POST" | "PUT" | "PATCH" | "PURGE" | "LINK" | "UNLINK"
 
 // Fetch compatible config
@@ -6,7 +8,80 @@ export type FetchConfig = {
   method?: HttpMethod
   headers?: Record<string, string>
   data?: object | FormData
+  retry?: boolean // Allow (true) or forbid (false) retries of this request, overrides retry policy methods
+  signal?: AbortSignal // Signal to cancel the request
+  timeout?: number // Request timeout in milliseconds, includes waiting in the request queue and all retry attempts
+  schema?: FieldsSchema | string // Fields schema of the request, used to validate the response
+  validate?: ResponseValidation | false // Response validation mode, overrides the client option
   [key: string]: unknown
 }
 
 export type FetchFunc = <T>(config: FetchConfig) => Promise<T>
+
+// Calls the next middleware in the chain or the transport if it is the last one
+export type MiddlewareNext = (config: FetchConfig) => Promise<unknown>
+
+// Middleware receives request config and returns decoded response (can modify both)
+export type Middleware = (config: FetchConfig, next: MiddlewareNext) => Promise<unknown>
+
+// Error response body returned by YouTrack REST API
+export type YouTrackErrorPayload = {
+  error?: string
+  error_description?: string
+  error_developer_message?: string
+  error_children?: YouTrackErrorPayload[]
+  [key: string]: unknown
+}
+
+// Policy of retrying failed requests
+export type RetryPolicy = {
+  maxAttempts?: number // Maximum number of attempts including the first one. Default: 3
+  minDelay?: number // Delay before the first retry in milliseconds. Default: 500
+  maxDelay?: number // Maximum delay between attempts in milliseconds. Default: 30000
+  factor?: number // Multiplier of the delay for each next attempt. Default: 2
+  jitter?: number // Fraction of the delay that is randomized (0 - no jitter, 1 - full jitter). Default: 0.5
+  statuses?: number[] // Response statuses to retry. Network errors are always retried. Default: [408, 429, 502, 503, 504]
+  methods?: HttpMethod[] // Methods that are retried by default. Default: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]
+  respectRetryAfter?: boolean // Wait for the time from Retry-After response header. Default: true
+  onRetry?: (error: unknown, attempt: number, delay: number) => void // Called before each retry
+}
+
+// Options of the request that are not part of the YouTrack API, accepted by every resource method as the last argument
+export type RequestOptions = {
+  retry?: boolean // Allow (true) or forbid (false) retries of requests
+  signal?: AbortSignal // Signal to cancel requests
+  timeout?: number // Timeout of each request in milliseconds, includes waiting in the request queue and all retry attempts
+  validate?: ResponseValidation | false // Validate responses against the requested fields schema
+}
+
+// Report schema mismatches of the response with `onSchemaMismatch` client option or reject with SchemaMismatchError
+export type ResponseValidation = "warn" | "throw"
+
+// Field of the response that does not match the requested fields schema
+export type SchemaMismatch = {
+  path: string // Path of the field in the response, e.g. "$[0].reporter.login"
+  reason: "missing" | "type" // Field is missing or is not an object while nested fields are requested
+  received?: string // Type of the received value for "type" mismatch
+}
+
+// Token bucket rate limit: `requests` per `interval` milliseconds
+export type RateLimit = {
+  requests: number // Number of requests allowed per interval
+  interval: number // Interval in milliseconds
+  burst?: number // Maximum number of requests that can be sent at once. Default: requests
+}
+
+export type RequestLimiterOptions = {
+  rateLimit?: RateLimit // Maximum rate of requests
+  maxConcurrent?: number // Maximum number of requests in flight
+}
+
+// Snapshot of the request queue state
+export type RequestQueueStats = {
+  queued: number // Number of requests waiting in the queue
+  inFlight: number // Number of requests in flight
+  completed: number // Number of finished requests (succeeded or failed)
+  lastWait: number // Time in milliseconds the last started request spent in the queue
+  averageWait: number // Average time in milliseconds requests spent in the queue
+  maxWait: number // Maximum time in milliseconds a request spent in the queue
+}
@@ -97,3 +97,39 @@ type ParseSubSchema<T, Items extends FieldsSchema = []> = FindName<T> extends [i
   : FindName<T> extends [infer Name]
     ? [[...Items, Name], ""]
     : [Items, ""]
+
+type NestedFields<T extends FieldsSchema> = Extract<T[number], Record<string, FieldsSchema>>
+type NestedKeys<T extends FieldsSchema> = NestedFields<T> extends infer F
+  ? F extends F
+    ? keyof F & string
+    : never
+  : never
+type NestedSchema<T extends FieldsSchema, K extends string> = NestedFields<T> extends infer F
+  ? F extends Record<K, infer S extends FieldsSchema>
+    ? S
+    : never
+  : never
+type OrEmpty<T> = [T] extends [never] ? [] : T
+
+/**
+ * Deep merges two `FieldsSchema`s. Flat fields are combined, nested fields with the same name are merged recursively.
+ * Flat field is dropped if the other schema requests nested fields of it.
+ *
+ * Example:
+ * - Input: `["id", "project", { reporter: ["login"] }]` and `["summary", { project: ["name"] }, { reporter: ["email"] }]`
+ * - Output: `ReadonlyArray<"id" | "summary" | { project: ReadonlyArray<"name">, reporter: ReadonlyArray<"login" | "email"> }>`
+ *
+ * @template A - The first schema.
+ * @template B - The second schema.
+ */
+export type MergeSchemas<A extends FieldsSchema, B extends FieldsSchema> = ReadonlyArray<
+  | Exclude<Extract<A[number] | B[number], string>, NestedKeys<A> | NestedKeys<B>>
+  | ([NestedKeys<A> | NestedKeys<B>] extends [never]
+      ? never
+      : {
+          readonly [K in NestedKeys<A> | NestedKeys<B>]: MergeSchemas<
+            OrEmpty<NestedSchema<A, K>>,
+            OrEmpty<NestedSchema<B, K>>
+          >
+        })
+>
@@ -3,3 +3,11 @@ export * from "./api"
 export * from "./entities"
 export * from "./utils"
 export * from "./fields"
+export * from "./changeFeed"
+export * from "./search"
+export * from "./customFieldUpdates"
+export * from "./projectFields"
+export * from "./timesheet"
+export * from "./workTime"
+export * from "./workItemImport"
+export * from "./issueHistory"
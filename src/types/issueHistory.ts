@@ -0,0 +1,52 @@
+// Value of the issue field in the history: names of bundle elements and projects, logins of users, minutes of periods,
+// timestamps of dates and text of text fields. Values of multi-value fields are arrays
+export type IssueHistoryValue = string | number | null | (string | number)[]
+
+// Issue with the fields used by the history reconstruction
+export type IssueHistoryIssue = {
+  summary?: string | null
+  project?: { shortName?: string | null } | null
+  customFields?: ReadonlyArray<{ name?: string | null; $type?: string; value?: unknown }> | null
+}
+
+// Activity item of the custom field, summary or project change
+export type IssueHistoryActivity = {
+  id?: string
+  timestamp: number
+  category: unknown // Category id or `category(id)` object
+  author?: { login?: string | null } | null
+  field?: {
+    name?: string | null
+    customField?: { fieldType?: { isMultiValue?: boolean | null } | null } | null // Type of the removed fields
+  } | null
+  targetMember?: string | null
+  added?: unknown // Single value or list of the added values
+  removed?: unknown // Single value or list of the removed values
+}
+
+export type IssueFieldChange = {
+  activity?: string // Id of the activity item
+  timestamp: number
+  author: string | null // Login of the user who changed the field
+  from: IssueHistoryValue
+  to: IssueHistoryValue
+}
+
+export type IssueFieldTimeline = {
+  initial: IssueHistoryValue // Value before the first change
+  changes: IssueFieldChange[] // Changes sorted by timestamp, the oldest first
+}
+
+export type IssueTimeline = {
+  summary: IssueFieldTimeline
+  project: IssueFieldTimeline
+  fields: Record<string, IssueFieldTimeline> // Timelines of the custom fields by field name
+}
+
+// Field values of the issue at the point in time
+export type IssueSnapshot = {
+  timestamp: number
+  summary: string | null
+  project: string | null // Short name of the project
+  fields: Record<string, IssueHistoryValue> // Values of the custom fields by field name
+}
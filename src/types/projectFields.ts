@@ -0,0 +1,74 @@
+import type { DurationPresentation } from "./utils"
+
+export type SingleBundleFieldType =
+  | "SingleEnumIssueCustomField"
+  | "StateIssueCustomField"
+  | "StateMachineIssueCustomField"
+  | "SingleVersionIssueCustomField"
+  | "SingleBuildIssueCustomField"
+  | "SingleOwnedIssueCustomField"
+  | "SingleGroupIssueCustomField"
+
+export type MultiBundleFieldType =
+  | "MultiEnumIssueCustomField"
+  | "MultiVersionIssueCustomField"
+  | "MultiBuildIssueCustomField"
+  | "MultiOwnedIssueCustomField"
+  | "MultiGroupIssueCustomField"
+
+// Value type of the simple custom field
+export type SimpleFieldValueType = "string" | "integer" | "float" | "date and time"
+
+// Custom field of the project: `$type` of the field in issues and allowed values of the bundle (any name if omitted)
+export type ProjectFieldDescriptor =
+  | { $type: SingleBundleFieldType | MultiBundleFieldType; values?: readonly string[] }
+  | { $type: "SingleUserIssueCustomField" | "MultiUserIssueCustomField" }
+  | { $type: "PeriodIssueCustomField" | "DateIssueCustomField" | "TextIssueCustomField" }
+  | { $type: "SimpleIssueCustomField"; valueType: SimpleFieldValueType }
+
+// Custom fields of the project by name, generated from project custom fields with `generateProjectFields`
+export type ProjectFieldsDescriptor = Readonly<Record<string, ProjectFieldDescriptor>>
+
+type BundleValue<T> = T extends { values: readonly (infer V)[] } ? V : string
+type SimpleValue<T> = T extends { valueType: "string" }
+  ? string
+  : T extends { valueType: "date and time" }
+    ? Date
+    : number
+
+/**
+ * Decoded value of the project custom field: names of bundle elements, logins of users,
+ * minutes of periods, Date of dates. Multi-value fields are decoded to arrays.
+ */
+export type ProjectFieldValue<T extends ProjectFieldDescriptor> = T["$type"] extends MultiBundleFieldType
+  ? BundleValue<T>[]
+  : T["$type"] extends SingleBundleFieldType
+    ? BundleValue<T> | null
+    : T["$type"] extends "MultiUserIssueCustomField"
+      ? string[]
+      : T["$type"] extends "SingleUserIssueCustomField" | "TextIssueCustomField"
+        ? string | null
+        : T["$type"] extends "PeriodIssueCustomField"
+          ? number | null
+          : T["$type"] extends "DateIssueCustomField"
+            ? Date | null
+            : SimpleValue<T> | null
+
+/**
+ * Value of the project custom field for update: periods can be set by presentation, dates by timestamp.
+ */
+export type ProjectFieldInput<T extends ProjectFieldDescriptor> = T["$type"] extends "PeriodIssueCustomField"
+  ? number | DurationPresentation | null
+  : T["$type"] extends "DateIssueCustomField"
+    ? Date | number | null
+    : T["$type"] extends MultiBundleFieldType | "MultiUserIssueCustomField"
+      ? ProjectFieldValue<T> | null
+      : ProjectFieldValue<T>
+
+export type ProjectFieldValues<T extends ProjectFieldsDescriptor> = {
+  -readonly [K in keyof T]: ProjectFieldValue<T[K]>
+}
+
+export type ProjectFieldInputs<T extends ProjectFieldsDescriptor> = {
+  -readonly [K in keyof T]?: ProjectFieldInput<T[K]>
+}
@@ -0,0 +1,71 @@
+// Value of the attribute in the search query, e.g. `Open` or `-Fixed` in `State: Open, -Fixed`
+export type SearchValue = {
+  type: "value"
+  value: string // Unquoted value
+  negated?: boolean // Excludes the value from the results
+}
+
+// Range of values, e.g. `2024-01-01 .. Today`. Open bound is "*"
+export type SearchRange = {
+  type: "range"
+  from: string
+  to: string
+}
+
+export type SearchFieldValue = SearchValue | SearchRange
+
+// Attribute-based search, e.g. `State: Open, -Fixed`
+export type SearchFieldTerm = {
+  type: "field"
+  field: string
+  values: SearchFieldValue[]
+}
+
+// Search for issues with (or without) value of the field, e.g. `has: assignee` or `has: -attachments`
+export type SearchHasTerm = {
+  type: "has"
+  field: string
+  negated?: boolean
+}
+
+// Single value or tag, e.g. `#Critical` or `-Minor`
+export type SearchTagTerm = {
+  type: "tag"
+  value: string
+  negated?: boolean
+}
+
+// Text search, e.g. `login` or `"exact phrase"`
+export type SearchTextTerm = {
+  type: "text"
+  text: string
+  exact?: boolean // Exact phrase enclosed in quotes
+}
+
+export type SearchTerm = SearchFieldTerm | SearchHasTerm | SearchTagTerm | SearchTextTerm
+
+export type SearchAnd = {
+  type: "and"
+  operands: SearchExpression[]
+}
+
+export type SearchOr = {
+  type: "or"
+  operands: SearchExpression[]
+}
+
+export type SearchExpression = SearchTerm | SearchAnd | SearchOr
+
+export type SearchSortDirection = "asc" | "desc"
+
+// Sort attribute, e.g. `created desc` in `sort by: created desc`
+export type SearchSort = {
+  field: string
+  direction?: SearchSortDirection
+}
+
+// Root of the search query AST
+export type SearchQuery = {
+  expression?: SearchExpression
+  sort: SearchSort[]
+}
@@ -0,0 +1,48 @@
+// Work item with the fields used by the timesheet report
+export type TimesheetWorkItem = {
+  id?: string
+  date: number // Timestamp of the work date (midnight UTC)
+  duration: { minutes: number }
+  text?: string | null
+  author?: { login?: string | null; fullName?: string | null } | null
+  type?: { name?: string | null } | null
+  issue?: { idReadable?: string | null; project?: { shortName?: string | null } | null } | null
+  attributes?: { name?: string | null; value?: { name?: string | null } | null }[]
+}
+
+// Groups of the timesheet totals
+export type TimesheetGroup = "user" | "day" | "week" | "issue" | "project" | "type"
+
+// Minutes by the group key, e.g. by login or date
+export type TimesheetTotals = Record<string, number>
+
+export type TimesheetRow = {
+  id: string
+  date: string // Work date (YYYY-MM-DD)
+  week: string // First day of the week of the work date (YYYY-MM-DD)
+  user: string // Login of the author
+  userName: string // Full name of the author
+  issue: string // Readable id of the issue
+  project: string // Short name of the project
+  type: string // Name of the work item type, empty if the type is not set
+  minutes: number
+  attributes: Record<string, string> // Values of the work item attributes by attribute name
+  text: string
+}
+
+export type TimesheetReport = {
+  total: number // Total minutes
+  rows: TimesheetRow[] // Work items sorted by date, user and issue
+  byUser: TimesheetTotals
+  byDay: TimesheetTotals
+  byWeek: TimesheetTotals
+  byIssue: TimesheetTotals
+  byProject: TimesheetTotals
+  byType: TimesheetTotals
+  byAttribute: Record<string, TimesheetTotals> // Minutes by attribute name and value
+  byUserDay: Record<string, TimesheetTotals> // Minutes by login and date
+}
+
+export type TimesheetOptions = {
+  firstDayOfWeek?: number // Index of the first day of week, Sunday is 0. Default: 1
+}
@@ -35,18 +35,28 @@ import type { EntityBase } from "./entities"
 
 type Primitive = string | number | boolean | symbol | bigint
 
-type SchemaItem<T, K> = T extends Primitive
-  ? ToString<K> // For primitive fields, return the key as string
-  : SubSchema<T, K> // For object fields, recursively apply Schema
+type SchemaItem<T, K> =
+  | (T extends Primitive ? ToString<K> : never) // For primitive fields, return the key as string
+  | SubSchema<Exclude<NonNullable<T>, Primitive>, K> // For object fields, recursively apply Schema
 
 type ToString<T> = T extends string | number ? `${T}` : never
-type SubSchema<T, K> = K extends string ? { readonly [P in K]-?: SchemaFromType<NonNullable<T>> } : never
 
-export type SchemaFromType<T> = {
-  [K in keyof T]-?: T[K] extends Array<infer U> ? SchemaItem<U, K> : SchemaItem<T[K], K>
-}[keyof T] extends infer U
-  ? ReadonlyArray<U>
-  : never
+// Nested schema of union entities accepts fields of all variants, e.g. `$type` and `value` fields of each custom field type
+type SubSchema<T, K> = [T] extends [never]
+  ? never
+  : K extends string
+    ? { readonly [P in K]-?: SchemaFromType<T> }
+    : never
+
+type ArrayItem<T> = T extends Array<infer U> ? U : T
+type KeysOfUnion<T> = T extends unknown ? keyof T : never
+type ValueOfUnion<T, K> = T extends unknown ? (K extends keyof T ? T[K] : never) : never
+
+type SchemaFields<T> = {
+  [K in KeysOfUnion<T>]-?: SchemaItem<ArrayItem<ValueOfUnion<T, K>>, K>
+}[KeysOfUnion<T>]
+
+export type SchemaFromType<T> = ReadonlyArray<SchemaFields<T>>
 
 export type Schema<T> = string | SchemaFromType<T>
 
@@ -0,0 +1,17 @@
+// Work item in the import/export format (CSV columns: Issue, Author, Date, Duration, Type, Text and attributes)
+export type WorkItemRow = {
+  issue: string // Readable id of the issue
+  author?: string // Login or full name of the author. Default: the current user
+  date: string // Work date (YYYY-MM-DD)
+  duration: string | number // Duration presentation, e.g. "1h 30m", or minutes
+  type?: string // Name of the work item type
+  text?: string // Description of the work
+  attributes?: Record<string, string> // Values of the work item attributes by attribute name
+}
+
+// Problem of the row found by the import validation
+export type WorkItemRowError = {
+  row: number // Index of the row in the imported rows
+  field: keyof WorkItemRow
+  message: string
+}
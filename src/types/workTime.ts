@@ -0,0 +1,47 @@
+// Status of the logged time compared with the expected time
+export type WorkTimeStatus = "ok" | "gap" | "overtime" | "nonWorkingDay"
+
+export type WorkTimeDay = {
+  date: string // YYYY-MM-DD
+  workingDay: boolean
+  expected: number // Expected minutes, 0 for non-working days
+  logged: number // Logged minutes
+  difference: number // Logged minus expected minutes
+  status: WorkTimeStatus // "nonWorkingDay" if the time is logged on a non-working day
+}
+
+export type WorkTimeWeek = {
+  week: string // First day of the week (YYYY-MM-DD)
+  expected: number
+  logged: number
+  difference: number
+  status: Exclude<WorkTimeStatus, "nonWorkingDay">
+}
+
+export type UserWorkTime = {
+  user: string // Login of the user
+  expected: number
+  logged: number
+  difference: number
+  days: WorkTimeDay[]
+  weeks: WorkTimeWeek[]
+  gaps: string[] // Dates of the working days with the time logged less than expected
+  overtime: string[] // Dates of the working days with the time logged more than expected
+  nonWorkingDays: string[] // Dates of the non-working days with logged time
+}
+
+export type WorkTimeAnalysis = {
+  from: string // First date of the analysis (YYYY-MM-DD)
+  to: string // Last date of the analysis (YYYY-MM-DD)
+  minutesADay: number
+  workDays: number[]
+  users: UserWorkTime[]
+}
+
+export type WorkTimeAnalysisOptions = {
+  from: Date | string // First date of the analysis (YYYY-MM-DD), inclusive
+  to: Date | string // Last date of the analysis (YYYY-MM-DD), inclusive
+  users?: string[] // Logins of the users to include even if they have not logged any time
+  tolerance?: number // Difference in minutes that is not reported as a gap or overtime. Default: 0
+  firstDayOfWeek?: number // Index of the first day of week, Sunday is 0. Default: 1
+}
@@ -0,0 +1,74 @@
+import type { FetchConfig } from "../types"
+import { RequestAbortedError, RequestTimeoutError } from "./errors"
+
+/**
+ * Performs request that can be cancelled with `config.signal` or `config.timeout`.
+ * The signal passed to the request is aborted on cancellation, so transport can stop the request.
+ * @param config - The request config.
+ * @param request - Function that performs the request.
+ * @returns The response or rejects with RequestAbortedError (RequestTimeoutError) on cancellation.
+ */
+export const abortableRequest = <T>(
+  { timeout, ...config }: FetchConfig,
+  request: (config: FetchConfig) => Promise<T>,
+): Promise<T> => {
+  const { signal } = config
+  if (!signal && !timeout) {
+    return request(config)
+  }
+
+  const details = { status: 0, url: config.url, config: { ...config, timeout } }
+  if (signal?.aborted) {
+    return Promise.reject(new RequestAbortedError({ ...details, cause: signal.reason }))
+  }
+
+  const controller = new AbortController()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let onAbort: () => void = () => {}
+
+  const cancelled = new Promise<never>((_, reject) => {
+    onAbort = () => {
+      reject(new RequestAbortedError({ ...details, cause: signal?.reason }))
+      controller.abort(signal?.reason)
+    }
+    signal?.addEventListener("abort", onAbort)
+
+    if (timeout) {
+      timer = setTimeout(() => {
+        const error = new RequestTimeoutError(details)
+        reject(error)
+        controller.abort(error)
+      }, timeout)
+    }
+  })
+
+  return Promise.race([request({ ...config, signal: controller.signal }), cancelled]).finally(() => {
+    clearTimeout(timer)
+    signal?.removeEventListener("abort", onAbort)
+  })
+}
+
+/**
+ * Waits for the delay, e.g. before polling the server again. The wait is cancelled with the signal.
+ * @param ms - Delay in milliseconds.
+ * @param config - The request config, its signal cancels the wait.
+ * @returns Resolves after the delay or rejects with RequestAbortedError on cancellation.
+ */
+export const abortableSleep = (ms: number, config: FetchConfig): Promise<void> => {
+  const { signal } = config
+  const details = { status: 0, url: config.url, config }
+  if (signal?.aborted) {
+    return Promise.reject(new RequestAbortedError({ ...details, cause: signal.reason }))
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new RequestAbortedError({ ...details, cause: signal?.reason }))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
@@ -0,0 +1,53 @@
+import type { ActivityCursorPage, ActivityItem, ActivityStreamParams, Schema } from "../types"
+import { stringifyFieldsSchema } from "./fieldsSchema"
+
+export type ActivityPage<T> = Pick<ActivityCursorPage, "afterCursor" | "beforeCursor" | "hasAfter" | "hasBefore"> & {
+  activities: T[]
+}
+
+/**
+ * Builds fields of ActivityCursorPage with cursors and activities in the specified schema.
+ * @param schema - Schema of the activity items. Default: ["id"].
+ * @returns Fields of the activities page in string format.
+ */
+export const activitiesPageFields = (schema: Schema<ActivityItem> = ["id"]): string => {
+  const activities = typeof schema === "string" ? schema : stringifyFieldsSchema(schema)
+  return `afterCursor,beforeCursor,hasAfter,hasBefore,activities(${activities})`
+}
+
+/**
+ * Iterates over activities of the cursor based pages.
+ * Forward direction follows `afterCursor` of pages, backward direction follows `beforeCursor` and yields
+ * activities of each page in reverse order. Without the cursor backward iteration starts from the newest page,
+ * requested in reverse order.
+ *
+ * @param fetchPage - Function that requests activities page for the specified cursor, in reverse order if `reverse` is true.
+ * @param params - Optional stream parameters.
+ * @param params.direction - Direction of the iteration: "forward" or "backward". Default: "forward".
+ * @param params.cursor - Cursor of the first page, e.g. persisted from the previous run.
+ * @param params.onCursor - Called with the cursor of the next page when all activities of the page are consumed.
+ * @returns Async iterator of activities.
+ */
+export async function* activityStream<T>(
+  fetchPage: (cursor?: string, reverse?: boolean) => Promise<ActivityPage<T>>,
+  { direction = "forward", cursor, onCursor }: ActivityStreamParams = {},
+): AsyncGenerator<T, void, undefined> {
+  const forward = direction === "forward"
+
+  for (let current = cursor; ; ) {
+    // Activities of the reversed page are already sorted from the newest
+    const reverse = !forward && !current
+    const page = await fetchPage(current, reverse || undefined)
+    const activities = page.activities ?? []
+    yield* forward || reverse ? activities : [...activities].reverse()
+
+    const next = forward ? page.afterCursor : page.beforeCursor
+    if (next) {
+      onCursor?.(next)
+    }
+    if (!next || next === current || !(forward ? page.hasAfter : page.hasBefore)) {
+      return
+    }
+    current = next
+  }
+}
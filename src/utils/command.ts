@@ -0,0 +1,262 @@
+import type { ParsedCommand } from "../types"
+import { formatSearchDate } from "./searchQuery"
+
+// Command contains errors reported by YouTrack command suggestions
+export class CommandError extends Error {
+  public name = "CommandError"
+
+  constructor(
+    public readonly query: string, // Command that was checked
+    public readonly commands: Partial<ParsedCommand>[], // Parsed commands, the failed ones have `error: true`
+  ) {
+    super(`Command "${query}" contains errors: ${commandErrorList(commands)}`)
+  }
+}
+
+// Command value that cannot be enclosed in braces
+export class CommandSyntaxError extends Error {
+  public name = "CommandSyntaxError"
+
+  constructor(
+    message: string,
+    public readonly value: string, // Value that cannot be used in the command
+  ) {
+    super(`${message}: ${value}`)
+  }
+}
+
+const commandErrorList = (commands: Partial<ParsedCommand>[]) =>
+  commands
+    .filter(({ error }) => error)
+    .map(({ description }) => description?.replace(/<[^>]*>/g, "") || "unknown command")
+    .join(", ")
+
+export type CommandWorkItem = {
+  duration: number | string // Spent time in minutes or in YouTrack format, e.g. "1h 30m"
+  date?: Date | string // Date of the work. Default: today
+  type?: string // Name of the work item type
+  text?: string // Description of the work
+}
+
+const PLAIN_COMMAND_VALUE = /^[^\s{}]+$/
+const DATABASE_ID = /^\d+-\d+$/
+
+/**
+ * Converts issue ids to the issues of the command request.
+ * Ids like "2-15" are database ids, other ids are readable ids, e.g. "DEMO-15".
+ * @param ids - Database or readable ids of the issues.
+ * @returns Issues of the command request.
+ */
+export const commandIssues = (ids: string[]): ({ id: string } | { idReadable: string })[] =>
+  ids.map((id) => (DATABASE_ID.test(id) ? { id } : { idReadable: id }))
+
+/**
+ * Encloses the command value in braces if it contains whitespaces or braces.
+ * @param value - Field value, tag, issue id or group name.
+ * @returns Value that can be used in the command.
+ * @throws {CommandSyntaxError} If the value contains closing brace.
+ */
+export const quoteCommandValue = (value: string): string => {
+  if (PLAIN_COMMAND_VALUE.test(value)) {
+    return value
+  }
+  if (value.includes("}")) {
+    throw new CommandSyntaxError('Command value cannot contain "}"', value)
+  }
+  return `{${value}}`
+}
+
+/**
+ * Formats minutes as a duration of the command, e.g. `90` as `1h 30m`.
+ * @param minutes - Duration in minutes.
+ * @returns Duration in hours and minutes.
+ */
+const formatCommandMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60)
+  const rest = Math.round(minutes % 60)
+  return [hours && `${hours}h`, (rest || !hours) && `${rest}m`].filter(Boolean).join(" ")
+}
+
+/**
+ * Fluent builder of the command applied with `CommandsApi`. Operations are joined with spaces,
+ * values with whitespaces are enclosed in braces. Field names and link types are used as is.
+ *
+ * Example:
+ * command()
+ *   .set("State", "In Progress")
+ *   .set("Assignee", "me")
+ *   .tag("release 2.0")
+ *   .link("relates to", "DEMO-12")
+ *   .toString()
+ * // State {In Progress} Assignee me tag {release 2.0} relates to DEMO-12
+ */
+export class CommandBuilder<TField extends string = string> {
+  private operations: string[] = []
+
+  /**
+   * Sets value of the field. For multi-value fields the value is added.
+   * @param field - Name of the field.
+   * @param value - Value of the field.
+   * @returns The builder.
+   */
+  public set(field: TField, value: string | number): this {
+    return this.add(field, quoteCommandValue(String(value)))
+  }
+
+  /**
+   * Adds value to the multi-value field.
+   * @param field - Name of the field.
+   * @param value - Value to add.
+   * @returns The builder.
+   */
+  public addValue(field: TField, value: string | number): this {
+    return this.add("add", field, quoteCommandValue(String(value)))
+  }
+
+  /**
+   * Removes value from the multi-value field.
+   * @param field - Name of the field.
+   * @param value - Value to remove.
+   * @returns The builder.
+   */
+  public removeValue(field: TField, value: string | number): this {
+    return this.add("remove", field, quoteCommandValue(String(value)))
+  }
+
+  /**
+   * Adds tag to the issue.
+   * @param tag - Name of the tag.
+   * @returns The builder.
+   */
+  public tag(tag: string): this {
+    return this.add("tag", quoteCommandValue(tag))
+  }
+
+  /**
+   * Removes tag from the issue.
+   * @param tag - Name of the tag.
+   * @returns The builder.
+   */
+  public untag(tag: string): this {
+    return this.add("untag", quoteCommandValue(tag))
+  }
+
+  /**
+   * Links the issue with the other issue.
+   * @param linkType - Name of the link in the direction from the issue, e.g. "relates to", "subtask of".
+   * @param issueId - Readable id of the linked issue.
+   * @returns The builder.
+   */
+  public link(linkType: string, issueId: string): this {
+    return this.add(linkType, quoteCommandValue(issueId))
+  }
+
+  /**
+   * Removes link with the other issue.
+   * @param linkType - Name of the link in the direction from the issue.
+   * @param issueId - Readable id of the linked issue.
+   * @returns The builder.
+   */
+  public unlink(linkType: string, issueId: string): this {
+    return this.add("remove", linkType, quoteCommandValue(issueId))
+  }
+
+  /**
+   * Votes for the issue.
+   * @returns The builder.
+   */
+  public vote(): this {
+    return this.add("vote")
+  }
+
+  /**
+   * Removes the vote for the issue.
+   * @returns The builder.
+   */
+  public unvote(): this {
+    return this.add("unvote")
+  }
+
+  /**
+   * Adds the issue to the watch list (star).
+   * @returns The builder.
+   */
+  public star(): this {
+    return this.add("star")
+  }
+
+  /**
+   * Removes the issue from the watch list.
+   * @returns The builder.
+   */
+  public unstar(): this {
+    return this.add("unstar")
+  }
+
+  /**
+   * Restricts visibility of the issue to the group or user.
+   * @param groupOrUser - Name of the group or login of the user.
+   * @returns The builder.
+   */
+  public visibleTo(groupOrUser: string): this {
+    return this.add("visible to", quoteCommandValue(groupOrUser))
+  }
+
+  /**
+   * Removes the group or user from the visibility settings of the issue.
+   * @param groupOrUser - Name of the group or login of the user.
+   * @returns The builder.
+   */
+  public removeVisibleTo(groupOrUser: string): this {
+    return this.add("remove visible to", quoteCommandValue(groupOrUser))
+  }
+
+  /**
+   * Adds spent time to the issue. Description takes the rest of the command, so the work should be the last operation.
+   * @param work - Duration and optional date, work type and description.
+   * @returns The builder.
+   */
+  public work({ duration, date, type, text }: CommandWorkItem): this {
+    const parts = ["work"]
+    if (date) {
+      parts.push(date instanceof Date ? formatSearchDate(date) : quoteCommandValue(date))
+    }
+    parts.push(typeof duration === "number" ? formatCommandMinutes(duration) : duration)
+    if (type) {
+      parts.push(quoteCommandValue(type))
+    }
+    if (text) {
+      parts.push(text)
+    }
+    return this.add(...parts)
+  }
+
+  /**
+   * Adds command text as is, e.g. localized command that is not supported by the builder.
+   * @param text - Command text.
+   * @returns The builder.
+   */
+  public raw(text: string): this {
+    return this.add(text)
+  }
+
+  /**
+   * Builds the command string.
+   * @returns Command string.
+   */
+  public toString(): string {
+    return this.operations.join(" ")
+  }
+
+  private add(...parts: string[]): this {
+    this.operations.push(parts.join(" "))
+    return this
+  }
+}
+
+/**
+ * Creates command builder.
+ * @template TField - Names of the fields allowed in the command.
+ * @returns Command builder.
+ */
+export const command = <TField extends string = string>(): CommandBuilder<TField> => new CommandBuilder<TField>()
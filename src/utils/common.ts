@@ -17,3 +17,5 @@ export const joinUrl = (_baseUrl: string, _url: string): string => {
 
   return `${baseUrl}/${url}`
 }
+
+export const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms))
@@ -0,0 +1,80 @@
+export type CsvValue = string | number | boolean | null | undefined
+
+/**
+ * Encloses the CSV value in double quotes if it contains separator, quotes or line breaks.
+ * @param value - Cell value, null and undefined are written as empty cells.
+ * @param separator - Separator of the cells. Default: ",".
+ * @returns Escaped cell value.
+ */
+export const csvValue = (value: CsvValue, separator = ","): string => {
+  const text = value === null || value === undefined ? "" : String(value)
+  return text.includes(separator) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Serializes rows to CSV. Rows are separated with "\n", the output ends with the line break.
+ * @param rows - Rows of cells, the first row is usually the header.
+ * @param separator - Separator of the cells. Default: ",".
+ * @returns CSV string.
+ */
+export const toCsv = (rows: CsvValue[][], separator = ","): string =>
+  rows.map((row) => `${row.map((value) => csvValue(value, separator)).join(separator)}\n`).join("")
+
+/**
+ * Parses CSV string to rows of cells. Supports quoted cells with separators, quotes and line breaks.
+ * Empty lines are skipped.
+ * @param csv - CSV string.
+ * @param separator - Separator of the cells, a single character. Default: ",".
+ * @returns Rows of cells.
+ * @throws {RangeError} If the separator is not a single character or is a quote or a line break.
+ */
+export const parseCsv = (csv: string, separator = ","): string[][] => {
+  if (separator.length !== 1 || /["\r\n]/.test(separator)) {
+    throw new RangeError(
+      `CSV separator must be a single character other than quote and line break: ${JSON.stringify(separator)}`,
+    )
+  }
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ""
+  let quoted = false
+
+  const endRow = () => {
+    row.push(cell)
+    if (row.length > 1 || row[0]) {
+      rows.push(row)
+    }
+    row = []
+    cell = ""
+  }
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i]
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === separator) {
+      row.push(cell)
+      cell = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && csv[i + 1] === "\n") {
+        i++
+      }
+      endRow()
+    } else {
+      cell += char
+    }
+  }
+  if (cell || row.length) {
+    endRow()
+  }
+  return rows
+}
@@ -0,0 +1,132 @@
+import type { BundleElementRef, CustomFieldUpdate, PeriodValueRef, UserRef } from "../types"
+
+type BundleValue = string | BundleElementRef // Name of the element or reference to it
+type UserValue = string | UserRef // Login of the user or reference to it
+
+const bundleRef = (value: BundleValue): BundleElementRef => (typeof value === "string" ? { name: value } : value)
+const userRef = (value: UserValue): UserRef => (typeof value === "string" ? { login: value } : value)
+
+const single =
+  <TType extends string>($type: TType) =>
+  (name: string, value: BundleValue | null): CustomFieldUpdate<TType, BundleElementRef | null> => ({
+    $type,
+    name,
+    value: value === null ? null : bundleRef(value),
+  })
+
+const multi =
+  <TType extends string>($type: TType) =>
+  (name: string, values: readonly BundleValue[] | null): CustomFieldUpdate<TType, BundleElementRef[]> => ({
+    $type,
+    name,
+    value: (values ?? []).map(bundleRef),
+  })
+
+/**
+ * Builders of the issue custom field bodies for createIssue, updateIssue and updateIssueCustomField requests.
+ * Bundle elements and groups are referenced by name (or `{ id }`), users by login (or `{ id }`).
+ * `null` clears the field, multi-value fields are cleared with an empty list.
+ *
+ * Example:
+ * yt.Issues.createIssue({
+ *   summary: "Bug",
+ *   project: { id: "0-0" },
+ *   customFields: [enumField("Priority", "Critical"), userField("Assignee", "john"), periodField("Estimation", 90)],
+ * })
+ */
+export const enumField = single("SingleEnumIssueCustomField")
+export const multiEnumField = multi("MultiEnumIssueCustomField")
+export const stateField = single("StateIssueCustomField")
+export const stateMachineField = single("StateMachineIssueCustomField")
+export const versionField = single("SingleVersionIssueCustomField")
+export const multiVersionField = multi("MultiVersionIssueCustomField")
+export const buildField = single("SingleBuildIssueCustomField")
+export const multiBuildField = multi("MultiBuildIssueCustomField")
+export const ownedField = single("SingleOwnedIssueCustomField")
+export const multiOwnedField = multi("MultiOwnedIssueCustomField")
+export const groupField = single("SingleGroupIssueCustomField")
+export const multiGroupField = multi("MultiGroupIssueCustomField")
+
+/**
+ * Builds the body of the single-user field.
+ * @param name - Name of the custom field.
+ * @param value - Login of the user, reference to the user or null to clear the field.
+ */
+export const userField = (
+  name: string,
+  value: UserValue | null,
+): CustomFieldUpdate<"SingleUserIssueCustomField", UserRef | null> => ({
+  $type: "SingleUserIssueCustomField",
+  name,
+  value: value === null ? null : userRef(value),
+})
+
+/**
+ * Builds the body of the multi-user field.
+ * @param name - Name of the custom field.
+ * @param values - Logins of the users or references to them, empty list or null to clear the field.
+ */
+export const multiUserField = (
+  name: string,
+  values: readonly UserValue[] | null,
+): CustomFieldUpdate<"MultiUserIssueCustomField", UserRef[]> => ({
+  $type: "MultiUserIssueCustomField",
+  name,
+  value: (values ?? []).map(userRef),
+})
+
+/**
+ * Builds the body of the period field.
+ * @param name - Name of the custom field.
+ * @param value - Duration in minutes, presentation (e.g. "1h 30m") or null to clear the field.
+ */
+export const periodField = (
+  name: string,
+  value: number | string | null,
+): CustomFieldUpdate<"PeriodIssueCustomField", PeriodValueRef | null> => ({
+  $type: "PeriodIssueCustomField",
+  name,
+  value: value === null ? null : typeof value === "number" ? { minutes: value } : { presentation: value },
+})
+
+/**
+ * Builds the body of the date field.
+ * @param name - Name of the custom field.
+ * @param value - Date, timestamp in milliseconds or null to clear the field.
+ */
+export const dateField = (
+  name: string,
+  value: Date | number | null,
+): CustomFieldUpdate<"DateIssueCustomField", number | null> => ({
+  $type: "DateIssueCustomField",
+  name,
+  value: value instanceof Date ? value.getTime() : value,
+})
+
+/**
+ * Builds the body of the text field.
+ * @param name - Name of the custom field.
+ * @param value - Text or null to clear the field.
+ */
+export const textField = (
+  name: string,
+  value: string | null,
+): CustomFieldUpdate<"TextIssueCustomField", { text: string } | null> => ({
+  $type: "TextIssueCustomField",
+  name,
+  value: value === null ? null : { text: value },
+})
+
+/**
+ * Builds the body of the simple field (string, integer, float or date and time).
+ * @param name - Name of the custom field.
+ * @param value - Value of the field, Date for the date and time field or null to clear the field.
+ */
+export const simpleField = (
+  name: string,
+  value: string | number | Date | null,
+): CustomFieldUpdate<"SimpleIssueCustomField", string | number | null> => ({
+  $type: "SimpleIssueCustomField",
+  name,
+  value: value instanceof Date ? value.getTime() : value,
+})
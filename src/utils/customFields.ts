@@ -0,0 +1,277 @@
+import type { User } from "../types"
+import { isObject } from "./common"
+
+// Custom field is missing in the issue or has a value of unexpected type
+export class CustomFieldError extends Error {
+  public name = "CustomFieldError"
+
+  constructor(
+    message: string,
+    public readonly field: string, // Name of the custom field
+  ) {
+    super(message)
+  }
+}
+
+type CustomFieldEntry = {
+  name?: string | null
+  $type?: string
+  value?: unknown
+  projectCustomField?: { field?: { fieldType?: { id?: string | null } | null } | null } | null
+}
+
+// Fetched issue (or any entity) with custom fields
+export type WithCustomFields = { customFields?: ReadonlyArray<CustomFieldEntry> | null }
+
+// Decoded value of the custom field: names of bundle elements and groups, logins of users,
+// minutes of periods, text of text fields and dates of date fields
+export type CustomFieldValue = string | number | Date
+
+export type CustomFieldAccessorOptions = {
+  required?: boolean // Throw CustomFieldError if the field is missing in the issue instead of returning undefined
+}
+
+// Result of the accessor: undefined if the field is missing unless the field is required
+export type CustomFieldResult<T, TOptions extends CustomFieldAccessorOptions> = TOptions extends { required: true }
+  ? T
+  : T | undefined
+
+const DATE_TYPES = ["DateIssueCustomField", "SimpleIssueCustomField"]
+const USER_TYPES = ["SingleUserIssueCustomField", "MultiUserIssueCustomField", "StateMachineIssueCustomField"]
+const TEXT_TYPES = ["TextIssueCustomField", "SimpleIssueCustomField"]
+const DATE_FIELD_TYPES = ["date", "date and time"]
+
+/**
+ * Finds the custom field of the issue by name.
+ * @param issue - Issue fetched with `customFields(name)`.
+ * @param name - Name of the custom field.
+ * @returns The custom field or undefined if it is missing.
+ */
+export const findCustomField = <T extends CustomFieldEntry>(
+  issue: { customFields?: ReadonlyArray<T> | null },
+  name: string,
+): T | undefined => issue.customFields?.find((field) => field.name === name)
+
+/**
+ * Returns decoded value of the custom field by name:
+ * bundle elements and groups are decoded to names, users to logins, periods to minutes, text values to text.
+ * Values of date fields are decoded to Date if the field is fetched with `$type` (`DateIssueCustomField`)
+ * or with `projectCustomField(field(fieldType(id)))` (date and time simple fields), otherwise timestamps are returned.
+ * Values of multi-value fields are decoded to arrays.
+ *
+ * Example:
+ * getFieldValue(issue, "Priority") // "Critical"
+ * getFieldValue(issue, "Assignees") // ["john", "jane"]
+ *
+ * @param issue - Issue fetched with `customFields(name,$type,value(...))`.
+ * @param name - Name of the custom field.
+ * @param options - Accessor options.
+ * @returns Decoded value, null if the field is empty or undefined if the field is missing.
+ */
+export const getFieldValue = <TOptions extends CustomFieldAccessorOptions = {}>(
+  issue: WithCustomFields,
+  name: string,
+  options?: TOptions,
+): CustomFieldResult<CustomFieldValue | CustomFieldValue[] | null, TOptions> => {
+  const field = requireField(issue, name, options)
+  if (!field) {
+    return undefined as CustomFieldResult<never, TOptions>
+  }
+  const { value } = field
+  if (Array.isArray(value)) {
+    return value.map((item) => decodeFieldValue(item, field))
+  }
+  return value === null || value === undefined ? null : decodeFieldValue(value, field)
+}
+
+/**
+ * Returns name of the bundle element (enum, state, version, build, owned) or group of the single-value field.
+ * @param issue - Issue fetched with `customFields(name,value(name))`.
+ * @param name - Name of the custom field.
+ * @param options - Accessor options.
+ * @returns Name of the value, null if the field is empty or undefined if the field is missing.
+ */
+export const getEnumField = <TOptions extends CustomFieldAccessorOptions = {}>(
+  issue: WithCustomFields,
+  name: string,
+  options?: TOptions,
+): CustomFieldResult<string | null, TOptions> =>
+  readField(issue, name, options, "single-value bundle", (value) =>
+    isObject(value) && typeof value.name === "string" ? value.name : undefined,
+  )
+
+/**
+ * Returns names of the bundle elements or groups of the multi-value field. Single-value fields return one name.
+ * @param issue - Issue fetched with `customFields(name,value(name))`.
+ * @param name - Name of the custom field.
+ * @param options - Accessor options.
+ * @returns Names of the values, empty array if the field is empty or undefined if the field is missing.
+ */
+export const getEnumsField = <TOptions extends CustomFieldAccessorOptions = {}>(
+  issue: WithCustomFields,
+  name: string,
+  options?: TOptions,
+): CustomFieldResult<string[], TOptions> =>
+  readValues(issue, name, options, "bundle", (value) =>
+    isObject(value) && typeof value.name === "string" ? value.name : undefined,
+  )
+
+/**
+ * Returns user of the single-user field.
+ * @param issue - Issue fetched with `customFields($type,name,value(login,fullName))`.
+ * @param name - Name of the custom field.
+ * @param options - Accessor options.
+ * @returns User with the fetched fields, null if the field is empty or undefined if the field is missing.
+ */
+export const getUserField = <TOptions extends CustomFieldAccessorOptions = {}>(
+  issue: WithCustomFields,
+  name: string,
+  options?: TOptions,
+): CustomFieldResult<Partial<User> | null, TOptions> =>
+  readField(issue, name, options, "user", (value, $type) => (isUser(value, $type) ? value : undefined))
+
+/**
+ * Returns users of the multi-user field. Single-user fields return one user.
+ * @param issue - Issue fetched with `customFields($type,name,value(login,fullName))`.
+ * @param name - Name of the custom field.
+ * @param options - Accessor options.
+ * @returns Users with the fetched fields, empty array if the field is empty or undefined if the field is missing.
+ */
+export const getUsersField = <TOptions extends CustomFieldAccessorOptions = {}>(
+  issue: WithCustomFields,
+  name: string,
+  options?: TOptions,
+): CustomFieldResult<Partial<User>[], TOptions> =>
+  readValues(issue, name, options, "user", (value, $type) => (isUser(value, $type) ? value : undefined))
+
+/**
+ * Returns duration of the period field in minutes.
+ * @param issue - Issue fetched with `customFields(name,value(minutes))`.
+ * @param name - Name of the custom field.
+ * @param options - Accessor options.
+ * @returns Minutes, null if the field is empty or undefined if the field is missing.
+ */
+export const getPeriodField = <TOptions extends CustomFieldAccessorOptions = {}>(
+  issue: WithCustomFields,
+  name: string,
+  options?: TOptions,
+): CustomFieldResult<number | null, TOptions> =>
+  readField(issue, name, options, "period", (value, $type) =>
+    isObject(value) && typeof value.minutes === "number" && (!$type || $type === "PeriodIssueCustomField")
+      ? value.minutes
+      : undefined,
+  )
+
+/**
+ * Returns value of the date or date and time field as Date.
+ * @param issue - Issue fetched with `customFields(name,value)`.
+ * @param name - Name of the custom field.
+ * @param options - Accessor options.
+ * @returns Date, null if the field is empty or undefined if the field is missing.
+ */
+export const getDateField = <TOptions extends CustomFieldAccessorOptions = {}>(
+  issue: WithCustomFields,
+  name: string,
+  options?: TOptions,
+): CustomFieldResult<Date | null, TOptions> =>
+  readField(issue, name, options, "date", (value, $type) =>
+    typeof value === "number" && (!$type || DATE_TYPES.includes($type)) ? new Date(value) : undefined,
+  )
+
+/**
+ * Returns text of the text field or string value of the simple field.
+ * @param issue - Issue fetched with `customFields(name,value(text))`.
+ * @param name - Name of the custom field.
+ * @param options - Accessor options.
+ * @returns Text, null if the field is empty or undefined if the field is missing.
+ */
+export const getTextField = <TOptions extends CustomFieldAccessorOptions = {}>(
+  issue: WithCustomFields,
+  name: string,
+  options?: TOptions,
+): CustomFieldResult<string | null, TOptions> =>
+  readField(issue, name, options, "text", (value, $type) => {
+    if (isObject(value)) {
+      return typeof value.text === "string" ? value.text : undefined
+    }
+    return typeof value === "string" && (!$type || TEXT_TYPES.includes($type)) ? value : undefined
+  })
+
+const requireField = (issue: WithCustomFields, name: string, options?: CustomFieldAccessorOptions) => {
+  const field = findCustomField(issue, name)
+  if (!field && options?.required) {
+    throw new CustomFieldError(`Custom field "${name}" is missing`, name)
+  }
+  return field
+}
+
+const readField = <T, TOptions extends CustomFieldAccessorOptions>(
+  issue: WithCustomFields,
+  name: string,
+  options: TOptions | undefined,
+  expected: string,
+  decode: (value: unknown, $type?: string) => T | undefined,
+): CustomFieldResult<T | null, TOptions> => {
+  const field = requireField(issue, name, options)
+  if (!field) {
+    return undefined as CustomFieldResult<T | null, TOptions>
+  }
+  const { value, $type } = field
+  if (value === null || value === undefined) {
+    return null
+  }
+  const decoded = Array.isArray(value) ? undefined : decode(value, $type)
+  if (decoded === undefined) {
+    throw unexpectedValue(name, expected, field)
+  }
+  return decoded
+}
+
+const readValues = <T, TOptions extends CustomFieldAccessorOptions>(
+  issue: WithCustomFields,
+  name: string,
+  options: TOptions | undefined,
+  expected: string,
+  decode: (value: unknown, $type?: string) => T | undefined,
+): CustomFieldResult<T[], TOptions> => {
+  const field = requireField(issue, name, options)
+  if (!field) {
+    return undefined as CustomFieldResult<T[], TOptions>
+  }
+  const { value, $type } = field
+  const values = value === null || value === undefined ? [] : Array.isArray(value) ? value : [value]
+  return values.map((item) => {
+    const decoded = decode(item, $type)
+    if (decoded === undefined) {
+      throw unexpectedValue(name, expected, field)
+    }
+    return decoded
+  })
+}
+
+const isUser = (value: unknown, $type?: string): value is Partial<User> =>
+  isObject(value) && ($type ? USER_TYPES.includes($type) && "login" in value : "login" in value)
+
+const isDateField = ({ $type, projectCustomField }: CustomFieldEntry) =>
+  $type === "DateIssueCustomField" || DATE_FIELD_TYPES.includes(projectCustomField?.field?.fieldType?.id ?? "")
+
+/**
+ * Decodes a single value of the custom field: name of the bundle element, login of the user, minutes of the period,
+ * text or presentation. Timestamps of date fields are decoded to dates.
+ * @param value - Value of the single-value field or an item of the multi-value field.
+ * @param field - Custom field with `$type` or field type, used to recognize date fields.
+ * @returns Decoded value.
+ */
+export const decodeFieldValue = (value: unknown, field: CustomFieldEntry = {}): CustomFieldValue => {
+  if (!isObject(value)) {
+    return typeof value === "number" && isDateField(field) ? new Date(value) : (value as string | number)
+  }
+  const { login, minutes, text, name, presentation, id } = value
+  return (login ?? minutes ?? text ?? name ?? presentation ?? id) as string | number
+}
+
+const unexpectedValue = (name: string, expected: string, field: CustomFieldEntry) =>
+  new CustomFieldError(
+    `Custom field "${name}"${field.$type ? ` of type ${field.$type}` : ""} does not contain ${expected} value`,
+    name,
+  )
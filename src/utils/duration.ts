@@ -0,0 +1,144 @@
+import type {
+  DurationPresentation,
+  DurationValue,
+  EnglishUnits,
+  GermanUnits,
+  PeriodValue,
+  RussianUnits,
+  WorkTimeSettings,
+} from "../types"
+
+// Duration presentation has unknown units or wrong order of units
+export class DurationFormatError extends Error {
+  public name = "DurationFormatError"
+
+  constructor(
+    message: string,
+    public readonly presentation: string, // Duration presentation that failed to parse
+  ) {
+    super(`${message}: "${presentation}"`)
+  }
+}
+
+// Abbreviations of weeks, days, hours and minutes
+export type DurationUnits = [string, string, string, string]
+
+export type DurationOptions<TUnits extends DurationUnits = EnglishUnits> = Partial<
+  Pick<WorkTimeSettings, "minutesADay" | "daysAWeek" | "workDays">
+> & {
+  units?: TUnits // Unit abbreviations of the presentation. Default: ["w", "d", "h", "m"]
+}
+
+export const ENGLISH_DURATION_UNITS: EnglishUnits = ["w", "d", "h", "m"]
+export const RUSSIAN_DURATION_UNITS: RussianUnits = ["н", "д", "ч", "м"]
+export const GERMAN_DURATION_UNITS: GermanUnits = ["w", "t", "s", "m"]
+
+export const DEFAULT_MINUTES_A_DAY = 480
+export const DEFAULT_DAYS_A_WEEK = 5
+
+const DURATION_PART = /^(\d+(?:\.\d+)?)(\S+)$/
+
+/**
+ * Minutes in each unit of the duration (weeks, days, hours, minutes).
+ * Days a week are taken from `daysAWeek` or the number of `workDays` of the settings.
+ * @param options - Work time settings.
+ * @returns Minutes in a week, a day, an hour and a minute.
+ */
+const unitMinutes = ({ minutesADay = DEFAULT_MINUTES_A_DAY, daysAWeek, workDays }: DurationOptions<DurationUnits>) => {
+  const days = daysAWeek ?? workDays?.length ?? DEFAULT_DAYS_A_WEEK
+  return [minutesADay * days, minutesADay, 60, 1]
+}
+
+/**
+ * Parses duration presentation, e.g. "1w 2d 4h 30m", to minutes.
+ * Units must go from the largest to the smallest, each unit can be used once. Negative durations start with "-".
+ * @param presentation - Duration presentation.
+ * @param options - Work time settings and unit abbreviations.
+ * @returns Duration in minutes.
+ * @throws {DurationFormatError} If the presentation has unknown units, wrong order of units or no units.
+ */
+export const parseDuration = <TUnits extends DurationUnits = EnglishUnits>(
+  presentation: DurationPresentation<TUnits> | string,
+  options: DurationOptions<TUnits> = {},
+): number => {
+  const units = (options.units ?? ENGLISH_DURATION_UNITS).map((unit) => unit.toLowerCase())
+  const minutes = unitMinutes(options)
+  const trimmed = presentation.trim()
+  const negative = trimmed.startsWith("-")
+  const parts = (negative ? trimmed.slice(1) : trimmed).trim().split(/\s+/)
+  if (!parts[0]) {
+    throw new DurationFormatError("Duration is empty", presentation)
+  }
+
+  let total = 0
+  let lastUnit = -1
+  for (const part of parts) {
+    const [, value, unit] = DURATION_PART.exec(part) ?? []
+    const index = unit ? units.indexOf(unit.toLowerCase()) : -1
+    if (index < 0) {
+      throw new DurationFormatError(`Unexpected duration part "${part}"`, presentation)
+    }
+    if (index <= lastUnit) {
+      throw new DurationFormatError(`Unit "${unit}" is out of order`, presentation)
+    }
+    lastUnit = index
+    total += Number(value) * minutes[index]
+  }
+  return negative ? -Math.round(total) : Math.round(total)
+}
+
+/**
+ * Formats minutes as duration presentation, e.g. 2670 as "1w 4h 30m" for 8-hour days and 5-day weeks.
+ * Units with zero values are omitted, zero duration is formatted as "0m".
+ * @param minutes - Duration in minutes.
+ * @param options - Work time settings and unit abbreviations.
+ * @returns Duration presentation.
+ */
+export const formatDuration = <TUnits extends DurationUnits = EnglishUnits>(
+  minutes: number,
+  options: DurationOptions<TUnits> = {},
+): DurationPresentation<TUnits> => {
+  const units = options.units ?? ENGLISH_DURATION_UNITS
+  const sizes = unitMinutes(options)
+  const parts: string[] = []
+  let rest = Math.round(Math.abs(minutes))
+  sizes.forEach((size, index) => {
+    const value = Math.floor(rest / size)
+    rest -= value * size
+    if (value) {
+      parts.push(`${value}${units[index]}`)
+    }
+  })
+  const presentation = parts.join(" ") || `0${units[3]}`
+  return (minutes < 0 ? `-${presentation}` : presentation) as DurationPresentation<TUnits>
+}
+
+/**
+ * Converts minutes or duration presentation to the value with both minutes and presentation.
+ * @param value - Minutes, presentation or value with minutes, e.g. `DurationValue` or `PeriodValue`.
+ * @param options - Work time settings and unit abbreviations.
+ * @returns Minutes and presentation of the duration.
+ */
+export const durationValue = <TUnits extends DurationUnits = EnglishUnits>(
+  value: number | string | Pick<DurationValue | PeriodValue, "minutes">,
+  options: DurationOptions<TUnits> = {},
+): { minutes: number; presentation: DurationPresentation<TUnits> } => {
+  const minutes = durationMinutes(value, options)
+  return { minutes, presentation: formatDuration(minutes, options) }
+}
+
+/**
+ * Gets minutes of the duration.
+ * @param value - Minutes, presentation or value with minutes, e.g. `DurationValue` or `PeriodValue`.
+ * @param options - Work time settings and unit abbreviations used to parse the presentation.
+ * @returns Duration in minutes.
+ */
+export const durationMinutes = <TUnits extends DurationUnits = EnglishUnits>(
+  value: number | string | Pick<DurationValue | PeriodValue, "minutes">,
+  options: DurationOptions<TUnits> = {},
+): number => {
+  if (typeof value === "number") {
+    return value
+  }
+  return typeof value === "string" ? parseDuration(value, options) : value.minutes
+}
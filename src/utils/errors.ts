@@ -0,0 +1,192 @@
+import type { FetchConfig, HttpMethod, YouTrackErrorPayload } from "../types"
+import { isObject } from "./common"
+
+export type YouTrackErrorDetails = {
+  status: number // HTTP status code of the response, 0 if no response was received
+  statusText?: string // HTTP status text of the response
+  payload?: YouTrackErrorPayload // Parsed error body returned by YouTrack
+  url: string // Requested URL
+  config: FetchConfig // Config of the failed request
+  cause?: unknown // Original error thrown by the transport
+  retryAfter?: number // Delay in milliseconds from Retry-After response header
+}
+
+/**
+ * Base class for all errors thrown by YouTrack client.
+ * Contains the response status, parsed error payload and the request that caused the error.
+ */
+export class YouTrackError extends Error {
+  public name = "YouTrackError"
+  public readonly status: number
+  public readonly statusText: string
+  public readonly payload: YouTrackErrorPayload | undefined
+  public readonly method: HttpMethod
+  public readonly url: string
+  public readonly config: FetchConfig
+  public readonly cause: unknown
+  public readonly retryAfter: number | undefined
+
+  constructor(details: YouTrackErrorDetails, message = youTrackErrorMessage(details)) {
+    super(message)
+    this.cause = details.cause
+    this.status = details.status
+    this.statusText = details.statusText ?? ""
+    this.payload = details.payload
+    this.method = details.config.method ?? "GET"
+    this.url = details.url
+    this.config = details.config
+    this.retryAfter = details.retryAfter
+  }
+
+  /**
+   * Short error code returned by YouTrack, e.g. "Not Found" or "invalid_query".
+   */
+  get error(): string | undefined {
+    return this.payload?.error
+  }
+
+  /**
+   * Human-readable error description returned by YouTrack.
+   */
+  get description(): string | undefined {
+    return this.payload?.error_description
+  }
+}
+
+// 400 Bad Request, 422 Unprocessable Entity
+export class ValidationError extends YouTrackError {
+  public name = "ValidationError"
+}
+
+// 401 Unauthorized
+export class UnauthorizedError extends YouTrackError {
+  public name = "UnauthorizedError"
+}
+
+// 403 Forbidden
+export class ForbiddenError extends YouTrackError {
+  public name = "ForbiddenError"
+}
+
+// 404 Not Found
+export class NotFoundError extends YouTrackError {
+  public name = "NotFoundError"
+}
+
+// 409 Conflict
+export class ConflictError extends YouTrackError {
+  public name = "ConflictError"
+}
+
+// 429 Too Many Requests
+export class RateLimitedError extends YouTrackError {
+  public name = "RateLimitedError"
+}
+
+// 5xx Server errors
+export class ServerError extends YouTrackError {
+  public name = "ServerError"
+}
+
+// Request failed without receiving a response (DNS, connection refused, CORS etc.)
+export class NetworkError extends YouTrackError {
+  public name = "NetworkError"
+}
+
+// Request was cancelled with AbortSignal
+export class RequestAbortedError extends YouTrackError {
+  public name = "RequestAbortedError"
+
+  constructor(details: YouTrackErrorDetails, message = "Request aborted") {
+    super(details, message)
+  }
+}
+
+// Request was cancelled because of timeout
+export class RequestTimeoutError extends RequestAbortedError {
+  public name = "RequestTimeoutError"
+
+  constructor(details: YouTrackErrorDetails, message = `Request timed out after ${details.config.timeout}ms`) {
+    super(details, message)
+  }
+}
+
+const youTrackErrorMessage = ({ status, statusText, payload, cause }: YouTrackErrorDetails): string => {
+  const description = payload?.error_description || payload?.error
+  if (!status) {
+    return `Network error: ${cause instanceof Error ? cause.message : description || "no response received"}`
+  }
+  const message = `Error: ${status}${statusText ? ` ${statusText}` : ""}`
+  return description ? `${message} - ${description}` : message
+}
+
+const errorClass = (status: number): typeof YouTrackError => {
+  switch (status) {
+    case 0:
+      return NetworkError
+    case 400:
+    case 422:
+      return ValidationError
+    case 401:
+      return UnauthorizedError
+    case 403:
+      return ForbiddenError
+    case 404:
+      return NotFoundError
+    case 409:
+      return ConflictError
+    case 429:
+      return RateLimitedError
+    default:
+      return status >= 500 ? ServerError : YouTrackError
+  }
+}
+
+/**
+ * Creates an instance of YouTrackError subclass matching the response status.
+ * @param details - Response status, error payload and request details.
+ * @returns The error instance.
+ */
+export const createYouTrackError = (details: YouTrackErrorDetails): YouTrackError => {
+  const ErrorClass = errorClass(details.status)
+  return new ErrorClass(details)
+}
+
+/**
+ * Parses error body returned by YouTrack. Body can be JSON string or already decoded object.
+ * @param data - Response body.
+ * @returns Error payload or undefined if body is empty.
+ */
+export const parseErrorPayload = (data: unknown): YouTrackErrorPayload | undefined => {
+  if (typeof data === "string") {
+    if (!data) {
+      return undefined
+    }
+    try {
+      return parseErrorPayload(JSON.parse(data))
+    } catch {
+      return { error: data }
+    }
+  }
+
+  return isObject(data) && !Array.isArray(data) ? (data as YouTrackErrorPayload) : undefined
+}
+
+/**
+ * Parses Retry-After header value. Value can be delay in seconds or HTTP date.
+ * @param value - Retry-After header value.
+ * @param now - Current timestamp in milliseconds.
+ * @returns Delay in milliseconds or undefined if header is missing or invalid.
+ */
+export const parseRetryAfter = (value?: string | null, now = Date.now()): number | undefined => {
+  if (!value) {
+    return undefined
+  }
+
+  if (/^\s*\d+\s*$/.test(value)) {
+    return Number.parseInt(value, 10) * 1000
+  }
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now)
+}
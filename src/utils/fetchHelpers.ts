@@ -1,5 +1,6 @@
-import type { FieldsSchema, QueryParamBuilder, Schema } from "../types"
+import type { FieldsSchema, MergeSchemas, QueryParamBuilder, Schema } from "../types"
 import { isObject } from "./common"
+import { stringifyFieldsSchema } from "./fieldsSchema"
 
 export const encodeBody = (data?: string | object | FormData): string | FormData | undefined => {
   if (data instanceof FormData) {
@@ -30,15 +31,39 @@ export const createParamsMap = (keys: string[] = [], values: Array<string | numb
   )
 }
 
-const fieldsBuilder = (schema: FieldsSchema = []): string => {
-  const _fields = schema.map((field) =>
-    isObject(field)
-      ? Object.keys(field)
-          .map((key) => `${key}(${fieldsBuilder(field[key])})`)
-          .join(",")
-      : encodeURIComponent(field),
-  )
-  return _fields.length ? _fields.join(",") : ""
+export const fieldsBuilder = (schema: FieldsSchema = []): string => stringifyFieldsSchema(schema, encodeURIComponent)
+
+/**
+ * Deep merges two fields schemas. Flat fields are combined without duplicates, nested fields with the same name
+ * are merged recursively. Flat field is dropped if nested fields of it are requested.
+ *
+ * Example:
+ * mergeSchemas(["id", "project", { reporter: ["login"] }], ["summary", { project: ["name"], reporter: ["email"] }])
+ * // ["id", "summary", { project: ["name"], reporter: ["login", "email"] }]
+ *
+ * @param a - The first schema.
+ * @param b - The second schema.
+ * @returns Merged schema.
+ */
+export const mergeSchemas = <A extends FieldsSchema, B extends FieldsSchema>(a: A, b: B): MergeSchemas<A, B> => {
+  const flat: string[] = []
+  const nested = new Map<string, FieldsSchema>()
+
+  for (const field of [...a, ...b]) {
+    if (!isObject(field)) {
+      if (!flat.includes(field)) {
+        flat.push(field)
+      }
+      continue
+    }
+    for (const key of Object.keys(field)) {
+      const schema = nested.get(key)
+      nested.set(key, schema ? mergeSchemas(schema, field[key]) : field[key])
+    }
+  }
+
+  const merged: FieldsSchema = flat.filter((field) => !nested.has(field))
+  return (nested.size ? [...merged, Object.fromEntries(nested)] : merged) as MergeSchemas<A, B>
 }
 
 export const fields: QueryParamBuilder<Schema<any> | undefined> = (schema = []) => {
@@ -0,0 +1,252 @@
+import type {
+  Agile,
+  Article,
+  Issue,
+  IssueComment,
+  IssueCustomField,
+  IssueWorkItem,
+  Project,
+  SavedQuery,
+  Schema,
+  Sprint,
+  Tag,
+  User,
+  UserGroup,
+} from "../types"
+
+/**
+ * Fields schema presets of the users.
+ */
+export const UserFields = {
+  minimal: ["id", "login"],
+  standard: ["id", "login", "fullName", "email", "avatarUrl"],
+  full: ["id", "login", "fullName", "email", "avatarUrl", "ringId", "guest", "online", "banned", "isLocked"],
+} as const satisfies Record<string, Schema<User>>
+
+/**
+ * Fields schema presets of the user groups.
+ */
+export const UserGroupFields = {
+  minimal: ["id", "name"],
+  standard: ["id", "name", "ringId", "usersCount"],
+  full: ["id", "name", "ringId", "usersCount", "icon", "allUsersGroup", { teamForProject: ["id", "shortName"] }],
+} as const satisfies Record<string, Schema<UserGroup>>
+
+/**
+ * Fields schema presets of the projects.
+ */
+export const ProjectFields = {
+  minimal: ["id", "shortName"],
+  standard: ["id", "shortName", "name", "archived"],
+  full: [
+    "id",
+    "shortName",
+    "name",
+    "description",
+    "archived",
+    "template",
+    "iconUrl",
+    { leader: UserFields.minimal },
+    { createdBy: UserFields.minimal },
+  ],
+} as const satisfies Record<string, Schema<Project>>
+
+/**
+ * Fields schema presets of the tags.
+ */
+export const TagFields = {
+  minimal: ["id", "name"],
+  standard: ["id", "name", { color: ["id", "background", "foreground"] }],
+  full: ["id", "name", "untagOnResolve", { color: ["id", "background", "foreground"] }, { owner: UserFields.minimal }],
+} as const satisfies Record<string, Schema<Tag>>
+
+/**
+ * Fields schema presets of the issue custom fields. Values of all custom field types are requested with `$type`,
+ * so fields can be narrowed with `isCustomFieldOfType`. Each value has only the fields of its type, response
+ * validation checks them by `$type`.
+ */
+export const IssueCustomFieldFields = {
+  minimal: ["id", "name", "$type"],
+  standard: [
+    "id",
+    "name",
+    "$type",
+    { value: ["id", "$type", "name", "login", "fullName", "presentation", "minutes", "text"] },
+  ],
+  full: [
+    "id",
+    "name",
+    "$type",
+    {
+      value: [
+        "id",
+        "$type",
+        "name",
+        "localizedName",
+        "login",
+        "fullName",
+        "presentation",
+        "minutes",
+        "text",
+        "isResolved",
+      ],
+    },
+    { projectCustomField: ["id", "$type", { field: ["id", "name", { fieldType: ["id"] }] }] },
+  ],
+} as const satisfies Record<string, Schema<IssueCustomField>>
+
+/**
+ * Fields schema presets of the issues.
+ */
+export const IssueFields = {
+  minimal: ["id", "idReadable", "summary"],
+  standard: [
+    "id",
+    "idReadable",
+    "summary",
+    "created",
+    "updated",
+    "resolved",
+    { project: ProjectFields.minimal },
+    { reporter: UserFields.minimal },
+    { customFields: IssueCustomFieldFields.standard },
+  ],
+  full: [
+    "id",
+    "idReadable",
+    "summary",
+    "description",
+    "created",
+    "updated",
+    "resolved",
+    "votes",
+    "commentsCount",
+    "isDraft",
+    { project: ProjectFields.standard },
+    { reporter: UserFields.standard },
+    { updater: UserFields.standard },
+    { tags: TagFields.minimal },
+    { customFields: IssueCustomFieldFields.standard },
+    { links: ["id", "direction", { linkType: ["id", "name"] }, { issues: ["id", "idReadable", "summary"] }] },
+  ],
+} as const satisfies Record<string, Schema<Issue>>
+
+/**
+ * Fields schema presets of the issue comments.
+ */
+export const IssueCommentFields = {
+  minimal: ["id", "text"],
+  standard: ["id", "text", "created", "updated", { author: UserFields.minimal }],
+  full: ["id", "text", "textPreview", "created", "updated", "pinned", "deleted", { author: UserFields.standard }],
+} as const satisfies Record<string, Schema<IssueComment>>
+
+/**
+ * Fields schema presets of the issue work items.
+ */
+export const IssueWorkItemFields = {
+  minimal: ["id", "date", { duration: ["minutes"] }],
+  standard: [
+    "id",
+    "date",
+    "text",
+    { duration: ["minutes", "presentation"] },
+    { author: UserFields.minimal },
+    { type: ["id", "name"] },
+    { issue: ["id", "idReadable"] },
+  ],
+  full: [
+    "id",
+    "date",
+    "text",
+    "created",
+    "updated",
+    { duration: ["minutes", "presentation"] },
+    { author: UserFields.standard },
+    { creator: UserFields.minimal },
+    { type: ["id", "name"] },
+    { issue: ["id", "idReadable", "summary", { project: ProjectFields.minimal }] },
+    { attributes: ["id", "name", { value: ["id", "name"] }] },
+  ],
+} as const satisfies Record<string, Schema<IssueWorkItem>>
+
+/**
+ * Fields schema presets of the sprints.
+ */
+export const SprintFields = {
+  minimal: ["id", "name"],
+  standard: ["id", "name", "goal", "start", "finish", "archived"],
+  full: [
+    "id",
+    "name",
+    "goal",
+    "start",
+    "finish",
+    "archived",
+    "isDefault",
+    "unresolvedIssuesCount",
+    { agile: ["id", "name"] },
+  ],
+} as const satisfies Record<string, Schema<Sprint>>
+
+/**
+ * Fields schema presets of the agile boards.
+ */
+export const AgileFields = {
+  minimal: ["id", "name"],
+  standard: [
+    "id",
+    "name",
+    { owner: UserFields.minimal },
+    { projects: ProjectFields.minimal },
+    { currentSprint: SprintFields.minimal },
+  ],
+  full: [
+    "id",
+    "name",
+    "orphansAtTheTop",
+    "hideOrphansSwimlane",
+    { owner: UserFields.standard },
+    { projects: ProjectFields.standard },
+    { sprints: SprintFields.standard },
+    { currentSprint: SprintFields.standard },
+  ],
+} as const satisfies Record<string, Schema<Agile>>
+
+/**
+ * Fields schema presets of the articles.
+ */
+export const ArticleFields = {
+  minimal: ["id", "idReadable", "summary"],
+  standard: [
+    "id",
+    "idReadable",
+    "summary",
+    "created",
+    "updated",
+    { project: ProjectFields.minimal },
+    { reporter: UserFields.minimal },
+  ],
+  full: [
+    "id",
+    "idReadable",
+    "summary",
+    "content",
+    "created",
+    "updated",
+    "hasChildren",
+    { project: ProjectFields.minimal },
+    { reporter: UserFields.standard },
+    { updatedBy: UserFields.minimal },
+    { parentArticle: ["id", "idReadable"] },
+    { tags: TagFields.minimal },
+  ],
+} as const satisfies Record<string, Schema<Article>>
+
+/**
+ * Fields schema presets of the saved queries.
+ */
+export const SavedQueryFields = {
+  minimal: ["id", "name"],
+  standard: ["id", "name", "query"],
+  full: ["id", "name", "query", { owner: UserFields.minimal }],
+} as const satisfies Record<string, Schema<SavedQuery>>
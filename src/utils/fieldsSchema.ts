@@ -0,0 +1,107 @@
+import type { FieldsSchema, ParseSchema } from "../types"
+import { isObject } from "./common"
+
+// Syntax error in the string fields schema
+export class FieldsSchemaSyntaxError extends Error {
+  public name = "FieldsSchemaSyntaxError"
+
+  constructor(
+    message: string,
+    public readonly position: number, // Offset of the unexpected character in the schema
+  ) {
+    super(`${message} at position ${position}`)
+  }
+}
+
+const SPECIAL_CHARS = /[,()]/
+
+/**
+ * Parses a string fields schema into `FieldsSchema`, the runtime equivalent of `ParseSchema<T>`.
+ *
+ * Example:
+ * - Input: `"name,level,topic(id,name,value(name),test),color"`
+ * - Output: `["name", "level", { topic: ["id", "name", { value: ["name"] }, "test"] }, "color"]`
+ *
+ * @param schema - Fields schema in string format.
+ * @returns Parsed fields schema.
+ * @throws {FieldsSchemaSyntaxError} If parentheses are unbalanced or nested fields have no name.
+ */
+export const parseFieldsSchema = <T extends string>(schema: T): string extends T ? FieldsSchema : ParseSchema<T> => {
+  const stack: { items: FieldsSchema[number][]; position: number }[] = [{ items: [], position: 0 }]
+  let name = ""
+
+  for (let i = 0; i <= schema.length; i++) {
+    const char = schema[i]
+    if (char !== undefined && !SPECIAL_CHARS.test(char)) {
+      name += char
+      continue
+    }
+
+    const { items } = stack[stack.length - 1]
+    if (char === "(") {
+      if (!name) {
+        throw new FieldsSchemaSyntaxError("Expected field name before '('", i)
+      }
+      const nested: FieldsSchema[number][] = []
+      items.push({ [name]: nested })
+      stack.push({ items: nested, position: i })
+    } else {
+      if (name) {
+        items.push(name)
+      }
+      if (char === ")") {
+        if (stack.length === 1) {
+          throw new FieldsSchemaSyntaxError("Unexpected ')'", i)
+        }
+        stack.pop()
+      }
+    }
+    name = ""
+  }
+
+  if (stack.length > 1) {
+    throw new FieldsSchemaSyntaxError("Unclosed '('", stack[stack.length - 1].position)
+  }
+  return stack[0].items as string extends T ? FieldsSchema : ParseSchema<T>
+}
+
+/**
+ * Converts `FieldsSchema` to string format, e.g. `["id", { owner: ["login"] }]` to `"id,owner(login)"`.
+ * @param schema - Fields schema.
+ * @param encode - Function that encodes field names. Default: no encoding.
+ * @returns Fields schema in string format.
+ * @throws {FieldsSchemaSyntaxError} If a field name contains ",", "(" or ")".
+ */
+export const stringifyFieldsSchema = (
+  schema: FieldsSchema,
+  encode: (name: string) => string = (name) => name,
+): string => {
+  let result = ""
+
+  const fieldName = (name: string) => {
+    const index = name.search(SPECIAL_CHARS)
+    if (index >= 0) {
+      throw new FieldsSchemaSyntaxError(`Unexpected '${name[index]}' in field name`, result.length + index)
+    }
+    return encode(name)
+  }
+
+  const stringify = (fields: FieldsSchema) => {
+    let first = true
+    for (const field of fields) {
+      for (const name of isObject(field) ? Object.keys(field) : [field]) {
+        result += first ? "" : ","
+        first = false
+        result += fieldName(name)
+        if (isObject(field)) {
+          result += "("
+          stringify(field[name])
+          result += ")"
+        }
+      }
+    }
+  }
+
+  stringify(schema)
+  return result
+}
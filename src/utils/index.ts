@@ -1,3 +1,25 @@
 export * from "./common"
 export * from "./fetchHelpers"
 export * from "./queryBuilder"
+export * from "./errors"
+export * from "./middleware"
+export * from "./retry"
+export * from "./rateLimiter"
+export * from "./abort"
+export * from "./pagination"
+export * from "./activityStream"
+export * from "./searchQuery"
+export * from "./searchQueryParser"
+export * from "./fieldPresets"
+export * from "./validation"
+export * from "./fieldsSchema"
+export * from "./narrowing"
+export * from "./customFields"
+export * from "./customFieldBuilders"
+export * from "./command"
+export * from "./duration"
+export * from "./csv"
+export * from "./timesheet"
+export * from "./workTime"
+export * from "./workItemRows"
+export * from "./issueHistory"
@@ -0,0 +1,164 @@
+import type {
+  ActivityCategory,
+  Issue,
+  IssueFieldChange,
+  IssueFieldTimeline,
+  IssueHistoryActivity,
+  IssueHistoryIssue,
+  IssueHistoryValue,
+  IssueSnapshot,
+  IssueTimeline,
+  Schema,
+} from "../types"
+import { isObject } from "./common"
+import { decodeFieldValue, getFieldValue } from "./customFields"
+import type { CustomFieldValue } from "./customFields"
+import { activityCategoryId } from "./narrowing"
+
+export const ISSUE_HISTORY_CATEGORIES: ActivityCategory[] = [
+  "CustomFieldCategory",
+  "SummaryCategory",
+  "ProjectCategory",
+]
+
+const VALUE_FIELDS = ["id", "name", "login", "minutes", "text", "presentation"] as const
+
+export const ISSUE_HISTORY_FIELDS = [
+  "id",
+  "idReadable",
+  "summary",
+  { project: ["shortName"] },
+  { customFields: ["name", "$type", { value: VALUE_FIELDS }] },
+] as const satisfies Schema<Issue>
+
+const CHANGE_FIELDS = "id,name,login,minutes,text,presentation,project(shortName)"
+
+const CHANGES = `added(${CHANGE_FIELDS}),removed(${CHANGE_FIELDS})` as const
+
+// String schema: categories and custom fields of the filter fields are not entities in the activity types
+export const ISSUE_HISTORY_ACTIVITY_FIELDS =
+  `id,timestamp,category(id),targetMember,author(login),field(name,customField(fieldType(isMultiValue))),${CHANGES}` as const
+
+type HistoryItem = string | number
+
+const toArray = (value: unknown): unknown[] =>
+  value === null || value === undefined ? [] : Array.isArray(value) ? value : [value]
+
+const decodeCurrent = (value: CustomFieldValue) => (value instanceof Date ? value.getTime() : value)
+
+const decodeItem = (value: unknown): HistoryItem => {
+  // Issue keys of the project changes are decoded to short names of the projects
+  const project = isObject(value) ? value.project : undefined
+  return decodeCurrent(decodeFieldValue(isObject(project) ? project.shortName : value))
+}
+
+const currentValue = (issue: IssueHistoryIssue, name: string, activities: IssueHistoryActivity[]) => {
+  const value = getFieldValue(issue, name)
+  if (value === undefined) {
+    // The field is removed from the project, its type is known from the activities
+    const multiValue = activities.some(({ field }) => field?.customField?.fieldType?.isMultiValue)
+    return multiValue ? [] : null
+  }
+  return Array.isArray(value) ? value.map(decodeCurrent) : value === null ? null : decodeCurrent(value)
+}
+
+/**
+ * Replays changes of the field backwards from the current value.
+ * @param current - Current value of the field.
+ * @param activities - Activities of the field sorted by timestamp, the newest first.
+ * @returns Initial value and changes of the field, the oldest first.
+ */
+const replay = (current: IssueHistoryValue, activities: IssueHistoryActivity[]): IssueFieldTimeline => {
+  const changes: IssueFieldChange[] = []
+  let value = current
+  for (const activity of activities) {
+    const removed = toArray(activity.removed).map(decodeItem)
+    let from: IssueHistoryValue = removed[0] ?? null
+    if (Array.isArray(value)) {
+      const values = value
+      const added = toArray(activity.added).map(decodeItem)
+      from = [...values.filter((item) => !added.includes(item)), ...removed.filter((item) => !values.includes(item))]
+    }
+    changes.push({
+      activity: activity.id,
+      timestamp: activity.timestamp,
+      author: activity.author?.login ?? null,
+      from,
+      to: value,
+    })
+    value = from
+  }
+  return { initial: value, changes: changes.reverse() }
+}
+
+const newestFirst = (activities: IssueHistoryActivity[]) =>
+  [...activities].reverse().sort((a, b) => b.timestamp - a.timestamp)
+
+const valueAt = (timeline: IssueFieldTimeline, timestamp: number) =>
+  timeline.changes.reduce((value, change) => (change.timestamp <= timestamp ? change.to : value), timeline.initial)
+
+/**
+ * Reconstructs timelines of the issue fields by replaying the activities backwards from the current values.
+ * Activities of other categories are ignored. Activities with the same timestamp are expected in chronological order.
+ *
+ * Example:
+ * const timeline = issueTimeline(issue, activities)
+ * timeline.fields.State.changes // [{ timestamp, author: "john", from: "Open", to: "In Progress" }, ...]
+ *
+ * @param issue - Issue with the fields of `ISSUE_HISTORY_FIELDS`.
+ * @param activities - Activities of the categories `ISSUE_HISTORY_CATEGORIES` with the fields of `ISSUE_HISTORY_ACTIVITY_FIELDS`.
+ * @returns Initial values and changes of the summary, project and custom fields.
+ */
+export const issueTimeline = (issue: IssueHistoryIssue, activities: IssueHistoryActivity[]): IssueTimeline => {
+  const summary: IssueHistoryActivity[] = []
+  const project: IssueHistoryActivity[] = []
+  const fields = new Map<string, IssueHistoryActivity[]>()
+  for (const field of issue.customFields ?? []) {
+    if (field.name) {
+      fields.set(field.name, [])
+    }
+  }
+
+  for (const activity of newestFirst(activities)) {
+    switch (activityCategoryId(activity)) {
+      case "SummaryCategory":
+        summary.push(activity)
+        break
+      case "ProjectCategory":
+        project.push(activity)
+        break
+      case "CustomFieldCategory": {
+        const name = activity.field?.name ?? activity.targetMember ?? ""
+        fields.set(name, [...(fields.get(name) ?? []), activity])
+        break
+      }
+    }
+  }
+
+  return {
+    summary: replay(issue.summary ?? null, summary),
+    project: replay(issue.project?.shortName ?? null, project),
+    fields: Object.fromEntries(
+      [...fields].map(([name, items]) => [name, replay(currentValue(issue, name, items), items)]),
+    ),
+  }
+}
+
+/**
+ * Returns values of the issue fields at the point in time.
+ * Fields have initial values at timestamps before the first change.
+ * @param timeline - Timeline of the issue from `issueTimeline`.
+ * @param at - Point in time: timestamp in milliseconds or date.
+ * @returns Snapshot of the summary, project and custom fields.
+ */
+export const issueSnapshotAt = (timeline: IssueTimeline, at: number | Date): IssueSnapshot => {
+  const timestamp = at instanceof Date ? at.getTime() : at
+  return {
+    timestamp,
+    summary: valueAt(timeline.summary, timestamp) as string | null,
+    project: valueAt(timeline.project, timestamp) as string | null,
+    fields: Object.fromEntries(
+      Object.entries(timeline.fields).map(([name, field]) => [name, valueAt(field, timestamp)]),
+    ),
+  }
+}
@@ -0,0 +1,17 @@
+import type { FetchConfig, FetchFunc, Middleware } from "../types"
+
+/**
+ * Runs request through the chain of middlewares. Middlewares are called in the order they are listed,
+ * the last middleware calls the transport fetch function.
+ * @param middlewares - The list of middlewares.
+ * @param fetch - The transport function that performs the request.
+ * @param config - The request config.
+ * @returns The decoded response returned by the chain.
+ */
+export const applyMiddlewares = <T>(middlewares: Middleware[], fetch: FetchFunc, config: FetchConfig): Promise<T> => {
+  const dispatch = (index: number, config: FetchConfig): Promise<unknown> => {
+    const middleware = middlewares[index]
+    return middleware ? middleware(config, (nextConfig) => dispatch(index + 1, nextConfig)) : fetch(config)
+  }
+  return dispatch(0, config) as Promise<T>
+}
@@ -0,0 +1,114 @@
+import type { ActivityCategory, IssueCustomField } from "../types"
+import { isObject } from "./common"
+
+// Union entity passed to `match` has `$type` without handler
+export class UnmatchedTypeError extends Error {
+  public name = "UnmatchedTypeError"
+
+  constructor(
+    public readonly type: string, // `$type` of the entity
+  ) {
+    super(`No handler for $type "${type}"`)
+  }
+}
+
+type TypedEntity = { $type: string }
+
+// Variants of the union entity with the specified `$type`
+export type OfType<T, TType extends string> = Extract<T, { $type: TType }>
+
+// Variants of the activity item union with one of the specified categories
+export type OfCategory<T, TCategory extends string> = T extends { category: infer C }
+  ? [Extract<C, TCategory>] extends [never]
+    ? never
+    : T
+  : never
+
+// Handlers of `match` per `$type` of the union entity
+export type MatchHandlers<T extends TypedEntity, R> = {
+  [K in T["$type"]]: (entity: OfType<T, K>) => R
+}
+
+/**
+ * Type guard that narrows the union entity by `$type`. The entity must be fetched with the `$type` field.
+ * @param entity - Entity with `$type` field.
+ * @param types - Expected `$type` values.
+ * @returns True if `$type` of the entity is one of the expected types.
+ */
+export const isOfType = <T extends TypedEntity, TType extends T["$type"]>(
+  entity: T,
+  ...types: TType[]
+): entity is OfType<T, TType> => types.includes(entity.$type as TType)
+
+/**
+ * Type guard that narrows the issue custom field by `$type`, e.g. to get the `value` shape of the variant.
+ *
+ * Example:
+ * if (isCustomFieldOfType(field, "SingleEnumIssueCustomField")) {
+ *   field.value.name
+ * }
+ *
+ * @param field - Issue custom field fetched with the `$type` field.
+ * @param types - Expected custom field types.
+ * @returns True if the field is of one of the expected types.
+ */
+export const isCustomFieldOfType = <T extends { $type: IssueCustomField["$type"] }, TType extends T["$type"]>(
+  field: T,
+  ...types: TType[]
+): field is OfType<T, TType> => isOfType(field, ...types)
+
+/**
+ * Returns id of the activity item category. YouTrack returns category as an entity with id.
+ * @param item - Activity item fetched with the `category` field.
+ * @returns Category id.
+ */
+export const activityCategoryId = (item: { category: unknown }): string => {
+  const { category } = item
+  return isObject(category) ? String(category.id) : String(category)
+}
+
+/**
+ * Type guard that narrows the activity item by category. The item must be fetched with the `category` field.
+ * @param item - Activity item.
+ * @param categories - Expected categories.
+ * @returns True if the category of the item is one of the expected categories.
+ */
+export const isActivityOfCategory = <
+  T extends { category: string },
+  TCategory extends ActivityCategory & T["category"],
+>(
+  item: T,
+  ...categories: TCategory[]
+): item is OfCategory<T, TCategory> => categories.includes(activityCategoryId(item) as TCategory)
+
+/**
+ * Calls the handler for `$type` of the union entity.
+ * All variants must be handled, or `_` handler must be provided for the rest.
+ *
+ * Example:
+ * const text = match(field, {
+ *   SingleEnumIssueCustomField: (field) => field.value.name,
+ *   MultiUserIssueCustomField: (field) => field.value.map((user) => user.login).join(", "),
+ *   _: () => "",
+ * })
+ *
+ * @param entity - Entity with `$type` field.
+ * @param handlers - Handlers per `$type`.
+ * @returns Result of the handler.
+ * @throws {UnmatchedTypeError} If there is no handler for `$type` of the entity.
+ */
+export function match<T extends TypedEntity, R>(entity: T, handlers: MatchHandlers<T, R>): R
+export function match<T extends TypedEntity, R>(
+  entity: T,
+  handlers: Partial<MatchHandlers<T, R>> & { _: (entity: T) => R },
+): R
+export function match<T extends TypedEntity, R>(
+  entity: T,
+  handlers: Partial<MatchHandlers<T, R>> & { _?: (entity: T) => R },
+): R {
+  const handler = (handlers[entity.$type as T["$type"]] ?? handlers._) as ((entity: T) => R) | undefined
+  if (!handler) {
+    throw new UnmatchedTypeError(entity.$type)
+  }
+  return handler(entity)
+}
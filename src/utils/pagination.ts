@@ -0,0 +1,50 @@
+import type { ListParams, PaginationParams } from "../types"
+
+export const DEFAULT_PAGE_SIZE = 100
+
+/**
+ * Iterates over all entries of the paginated list. Pages are requested with `$skip` and `$top` parameters
+ * until a page is empty or contains less entries than the page size.
+ *
+ * Example:
+ * ```typescript
+ * for await (const issue of paginate((page) => yt.Issues.getIssues({ ...page, fields: ["idReadable"] }))) {
+ *   console.log(issue.idReadable)
+ * }
+ * ```
+ *
+ * @param fetchPage - Function that requests a page with the specified `$skip` and `$top` parameters.
+ * @param params - Optional pagination parameters.
+ * @param params.pageSize - The number of entries requested per page. Default: 100.
+ * @param params.$skip - The number of entries to skip before the first page. Default: 0.
+ * @returns Async iterator of the list entries.
+ * @throws {RangeError} If the page size is not a positive integer.
+ */
+export async function* paginate<T>(
+  fetchPage: (params: Required<ListParams>) => Promise<T[]>,
+  { pageSize = DEFAULT_PAGE_SIZE, $skip = 0 }: PaginationParams = {},
+): AsyncGenerator<T, void, undefined> {
+  if (!Number.isInteger(pageSize) || pageSize < 1) {
+    throw new RangeError(`Page size must be a positive integer: ${pageSize}`)
+  }
+  for (let skip = $skip; ; skip += pageSize) {
+    const page = await fetchPage({ $skip: skip, $top: pageSize })
+    yield* page
+    if (!page.length || page.length < pageSize) {
+      return
+    }
+  }
+}
+
+/**
+ * Collects all entries of the async iterator into array.
+ * @param iterator - Async iterator, e.g. returned by `paginate` or `iterate*` methods.
+ * @returns Array of all entries.
+ */
+export const collect = async <T>(iterator: AsyncIterable<T>): Promise<T[]> => {
+  const result: T[] = []
+  for await (const item of iterator) {
+    result.push(item)
+  }
+  return result
+}
@@ -1,4 +1,4 @@
-import type { FetchConfig, QueryParamBuilder } from "../types"
+import type { FetchConfig, FieldsSchema, QueryParamBuilder, RequestOptions } from "../types"
 import { buildQueryParam } from "./fetchHelpers"
 
 export type Builders<T extends Record<string, any>> = {
@@ -7,11 +7,13 @@ export type Builders<T extends Record<string, any>> = {
 
 export class RequestBuilder<T extends Record<string, any>> {
   private _args: string[] = []
+  private _schema: FieldsSchema | string | undefined
 
   constructor(
     private baseUrl: string,
     builders: Builders<T>,
     params: T = {} as T,
+    private options: RequestOptions = {},
   ) {
     Object.keys(params).forEach((key) => {
       // Dynamically create setters for each key
@@ -23,6 +25,10 @@ export class RequestBuilder<T extends Record<string, any>> {
         }
       }
     })
+    // Keep requested fields schema to validate the response
+    if (Array.isArray(params.fields) || typeof params.fields === "string") {
+      this._schema = params.fields
+    }
   }
 
   // Method to build the query string
@@ -30,7 +36,9 @@ export class RequestBuilder<T extends Record<string, any>> {
     const query = this._args.join("&")
     return {
       ...options,
+      ...this.options,
       url: query ? `${this.baseUrl}?${query}` : this.baseUrl,
+      ...(this._schema ? { schema: this._schema } : {}),
     }
   }
 
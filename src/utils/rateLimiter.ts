@@ -0,0 +1,158 @@
+import type { Middleware, RequestLimiterOptions, RequestQueueStats } from "../types"
+
+type QueueItem = {
+  start: () => void
+  enqueued: number
+}
+
+/**
+ * Queue of requests that limits request rate (token bucket) and number of requests in flight.
+ * Requests over the limit are queued and started in FIFO order.
+ */
+export class RequestLimiter {
+  private queue: QueueItem[] = []
+  private listeners = new Set<(stats: RequestQueueStats) => void>()
+  private timer: ReturnType<typeof setTimeout> | undefined
+  private tokens: number
+  private lastRefill = Date.now()
+  private inFlight = 0
+  private started = 0
+  private completed = 0
+  private totalWait = 0
+  private maxWait = 0
+  private lastWait = 0
+
+  constructor(private options: RequestLimiterOptions = {}) {
+    this.tokens = this.capacity
+  }
+
+  /**
+   * Current state of the queue.
+   */
+  get stats(): RequestQueueStats {
+    return {
+      queued: this.queue.length,
+      inFlight: this.inFlight,
+      completed: this.completed,
+      lastWait: this.lastWait,
+      averageWait: this.started ? this.totalWait / this.started : 0,
+      maxWait: this.maxWait,
+    }
+  }
+
+  private get capacity() {
+    const { rateLimit } = this.options
+    return rateLimit ? (rateLimit.burst ?? rateLimit.requests) : Number.POSITIVE_INFINITY
+  }
+
+  /**
+   * Subscribes to changes of the queue state.
+   * @param listener - Called with the queue stats when request is queued, started or finished.
+   * @returns Function that removes the listener.
+   */
+  public subscribe(listener: (stats: RequestQueueStats) => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  /**
+   * Runs the task when the rate and concurrency limits allow it.
+   * @param task - Function that performs the request.
+   * @param signal - Signal that removes the task from the queue if it is aborted before the task is started.
+   * @returns Result of the task or rejects with the abort reason.
+   */
+  public schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        return reject(signal.reason)
+      }
+      const onAbort = () => {
+        const index = this.queue.indexOf(item)
+        if (index >= 0) {
+          this.queue.splice(index, 1)
+          reject(signal?.reason)
+          this.notify()
+        }
+      }
+      const item: QueueItem = {
+        start: () => {
+          signal?.removeEventListener("abort", onAbort)
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              this.inFlight--
+              this.completed++
+              this.notify()
+              this.drain()
+            })
+        },
+        enqueued: Date.now(),
+      }
+      signal?.addEventListener("abort", onAbort, { once: true })
+      this.queue.push(item)
+      this.notify()
+      this.drain()
+    })
+  }
+
+  /**
+   * Creates middleware that passes all requests through the limiter.
+   * Requests cancelled while waiting in the queue are removed from it.
+   * @returns Limiter middleware.
+   */
+  public middleware(): Middleware {
+    return (config, next) => this.schedule(() => next(config), config.signal)
+  }
+
+  private refill(now: number) {
+    const { rateLimit } = this.options
+    if (!rateLimit) {
+      return
+    }
+    const rate = rateLimit.requests / rateLimit.interval
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * rate)
+    this.lastRefill = now
+  }
+
+  private drain() {
+    const { maxConcurrent = Number.POSITIVE_INFINITY, rateLimit } = this.options
+
+    while (this.queue.length && this.inFlight < maxConcurrent) {
+      const now = Date.now()
+      this.refill(now)
+
+      if (this.tokens < 1) {
+        if (!this.timer && rateLimit) {
+          const delay = Math.ceil(((1 - this.tokens) * rateLimit.interval) / rateLimit.requests)
+          this.timer = setTimeout(() => {
+            this.timer = undefined
+            this.drain()
+          }, delay)
+        }
+        return
+      }
+
+      const item = this.queue.shift()
+      if (!item) {
+        return
+      }
+      this.tokens--
+      this.inFlight++
+      this.started++
+      this.lastWait = now - item.enqueued
+      this.totalWait += this.lastWait
+      this.maxWait = Math.max(this.maxWait, this.lastWait)
+      this.notify()
+      item.start()
+    }
+  }
+
+  private notify() {
+    if (!this.listeners.size) {
+      return
+    }
+    const stats = this.stats
+    this.listeners.forEach((listener) => listener(stats))
+  }
+}
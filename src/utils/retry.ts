@@ -0,0 +1,50 @@
+import type { FetchConfig, HttpMethod, Middleware, RetryPolicy } from "../types"
+import { NetworkError, YouTrackError } from "./errors"
+import { sleep } from "./common"
+
+export const DEFAULT_RETRY_STATUSES = [408, 429, 502, 503, 504]
+export const DEFAULT_RETRY_METHODS: HttpMethod[] = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]
+
+/**
+ * Calculates delay before the next attempt with exponential backoff and jitter.
+ * @param policy - Retry policy.
+ * @param attempt - Number of the failed attempt (starting from 1).
+ * @param retryAfter - Delay in milliseconds requested by server.
+ * @returns Delay in milliseconds.
+ */
+export const retryDelay = (policy: RetryPolicy, attempt: number, retryAfter?: number): number => {
+  const { minDelay = 500, maxDelay = 30000, factor = 2, jitter = 0.5, respectRetryAfter = true } = policy
+  const backoff = Math.min(maxDelay, minDelay * factor ** (attempt - 1))
+  const delay = Math.round(backoff * (1 - Math.min(1, Math.max(0, jitter)) * Math.random()))
+  return respectRetryAfter && retryAfter !== undefined ? Math.max(delay, retryAfter) : delay
+}
+
+const isRetryable = (error: unknown, statuses: number[]): error is YouTrackError =>
+  error instanceof NetworkError || (error instanceof YouTrackError && statuses.includes(error.status))
+
+/**
+ * Creates middleware that retries failed requests with exponential backoff.
+ * By default only idempotent methods are retried, other requests are retried only if `config.retry` is true.
+ * @param policy - Retry policy.
+ * @returns Retry middleware.
+ */
+export const retryMiddleware = (policy: RetryPolicy = {}): Middleware => {
+  const { maxAttempts = 3, statuses = DEFAULT_RETRY_STATUSES, methods = DEFAULT_RETRY_METHODS, onRetry } = policy
+
+  return async ({ retry, ...config }: FetchConfig, next) => {
+    const enabled = retry ?? methods.includes(config.method ?? "GET")
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await next(config)
+      } catch (error) {
+        if (!enabled || attempt >= maxAttempts || config.signal?.aborted || !isRetryable(error, statuses)) {
+          throw error
+        }
+        const delay = retryDelay(policy, attempt, error.retryAfter)
+        onRetry?.(error, attempt, delay)
+        await sleep(delay)
+      }
+    }
+  }
+}
@@ -0,0 +1,276 @@
+import type {
+  SearchExpression,
+  SearchFieldValue,
+  SearchQuery,
+  SearchSort,
+  SearchSortDirection,
+  SearchTerm,
+  SearchValue,
+} from "../types"
+import { SearchQuerySyntaxError } from "./searchQueryParser"
+
+export type SearchValueInput = string | number | Date | SearchFieldValue
+
+// Group of the search terms: expression, builder or callback that fills the nested builder
+export type SearchGroup<TField extends string = string> =
+  | SearchExpression
+  | SearchQueryBuilder<TField>
+  | ((query: SearchQueryBuilder<TField>) => SearchQueryBuilder<TField>)
+
+const PLAIN_VALUE = /^[^\s:,(){}#"]+$/
+const KEYWORDS = ["and", "or", "sort"]
+const OPERATORS = ["and", "or"]
+
+/**
+ * Formats date as a search value (YYYY-MM-DD in UTC).
+ * @param date - Date to format.
+ * @returns Date in search query format.
+ */
+export const formatSearchDate = (date: Date): string => date.toISOString().slice(0, 10)
+
+const valueString = (value: string | number | Date): string =>
+  value instanceof Date ? formatSearchDate(value) : String(value)
+
+/**
+ * Converts input value to the value of the search query AST.
+ * @param value - String, number, date or AST value.
+ * @returns Value of the search query AST.
+ */
+export const searchValue = (value: SearchValueInput): SearchFieldValue =>
+  typeof value === "object" && !(value instanceof Date) ? value : { type: "value", value: valueString(value) }
+
+/**
+ * Creates range of values, e.g. `2024-01-01 .. Today`.
+ * @param from - Lower bound of the range. Open if not specified.
+ * @param to - Upper bound of the range. Open if not specified.
+ * @returns Range value.
+ */
+export const range = (from?: string | number | Date, to?: string | number | Date): SearchFieldValue => ({
+  type: "range",
+  from: from === undefined ? "*" : valueString(from),
+  to: to === undefined ? "*" : valueString(to),
+})
+
+/**
+ * Excludes the value from the search results, e.g. `State: -Fixed`, `has: -assignee` or `-Minor`.
+ * @param value - Value to exclude.
+ * @returns Negated value.
+ */
+export const not = (value: string | number | Date | SearchValue): SearchValue => ({
+  ...(typeof value === "object" && !(value instanceof Date) ? value : { type: "value", value: valueString(value) }),
+  negated: true,
+})
+
+/**
+ * Encloses the field name or value in braces if it contains whitespaces or special characters.
+ * @param value - Field name or value.
+ * @returns Field name or value that can be used in the search query.
+ */
+export const quoteSearchValue = (value: string): string => {
+  if (PLAIN_VALUE.test(value) && !value.startsWith("-") && !value.includes("..") && !isKeyword(value)) {
+    return value
+  }
+  if (value.includes("}")) {
+    throw new SearchQuerySyntaxError(`Search value cannot contain "}": ${value}`)
+  }
+  return `{${value}}`
+}
+
+const isKeyword = (value: string) => KEYWORDS.includes(value.toLowerCase())
+
+const serializeValue = (value: SearchFieldValue): string =>
+  value.type === "range"
+    ? `${quoteSearchValue(value.from)} .. ${quoteSearchValue(value.to)}`
+    : `${value.negated ? "-" : ""}${quoteSearchValue(value.value)}`
+
+const serializeTerm = (term: SearchTerm): string => {
+  switch (term.type) {
+    case "field":
+      return `${quoteSearchValue(term.field)}: ${term.values.map(serializeValue).join(", ")}`
+    case "has":
+      return `has: ${term.negated ? "-" : ""}${quoteSearchValue(term.field)}`
+    case "tag":
+      return `${term.negated ? "-" : "#"}${quoteSearchValue(term.value)}`
+    case "text":
+      if (term.exact) {
+        if (term.text.includes('"')) {
+          throw new SearchQuerySyntaxError(`Search phrase cannot contain '"': ${term.text}`)
+        }
+        return `"${term.text}"`
+      }
+      // Quotes are the exact phrase syntax, so the text is written as is
+      if (!PLAIN_VALUE.test(term.text) || term.text.startsWith("-") || OPERATORS.includes(term.text.toLowerCase())) {
+        throw new SearchQuerySyntaxError(`Search text must be a single word, use exact phrase instead: ${term.text}`)
+      }
+      return term.text
+  }
+}
+
+/**
+ * Serializes the search expression. Nested groups are enclosed in parentheses.
+ * @param expression - Search expression.
+ * @returns Search expression string.
+ */
+export const serializeSearchExpression = (expression: SearchExpression): string => {
+  if (expression.type !== "and" && expression.type !== "or") {
+    return serializeTerm(expression)
+  }
+  const operands = expression.operands.map((operand) =>
+    operand.type === "and" || operand.type === "or"
+      ? `(${serializeSearchExpression(operand)})`
+      : serializeSearchExpression(operand),
+  )
+  return operands.join(expression.type === "and" ? " " : " or ")
+}
+
+/**
+ * Serializes the search query to the canonical query string.
+ * @param query - Search query AST.
+ * @returns Query string.
+ */
+export const serializeSearchQuery = ({ expression, sort }: SearchQuery): string => {
+  const sortBy = sort.map(({ field, direction }) =>
+    direction ? `${quoteSearchValue(field)} ${direction}` : quoteSearchValue(field),
+  )
+  return [expression && serializeSearchExpression(expression), sortBy.length && `sort by: ${sortBy.join(", ")}`]
+    .filter(Boolean)
+    .join(" ")
+}
+
+/**
+ * Fluent builder of the search query. Terms added to the builder are joined with `and`.
+ *
+ * Example:
+ * searchQuery()
+ *   .field("State", "Open", not("Fixed"))
+ *   .field("created", range("2024-01-01", "Today"))
+ *   .or((q) => q.tag("Critical"), (q) => q.has("assignee"))
+ *   .sortBy("Due Date", "asc")
+ *   .toString()
+ * // State: Open, -Fixed created: 2024-01-01 .. Today (#Critical or has: assignee) sort by: {Due Date} asc
+ */
+export class SearchQueryBuilder<TField extends string = string> {
+  private operands: SearchExpression[] = []
+  private sorts: SearchSort[] = []
+
+  /**
+   * Adds attribute-based search term. Multiple values are matched with `or`.
+   * @param field - Name of the field or attribute.
+   * @param values - Values, ranges or excluded values of the field.
+   * @returns The builder.
+   */
+  public field(field: TField, ...values: [SearchValueInput, ...SearchValueInput[]]): this {
+    return this.add({ type: "field", field, values: values.map(searchValue) })
+  }
+
+  /**
+   * Adds search for issues that have value of the field, use `not(field)` for issues without value.
+   * @param field - Name of the field or attribute, e.g. "assignee", "attachments", "comments".
+   * @returns The builder.
+   */
+  public has(field: TField | string | SearchValue): this {
+    const { value, negated } = typeof field === "object" ? field : { value: field, negated: undefined }
+    return this.add({ type: "has", field: value, ...(negated ? { negated } : {}) })
+  }
+
+  /**
+   * Adds single value or tag search (`#value`), use `not(value)` to exclude the value (`-value`).
+   * @param value - Tag or value of any field.
+   * @returns The builder.
+   */
+  public tag(value: string | SearchValue): this {
+    const { value: tag, negated } = typeof value === "object" ? value : { value, negated: undefined }
+    return this.add({ type: "tag", value: tag, ...(negated ? { negated } : {}) })
+  }
+
+  /**
+   * Adds text search.
+   * @param text - Text to search for: a single word, or any phrase without double quotes if `exact` is true.
+   * @param exact - Search for the exact phrase. Default: false.
+   * @returns The builder.
+   */
+  public text(text: string, exact = false): this {
+    return this.add({ type: "text", text, ...(exact ? { exact } : {}) })
+  }
+
+  /**
+   * Adds group of terms joined with `and`.
+   * @param groups - Expressions, builders or callbacks that fill the nested builder.
+   * @returns The builder.
+   */
+  public and(...groups: SearchGroup<TField>[]): this {
+    return this.group("and", groups)
+  }
+
+  /**
+   * Adds group of terms joined with `or`.
+   * @param groups - Expressions, builders or callbacks that fill the nested builder.
+   * @returns The builder.
+   */
+  public or(...groups: SearchGroup<TField>[]): this {
+    return this.group("or", groups)
+  }
+
+  /**
+   * Adds sort attribute.
+   * @param field - Name of the field or attribute.
+   * @param direction - Sort direction.
+   * @returns The builder.
+   */
+  public sortBy(field: TField | string, direction?: SearchSortDirection): this {
+    this.sorts.push(direction ? { field, direction } : { field })
+    return this
+  }
+
+  /**
+   * Search expression of the builder or undefined if no terms were added.
+   */
+  get expression(): SearchExpression | undefined {
+    return this.operands.length > 1 ? { type: "and", operands: [...this.operands] } : this.operands[0]
+  }
+
+  /**
+   * Builds search query AST.
+   * @returns Search query AST.
+   */
+  public build(): SearchQuery {
+    const { expression } = this
+    return expression ? { expression, sort: [...this.sorts] } : { sort: [...this.sorts] }
+  }
+
+  /**
+   * Builds canonical query string.
+   * @returns Query string.
+   */
+  public toString(): string {
+    return serializeSearchQuery(this.build())
+  }
+
+  private add(expression: SearchExpression): this {
+    this.operands.push(expression)
+    return this
+  }
+
+  private group(type: "and" | "or", groups: SearchGroup<TField>[]): this {
+    const operands = groups.map((group) => this.toExpression(group)).filter((operand) => operand !== undefined)
+    if (operands.length > 1) {
+      return this.add({ type, operands })
+    }
+    return operands.length ? this.add(operands[0]) : this
+  }
+
+  private toExpression(group: SearchGroup<TField>): SearchExpression | undefined {
+    if (group instanceof SearchQueryBuilder) {
+      return group.expression
+    }
+    return typeof group === "function" ? group(new SearchQueryBuilder<TField>()).expression : group
+  }
+}
+
+/**
+ * Creates search query builder.
+ * @template TField - Names of the fields allowed in the query.
+ * @returns Search query builder.
+ */
+export const searchQuery = <TField extends string = string>(): SearchQueryBuilder<TField> =>
+  new SearchQueryBuilder<TField>()
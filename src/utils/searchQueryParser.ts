@@ -0,0 +1,261 @@
+import type { SearchExpression, SearchFieldValue, SearchQuery, SearchSort, SearchTerm } from "../types"
+
+// Syntax error in the search query string or search term that cannot be serialized
+export class SearchQuerySyntaxError extends Error {
+  public name = "SearchQuerySyntaxError"
+
+  constructor(
+    message: string,
+    public readonly position?: number, // Offset of the unexpected character in the query, not set for serialization errors
+  ) {
+    super(position === undefined ? message : `${message} at position ${position}`)
+  }
+}
+
+type TokenType = "word" | "brace" | "phrase" | "(" | ")" | "," | ":" | "#" | "-" | ".."
+
+type Token = {
+  type: TokenType
+  value: string
+  position: number
+}
+
+const PUNCTUATION = ["(", ")", ",", ":", "#", "-"]
+const WORD_END = /[\s,(){}:"#]/
+
+const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < query.length) {
+    const char = query[i]
+    if (/\s/.test(char)) {
+      i++
+    } else if (query.startsWith("..", i)) {
+      tokens.push({ type: "..", value: "..", position: i })
+      i += 2
+    } else if (PUNCTUATION.includes(char)) {
+      tokens.push({ type: char as TokenType, value: char, position: i })
+      i++
+    } else if (char === "{" || char === '"') {
+      const close = query.indexOf(char === "{" ? "}" : '"', i + 1)
+      if (close < 0) {
+        throw new SearchQuerySyntaxError(`Unterminated ${char === "{" ? "braces" : "quotes"}`, i)
+      }
+      tokens.push({ type: char === "{" ? "brace" : "phrase", value: query.slice(i + 1, close), position: i })
+      i = close + 1
+    } else if (char === "}") {
+      throw new SearchQuerySyntaxError('Unexpected "}"', i)
+    } else {
+      let end = i + 1
+      while (end < query.length && !WORD_END.test(query[end]) && !query.startsWith("..", end)) {
+        end++
+      }
+      tokens.push({ type: "word", value: query.slice(i, end), position: i })
+      i = end
+    }
+  }
+
+  return tokens
+}
+
+class SearchQueryParser {
+  private tokens: Token[]
+  private index = 0
+
+  constructor(private query: string) {
+    this.tokens = tokenize(query)
+  }
+
+  public parse(): SearchQuery {
+    const expression = this.atEnd() || this.atSortBy() ? undefined : this.parseOr()
+    const sort = this.atSortBy() ? this.parseSort() : []
+    if (!this.atEnd()) {
+      this.unexpected()
+    }
+    return expression ? { expression, sort } : { sort }
+  }
+
+  private parseOr(): SearchExpression {
+    const operands = [this.parseAnd()]
+    while (this.atKeyword("or")) {
+      this.index++
+      operands.push(this.parseAnd())
+    }
+    return operands.length > 1 ? { type: "or", operands } : operands[0]
+  }
+
+  private parseAnd(): SearchExpression {
+    const operands = [this.parsePrimary()]
+    while (!this.atEnd() && this.peek().type !== ")" && !this.atKeyword("or") && !this.atSortBy()) {
+      if (this.atKeyword("and")) {
+        this.index++
+      }
+      operands.push(this.parsePrimary())
+    }
+    return operands.length > 1 ? { type: "and", operands } : operands[0]
+  }
+
+  private parsePrimary(): SearchExpression {
+    const token = this.next()
+
+    switch (token.type) {
+      case "(": {
+        const expression = this.parseOr()
+        this.expect(")")
+        return expression
+      }
+      case "#":
+        return { type: "tag", value: this.parseValue() }
+      case "-":
+        return { type: "tag", value: this.parseValue(), negated: true }
+      case "phrase":
+        return { type: "text", text: token.value, exact: true }
+      case "word":
+      case "brace":
+        if (this.peek()?.type === ":") {
+          this.index++
+          return token.type === "word" && token.value.toLowerCase() === "has"
+            ? this.parseHas()
+            : { type: "field", field: token.value, values: this.parseList(() => this.parseFieldValue()) }
+        }
+        if (token.type === "word" && !this.isKeyword(token)) {
+          return { type: "text", text: token.value }
+        }
+    }
+    return this.unexpected(token)
+  }
+
+  private parseHas(): SearchExpression {
+    const terms = this.parseList<SearchTerm>(() => {
+      const negated = this.peek()?.type === "-"
+      if (negated) {
+        this.index++
+      }
+      return { type: "has", field: this.parseValue(), ...(negated ? { negated } : {}) }
+    })
+    return terms.length > 1 ? { type: "and", operands: terms } : terms[0]
+  }
+
+  private parseFieldValue(): SearchFieldValue {
+    if (this.peek()?.type === "-") {
+      this.index++
+      return { type: "value", value: this.parseValue(), negated: true }
+    }
+    const value = this.parseValue()
+    if (this.peek()?.type === "..") {
+      this.index++
+      return { type: "range", from: value, to: this.parseValue() }
+    }
+    return { type: "value", value }
+  }
+
+  private parseSort(): SearchSort[] {
+    this.index += 2
+    this.expect(":")
+    return this.parseList(() => {
+      const field = this.parseValue()
+      const direction = this.peek()?.type === "word" ? this.peek().value.toLowerCase() : undefined
+      if (direction === "asc" || direction === "desc") {
+        this.index++
+        return { field, direction }
+      }
+      return { field }
+    })
+  }
+
+  private parseList<T>(parseItem: () => T): T[] {
+    const items = [parseItem()]
+    while (this.peek()?.type === ",") {
+      this.index++
+      items.push(parseItem())
+    }
+    return items
+  }
+
+  private parseValue(): string {
+    const token = this.next()
+    if (token.type !== "word" && token.type !== "brace") {
+      return this.unexpected(token, "Expected value")
+    }
+    return token.value
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index]
+    if (!token) {
+      throw new SearchQuerySyntaxError("Unexpected end of query", this.query.length)
+    }
+    this.index++
+    return token
+  }
+
+  private expect(type: TokenType) {
+    const token = this.next()
+    if (token.type !== type) {
+      this.unexpected(token, `Expected "${type}"`)
+    }
+  }
+
+  private atEnd(): boolean {
+    return this.index >= this.tokens.length
+  }
+
+  private atKeyword(keyword: string): boolean {
+    const token = this.peek()
+    return token?.type === "word" && token.value.toLowerCase() === keyword
+  }
+
+  private atSortBy(): boolean {
+    const [by, colon] = this.tokens.slice(this.index + 1, this.index + 3)
+    return this.atKeyword("sort") && by?.type === "word" && by.value.toLowerCase() === "by" && colon?.type === ":"
+  }
+
+  private isKeyword(token: Token): boolean {
+    return ["and", "or"].includes(token.value.toLowerCase())
+  }
+
+  private unexpected(token = this.peek(), message?: string): never {
+    const found =
+      token.type === "brace" ? `{${token.value}}` : token.type === "phrase" ? `"${token.value}"` : token.value
+    throw new SearchQuerySyntaxError(`${message ? `${message}, found` : "Unexpected"} "${found}"`, token.position)
+  }
+}
+
+/**
+ * Parses the search query string to AST.
+ * Serialized AST (see `serializeSearchQuery`) is the canonical form of the query.
+ *
+ * Example:
+ * parseSearchQuery("State: Open, -Fixed #Critical sort by: created desc")
+ * // {
+ * //   expression: { type: "and", operands: [
+ * //     { type: "field", field: "State", values: [{ type: "value", value: "Open" }, { type: "value", value: "Fixed", negated: true }] },
+ * //     { type: "tag", value: "Critical" }
+ * //   ] },
+ * //   sort: [{ field: "created", direction: "desc" }]
+ * // }
+ *
+ * @param query - Search query string.
+ * @returns Search query AST.
+ * @throws {SearchQuerySyntaxError} If the query is invalid. The error contains position of the unexpected token.
+ */
+export const parseSearchQuery = (query: string): SearchQuery => new SearchQueryParser(query).parse()
+
+/**
+ * Replaces the terms of the search expression, e.g. to rename a field across saved queries.
+ * @param expression - Search expression.
+ * @param mapTerm - Function that returns the new term (or expression) for the term.
+ * @returns New search expression.
+ */
+export const mapSearchTerms = (
+  expression: SearchExpression,
+  mapTerm: (term: SearchTerm) => SearchExpression,
+): SearchExpression =>
+  expression.type === "and" || expression.type === "or"
+    ? { type: expression.type, operands: expression.operands.map((operand) => mapSearchTerms(operand, mapTerm)) }
+    : mapTerm(expression)
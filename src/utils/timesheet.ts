@@ -0,0 +1,169 @@
+import type {
+  IssueWorkItem,
+  Schema,
+  TimesheetGroup,
+  TimesheetOptions,
+  TimesheetReport,
+  TimesheetRow,
+  TimesheetTotals,
+  TimesheetWorkItem,
+} from "../types"
+import { toCsv } from "./csv"
+import type { CsvValue } from "./csv"
+import { formatDuration } from "./duration"
+import type { DurationOptions } from "./duration"
+
+export type TimesheetCsvOptions = {
+  by?: TimesheetGroup | "userDay" // Totals to export. Default: rows of the work items
+  duration?: DurationOptions // Work time settings used to format durations
+  separator?: string // Separator of the cells. Default: ","
+}
+
+export const TIMESHEET_WORK_ITEM_FIELDS = [
+  "id",
+  "date",
+  "text",
+  { duration: ["minutes"] },
+  { author: ["login", "fullName"] },
+  { type: ["name"] },
+  { issue: ["idReadable", { project: ["shortName"] }] },
+  { attributes: ["name", { value: ["name"] }] },
+] as const satisfies Schema<IssueWorkItem>
+
+const DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Formats the timestamp as a date of the work item (YYYY-MM-DD in UTC).
+ * @param timestamp - Timestamp in milliseconds.
+ * @returns Date string.
+ */
+export const workItemDate = (timestamp: number): string => new Date(timestamp).toISOString().slice(0, 10)
+
+/**
+ * Gets the first day of the week of the work date.
+ * @param timestamp - Timestamp of the work date.
+ * @param firstDayOfWeek - Index of the first day of week, Sunday is 0. Default: 1
+ * @returns Date of the first day of the week (YYYY-MM-DD).
+ */
+export const workItemWeek = (timestamp: number, firstDayOfWeek = 1): string => {
+  const offset = (new Date(timestamp).getUTCDay() - firstDayOfWeek + 7) % 7
+  return workItemDate(timestamp - offset * DAY)
+}
+
+const addTotal = (totals: TimesheetTotals, key: string, minutes: number) => {
+  totals[key] = (totals[key] ?? 0) + minutes
+}
+
+const timesheetRow = (item: TimesheetWorkItem, firstDayOfWeek?: number): TimesheetRow => ({
+  id: item.id ?? "",
+  date: workItemDate(item.date),
+  week: workItemWeek(item.date, firstDayOfWeek),
+  user: item.author?.login ?? "",
+  userName: item.author?.fullName ?? "",
+  issue: item.issue?.idReadable ?? "",
+  project: item.issue?.project?.shortName ?? "",
+  type: item.type?.name ?? "",
+  minutes: item.duration.minutes,
+  attributes: Object.fromEntries(
+    (item.attributes ?? []).filter(({ name }) => name).map(({ name, value }) => [name, value?.name ?? ""]),
+  ),
+  text: item.text ?? "",
+})
+
+/**
+ * Aggregates work items by user, day, week, issue, project, work item type and attribute values.
+ * @param items - Work items with the fields of `TIMESHEET_WORK_ITEM_FIELDS`.
+ * @param options - First day of the week.
+ * @returns Timesheet report with totals in minutes.
+ */
+export const aggregateWorkItems = (items: TimesheetWorkItem[], options: TimesheetOptions = {}): TimesheetReport => {
+  const report: TimesheetReport = {
+    total: 0,
+    rows: items
+      .map((item) => timesheetRow(item, options.firstDayOfWeek))
+      .sort((a, b) => a.date.localeCompare(b.date) || a.user.localeCompare(b.user) || a.issue.localeCompare(b.issue)),
+    byUser: {},
+    byDay: {},
+    byWeek: {},
+    byIssue: {},
+    byProject: {},
+    byType: {},
+    byAttribute: {},
+    byUserDay: {},
+  }
+  for (const row of report.rows) {
+    report.total += row.minutes
+    addTotal(report.byUser, row.user, row.minutes)
+    addTotal(report.byDay, row.date, row.minutes)
+    addTotal(report.byWeek, row.week, row.minutes)
+    addTotal(report.byIssue, row.issue, row.minutes)
+    addTotal(report.byProject, row.project, row.minutes)
+    addTotal(report.byType, row.type, row.minutes)
+    report.byUserDay[row.user] ??= {}
+    addTotal(report.byUserDay[row.user], row.date, row.minutes)
+    for (const [name, value] of Object.entries(row.attributes)) {
+      report.byAttribute[name] ??= {}
+      addTotal(report.byAttribute[name], value, row.minutes)
+    }
+  }
+  return report
+}
+
+type GroupTotalsKey = "byUser" | "byDay" | "byWeek" | "byIssue" | "byProject" | "byType"
+
+const GROUP_TOTALS: Record<TimesheetGroup, [string, GroupTotalsKey]> = {
+  user: ["User", "byUser"],
+  day: ["Date", "byDay"],
+  week: ["Week", "byWeek"],
+  issue: ["Issue", "byIssue"],
+  project: ["Project", "byProject"],
+  type: ["Type", "byType"],
+}
+
+/**
+ * Exports the timesheet report to CSV. Durations are written in minutes and as presentations.
+ * @param report - Timesheet report.
+ * @param options - Totals to export (rows of work items by default), duration settings and separator.
+ * @returns CSV string with the header row.
+ */
+export const timesheetCsv = (report: TimesheetReport, options: TimesheetCsvOptions = {}): string => {
+  const { by, separator } = options
+  const duration = (minutes: number) => formatDuration(minutes, options.duration)
+  let rows: CsvValue[][]
+
+  if (by === "userDay") {
+    const days = Object.keys(report.byDay).sort()
+    rows = [
+      ["User", ...days, "Total"],
+      ...Object.keys(report.byUserDay)
+        .sort()
+        .map((user) => [user, ...days.map((day) => report.byUserDay[user][day] ?? 0), report.byUser[user]]),
+    ]
+  } else if (by) {
+    const [header, key] = GROUP_TOTALS[by]
+    const totals = report[key]
+    rows = [
+      [header, "Minutes", "Duration"],
+      ...Object.keys(totals)
+        .sort()
+        .map((group) => [group, totals[group], duration(totals[group])]),
+    ]
+  } else {
+    const attributes = [...new Set(report.rows.flatMap((row) => Object.keys(row.attributes)))].sort()
+    rows = [
+      ["Date", "User", "Issue", "Project", "Type", "Minutes", "Duration", ...attributes, "Text"],
+      ...report.rows.map((row) => [
+        row.date,
+        row.user,
+        row.issue,
+        row.project,
+        row.type,
+        row.minutes,
+        duration(row.minutes),
+        ...attributes.map((name) => row.attributes[name]),
+        row.text,
+      ]),
+    ]
+  }
+  return toCsv(rows, separator)
+}
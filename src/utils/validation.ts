@@ -0,0 +1,107 @@
+import type { FetchConfig, FieldsSchema, Middleware, ResponseValidation, SchemaMismatch } from "../types"
+import { isObject } from "./common"
+import { FieldsSchemaSyntaxError, parseFieldsSchema } from "./fieldsSchema"
+
+// Response does not match the requested fields schema
+export class SchemaMismatchError extends Error {
+  public name = "SchemaMismatchError"
+  public readonly url: string
+
+  constructor(
+    public readonly mismatches: SchemaMismatch[],
+    public readonly config: FetchConfig,
+  ) {
+    super(
+      `Response of ${config.method ?? "GET"} ${config.url} does not match fields schema: ${schemaMismatchList(mismatches)}`,
+    )
+    this.url = config.url
+  }
+}
+
+const schemaMismatchList = (mismatches: SchemaMismatch[]) =>
+  mismatches
+    .map(({ path, reason, received }) =>
+      reason === "missing" ? `${path} is missing` : `${path} is ${received}, expected object`,
+    )
+    .join(", ")
+
+// Reports the response that does not match the fields schema in "warn" validation mode
+export type SchemaMismatchHandler = (error: SchemaMismatchError | FieldsSchemaSyntaxError) => void
+
+// Fields shared by all variants of union entities
+const ENTITY_BASE_FIELDS = ["id", "$type"]
+
+const typeOf = (value: unknown): string => (Array.isArray(value) ? "array" : value === null ? "null" : typeof value)
+
+/**
+ * Checks that the response contains all fields of the requested schema.
+ * Arrays are checked item by item, null values of nested fields are allowed.
+ * Objects requested with `$type` are variants of union entities (e.g. custom field values), so their fields
+ * that belong to other variants are absent: only fields of the base entity (`id` and `$type`) are required,
+ * other fields are checked if present.
+ * Scalar values are allowed for such objects, e.g. dates and numbers of simple custom fields.
+ * @param data - Decoded response.
+ * @param schema - Requested fields schema.
+ * @param path - Path of the data in the response. Default: "$".
+ * @returns List of the fields that are missing or are not objects while nested fields are requested.
+ */
+export const validateFieldsSchema = (data: unknown, schema: FieldsSchema, path = "$"): SchemaMismatch[] => {
+  if (Array.isArray(data)) {
+    return data.flatMap((item, index) => validateFieldsSchema(item, schema, `${path}[${index}]`))
+  }
+  // Variants of union entities can be scalar values, e.g. values of simple custom fields
+  const union = schema.includes("$type")
+  if (data === null || !schema.length || (union && !isObject(data))) {
+    return []
+  }
+  if (!isObject(data)) {
+    return [{ path, reason: "type", received: typeOf(data) }]
+  }
+
+  const missing = (field: string): SchemaMismatch[] =>
+    union && !ENTITY_BASE_FIELDS.includes(field) ? [] : [{ path: `${path}.${field}`, reason: "missing" }]
+
+  return schema.flatMap((field): SchemaMismatch[] => {
+    if (!isObject(field)) {
+      return field in data ? [] : missing(field)
+    }
+    return Object.keys(field).flatMap((key) =>
+      key in data ? validateFieldsSchema(data[key], field[key], `${path}.${key}`) : missing(key),
+    )
+  })
+}
+
+/**
+ * Creates middleware that validates responses against the fields schema of the request (`config.schema`).
+ * String schema is parsed, its syntax error is reported as the mismatch.
+ * Validation mode of the request (`config.validate`) overrides the mode of the middleware.
+ * Both `schema` and `validate` are removed from the config passed to the next middlewares.
+ * @param mode - Validation mode: "warn" reports mismatches, "throw" rejects with SchemaMismatchError. Disabled if not set.
+ * @param onMismatch - Reports the mismatch error in "warn" mode. Default: logs the error message with console.warn.
+ * @returns Validation middleware.
+ */
+export const validationMiddleware = (
+  mode?: ResponseValidation,
+  onMismatch: SchemaMismatchHandler = (error) => console.warn(error.message),
+): Middleware => {
+  return async ({ schema, validate: requestMode, ...config }, next) => {
+    const validate = requestMode ?? mode
+    const data = await next(config)
+    if (!validate || !schema) {
+      return data
+    }
+
+    try {
+      const mismatches = validateFieldsSchema(data, typeof schema === "string" ? parseFieldsSchema(schema) : schema)
+      if (mismatches.length) {
+        throw new SchemaMismatchError(mismatches, { ...config, schema })
+      }
+    } catch (error) {
+      if (validate === "throw" || !(error instanceof SchemaMismatchError || error instanceof FieldsSchemaSyntaxError)) {
+        throw error
+      }
+      onMismatch(error)
+    }
+    return data
+  }
+}
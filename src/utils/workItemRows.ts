@@ -0,0 +1,102 @@
+import type { TimesheetWorkItem, WorkItemRow } from "../types"
+import { parseCsv, toCsv } from "./csv"
+import { formatDuration } from "./duration"
+import type { DurationOptions } from "./duration"
+import { workItemDate } from "./timesheet"
+
+export const WORK_ITEM_COLUMNS = ["Issue", "Author", "Date", "Duration", "Type", "Text"] as const
+
+const COLUMN_FIELDS: Record<string, keyof Omit<WorkItemRow, "attributes">> = {
+  issue: "issue",
+  author: "author",
+  date: "date",
+  duration: "duration",
+  type: "type",
+  text: "text",
+}
+
+/**
+ * Converts work items to rows of the import/export format.
+ * @param items - Work items with the fields of `TIMESHEET_WORK_ITEM_FIELDS`.
+ * @param duration - Work time settings used to format durations.
+ * @returns Work item rows.
+ */
+export const workItemRows = (items: TimesheetWorkItem[], duration?: DurationOptions): WorkItemRow[] =>
+  items.map((item) => {
+    const row: WorkItemRow = {
+      issue: item.issue?.idReadable ?? "",
+      author: item.author?.login ?? "",
+      date: workItemDate(item.date),
+      duration: formatDuration(item.duration.minutes, duration),
+      type: item.type?.name ?? "",
+      text: item.text ?? "",
+    }
+    const attributes = (item.attributes ?? []).filter(({ name, value }) => name && value?.name)
+    if (attributes.length) {
+      row.attributes = Object.fromEntries(attributes.map(({ name, value }) => [name, value?.name]))
+    }
+    return row
+  })
+
+/**
+ * Parses work item rows from CSV. Columns Issue, Author, Date, Duration, Type and Text are matched
+ * case-insensitively, other columns are the work item attributes.
+ * @param csv - CSV string with the header row.
+ * @param separator - Separator of the cells, a single character. Default: ",".
+ * @returns Work item rows.
+ */
+export const parseWorkItemsCsv = (csv: string, separator?: string): WorkItemRow[] => {
+  const [header = [], ...lines] = parseCsv(csv, separator)
+  const columns = header.map((name) => name.trim())
+  return lines.map((cells) => {
+    const row: WorkItemRow = { issue: "", date: "", duration: "" }
+    columns.forEach((column, index) => {
+      const value = cells[index]?.trim() ?? ""
+      const field = COLUMN_FIELDS[column.toLowerCase()]
+      if (field) {
+        row[field] = value
+      } else if (value) {
+        row.attributes = { ...row.attributes, [column]: value }
+      }
+    })
+    return row
+  })
+}
+
+/**
+ * Writes work item rows to CSV with the header row. Attributes are written to columns named after the attributes.
+ * @param rows - Work item rows.
+ * @param separator - Separator of the cells. Default: ",".
+ * @returns CSV string.
+ */
+export const workItemsCsv = (rows: WorkItemRow[], separator?: string): string => {
+  const attributes = [...new Set(rows.flatMap((row) => Object.keys(row.attributes ?? {})))].sort()
+  return toCsv(
+    [
+      [...WORK_ITEM_COLUMNS, ...attributes],
+      ...rows.map((row) => [
+        row.issue,
+        row.author,
+        row.date,
+        row.duration,
+        row.type,
+        row.text,
+        ...attributes.map((name) => row.attributes?.[name]),
+      ]),
+    ],
+    separator,
+  )
+}
+
+/**
+ * Parses work item rows from JSON array. Rows are checked by the import validation.
+ * @param json - JSON string with the array of work item rows.
+ * @returns Work item rows.
+ */
+export const parseWorkItemsJson = (json: string): WorkItemRow[] => {
+  const rows = JSON.parse(json)
+  if (!Array.isArray(rows)) {
+    throw new Error("Work items JSON must be an array of rows")
+  }
+  return rows
+}
@@ -0,0 +1,98 @@
+import type {
+  TimesheetReport,
+  UserWorkTime,
+  WorkTimeAnalysis,
+  WorkTimeAnalysisOptions,
+  WorkTimeDay,
+  WorkTimeSettings,
+  WorkTimeStatus,
+  WorkTimeWeek,
+} from "../types"
+import { DEFAULT_MINUTES_A_DAY } from "./duration"
+import { formatSearchDate } from "./searchQuery"
+import { workItemDate, workItemWeek } from "./timesheet"
+
+export const DEFAULT_WORK_DAYS = [1, 2, 3, 4, 5]
+
+const DAY = 24 * 60 * 60 * 1000
+
+const dateTimestamp = (date: Date | string) => {
+  const timestamp = Date.parse(date instanceof Date ? formatSearchDate(date) : date)
+  if (Number.isNaN(timestamp)) {
+    throw new Error(`Invalid date: ${date}`)
+  }
+  return timestamp
+}
+
+const workTimeStatus = (difference: number, tolerance: number): Exclude<WorkTimeStatus, "nonWorkingDay"> => {
+  if (difference < -tolerance) {
+    return "gap"
+  }
+  return difference > tolerance ? "overtime" : "ok"
+}
+
+/**
+ * Compares the logged time of the users with the time expected by the work time settings.
+ * Every working day of the period is expected to have `minutesADay` logged.
+ * @param report - Timesheet report of the period.
+ * @param settings - Work time settings, `minutesADay` and `workDays` (Sunday is 0).
+ * @param options - Period, users without logged time, tolerance and the first day of week.
+ * @returns Expected and logged time of each user by day and week with gaps, overtime and work on non-working days.
+ */
+export const analyzeWorkTime = (
+  report: Pick<TimesheetReport, "byUserDay">,
+  settings: Partial<Pick<WorkTimeSettings, "minutesADay" | "workDays">>,
+  options: WorkTimeAnalysisOptions,
+): WorkTimeAnalysis => {
+  const { minutesADay = DEFAULT_MINUTES_A_DAY, workDays = DEFAULT_WORK_DAYS } = settings
+  const { tolerance = 0, firstDayOfWeek } = options
+  const start = dateTimestamp(options.from)
+  const end = dateTimestamp(options.to)
+  const logins = [...new Set([...(options.users ?? []), ...Object.keys(report.byUserDay)])].sort()
+
+  const userWorkTime = (user: string): UserWorkTime => {
+    const logged = report.byUserDay[user] ?? {}
+    const days: WorkTimeDay[] = []
+    const weeks = new Map<string, WorkTimeWeek>()
+
+    for (let timestamp = start; timestamp <= end; timestamp += DAY) {
+      const date = workItemDate(timestamp)
+      const workingDay = workDays.includes(new Date(timestamp).getUTCDay())
+      const expected = workingDay ? minutesADay : 0
+      const minutes = logged[date] ?? 0
+      const status = !workingDay && minutes ? "nonWorkingDay" : workTimeStatus(minutes - expected, tolerance)
+      days.push({ date, workingDay, expected, logged: minutes, difference: minutes - expected, status })
+
+      const weekStart = workItemWeek(timestamp, firstDayOfWeek)
+      const week = weeks.get(weekStart) ?? { week: weekStart, expected: 0, logged: 0, difference: 0, status: "ok" }
+      week.expected += expected
+      week.logged += minutes
+      week.difference = week.logged - week.expected
+      week.status = workTimeStatus(week.difference, tolerance)
+      weeks.set(weekStart, week)
+    }
+
+    const expected = days.reduce((sum, day) => sum + day.expected, 0)
+    const total = days.reduce((sum, day) => sum + day.logged, 0)
+    const datesWith = (status: WorkTimeStatus) => days.filter((day) => day.status === status).map(({ date }) => date)
+    return {
+      user,
+      expected,
+      logged: total,
+      difference: total - expected,
+      days,
+      weeks: [...weeks.values()],
+      gaps: datesWith("gap"),
+      overtime: datesWith("overtime"),
+      nonWorkingDays: datesWith("nonWorkingDay"),
+    }
+  }
+
+  return {
+    from: workItemDate(start),
+    to: workItemDate(end),
+    minutesADay,
+    workDays,
+    users: logins.map(userWorkTime),
+  }
+}
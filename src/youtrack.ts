@@ -1,14 +1,40 @@
-import type { Axios } from "axios"
+import type { Axios, AxiosError, AxiosResponse } from "axios"
 
-import type { FetchConfig, FetchFunc } from "./types"
-import { encodeBody, joinUrl } from "./utils"
+import type {
+  FetchConfig,
+  FetchFunc,
+  Middleware,
+  RequestLimiterOptions,
+  RequestOptions,
+  ResponseValidation,
+  RetryPolicy,
+} from "./types"
+import {
+  abortableRequest,
+  applyMiddlewares,
+  createYouTrackError,
+  encodeBody,
+  joinUrl,
+  parseErrorPayload,
+  parseRetryAfter,
+  retryMiddleware,
+  RequestLimiter,
+  validationMiddleware,
+} from "./utils"
+import type { SchemaMismatchHandler } from "./utils"
 import * as ResourceApi from "./resources"
 
-export interface RequestParams<RawBody extends boolean = true | false> extends Omit<RequestInit, 'body' | 'headers'> {
-  body?: RawBody extends true ? BodyInit | null : unknown;
-  query?: Record<string, unknown> | undefined;
-  headers?: HeadersInit | Record<string, null | undefined>;
-  sendRawBody?: RawBody;
+export interface RequestParams<RawBody extends boolean = true | false> extends Omit<RequestInit, "body" | "headers"> {
+  body?: RawBody extends true ? BodyInit | null : unknown
+  query?: Record<string, unknown> | undefined
+  headers?: HeadersInit | Record<string, null | undefined>
+  sendRawBody?: RawBody
+}
+
+export type YouTrackOptions = RequestLimiterOptions & {
+  retry?: RetryPolicy | boolean // Retry failed requests with exponential backoff
+  validate?: ResponseValidation // Validate responses against the requested fields schema
+  onSchemaMismatch?: SchemaMismatchHandler // Reports mismatches in "warn" validation mode. Default: console.warn
 }
 
 export class YouTrack {
@@ -47,68 +73,133 @@ export class YouTrack {
     Workflows: ResourceApi.WorkflowsApi
   }
 
-  static client(baseUrl: string, token: string) {
-    return new YouTrack(baseUrl, async ({ url, headers, data, ...rest }: FetchConfig) => {
-      const response = await fetch(joinUrl(baseUrl, url), {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          Accept: "application/json",
-          "Content-Type": "application/json",
-          ...headers,
-        },
-        ...(data ? { body: encodeBody(data) } : {}),
-        ...rest,
-      })
-
-      if (!response.ok) {
-        throw new Error(`Error: ${response.status} ${response.statusText}`)
-      }
-
-      if (response.headers.get("content-type")?.startsWith("application/json")) {
-        return response.json()
-      }
-
-      return response.blob()
-    })
+  static client(baseUrl: string, token: string, options?: YouTrackOptions) {
+    return new YouTrack(
+      baseUrl,
+      async (config: FetchConfig) => {
+        const { url, headers, data, ...rest } = config
+        const requestUrl = joinUrl(baseUrl, url)
+        let response: Response
+        try {
+          response = await fetch(requestUrl, {
+            headers: {
+              Authorization: `Bearer ${token}`,
+              Accept: "application/json",
+              "Content-Type": "application/json",
+              ...headers,
+            },
+            ...(data ? { body: encodeBody(data) } : {}),
+            ...rest,
+          })
+        } catch (cause) {
+          throw createYouTrackError({ status: 0, url: requestUrl, config, cause })
+        }
+
+        if (!response.ok) {
+          const payload = parseErrorPayload(await response.text().catch(() => ""))
+          throw createYouTrackError({
+            status: response.status,
+            statusText: response.statusText,
+            payload,
+            url: requestUrl,
+            config,
+            retryAfter: parseRetryAfter(response.headers.get("retry-after")),
+          })
+        }
+
+        if (response.headers.get("content-type")?.startsWith("application/json")) {
+          return response.json()
+        }
+
+        return response.blob()
+      },
+      options,
+    )
   }
 
-  static axiosClient(axios: Axios, baseUrl: string, token: string) {
-    return new YouTrack(baseUrl, async ({ url, headers, ...rest }: FetchConfig) => {
-      const params = {
-        url: joinUrl(baseUrl, url),
-        headers: {
-          Authorization: `Bearer ${token}`,
-          Accept: "application/json;charset=utf-8",
-          "Content-Type": "application/json",
-          ...headers,
-        },
-        ...rest,
-      }
-      const response = await axios.request(params)
-
-      if (response.headers["content-type"]?.startsWith("application/json")) {
-        return typeof response.data === "string" && response.data !== "" ? JSON.parse(response.data) : response.data
-      }
-      return response.data
-    })
+  static axiosClient(axios: Axios, baseUrl: string, token: string, options?: YouTrackOptions) {
+    return new YouTrack(
+      baseUrl,
+      async (config: FetchConfig) => {
+        const { url, headers, ...rest } = config
+        const params = {
+          url: joinUrl(baseUrl, url),
+          headers: {
+            Authorization: `Bearer ${token}`,
+            Accept: "application/json;charset=utf-8",
+            "Content-Type": "application/json",
+            ...headers,
+          },
+          ...rest,
+        }
+        let response: AxiosResponse
+        try {
+          response = await axios.request(params)
+        } catch (error) {
+          const { response } = error as AxiosError
+          throw createYouTrackError({
+            status: response?.status ?? 0,
+            statusText: response?.statusText,
+            payload: parseErrorPayload(response?.data),
+            url: params.url,
+            config,
+            cause: error,
+            retryAfter: parseRetryAfter(response?.headers?.["retry-after"]),
+          })
+        }
+
+        if (response.headers["content-type"]?.startsWith("application/json")) {
+          return typeof response.data === "string" && response.data !== "" ? JSON.parse(response.data) : response.data
+        }
+        return response.data
+      },
+      options,
+    )
   }
 
-  static widget(api: {
-    fetchYouTrack: <T = unknown>(relativeURL: string, requestParams?: RequestParams) => Promise<T>;
-  }) {
-    return new YouTrack("", (config) => {
-      const { url, data, ...rest } = config
-      // TODO: handle Blob data
-      return api.fetchYouTrack(url.slice(4), {
-        ...(data ? { body: data } : {}),
-        ...rest,
-      })
-    })
+  static widget(
+    api: {
+      fetchYouTrack: <T = unknown>(relativeURL: string, requestParams?: RequestParams) => Promise<T>
+    },
+    options?: YouTrackOptions,
+  ) {
+    return new YouTrack(
+      "",
+      (config) => {
+        const { url, data, ...rest } = config
+        // TODO: handle Blob data
+        return api.fetchYouTrack(url.slice(4), {
+          ...(data ? { body: data } : {}),
+          ...rest,
+        })
+      },
+      options,
+    )
   }
 
+  private middlewares: Middleware[] = []
+  private validate: ResponseValidation | undefined
+  private onSchemaMismatch: SchemaMismatchHandler | undefined
+
+  /**
+   * Queue of requests, defined if `rateLimit` or `maxConcurrent` option is set.
+   * Can be used to observe queue depth and wait time.
+   */
+  public readonly limiter: RequestLimiter | undefined
+
+  /**
+   * Performs request through the middleware chain and the transport.
+   * Request can be cancelled with `config.signal` or `config.timeout`.
+   * @param config - The request config.
+   * @returns The decoded response.
+   */
+  public fetch: FetchFunc = <T>(config: FetchConfig) =>
+    abortableRequest(config, (config) => applyMiddlewares<T>(this.middlewares, this.transport, config))
+
   constructor(
     public baseUrl: string,
-    public fetch: FetchFunc,
+    private transport: FetchFunc,
+    options: YouTrackOptions = {},
   ) {
     this.Agiles = new ResourceApi.AgilesApi(this)
     this.Activities = new ResourceApi.ActivitiesApi(this)
@@ -144,5 +235,44 @@ export class YouTrack {
       GlobalTimeTrackingSettings: new ResourceApi.GlobalTimeTrackingSettingsApi(this),
       Workflows: new ResourceApi.WorkflowsApi(this),
     }
+
+    this.validate = options.validate
+    this.onSchemaMismatch = options.onSchemaMismatch
+    this.use(validationMiddleware(options.validate, options.onSchemaMismatch))
+
+    if (options.retry) {
+      this.use(retryMiddleware(options.retry === true ? {} : options.retry))
+    }
+
+    if (options.rateLimit || options.maxConcurrent) {
+      this.limiter = new RequestLimiter(options)
+      this.use(this.limiter.middleware())
+    }
+  }
+
+  /**
+   * Adds middlewares to the end of the request chain. Middlewares are called in the order they were added.
+   * @param middlewares - Middlewares in format `(config, next) => Promise<response>`.
+   * @returns The YouTrack instance for chaining.
+   */
+  public use(...middlewares: Middleware[]): this {
+    this.middlewares.push(...middlewares)
+    return this
+  }
+
+  /**
+   * Creates YouTrack instance that applies request options to all requests, e.g. to cancel a group of calls
+   * with one signal. Requests are performed through middlewares and transport of the current instance.
+   * Options of a single call are passed to the resource method as the last argument.
+   * @param options - Options of the requests, e.g. `{ signal, timeout: 5000 }` or `{ retry: true }` to allow retries of POST requests.
+   * @returns New YouTrack instance.
+   */
+  public withOptions(options: RequestOptions): YouTrack {
+    // Responses are validated by the new instance, the schema is not passed to this instance
+    const validate = options.validate ?? this.validate
+    return new YouTrack(this.baseUrl, (config) => this.fetch({ ...config, ...options }), {
+      validate: validate || undefined,
+      onSchemaMismatch: this.onSchemaMismatch,
+    })
   }
 }
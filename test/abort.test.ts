@@ -0,0 +1,108 @@
+import { abortableRequest, RequestAbortedError, RequestTimeoutError, sleep, YouTrack } from "../src"
+import type { FetchConfig, FetchFunc } from "../src"
+
+// Transport that resolves after delay or rejects when its signal is aborted
+const slowTransport = (delay: number, requests: FetchConfig[] = []) =>
+  ((config: FetchConfig) => {
+    requests.push(config)
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => resolve({ query: config.url }), delay)
+      config.signal?.addEventListener("abort", () => {
+        clearTimeout(timer)
+        reject(new Error("transport aborted"))
+      })
+    })
+  }) as FetchFunc
+
+describe("abortableRequest", () => {
+  it("should pass request without signal and timeout as is", async () => {
+    const config = { url: "api/tags" }
+    const result = await abortableRequest(config, async (c) => c)
+    expect(result).toEqual(config)
+  })
+
+  it("should reject with RequestTimeoutError on timeout", async () => {
+    const requests: FetchConfig[] = []
+    const error = await abortableRequest({ url: "api/tags", timeout: 10 }, slowTransport(1000, requests)).catch(
+      (e) => e,
+    )
+
+    expect(error).toBeInstanceOf(RequestTimeoutError)
+    expect(error).toBeInstanceOf(RequestAbortedError)
+    expect(error.message).toBe("Request timed out after 10ms")
+    expect(requests[0].signal?.aborted).toBe(true)
+    expect(requests[0].timeout).toBeUndefined()
+  })
+
+  it("should reject immediately if signal is already aborted", async () => {
+    const requests: FetchConfig[] = []
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(
+      abortableRequest({ url: "api/tags", signal: controller.signal }, slowTransport(10, requests)),
+    ).rejects.toBeInstanceOf(RequestAbortedError)
+    expect(requests).toHaveLength(0)
+  })
+
+  it("should resolve if request finishes before timeout", async () => {
+    expect(await abortableRequest({ url: "api/tags", timeout: 1000 }, slowTransport(1))).toEqual({ query: "api/tags" })
+  })
+})
+
+describe("YouTrack request options", () => {
+  it("should cancel stale requests with AbortSignal", async () => {
+    const requests: FetchConfig[] = []
+    const yt = new YouTrack("", slowTransport(20, requests))
+
+    const controller = new AbortController()
+    const stale = yt.Search.getSearchSuggestions({ query: "stat" }, {}, { signal: controller.signal })
+    controller.abort()
+    const fresh = yt.Search.getSearchSuggestions({ query: "state" })
+
+    await expect(stale).rejects.toBeInstanceOf(RequestAbortedError)
+    expect(await fresh).toEqual({ query: "api/search/assist" })
+    expect(requests[0].signal?.aborted).toBe(true)
+  })
+
+  it("should not retry aborted requests", async () => {
+    const requests: FetchConfig[] = []
+    const yt = new YouTrack("", slowTransport(1000, requests), { retry: { minDelay: 1 } })
+
+    await expect(yt.Issues.getIssueById("ABC-1", {}, { timeout: 5 })).rejects.toBeInstanceOf(RequestTimeoutError)
+    await sleep(10)
+    expect(requests).toHaveLength(1)
+  })
+})
+
+describe("Issues.getIssueCount", () => {
+  const countTransport = (counts: number[], requests: FetchConfig[]) =>
+    (async (config: FetchConfig) => {
+      requests.push(config)
+      return { count: counts[requests.length - 1] ?? -1 }
+    }) as FetchFunc
+
+  it("should poll the count until it is calculated", async () => {
+    const requests: FetchConfig[] = []
+    const yt = new YouTrack("", countTransport([-1, 5], requests))
+
+    const { count } = await yt.Issues.getIssueCount({ query: "#Unresolved" }, { fields: "count" })
+
+    expect(count).toBe(5)
+    expect(requests).toHaveLength(2)
+    expect(requests[1].url).toBe("api/issuesGetter/count?fields=count")
+  })
+
+  it("should stop polling when the signal is aborted", async () => {
+    const requests: FetchConfig[] = []
+    const yt = new YouTrack("", countTransport([], requests))
+    const controller = new AbortController()
+
+    const count = yt.Issues.getIssueCount({ query: "#Unresolved" }, {}, { signal: controller.signal })
+    await sleep(10)
+    controller.abort()
+
+    await expect(count).rejects.toBeInstanceOf(RequestAbortedError)
+    expect(requests).toHaveLength(1)
+  })
+})
@@ -0,0 +1,142 @@
+import { activitiesPageFields, activityStream, collect, YouTrack } from "../src"
+import type { ActivityPage, FetchConfig, FetchFunc } from "../src"
+
+// Pages of activities linked with cursors: "c0" <- page 1 -> "c1" <- page 2 -> "c2"
+const pages: Record<string, ActivityPage<{ id: string }>> = {
+  start: {
+    beforeCursor: "c0",
+    afterCursor: "c1",
+    hasBefore: false,
+    hasAfter: true,
+    activities: [{ id: "1" }, { id: "2" }],
+  },
+  c1: { beforeCursor: "c1", afterCursor: "c2", hasBefore: true, hasAfter: false, activities: [{ id: "3" }] },
+  c2: { beforeCursor: "c2", afterCursor: "c2", hasBefore: true, hasAfter: false, activities: [] },
+  c0: {
+    beforeCursor: "c0",
+    afterCursor: "c1",
+    hasBefore: false,
+    hasAfter: true,
+    activities: [{ id: "1" }, { id: "2" }],
+  },
+}
+
+const fetchPage = (requests: (string | undefined)[] = []) => {
+  return async (cursor?: string) => {
+    requests.push(cursor)
+    return pages[cursor ?? "start"]
+  }
+}
+
+describe("activityStream", () => {
+  it("should follow after cursors", async () => {
+    const requests: (string | undefined)[] = []
+    const cursors: string[] = []
+    const result = await collect(activityStream(fetchPage(requests), { onCursor: (cursor) => cursors.push(cursor) }))
+
+    expect(result).toEqual([{ id: "1" }, { id: "2" }, { id: "3" }])
+    expect(requests).toEqual([undefined, "c1"])
+    expect(cursors).toEqual(["c1", "c2"])
+  })
+
+  it("should resume from the persisted cursor", async () => {
+    const requests: (string | undefined)[] = []
+    const result = await collect(activityStream(fetchPage(requests), { cursor: "c2" }))
+
+    expect(result).toEqual([])
+    expect(requests).toEqual(["c2"])
+  })
+
+  it("should follow before cursors in backward direction", async () => {
+    const requests: (string | undefined)[] = []
+    const backward: Record<string, ActivityPage<{ id: string }>> = {
+      c2: { beforeCursor: "c1", hasBefore: true, activities: [{ id: "3" }, { id: "4" }] },
+      c1: { beforeCursor: "c0", hasBefore: false, activities: [{ id: "1" }, { id: "2" }] },
+    }
+    const fetchBackward = async (cursor?: string) => {
+      requests.push(cursor)
+      return backward[cursor ?? "c2"]
+    }
+    const result = await collect(activityStream(fetchBackward, { direction: "backward", cursor: "c2" }))
+
+    expect(result).toEqual([{ id: "4" }, { id: "3" }, { id: "2" }, { id: "1" }])
+    expect(requests).toEqual(["c2", "c1"])
+  })
+
+  it("should start from the newest page in backward direction without cursor", async () => {
+    const requests: [string | undefined, boolean | undefined][] = []
+    const backward: Record<string, ActivityPage<{ id: string }>> = {
+      newest: { beforeCursor: "c1", hasBefore: true, activities: [{ id: "4" }, { id: "3" }] },
+      c1: { beforeCursor: "c0", hasBefore: false, activities: [{ id: "1" }, { id: "2" }] },
+    }
+    const fetchBackward = async (cursor?: string, reverse?: boolean) => {
+      requests.push([cursor, reverse])
+      return backward[cursor ?? "newest"]
+    }
+    const result = await collect(activityStream(fetchBackward, { direction: "backward" }))
+
+    expect(result).toEqual([{ id: "4" }, { id: "3" }, { id: "2" }, { id: "1" }])
+    expect(requests).toEqual([
+      [undefined, true],
+      ["c1", undefined],
+    ])
+  })
+
+  it("should stop if the cursor does not change", async () => {
+    const requests: (string | undefined)[] = []
+    const page = { afterCursor: "c1", hasAfter: true, activities: [{ id: "1" }] }
+    const fetchSame = async (cursor?: string) => {
+      requests.push(cursor)
+      return page
+    }
+    await collect(activityStream(fetchSame, { cursor: "c1" }))
+    expect(requests).toEqual(["c1"])
+  })
+
+  it("should not report cursor of the page that is not consumed", async () => {
+    const cursors: string[] = []
+    for await (const item of activityStream(fetchPage(), { onCursor: (cursor) => cursors.push(cursor) })) {
+      if (item.id === "1") {
+        break
+      }
+    }
+    expect(cursors).toEqual([])
+  })
+})
+
+describe("iterateActivities", () => {
+  it("should request activities pages with cursor", async () => {
+    const requests: string[] = []
+    const transport = (async ({ url }: FetchConfig) => {
+      requests.push(url)
+      const cursor = new URLSearchParams(url.split("?")[1]).get("cursor")
+      return pages[cursor ?? "start"]
+    }) as FetchFunc
+    const yt = new YouTrack("", transport)
+
+    const activities = await collect(
+      yt.Issues.iterateActivities("ABC-1", { categories: ["CommentsCategory"], fields: ["id"] }),
+    )
+
+    expect(activities).toHaveLength(3)
+    expect(requests[0]).toBe(
+      `api/issues/ABC-1/activitiesPage?categories=CommentsCategory&fields=${activitiesPageFields(["id"])}`,
+    )
+    expect(requests[1]).toContain("cursor=c1")
+  })
+
+  it("should request the newest page first in backward direction", async () => {
+    const requests: string[] = []
+    const transport = (async ({ url }: FetchConfig) => {
+      requests.push(url)
+      return { hasBefore: false, activities: [] }
+    }) as FetchFunc
+    const yt = new YouTrack("", transport)
+
+    await collect(yt.Activities.iterateActivities({ categories: ["CommentsCategory"], direction: "backward" }))
+
+    expect(requests).toEqual([
+      `api/activitiesPage?categories=CommentsCategory&reverse=true&fields=${activitiesPageFields(["id"])}`,
+    ])
+  })
+})
@@ -0,0 +1,133 @@
+import { bulkUpdateIssues, createYouTrackError, NotFoundError, ValidationError, YouTrack } from "../src"
+import type { CommandList, DeepPartial, FetchConfig, FetchFunc } from "../src"
+
+type Handler = (config: FetchConfig) => unknown
+
+const setup = (handler: Handler = () => ({})) => {
+  const requests: FetchConfig[] = []
+  const yt = new YouTrack("", (async (config: FetchConfig) => {
+    requests.push(config)
+    return handler(config)
+  }) as FetchFunc)
+  return { requests, yt }
+}
+
+const commandBody = (config: FetchConfig) => config.data as DeepPartial<CommandList>
+
+const commandIssues = (config: FetchConfig) =>
+  (commandBody(config).issues ?? []).map((issue) => issue?.id ?? issue?.idReadable)
+
+// Rejects commands that include any of the issues
+const rejectIssues =
+  (...issues: string[]): Handler =>
+  (config) => {
+    if (commandIssues(config).some((issue) => issue && issues.includes(issue))) {
+      throw createYouTrackError({ status: 400, url: config.url, config, payload: { error: "bad_request" } })
+    }
+    return {}
+  }
+
+describe("bulkUpdateIssues", () => {
+  it("should apply command to chunks of issues", async () => {
+    const { requests, yt } = setup()
+    const ids = ["DEMO-1", "DEMO-2", "2-3", "DEMO-4", "DEMO-5"]
+
+    const result = await bulkUpdateIssues(yt, ids, { command: "State Fixed", comment: "Done" }, { chunkSize: 2 })
+
+    expect(requests.map(commandIssues)).toEqual([["DEMO-1", "DEMO-2"], ["2-3", "DEMO-4"], ["DEMO-5"]])
+    expect(requests[0].url).toBe("api/commands")
+    expect(requests[0].data).toMatchObject({ query: "State Fixed", comment: "Done" })
+    expect(commandBody(requests[1]).issues?.[0]).toEqual({ id: "2-3" })
+    expect(result).toEqual({ succeeded: ids, failed: [], skipped: [] })
+  })
+
+  it("should resolve issues by query and skip duplicates", async () => {
+    const { requests, yt } = setup((config) =>
+      config.url.startsWith("api/issues") ? [{ idReadable: "DEMO-1" }, { idReadable: "DEMO-2" }] : {},
+    )
+
+    const result = await bulkUpdateIssues(yt, "project: DEMO", "tag: bulk", { muteUpdateNotifications: true })
+
+    expect(requests[0].url).toStartWith("api/issues?")
+    expect(requests[0].url).toContain("query=project%3A%20DEMO")
+    expect(requests[1].url).toBe("api/commands?muteUpdateNotifications=true")
+    expect(result.succeeded).toEqual(["DEMO-1", "DEMO-2"])
+
+    const duplicates = await bulkUpdateIssues(yt, ["DEMO-1", "DEMO-1"], "tag: bulk")
+    expect(duplicates.succeeded).toEqual(["DEMO-1"])
+    expect(duplicates.skipped).toEqual([{ issue: "DEMO-1", reason: "duplicate" }])
+  })
+
+  it("should fail all issues of the failed chunk", async () => {
+    const { requests, yt } = setup(rejectIssues("DEMO-2"))
+
+    const result = await bulkUpdateIssues(yt, ["DEMO-1", "DEMO-2", "DEMO-3"], "vote", { chunkSize: 2 })
+
+    expect(requests.map(commandIssues)).toEqual([["DEMO-1", "DEMO-2"], ["DEMO-3"]])
+    expect(result.succeeded).toEqual(["DEMO-3"])
+    expect(result.failed.map(({ issue }) => issue)).toEqual(["DEMO-1", "DEMO-2"])
+    expect(result.failed[0].error).toBe(result.failed[1].error)
+  })
+
+  it("should apply command to each issue of the failed chunk", async () => {
+    const { requests, yt } = setup(rejectIssues("DEMO-2"))
+
+    const result = await bulkUpdateIssues(yt, ["DEMO-1", "DEMO-2", "DEMO-3"], "State Fixed", {
+      chunkSize: 2,
+      splitFailedChunks: true,
+    })
+
+    expect(requests.map(commandIssues)).toEqual([["DEMO-1", "DEMO-2"], ["DEMO-3"], ["DEMO-1"], ["DEMO-2"]])
+    expect(result.succeeded).toEqual(["DEMO-3", "DEMO-1"])
+    expect(result.failed).toHaveLength(1)
+    expect(result.failed[0].issue).toBe("DEMO-2")
+    expect(result.failed[0].error).toBeInstanceOf(ValidationError)
+  })
+
+  it("should update each issue under the concurrency limit", async () => {
+    let inFlight = 0
+    let maxInFlight = 0
+    const { requests, yt } = setup(async (config) => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight)
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      inFlight--
+      if (config.url.startsWith("api/issues/DEMO-3")) {
+        throw createYouTrackError({ status: 404, url: config.url, config })
+      }
+      return {}
+    })
+    const ids = ["DEMO-1", "DEMO-2", "DEMO-3", "DEMO-4", "DEMO-5"]
+    const update = { summary: "Renamed" }
+
+    const result = await bulkUpdateIssues(yt, ids, { update }, { concurrency: 2 })
+
+    expect(maxInFlight).toBe(2)
+    expect(requests).toHaveLength(5)
+    expect(requests[0]).toMatchObject({ url: "api/issues/DEMO-1", method: "POST", data: update })
+    expect(result.succeeded.sort()).toEqual(["DEMO-1", "DEMO-2", "DEMO-4", "DEMO-5"])
+    expect(result.failed.map(({ issue, error }) => [issue, error instanceof NotFoundError])).toEqual([["DEMO-3", true]])
+  })
+
+  it("should skip issues after abort", async () => {
+    const controller = new AbortController()
+    const { requests, yt } = setup((config) => {
+      if (commandIssues(config).includes("DEMO-2")) {
+        controller.abort()
+      }
+      return {}
+    })
+
+    const result = await bulkUpdateIssues(yt, ["DEMO-1", "DEMO-2", "DEMO-3"], "State Fixed", {
+      chunkSize: 1,
+      concurrency: 1,
+      signal: controller.signal,
+    })
+
+    expect(requests).toHaveLength(2)
+    expect(result.succeeded).toEqual(["DEMO-1"])
+    expect(result.skipped).toEqual([
+      { issue: "DEMO-2", reason: "aborted" },
+      { issue: "DEMO-3", reason: "aborted" },
+    ])
+  })
+})
@@ -0,0 +1,154 @@
+import { ChangeFeed, MemoryCursorStore, sleep, YouTrack } from "../src"
+import type { ActivityCursorPage, FetchConfig, FetchFunc } from "../src"
+
+const issue = { id: "2-1", idReadable: "ABC-1" }
+
+const activity = (id: string, category: string, data: Record<string, unknown> = {}) => ({
+  id,
+  timestamp: Number(id),
+  category: { id: category },
+  target: issue,
+  targetMember: null,
+  field: null,
+  added: [],
+  removed: [],
+  ...data,
+})
+
+// Fake transport that serves pages of activities by cursor
+const activitiesTransport = (pages: Record<string, Partial<ActivityCursorPage>>, requests: URLSearchParams[] = []) =>
+  (async ({ url }: FetchConfig) => {
+    const params = new URLSearchParams(url.split("?")[1])
+    requests.push(params)
+    return (
+      pages[params.get("cursor") ?? "start"] ?? { afterCursor: params.get("cursor"), hasAfter: false, activities: [] }
+    )
+  }) as FetchFunc
+
+const pages = {
+  start: {
+    afterCursor: "c1",
+    hasAfter: true,
+    activities: [
+      activity("1", "IssueCreatedCategory"),
+      activity("2", "CustomFieldCategory", {
+        field: { name: "State" },
+        removed: [{ name: "Open" }],
+        added: [{ name: "Fixed" }],
+      }),
+    ],
+  },
+  c1: {
+    afterCursor: "c2",
+    hasAfter: false,
+    activities: [
+      activity("2", "CustomFieldCategory"),
+      activity("3", "CommentsCategory", { target: { id: "4-1", issue }, added: [{ id: "4-1", text: "Hi" }] }),
+      activity("4", "CommentsCategory", { target: { id: "4-2", issue }, removed: [{ id: "4-2" }] }),
+      activity("5", "LinksCategory", { targetMember: "relates to", added: [{ idReadable: "ABC-2" }] }),
+      activity("6", "SprintCategory", { added: [{ name: "Sprint 2" }], removed: [{ name: "Sprint 1" }] }),
+    ],
+  },
+}
+
+describe("ChangeFeed", () => {
+  it("should emit typed events for new activities", async () => {
+    const requests: URLSearchParams[] = []
+    const store = new MemoryCursorStore()
+    const feed = new ChangeFeed(new YouTrack("", activitiesTransport(pages, requests)), { since: 1000, store })
+    const events: unknown[] = []
+    feed.on("issueCreated", ({ issue }) => events.push(["issueCreated", issue.idReadable]))
+    feed.on("fieldChanged", ({ field, oldValue, newValue }) => events.push(["fieldChanged", field, oldValue, newValue]))
+    feed.on("commentAdded", ({ issue, comments }) => events.push(["commentAdded", issue?.idReadable, comments]))
+    feed.on("linkAdded", ({ linkType, issues }) => events.push(["linkAdded", linkType, issues]))
+    feed.on("sprintChanged", ({ added, removed }) => events.push(["sprintChanged", added, removed]))
+
+    expect(await feed.poll()).toBe(6)
+    expect(events).toEqual([
+      ["issueCreated", "ABC-1"],
+      ["fieldChanged", "State", [{ name: "Open" }], [{ name: "Fixed" }]],
+      ["commentAdded", "ABC-1", [{ id: "4-1", text: "Hi" }]],
+      ["linkAdded", "relates to", [{ idReadable: "ABC-2" }]],
+      ["sprintChanged", [{ name: "Sprint 2" }], [{ name: "Sprint 1" }]],
+    ])
+    expect(requests[0].get("start")).toBe("1000")
+    expect(requests[0].getAll("categories")).toEqual([
+      "IssueCreatedCategory",
+      "CustomFieldCategory",
+      "CommentsCategory",
+      "LinksCategory",
+      "SprintCategory",
+    ])
+    expect(requests[1].get("cursor")).toBe("c1")
+    expect(store.load()).toBe("c2")
+  })
+
+  it("should resume from the stored cursor and skip seen activities", async () => {
+    const requests: URLSearchParams[] = []
+    const feed = new ChangeFeed(new YouTrack("", activitiesTransport(pages, requests)), {
+      store: new MemoryCursorStore("c1"),
+    })
+    const activities: string[] = []
+    feed.on("activity", ({ id }) => activities.push(id))
+
+    await feed.poll()
+    await feed.poll()
+
+    expect(activities).toEqual(["2", "3", "4", "5", "6"])
+    expect(requests.map((params) => params.get("cursor"))).toEqual(["c1", "c2"])
+    expect(requests.some((params) => params.has("start"))).toBe(false)
+  })
+
+  it("should poll on interval and emit errors", async () => {
+    let calls = 0
+    const transport = (async () => {
+      if (calls++ === 0) {
+        throw new Error("Network down")
+      }
+      return { afterCursor: "c1", hasAfter: false, activities: [] }
+    }) as FetchFunc
+    const feed = new ChangeFeed(new YouTrack("", transport), { interval: 5 })
+    const errors: unknown[] = []
+    feed.on("error", (error) => errors.push(error))
+
+    feed.start()
+    expect(feed.running).toBe(true)
+    await sleep(30)
+    feed.stop()
+    const stoppedAt = calls
+    await sleep(20)
+
+    expect(errors).toHaveLength(1)
+    expect(calls).toBeGreaterThan(1)
+    expect(calls).toBe(stoppedAt)
+  })
+
+  it("should emit errors of listeners without interrupting the poll", async () => {
+    const feed = new ChangeFeed(new YouTrack("", activitiesTransport(pages)), { since: 0 })
+    const failure = new Error("Listener failed")
+    const activities: string[] = []
+    const errors: unknown[] = []
+    feed.on("issueCreated", () => {
+      throw failure
+    })
+    feed.on("activity", ({ id }) => activities.push(id))
+    feed.on("error", (error) => {
+      errors.push(error)
+      throw new Error("Error listener failed")
+    })
+
+    expect(await feed.poll()).toBe(6)
+    expect(activities).toEqual(["1", "2", "3", "4", "5", "6"])
+    expect(errors).toEqual([failure])
+  })
+
+  it("should remove listeners", async () => {
+    const feed = new ChangeFeed(new YouTrack("", activitiesTransport(pages)), { since: 0 })
+    const listener = jest.fn()
+    const unsubscribe = feed.on("activity", listener)
+    unsubscribe()
+
+    await feed.poll()
+    expect(listener).not.toHaveBeenCalled()
+  })
+})
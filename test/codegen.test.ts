@@ -0,0 +1,87 @@
+import { generateProjectFields, projectFieldDescriptor } from "../src/codegen"
+import type { ProjectCustomFieldDump } from "../src/codegen"
+
+const field = (
+  $type: string,
+  name: string,
+  fieldType: string,
+  values?: string[],
+  isMultiValue?: boolean,
+): ProjectCustomFieldDump => ({
+  $type,
+  field: { name, fieldType: { id: fieldType, ...(isMultiValue !== undefined ? { isMultiValue } : {}) } },
+  bundle: values ? { values: values.map((name) => ({ name })) } : null,
+})
+
+// Dump of Admin.Projects.getProjectCustomFields("DEMO", { fields: PROJECT_FIELDS_CODEGEN_FIELDS })
+const customFields = [
+  field("EnumProjectCustomField", "Priority", "enum[1]", ["Critical", "Major", "Normal"]),
+  field("StateProjectCustomField", "State", "state[1]", ["Open", "Fixed"]),
+  field("VersionProjectCustomField", "Fix versions", "version[*]", ["1.0", "1.1"]),
+  field("UserProjectCustomField", "Assignee", "user[1]"),
+  field("GroupProjectCustomField", "Teams", "group[*]"),
+  field("PeriodProjectCustomField", "Estimation", "period"),
+  field("SimpleProjectCustomField", "Due Date", "date"),
+  field("SimpleProjectCustomField", "Started", "date and time"),
+  field("SimpleProjectCustomField", "Story points", "integer"),
+  field("TextProjectCustomField", "Notes", "text"),
+  field("EnumProjectCustomField", "Labels", "enum[1]", ["a"], true),
+]
+
+describe("projectFieldDescriptor", () => {
+  it("should map project custom fields to issue custom field types", () => {
+    expect(customFields.map(projectFieldDescriptor)).toEqual([
+      ["Priority", { $type: "SingleEnumIssueCustomField", values: ["Critical", "Major", "Normal"] }],
+      ["State", { $type: "StateIssueCustomField", values: ["Open", "Fixed"] }],
+      ["Fix versions", { $type: "MultiVersionIssueCustomField", values: ["1.0", "1.1"] }],
+      ["Assignee", { $type: "SingleUserIssueCustomField" }],
+      ["Teams", { $type: "MultiGroupIssueCustomField" }],
+      ["Estimation", { $type: "PeriodIssueCustomField" }],
+      ["Due Date", { $type: "DateIssueCustomField" }],
+      ["Started", { $type: "SimpleIssueCustomField", valueType: "date and time" }],
+      ["Story points", { $type: "SimpleIssueCustomField", valueType: "integer" }],
+      ["Notes", { $type: "TextIssueCustomField" }],
+      ["Labels", { $type: "MultiEnumIssueCustomField", values: ["a"] }],
+    ])
+  })
+
+  it("should throw for unsupported or incomplete fields", () => {
+    expect(() => projectFieldDescriptor({ $type: "UnknownProjectCustomField", field: { name: "X" } })).toThrow(
+      'Unsupported type UnknownProjectCustomField of custom field "X"',
+    )
+    expect(() => projectFieldDescriptor({ $type: "EnumProjectCustomField", field: null })).toThrow(
+      "Name of the EnumProjectCustomField is missing",
+    )
+  })
+})
+
+describe("generateProjectFields", () => {
+  it("should generate descriptor and types of the project fields", () => {
+    const source = generateProjectFields(customFields.slice(0, 4), { name: "Demo" })
+
+    expect(source).toBe(
+      [
+        "// Generated by youtrack-client from project custom fields. Do not edit manually.",
+        'import type { ProjectFieldInputs, ProjectFieldsDescriptor, ProjectFieldValues } from "youtrack-client"',
+        "",
+        "export const DemoFields = {",
+        '  Priority: { $type: "SingleEnumIssueCustomField", values: ["Critical", "Major", "Normal"] },',
+        '  State: { $type: "StateIssueCustomField", values: ["Open", "Fixed"] },',
+        '  "Fix versions": { $type: "MultiVersionIssueCustomField", values: ["1.0", "1.1"] },',
+        '  Assignee: { $type: "SingleUserIssueCustomField" },',
+        "} as const satisfies ProjectFieldsDescriptor",
+        "",
+        "export type DemoFields = typeof DemoFields",
+        "export type DemoFieldValues = ProjectFieldValues<DemoFields>",
+        "export type DemoFieldInputs = ProjectFieldInputs<DemoFields>",
+        "",
+      ].join("\n"),
+    )
+  })
+
+  it("should use the import module and validate the name", () => {
+    expect(generateProjectFields([], { importFrom: "../src" })).toContain('from "../src"')
+    expect(generateProjectFields([])).toContain("export const ProjectFields = {")
+    expect(() => generateProjectFields([], { name: "My project" })).toThrow('Invalid name "My project"')
+  })
+})
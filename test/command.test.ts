@@ -0,0 +1,103 @@
+import { applyCommand, CommandError, CommandSyntaxError, command, quoteCommandValue, YouTrack } from "../src"
+import type { FetchConfig, FetchFunc } from "../src"
+
+const setup = (response: unknown = {}) => {
+  const requests: FetchConfig[] = []
+  const yt = new YouTrack("", (async (config: FetchConfig) => {
+    requests.push(config)
+    return response
+  }) as FetchFunc)
+  return { requests, yt }
+}
+
+describe("CommandBuilder", () => {
+  it("should build command with quoted values", () => {
+    const query = command<"State" | "Assignee" | "Fix versions">()
+      .set("State", "In Progress")
+      .set("Assignee", "me")
+      .addValue("Fix versions", "2.0 beta")
+      .removeValue("Fix versions", 1.9)
+      .tag("release 2.0")
+      .untag("draft")
+      .link("relates to", "DEMO-12")
+      .unlink("subtask of", "DEMO-1")
+      .toString()
+
+    expect(query).toBe(
+      "State {In Progress} Assignee me add Fix versions {2.0 beta} remove Fix versions 1.9 " +
+        "tag {release 2.0} untag draft relates to DEMO-12 remove subtask of DEMO-1",
+    )
+  })
+
+  it("should build vote, star, visibility and work commands", () => {
+    expect(command().vote().star().unvote().unstar().toString()).toBe("vote star unvote unstar")
+    expect(command().visibleTo("QA Team").removeVisibleTo("All Users").toString()).toBe(
+      "visible to {QA Team} remove visible to {All Users}",
+    )
+    expect(command().work({ duration: 90 }).toString()).toBe("work 1h 30m")
+    expect(
+      command()
+        .raw("for john")
+        .work({ duration: 120, date: new Date("2024-03-05T10:00:00Z"), type: "Code review", text: "Checked PR" })
+        .toString(),
+    ).toBe("for john work 2024-03-05 2h {Code review} Checked PR")
+    expect(command().work({ duration: "1d 4h", date: "Today" }).toString()).toBe("work Today 1d 4h")
+  })
+
+  it("should not quote plain values", () => {
+    expect(quoteCommandValue("Fixed")).toBe("Fixed")
+    expect(quoteCommandValue("Won't fix")).toBe("{Won't fix}")
+    expect(() => quoteCommandValue("{a}")).toThrow(CommandSyntaxError)
+    expect(() => quoteCommandValue("{a}")).toThrow('Command value cannot contain "}": {a}')
+    expect(() => command().tag("a}")).toThrow(CommandSyntaxError)
+  })
+})
+
+describe("applyCommand", () => {
+  it("should apply command to the issues", async () => {
+    const commands = [{ description: "State Fixed", error: false, delete: false }]
+    const { requests, yt } = setup({ query: "State Fixed", commands })
+
+    const result = await applyCommand(yt, ["DEMO-1", "2-5"], command().set("State", "Fixed"), {
+      comment: "Done",
+      muteUpdateNotifications: true,
+    })
+
+    expect(result).toEqual({ query: "State Fixed", commands })
+    expect(requests[0].url).toBe(
+      "api/commands?fields=query,commands(description,error,delete)&muteUpdateNotifications=true",
+    )
+    expect(requests[0].data).toEqual({
+      query: "State Fixed",
+      comment: "Done",
+      issues: [{ idReadable: "DEMO-1" }, { id: "2-5" }],
+    })
+  })
+
+  it("should check the command with suggestions in dry run", async () => {
+    const commands = [{ description: "Assignee me", error: false, delete: false }]
+    const { requests, yt } = setup({ commands })
+
+    expect(await applyCommand(yt, "DEMO-1", "Assignee me", { dryRun: true })).toEqual({
+      query: "Assignee me",
+      commands,
+    })
+    expect(requests[0].url).toStartWith("api/commands/assist?")
+    expect(requests[0].data).toEqual({ query: "Assignee me", issues: [{ idReadable: "DEMO-1" }] })
+  })
+
+  it("should throw command errors in dry run", async () => {
+    const commands = [
+      { description: "State Fixed", error: false },
+      { description: "Unknown command: <b>Sttus</b>", error: true },
+    ]
+    const { requests, yt } = setup({ commands })
+
+    const error = await applyCommand(yt, ["DEMO-1"], "State Fixed Sttus Open", { dryRun: true }).catch((e) => e)
+
+    expect(error).toBeInstanceOf(CommandError)
+    expect(error.message).toBe('Command "State Fixed Sttus Open" contains errors: Unknown command: Sttus')
+    expect(error.commands).toEqual(commands)
+    expect(requests).toHaveLength(1)
+  })
+})
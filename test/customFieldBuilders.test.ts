@@ -0,0 +1,114 @@
+import {
+  buildField,
+  dateField,
+  enumField,
+  groupField,
+  multiBuildField,
+  multiEnumField,
+  multiGroupField,
+  multiOwnedField,
+  multiUserField,
+  multiVersionField,
+  ownedField,
+  periodField,
+  simpleField,
+  stateField,
+  stateMachineField,
+  textField,
+  userField,
+  versionField,
+  YouTrack,
+} from "../src"
+import type { FetchConfig, FetchFunc } from "../src"
+
+describe("custom field builders", () => {
+  it("should build bodies of the bundle fields", () => {
+    expect(enumField("Priority", "Critical")).toEqual({
+      $type: "SingleEnumIssueCustomField",
+      name: "Priority",
+      value: { name: "Critical" },
+    })
+    expect(stateField("State", { id: "1-2" })).toEqual({
+      $type: "StateIssueCustomField",
+      name: "State",
+      value: { id: "1-2" },
+    })
+    expect(stateMachineField("Workflow", "Open").$type).toBe("StateMachineIssueCustomField")
+    expect(versionField("Affected version", "1.0").$type).toBe("SingleVersionIssueCustomField")
+    expect(buildField("Build", "123").$type).toBe("SingleBuildIssueCustomField")
+    expect(ownedField("Subsystem", "UI").$type).toBe("SingleOwnedIssueCustomField")
+    expect(groupField("Team", "Developers").$type).toBe("SingleGroupIssueCustomField")
+  })
+
+  it("should build bodies of the multi-value fields", () => {
+    expect(multiVersionField("Fix versions", ["1.0", { id: "1-5" }])).toEqual({
+      $type: "MultiVersionIssueCustomField",
+      name: "Fix versions",
+      value: [{ name: "1.0" }, { id: "1-5" }],
+    })
+    expect(multiEnumField("Labels", ["a"]).$type).toBe("MultiEnumIssueCustomField")
+    expect(multiBuildField("Builds", ["1"]).$type).toBe("MultiBuildIssueCustomField")
+    expect(multiOwnedField("Subsystems", ["UI"]).$type).toBe("MultiOwnedIssueCustomField")
+    expect(multiGroupField("Teams", ["QA"]).$type).toBe("MultiGroupIssueCustomField")
+    expect(multiUserField("Reviewers", ["john", { id: "1-1" }])).toEqual({
+      $type: "MultiUserIssueCustomField",
+      name: "Reviewers",
+      value: [{ login: "john" }, { id: "1-1" }],
+    })
+  })
+
+  it("should build bodies of the value fields", () => {
+    expect(userField("Assignee", "john")).toEqual({
+      $type: "SingleUserIssueCustomField",
+      name: "Assignee",
+      value: { login: "john" },
+    })
+    expect(periodField("Estimation", 90).value).toEqual({ minutes: 90 })
+    expect(periodField("Estimation", "1h 30m").value).toEqual({ presentation: "1h 30m" })
+    expect(dateField("Due Date", new Date(1700000000000))).toEqual({
+      $type: "DateIssueCustomField",
+      name: "Due Date",
+      value: 1700000000000,
+    })
+    expect(textField("Notes", "text")).toEqual({
+      $type: "TextIssueCustomField",
+      name: "Notes",
+      value: { text: "text" },
+    })
+    expect(simpleField("Story points", 3)).toEqual({ $type: "SimpleIssueCustomField", name: "Story points", value: 3 })
+    expect(simpleField("Started", new Date(1)).value).toBe(1)
+  })
+
+  it("should clear fields with null", () => {
+    expect(enumField("Priority", null).value).toBeNull()
+    expect(userField("Assignee", null).value).toBeNull()
+    expect(periodField("Estimation", null).value).toBeNull()
+    expect(dateField("Due Date", null).value).toBeNull()
+    expect(textField("Notes", null).value).toBeNull()
+    expect(simpleField("Story points", null).value).toBeNull()
+    expect(multiUserField("Reviewers", null).value).toEqual([])
+    expect(multiVersionField("Fix versions", null).value).toEqual([])
+  })
+
+  it("should be accepted as issue custom fields", async () => {
+    const requests: FetchConfig[] = []
+    const yt = new YouTrack("", (async (config: FetchConfig) => requests.push(config)) as FetchFunc)
+
+    await yt.Issues.createIssue({
+      summary: "Bug",
+      project: { id: "0-0" },
+      customFields: [enumField("Priority", "Critical"), userField("Assignee", null)],
+    })
+    await yt.Issues.updateIssueCustomField("DEMO-1", "1-1", periodField("Estimation", 90))
+
+    expect(requests[0].data).toEqual({
+      summary: "Bug",
+      project: { id: "0-0" },
+      customFields: [
+        { $type: "SingleEnumIssueCustomField", name: "Priority", value: { name: "Critical" } },
+        { $type: "SingleUserIssueCustomField", name: "Assignee", value: null },
+      ],
+    })
+    expect(requests[1].data).toEqual({ $type: "PeriodIssueCustomField", name: "Estimation", value: { minutes: 90 } })
+  })
+})
@@ -0,0 +1,109 @@
+import {
+  CustomFieldError,
+  findCustomField,
+  getDateField,
+  getEnumField,
+  getEnumsField,
+  getFieldValue,
+  getPeriodField,
+  getTextField,
+  getUserField,
+  getUsersField,
+} from "../src"
+
+const issue = {
+  customFields: [
+    { $type: "SingleEnumIssueCustomField", name: "Priority", value: { name: "Critical" } },
+    { $type: "StateIssueCustomField", name: "State", value: null },
+    { $type: "SingleUserIssueCustomField", name: "Assignee", value: { login: "john", fullName: "John Doe" } },
+    { $type: "MultiUserIssueCustomField", name: "Reviewers", value: [{ login: "john" }, { login: "jane" }] },
+    { $type: "MultiVersionIssueCustomField", name: "Fix versions", value: [{ name: "1.0" }, { name: "1.1" }] },
+    { $type: "PeriodIssueCustomField", name: "Estimation", value: { minutes: 90, presentation: "1h 30m" } },
+    { $type: "DateIssueCustomField", name: "Due Date", value: 1700000000000 },
+    {
+      $type: "SimpleIssueCustomField",
+      name: "Started",
+      value: 1600000000000,
+      projectCustomField: { field: { fieldType: { id: "date and time" } } },
+    },
+    { $type: "SimpleIssueCustomField", name: "Story points", value: 3 },
+    { $type: "TextIssueCustomField", name: "Notes", value: { text: "Some *notes*" } },
+  ],
+}
+
+describe("findCustomField", () => {
+  it("should find the custom field by name", () => {
+    expect(findCustomField(issue, "Priority")).toBe(issue.customFields[0])
+    expect(findCustomField(issue, "Severity")).toBeUndefined()
+    expect(findCustomField({}, "Priority")).toBeUndefined()
+  })
+})
+
+describe("getFieldValue", () => {
+  it("should decode values of the custom fields", () => {
+    expect(getFieldValue(issue, "Priority")).toBe("Critical")
+    expect(getFieldValue(issue, "Assignee")).toBe("john")
+    expect(getFieldValue(issue, "Reviewers")).toEqual(["john", "jane"])
+    expect(getFieldValue(issue, "Fix versions")).toEqual(["1.0", "1.1"])
+    expect(getFieldValue(issue, "Estimation")).toBe(90)
+    expect(getFieldValue(issue, "Due Date")).toEqual(new Date(1700000000000))
+    expect(getFieldValue(issue, "Started")).toEqual(new Date(1600000000000))
+    expect(getFieldValue(issue, "Story points")).toBe(3)
+    expect(getFieldValue(issue, "Notes")).toBe("Some *notes*")
+  })
+
+  it("should return null for empty fields and undefined for missing fields", () => {
+    expect(getFieldValue(issue, "State")).toBeNull()
+    expect(getFieldValue(issue, "Severity")).toBeUndefined()
+  })
+
+  it("should throw if the required field is missing", () => {
+    expect(() => getFieldValue(issue, "Severity", { required: true })).toThrow(CustomFieldError)
+    expect(() => getFieldValue(issue, "Severity", { required: true })).toThrow('Custom field "Severity" is missing')
+    expect(getFieldValue(issue, "State", { required: true })).toBeNull()
+  })
+})
+
+describe("typed accessors", () => {
+  it("should return values of the expected types", () => {
+    expect(getEnumField(issue, "Priority")).toBe("Critical")
+    expect(getEnumField(issue, "State")).toBeNull()
+    expect(getEnumsField(issue, "Fix versions")).toEqual(["1.0", "1.1"])
+    expect(getEnumsField(issue, "Priority")).toEqual(["Critical"])
+    expect(getEnumsField(issue, "State")).toEqual([])
+    expect(getUserField(issue, "Assignee")).toEqual({ login: "john", fullName: "John Doe" })
+    expect(getUsersField(issue, "Reviewers")).toEqual([{ login: "john" }, { login: "jane" }])
+    expect(getPeriodField(issue, "Estimation")).toBe(90)
+    expect(getDateField(issue, "Due Date")).toEqual(new Date(1700000000000))
+    expect(getDateField(issue, "Started")).toEqual(new Date(1600000000000))
+    expect(getTextField(issue, "Notes")).toBe("Some *notes*")
+  })
+
+  it("should return undefined for missing fields", () => {
+    expect(getUserField(issue, "Reporter")).toBeUndefined()
+    expect(getUsersField(issue, "Watchers")).toBeUndefined()
+    expect(() => getPeriodField(issue, "Spent time", { required: true })).toThrow(CustomFieldError)
+  })
+
+  it("should throw if the value has unexpected type", () => {
+    expect(() => getUserField(issue, "Priority")).toThrow(
+      'Custom field "Priority" of type SingleEnumIssueCustomField does not contain user value',
+    )
+    expect(() => getEnumField(issue, "Fix versions")).toThrow(CustomFieldError)
+    expect(() => getPeriodField(issue, "Story points")).toThrow(CustomFieldError)
+    expect(() => getDateField(issue, "Estimation")).toThrow(CustomFieldError)
+    expect(() => getUsersField(issue, "Fix versions")).toThrow(CustomFieldError)
+  })
+
+  it("should decode values by shape if the fields are fetched without $type", () => {
+    const fields = {
+      customFields: [
+        { name: "Assignee", value: { login: "john" } },
+        { name: "Due Date", value: 1 },
+      ],
+    }
+    expect(getUserField(fields, "Assignee")).toEqual({ login: "john" })
+    expect(getDateField(fields, "Due Date")).toEqual(new Date(1))
+    expect(getFieldValue(fields, "Due Date")).toBe(1)
+  })
+})
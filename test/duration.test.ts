@@ -0,0 +1,54 @@
+import {
+  DurationFormatError,
+  durationMinutes,
+  durationValue,
+  formatDuration,
+  parseDuration,
+  RUSSIAN_DURATION_UNITS,
+} from "../src"
+
+describe("parseDuration", () => {
+  it("should parse presentation with default work time settings", () => {
+    expect(parseDuration("90m")).toBe(90)
+    expect(parseDuration("1w 2d 4h 30m")).toBe(2400 + 960 + 240 + 30)
+    expect(parseDuration(" 2H  15M ")).toBe(135)
+    expect(parseDuration("1.5h")).toBe(90)
+    expect(parseDuration("-1d")).toBe(-480)
+  })
+
+  it("should use work time settings and localized units", () => {
+    expect(parseDuration("1w 1d", { minutesADay: 360, daysAWeek: 4 })).toBe(1440 + 360)
+    expect(parseDuration("1w", { minutesADay: 420, workDays: [1, 2, 3, 4, 5, 6] })).toBe(2520)
+    expect(parseDuration("2н 1д 4ч 30м", { units: RUSSIAN_DURATION_UNITS })).toBe(4800 + 480 + 270)
+  })
+
+  it("should reject invalid presentations", () => {
+    expect(() => parseDuration("90")).toThrow(DurationFormatError)
+    expect(() => parseDuration("")).toThrow('Duration is empty: ""')
+    expect(() => parseDuration("2h 5m 1d")).toThrow('Unit "d" is out of order: "2h 5m 1d"')
+    expect(() => parseDuration("2m 2m")).toThrow('Unit "m" is out of order')
+    expect(() => parseDuration("1x")).toThrow('Unexpected duration part "1x"')
+  })
+})
+
+describe("formatDuration", () => {
+  it("should format minutes with the largest units", () => {
+    expect(formatDuration(0)).toBe("0m")
+    expect(formatDuration(90)).toBe("1h 30m")
+    expect(formatDuration(2670)).toBe("1w 4h 30m")
+    expect(formatDuration(-480)).toBe("-1d")
+    expect(formatDuration(2190, { minutesADay: 1440, daysAWeek: 7 })).toBe("1d 12h 30m")
+    expect(formatDuration(510, { units: RUSSIAN_DURATION_UNITS })).toBe("1д 30м")
+  })
+
+  it("should convert between minutes, presentations and values", () => {
+    const settings = { minutesADay: 420, daysAWeek: 5 }
+    for (const minutes of [1, 59, 61, 419, 421, 2100, 2521, 12345]) {
+      expect(parseDuration(formatDuration(minutes, settings), settings)).toBe(minutes)
+    }
+    expect(durationValue("1d", settings)).toEqual({ minutes: 420, presentation: "1d" })
+    expect(durationValue({ minutes: 480 }, settings)).toEqual({ minutes: 480, presentation: "1d 1h" })
+    expect(durationMinutes({ minutes: 30 })).toBe(30)
+    expect(durationMinutes("1w")).toBe(2400)
+  })
+})
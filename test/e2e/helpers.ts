@@ -1,4 +1,4 @@
-import { YouTrack } from "../../src"
+import { YouTrack, YouTrackError } from "../../src"
 import type { Entity, Project, ProjectCustomFieldType } from "../../src"
 import {
   PROJECT_CUSTOM_FIELD_FIELDS,
@@ -15,14 +15,6 @@ import type {
   CustomFieldTestEntity,
 } from "./entities"
 
-// Interface for API error response handling
-interface ErrorWithResponseData extends Error {
-  response: {
-    data?: Record<string, unknown>
-    status?: number
-  }
-}
-
 /**
  * Helper class for YouTrack API testing
  * Provides utilities for working with YouTrack API in tests
@@ -73,8 +65,8 @@ export class TestHelper {
   /**
    * Helper to check if an error is from the YouTrack API
    */
-  public isYouTrackError(error: unknown): error is ErrorWithResponseData {
-    return error instanceof Error && "response" in error && typeof (error as any).response === "object"
+  public isYouTrackError(error: unknown): error is YouTrackError {
+    return error instanceof YouTrackError
   }
 
   /**
@@ -118,7 +110,7 @@ export class TestHelper {
       return project
     } catch (error) {
       if (this.isYouTrackError(error)) {
-        console.error("Failed to create project:", error.response.data)
+        console.error("Failed to create project:", error.payload)
       }
       throw error
     }
@@ -153,7 +145,7 @@ export class TestHelper {
       }
     } catch (error) {
       if (this.isYouTrackError(error)) {
-        console.error(`Failed to delete project ${projectId}:`, error.response.data)
+        console.error(`Failed to delete project ${projectId}:`, error.payload)
       }
       // Don't rethrow to avoid breaking cleanup
       console.warn(`Warning: Could not delete project ${projectId}`)
@@ -197,7 +189,7 @@ export class TestHelper {
       return projectCustomField
     } catch (error) {
       if (this.isYouTrackError(error)) {
-        console.error("Failed to create custom field:", error.response.data)
+        console.error("Failed to create custom field:", error.payload)
       }
       throw error
     }
@@ -237,7 +229,7 @@ export class TestHelper {
       return issue
     } catch (error) {
       if (this.isYouTrackError(error)) {
-        console.error("Failed to create issue:", error.response.data)
+        console.error("Failed to create issue:", error.payload)
       }
       throw error
     }
@@ -262,7 +254,7 @@ export class TestHelper {
       }
     } catch (error) {
       if (this.isYouTrackError(error)) {
-        console.error(`Failed to delete issue ${issueId}:`, error.response.data)
+        console.error(`Failed to delete issue ${issueId}:`, error.payload)
       }
       console.warn(`Warning: Could not delete issue ${issueId}`)
     }
@@ -0,0 +1,108 @@
+import type { Axios } from "axios"
+import {
+  createYouTrackError,
+  ForbiddenError,
+  NetworkError,
+  NotFoundError,
+  parseErrorPayload,
+  RateLimitedError,
+  ServerError,
+  ValidationError,
+  YouTrack,
+  YouTrackError,
+} from "../src"
+
+const config = { url: "api/issues/ABC-1", method: "GET" as const }
+
+describe("createYouTrackError", () => {
+  it("should create error subclass by status", () => {
+    const create = (status: number) => createYouTrackError({ status, url: "", config })
+    expect(create(400)).toBeInstanceOf(ValidationError)
+    expect(create(403)).toBeInstanceOf(ForbiddenError)
+    expect(create(404)).toBeInstanceOf(NotFoundError)
+    expect(create(429)).toBeInstanceOf(RateLimitedError)
+    expect(create(503)).toBeInstanceOf(ServerError)
+    expect(create(0)).toBeInstanceOf(NetworkError)
+    expect(create(418).constructor).toBe(YouTrackError)
+  })
+
+  it("should keep response and request details", () => {
+    const payload = { error: "Not Found", error_description: "Entity with id ABC-1 not found" }
+    const error = createYouTrackError({ status: 404, statusText: "Not Found", payload, url: "http://yt/api", config })
+
+    expect(error).toBeInstanceOf(YouTrackError)
+    expect(error).toBeInstanceOf(Error)
+    expect(error.name).toBe("NotFoundError")
+    expect(error.message).toBe("Error: 404 Not Found - Entity with id ABC-1 not found")
+    expect(error.status).toBe(404)
+    expect(error.payload).toEqual(payload)
+    expect(error.description).toBe("Entity with id ABC-1 not found")
+    expect(error.method).toBe("GET")
+    expect(error.url).toBe("http://yt/api")
+    expect(error.config).toBe(config)
+  })
+})
+
+describe("parseErrorPayload", () => {
+  it("should parse JSON string and objects", () => {
+    expect(parseErrorPayload('{"error":"bad"}')).toEqual({ error: "bad" })
+    expect(parseErrorPayload({ error: "bad" })).toEqual({ error: "bad" })
+  })
+
+  it("should handle non JSON and empty bodies", () => {
+    expect(parseErrorPayload("<html>Bad Gateway</html>")).toEqual({ error: "<html>Bad Gateway</html>" })
+    expect(parseErrorPayload("")).toBeUndefined()
+    expect(parseErrorPayload(undefined)).toBeUndefined()
+  })
+})
+
+describe("YouTrack clients errors", () => {
+  const originalFetch = globalThis.fetch
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+  })
+
+  it("should throw typed error from fetch client", async () => {
+    const body = JSON.stringify({ error: "Forbidden", error_description: "Access denied" })
+    globalThis.fetch = (async () =>
+      new Response(body, { status: 403, statusText: "Forbidden" })) as unknown as typeof fetch
+
+    const yt = YouTrack.client("http://yt", "token")
+    const error = await yt.Issues.getIssueById("ABC-1").catch((e) => e)
+
+    expect(error).toBeInstanceOf(ForbiddenError)
+    expect(error.payload).toEqual({ error: "Forbidden", error_description: "Access denied" })
+    expect(error.url).toBe("http://yt/api/issues/ABC-1")
+  })
+
+  it("should throw network error from fetch client", async () => {
+    globalThis.fetch = (async () => {
+      throw new TypeError("fetch failed")
+    }) as unknown as typeof fetch
+
+    const yt = YouTrack.client("http://yt", "token")
+    const error = await yt.Tags.getTags().catch((e) => e)
+
+    expect(error).toBeInstanceOf(NetworkError)
+    expect(error.cause).toBeInstanceOf(TypeError)
+  })
+
+  it("should throw the same error types from axios client", async () => {
+    const axiosError = Object.assign(new Error("Request failed with status code 404"), {
+      response: { status: 404, statusText: "Not Found", data: { error: "Not Found" }, headers: {} },
+    })
+    const axios = {
+      request: async () => {
+        throw axiosError
+      },
+    } as unknown as Axios
+
+    const yt = YouTrack.axiosClient(axios, "http://yt", "token")
+    const error = await yt.Issues.getIssueById("ABC-1").catch((e) => e)
+
+    expect(error).toBeInstanceOf(NotFoundError)
+    expect(error.payload).toEqual({ error: "Not Found" })
+    expect(error.cause).toBe(axiosError)
+  })
+})
@@ -0,0 +1,77 @@
+import {
+  AgileFields,
+  ArticleFields,
+  fields,
+  IssueCommentFields,
+  IssueCustomFieldFields,
+  IssueFields,
+  IssueWorkItemFields,
+  mergeSchemas,
+  ProjectFields,
+  SavedQueryFields,
+  SprintFields,
+  TagFields,
+  UserFields,
+  UserGroupFields,
+} from "../src"
+
+describe("mergeSchemas", () => {
+  it("should combine flat fields without duplicates", () => {
+    expect(mergeSchemas(["id", "name"], ["id", "login"])).toEqual(["id", "name", "login"])
+  })
+
+  it("should merge nested fields recursively", () => {
+    expect(
+      mergeSchemas(
+        ["id", { reporter: ["login"] }, { project: ["id", { leader: ["login"] }] }],
+        [{ reporter: ["email"] }, { project: [{ leader: ["fullName"] }] }],
+      ),
+    ).toEqual(["id", { reporter: ["login", "email"], project: ["id", { leader: ["login", "fullName"] }] }])
+  })
+
+  it("should drop flat field if nested fields are requested", () => {
+    expect(mergeSchemas(["id", "project"], [{ project: ["shortName"] }])).toEqual(["id", { project: ["shortName"] }])
+  })
+
+  it("should compose presets", () => {
+    const schema = mergeSchemas(IssueFields.minimal, ["description", { reporter: UserFields.standard }])
+    expect(fields(schema)).toBe("fields=id,idReadable,summary,description,reporter(id,login,fullName,email,avatarUrl)")
+  })
+})
+
+describe("field presets", () => {
+  it("should build fields of the presets", () => {
+    expect(fields(UserFields.minimal)).toBe("fields=id,login")
+    expect(fields(IssueWorkItemFields.minimal)).toBe("fields=id,date,duration(minutes)")
+    expect(fields(IssueFields.standard)).toBe(
+      "fields=id,idReadable,summary,created,updated,resolved,project(id,shortName),reporter(id,login)," +
+        "customFields(id,name,%24type,value(id,%24type,name,login,fullName,presentation,minutes,text))",
+    )
+  })
+
+  it("should extend smaller presets with larger ones", () => {
+    const presets = [
+      UserFields,
+      UserGroupFields,
+      ProjectFields,
+      TagFields,
+      IssueCustomFieldFields,
+      IssueFields,
+      IssueCommentFields,
+      IssueWorkItemFields,
+      SprintFields,
+      AgileFields,
+      ArticleFields,
+      SavedQueryFields,
+    ]
+    for (const { minimal, standard, full } of presets) {
+      expect(fields(mergeSchemas(standard, minimal))).toBe(fields(mergeSchemas(standard, [])))
+      expect(fields(mergeSchemas(full, standard))).toBe(fields(mergeSchemas(full, [])))
+    }
+  })
+
+  it("should merge presets with additional fields", () => {
+    const schema = mergeSchemas(IssueCommentFields.standard, [{ author: ["fullName"] }, "pinned"])
+    expect(fields(schema)).toBe("fields=id,text,created,updated,pinned,author(id,login,fullName)")
+  })
+})
@@ -0,0 +1,64 @@
+import { FieldsSchemaSyntaxError, fieldsBuilder, parseFieldsSchema, stringifyFieldsSchema, YouTrack } from "../src"
+import type { FetchFunc } from "../src"
+
+describe("parseFieldsSchema", () => {
+  it("should parse flat and nested fields", () => {
+    expect(parseFieldsSchema("name,level,topic(id,name,value(name),test),color")).toEqual([
+      "name",
+      "level",
+      { topic: ["id", "name", { value: ["name"] }, "test"] },
+      "color",
+    ])
+  })
+
+  it("should skip empty names and keep empty nested fields", () => {
+    expect(parseFieldsSchema("id,,owner(),")).toEqual(["id", { owner: [] }])
+    expect(parseFieldsSchema("")).toEqual([])
+  })
+
+  it("should report positioned errors", () => {
+    const errorOf = (schema: string) => {
+      try {
+        parseFieldsSchema(schema)
+      } catch (error) {
+        return error as FieldsSchemaSyntaxError
+      }
+    }
+
+    expect(errorOf("id,owner(login")).toMatchObject({ position: 8, message: "Unclosed '(' at position 8" })
+    expect(errorOf("id,owner(login))")).toMatchObject({ position: 15, message: "Unexpected ')' at position 15" })
+    expect(errorOf("id,(login)")).toMatchObject({
+      position: 3,
+      message: "Expected field name before '(' at position 3",
+    })
+    expect(errorOf("a(b(c)")).toBeInstanceOf(FieldsSchemaSyntaxError)
+  })
+})
+
+describe("stringifyFieldsSchema", () => {
+  it("should round-trip with parseFieldsSchema", () => {
+    const schema = "id,$type,owner(login,avatarUrl),project(id,leader(login))"
+    expect(stringifyFieldsSchema(parseFieldsSchema(schema))).toBe(schema)
+  })
+
+  it("should match fieldsBuilder", () => {
+    const schema = ["id", { owner: ["login"], project: ["name"] }, "summary"]
+    expect(stringifyFieldsSchema(schema)).toBe("id,owner(login),project(name),summary")
+    expect(stringifyFieldsSchema(["$type"], encodeURIComponent)).toBe(fieldsBuilder(["$type"]))
+  })
+
+  it("should report field names with special characters", () => {
+    expect(() => stringifyFieldsSchema(["id", { owner: ["lo(gin"] }])).toThrow(
+      "Unexpected '(' in field name at position 11",
+    )
+  })
+})
+
+describe("string schema validation", () => {
+  it("should validate responses of requests with string fields", async () => {
+    const transport = (async () => ({ id: "1", owner: {} })) as FetchFunc
+    const yt = new YouTrack("", transport, { validate: "throw" })
+
+    await expect(yt.Tags.getTagById("1", { fields: "id,owner(login)" })).rejects.toThrow("$.owner.login is missing")
+  })
+})
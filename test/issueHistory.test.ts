@@ -0,0 +1,162 @@
+import { fetchIssueSnapshot, fetchIssueTimeline, issueSnapshotAt, issueTimeline, YouTrack } from "../src"
+import type { FetchConfig, FetchFunc, IssueHistoryActivity } from "../src"
+
+const day = (date: string) => Date.parse(`${date}T12:00:00Z`)
+
+const issue = {
+  id: "2-1",
+  idReadable: "DEMO-1",
+  summary: "Login fails on Safari",
+  project: { shortName: "DEMO" },
+  customFields: [
+    { name: "State", $type: "StateIssueCustomField", value: { name: "Fixed" } },
+    { name: "Assignee", $type: "SingleUserIssueCustomField", value: { login: "jane" } },
+    { name: "Affected versions", $type: "MultiVersionIssueCustomField", value: [{ name: "2.0" }, { name: "2.1" }] },
+    { name: "Due Date", $type: "DateIssueCustomField", value: day("2024-03-20") },
+  ],
+}
+
+const change = (
+  id: string,
+  date: string,
+  category: string,
+  field: string | null,
+  removed: unknown,
+  added: unknown,
+): IssueHistoryActivity => ({
+  id,
+  timestamp: day(date),
+  category: { id: category },
+  author: { login: "john" },
+  field: field ? { name: field } : null,
+  removed,
+  added,
+})
+
+const activities = [
+  change(
+    "1-1",
+    "2024-02-10",
+    "ProjectCategory",
+    "project",
+    [{ project: { shortName: "OPS" } }],
+    [{ project: { shortName: "DEMO" } }],
+  ),
+  change("1-2", "2024-02-15", "CustomFieldCategory", "State", [{ name: "Open" }], [{ name: "In Progress" }]),
+  change("1-3", "2024-02-15", "CustomFieldCategory", "Assignee", [], [{ login: "john" }]),
+  change("1-4", "2024-02-20", "SummaryCategory", "summary", "Login fails", "Login fails on Safari"),
+  change("1-5", "2024-03-01", "CustomFieldCategory", "Affected versions", [], [{ name: "2.1" }]),
+  change("1-6", "2024-03-05", "CustomFieldCategory", "Assignee", [{ login: "john" }], [{ login: "jane" }]),
+  change("1-7", "2024-03-10", "CustomFieldCategory", "State", [{ name: "In Progress" }], [{ name: "Fixed" }]),
+  change("1-8", "2024-03-12", "CustomFieldCategory", "Due Date", [day("2024-03-15")], [day("2024-03-20")]),
+  change("1-9", "2024-03-12", "CustomFieldCategory", "Component", [{ name: "UI" }], []),
+  change("1-10", "2024-03-12", "CommentsCategory", null, [], [{ text: "Fixed in 2.1" }]),
+]
+
+describe("issueTimeline", () => {
+  it("should replay changes backwards from the current values", () => {
+    const timeline = issueTimeline(issue, [...activities].reverse())
+
+    expect(timeline.summary).toEqual({
+      initial: "Login fails",
+      changes: [
+        {
+          activity: "1-4",
+          timestamp: day("2024-02-20"),
+          author: "john",
+          from: "Login fails",
+          to: "Login fails on Safari",
+        },
+      ],
+    })
+    expect(timeline.project.initial).toBe("OPS")
+    expect(timeline.fields.State.initial).toBe("Open")
+    expect(timeline.fields.State.changes.map(({ from, to }) => [from, to])).toEqual([
+      ["Open", "In Progress"],
+      ["In Progress", "Fixed"],
+    ])
+    expect(timeline.fields.Assignee.changes.map(({ from, to }) => [from, to])).toEqual([
+      [null, "john"],
+      ["john", "jane"],
+    ])
+    expect(timeline.fields["Affected versions"].initial).toEqual(["2.0"])
+    expect(timeline.fields["Due Date"].initial).toBe(day("2024-03-15"))
+    // Fields removed from the project are reconstructed from the activities
+    expect(timeline.fields.Component).toEqual({
+      initial: "UI",
+      changes: [{ activity: "1-9", timestamp: day("2024-03-12"), author: "john", from: "UI", to: null }],
+    })
+  })
+
+  it("should recognize removed multi-value fields by the field type", () => {
+    const removed = (isMultiValue: boolean) => ({
+      ...change("1-11", "2024-03-12", "CustomFieldCategory", "Subsystems", [{ name: "UI" }], []),
+      field: { name: "Subsystems", customField: { fieldType: { isMultiValue } } },
+    })
+
+    expect(issueTimeline(issue, [removed(true)]).fields.Subsystems.initial).toEqual(["UI"])
+    expect(issueTimeline(issue, [removed(false)]).fields.Subsystems.initial).toBe("UI")
+  })
+})
+
+describe("issueSnapshotAt", () => {
+  const timeline = issueTimeline(issue, activities)
+
+  it("should return the field values at the point in time", () => {
+    expect(issueSnapshotAt(timeline, new Date("2024-03-01T00:00:00Z"))).toEqual({
+      timestamp: Date.parse("2024-03-01T00:00:00Z"),
+      summary: "Login fails on Safari",
+      project: "DEMO",
+      fields: {
+        State: "In Progress",
+        Assignee: "john",
+        "Affected versions": ["2.0"],
+        "Due Date": day("2024-03-15"),
+        Component: "UI",
+      },
+    })
+  })
+
+  it("should apply changes made exactly at the timestamp", () => {
+    const { fields } = issueSnapshotAt(timeline, day("2024-03-01"))
+
+    expect(fields["Affected versions"]).toEqual(["2.0", "2.1"])
+  })
+
+  it("should return initial values before the first change and current values after the last one", () => {
+    expect(issueSnapshotAt(timeline, 0)).toMatchObject({
+      summary: "Login fails",
+      project: "OPS",
+      fields: { State: "Open", Assignee: null },
+    })
+    expect(issueSnapshotAt(timeline, Date.now()).fields).toEqual({
+      State: "Fixed",
+      Assignee: "jane",
+      "Affected versions": ["2.0", "2.1"],
+      "Due Date": day("2024-03-20"),
+      Component: null,
+    })
+  })
+})
+
+describe("fetchIssueSnapshot", () => {
+  it("should fetch the issue with the activities of the field changes", async () => {
+    const requests: FetchConfig[] = []
+    const yt = new YouTrack("", (async (config: FetchConfig) => {
+      requests.push(config)
+      if (config.url.startsWith("api/issues/DEMO-1/activitiesPage")) {
+        return { activities, hasAfter: false, hasBefore: false }
+      }
+      return issue
+    }) as FetchFunc)
+
+    const snapshot = await fetchIssueSnapshot(yt, "DEMO-1", day("2024-02-16"))
+
+    expect(snapshot.fields).toMatchObject({ State: "In Progress", Assignee: "john" })
+    expect(snapshot.summary).toBe("Login fails")
+    expect(requests[1].url).toContain(
+      "categories=CustomFieldCategory&categories=SummaryCategory&categories=ProjectCategory",
+    )
+    expect((await fetchIssueTimeline(yt, "DEMO-1")).fields.State.changes).toHaveLength(2)
+  })
+})
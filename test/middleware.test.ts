@@ -0,0 +1,64 @@
+import { YouTrack, applyMiddlewares } from "../src"
+import type { FetchConfig, FetchFunc, Middleware } from "../src"
+
+describe("applyMiddlewares", () => {
+  it("should call transport when there are no middlewares", async () => {
+    const fetch = (async (config: FetchConfig) => ({ url: config.url })) as FetchFunc
+    expect(await applyMiddlewares([], fetch, { url: "api/tags" })).toEqual({ url: "api/tags" })
+  })
+
+  it("should call middlewares in order and pass modified config", async () => {
+    const calls: string[] = []
+    const first: Middleware = async (config, next) => {
+      calls.push("first:before")
+      const result = await next({ ...config, headers: { ...config.headers, "X-First": "1" } })
+      calls.push("first:after")
+      return result
+    }
+    const second: Middleware = async (config, next) => {
+      calls.push("second:before")
+      const result = await next({ ...config, headers: { ...config.headers, "X-Second": "2" } })
+      calls.push("second:after")
+      return result
+    }
+    const fetch = (async (config: FetchConfig) => {
+      calls.push("fetch")
+      return config.headers
+    }) as FetchFunc
+
+    const result = await applyMiddlewares([first, second], fetch, { url: "api/tags" })
+
+    expect(result).toEqual({ "X-First": "1", "X-Second": "2" })
+    expect(calls).toEqual(["first:before", "second:before", "fetch", "second:after", "first:after"])
+  })
+})
+
+describe("YouTrack.use", () => {
+  it("should run resource requests through middlewares", async () => {
+    const requests: FetchConfig[] = []
+    const transport = (async (config: FetchConfig) => {
+      requests.push(config)
+      return [{ id: "1", name: "tag" }]
+    }) as FetchFunc
+
+    const yt = new YouTrack("http://yt", transport)
+    const seen: unknown[] = []
+    yt.use(
+      async (config, next) => {
+        const response = await next({ ...config, headers: { "X-Request-Id": "42" } })
+        seen.push(response)
+        return response
+      },
+      async (config, next) => {
+        const response = (await next(config)) as { id: string; name: string }[]
+        return response.map((tag) => ({ ...tag, name: tag.name.toUpperCase() }))
+      },
+    )
+
+    const tags = await yt.Tags.getTags({ fields: ["id", "name"] })
+
+    expect(tags).toEqual([{ id: "1", name: "TAG" }])
+    expect(seen).toEqual([[{ id: "1", name: "TAG" }]])
+    expect(requests).toEqual([{ url: "api/tags?fields=id,name", headers: { "X-Request-Id": "42" } }])
+  })
+})
@@ -0,0 +1,50 @@
+import {
+  activityCategoryId,
+  isActivityOfCategory,
+  isCustomFieldOfType,
+  isOfType,
+  match,
+  UnmatchedTypeError,
+} from "../src"
+
+const fields = [
+  { $type: "SingleEnumIssueCustomField", name: "Priority", value: { name: "Critical" } },
+  { $type: "MultiUserIssueCustomField", name: "Reviewers", value: [{ login: "john" }, { login: "jane" }] },
+  { $type: "PeriodIssueCustomField", name: "Estimation", value: { minutes: 90 } },
+  { $type: "SimpleIssueCustomField", name: "Story points", value: 3 },
+] as const
+
+describe("isOfType", () => {
+  it("should check $type of the entity", () => {
+    expect(isOfType(fields[0], "SingleEnumIssueCustomField")).toBe(true)
+    expect(isCustomFieldOfType(fields[1], "SingleEnumIssueCustomField", "MultiUserIssueCustomField")).toBe(true)
+    expect(fields.filter((field) => isCustomFieldOfType(field, "PeriodIssueCustomField"))).toEqual([fields[2]])
+  })
+})
+
+describe("match", () => {
+  const format = (field: (typeof fields)[number]) =>
+    match(field, {
+      SingleEnumIssueCustomField: (field) => field.value.name,
+      MultiUserIssueCustomField: (field) => field.value.map((user) => user.login).join(", "),
+      PeriodIssueCustomField: (field) => `${field.value.minutes}m`,
+      _: (field) => String(field.value),
+    })
+
+  it("should call handler of the entity type", () => {
+    expect(fields.map(format)).toEqual(["Critical", "john, jane", "90m", "3"])
+  })
+
+  it("should throw if there is no handler", () => {
+    expect(() => match({ $type: "Unknown" }, {} as never)).toThrow(new UnmatchedTypeError("Unknown"))
+  })
+})
+
+describe("isActivityOfCategory", () => {
+  it("should check category of the activity item", () => {
+    const item = { id: "1", category: "CommentsCategory" } as const
+    expect(isActivityOfCategory(item, "CommentsCategory")).toBe(true)
+    expect(isActivityOfCategory(item, "LinksCategory" as never)).toBe(false)
+    expect(activityCategoryId({ category: { id: "SprintCategory" } })).toBe("SprintCategory")
+  })
+})
@@ -0,0 +1,199 @@
+import { YouTrack } from "../src"
+import type { FetchFunc } from "../src"
+import {
+  collectClientEndpoints,
+  formatCoverageReport,
+  generateOperationStub,
+  openApiCoverage,
+  openApiOperations,
+} from "../src/codegen"
+import type { OpenApiDocument } from "../src/codegen"
+
+const reaction = { $ref: "#/components/schemas/Reaction" }
+
+// Local copy of api/openapi.json
+const document: OpenApiDocument = {
+  paths: {
+    "/issues/{id}/comments": {
+      get: {
+        summary: "Get comments of the issue",
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string" } },
+          { $ref: "#/components/parameters/fields" },
+        ],
+      },
+    },
+    "/issues/{id}/reactions": {
+      get: {
+        summary: "Get reactions of the issue",
+        parameters: [
+          { name: "id", in: "path", required: true, description: "The ID of the issue." },
+          { $ref: "#/components/parameters/fields" },
+          { name: "$top", in: "query", schema: { type: "integer" } },
+          { name: "$skip", in: "query", schema: { type: "integer" } },
+          { name: "draft", in: "query", schema: { type: "boolean" } },
+          { name: "query", in: "query", schema: { type: "string" } },
+        ],
+        responses: { 200: { content: { "application/json": { schema: { type: "array", items: reaction } } } } },
+      },
+      post: {
+        summary: "Add a reaction to the issue",
+        parameters: [{ name: "id", in: "path" }, { $ref: "#/components/parameters/fields" }],
+        requestBody: { content: { "application/json": { schema: reaction } } },
+        responses: { 200: { content: { "application/json": { schema: reaction } } } },
+      },
+    },
+    "/issues/{id}/reactions/{reactionId}": {
+      delete: {
+        parameters: [
+          { name: "id", in: "path" },
+          { name: "reactionId", in: "path" },
+        ],
+      },
+    },
+    "/reports": {
+      get: { summary: "Get reports" },
+    },
+  },
+  components: {
+    parameters: { fields: { name: "fields", in: "query", description: "Fields of the response." } },
+  },
+}
+
+describe("collectClientEndpoints", () => {
+  it("should collect endpoints of the client methods without requests", async () => {
+    const fetch = jest.spyOn(globalThis, "fetch")
+    const { endpoints, failed } = await collectClientEndpoints()
+
+    expect(fetch).not.toHaveBeenCalled()
+    fetch.mockRestore()
+    expect(endpoints).toContainEqual({ api: "Issues", name: "getIssueById", method: "GET", path: "/issues/{}" })
+    expect(endpoints).toContainEqual({
+      api: "Admin.Projects",
+      name: "getProjects",
+      method: "GET",
+      path: "/admin/projects",
+    })
+    expect(endpoints).toContainEqual({
+      api: "Activities",
+      name: "iterateActivities",
+      method: "GET",
+      path: "/activitiesPage",
+    })
+    // Placeholder arguments are rejected before the request
+    expect(failed.map(({ api, name }) => `${api}.${name}`)).toEqual(["Admin.Workflows.uploadWorkflow"])
+  })
+
+  it("should use the custom client", async () => {
+    const createClient = jest.fn((transport: FetchFunc) => new YouTrack("https://example.com", transport))
+    const { endpoints } = await collectClientEndpoints(createClient)
+
+    expect(createClient).toHaveBeenCalledTimes(1)
+    expect(endpoints.length).toBeGreaterThan(100)
+  })
+})
+
+describe("openApiCoverage", () => {
+  const endpoints = [
+    { api: "IssueComments", name: "getIssueComments", method: "GET" as const, path: "/issues/{}/comments" },
+    { api: "Issues", name: "getIssueById", method: "GET" as const, path: "/issues/{}" },
+  ]
+
+  it("should list operations of the document", () => {
+    expect(openApiOperations(document).map(({ method, path }) => `${method} ${path}`)).toEqual([
+      "GET /issues/{id}/comments",
+      "GET /issues/{id}/reactions",
+      "POST /issues/{id}/reactions",
+      "DELETE /issues/{id}/reactions/{reactionId}",
+      "GET /reports",
+    ])
+  })
+
+  it("should report covered and missing operations", () => {
+    const report = openApiCoverage(document, { endpoints, failed: [] })
+
+    expect(report.total).toBe(5)
+    expect(report.covered.map(({ path, methods }) => [path, methods])).toEqual([
+      ["/issues/{id}/comments", ["IssueComments.getIssueComments"]],
+    ])
+    expect(report.missing.map(({ method, path, api }) => [method, path, api])).toEqual([
+      ["GET", "/issues/{id}/reactions", "IssueComments"],
+      ["POST", "/issues/{id}/reactions", "IssueComments"],
+      ["DELETE", "/issues/{id}/reactions/{reactionId}", "IssueComments"],
+      ["GET", "/reports", undefined],
+    ])
+    expect(report.unknown).toEqual([endpoints[1]])
+  })
+
+  it("should format the report", () => {
+    const failed = [{ api: "Admin.Workflows", name: "uploadWorkflow", error: new TypeError("Expected a Blob") }]
+    expect(formatCoverageReport(openApiCoverage(document, { endpoints, failed }))).toBe(
+      [
+        "OpenAPI coverage: 1/5 operations (20%)",
+        "",
+        "Missing operations:",
+        "  (no resource)",
+        "    GET /reports - Get reports",
+        "  IssueComments",
+        "    GET /issues/{id}/reactions - Get reactions of the issue",
+        "    POST /issues/{id}/reactions - Add a reaction to the issue",
+        "    DELETE /issues/{id}/reactions/{reactionId}",
+        "",
+        "Client methods missing in the OpenAPI document:",
+        "  Issues.getIssueById: GET /issues/{}",
+        "",
+        "Client methods failed before the request:",
+        "  Admin.Workflows.uploadWorkflow: Expected a Blob",
+        "",
+      ].join("\n"),
+    )
+  })
+})
+
+describe("generateOperationStub", () => {
+  const [, list, create, remove] = openApiOperations(document)
+
+  it("should generate method with fields schema and query params", () => {
+    expect(generateOperationStub(document, list)).toBe(
+      [
+        "  /**",
+        "   * Get reactions of the issue",
+        "   * @param issueId - The ID of the issue.",
+        "   * @param params - Optional parameters for the request.",
+        "   * @param params.fields - Fields of the response.",
+        "   * @param params.$top - $top",
+        "   * @param params.$skip - $skip",
+        "   * @param params.draft - draft",
+        "   * @param params.query - query",
+        "   * @param options - Request options: abort signal, timeout, retries and response validation.",
+        "   * @returns The Reaction list.",
+        "   */",
+        "  async getIssueReactions<TSchema extends Schema<Reaction>>(",
+        "    issueId: string,",
+        "    params?: FieldsParam<TSchema> & ListParams & { draft?: boolean; query?: string },",
+        "    options?: RequestOptions,",
+        "  ): Promise<Entity<Reaction, TSchema>[]> {",
+        "    return this.youtrack.fetch<Entity<Reaction, TSchema>[]>(",
+        `      new RequestBuilder(\`api/issues/\${issueId}/reactions\`, { fields, $skip: "number", $top: "number", draft: "boolean", ...queryParams("query") }, params, options).get(),`,
+        "    )",
+        "  }",
+        "",
+      ].join("\n"),
+    )
+  })
+
+  it("should generate methods with body and without response", () => {
+    const created = generateOperationStub(document, create)
+    expect(created).toContain("async createIssueReaction<TSchema extends Schema<Reaction>>(")
+    expect(created).toContain("    body: DeepPartial<Reaction>,")
+    expect(created).toContain(".post(body),")
+
+    const deleted = generateOperationStub(document, remove)
+    expect(deleted).toContain(
+      "async deleteIssueReaction(\n    issueId: string,\n    reactionId: string,\n    options?: RequestOptions,\n  ): Promise<void> {",
+    )
+    expect(deleted).toContain(
+      `new RequestBuilder(\`api/issues/\${issueId}/reactions/\${reactionId}\`, {}, {}, options).delete(),`,
+    )
+  })
+})
@@ -0,0 +1,98 @@
+import { collect, paginate, YouTrack } from "../src"
+import type { FetchConfig, FetchFunc, ListParams } from "../src"
+
+const items = Array.from({ length: 7 }, (_, i) => ({ id: `${i}` }))
+
+const fetchPage = (requests: ListParams[] = []) => {
+  return async ({ $skip = 0, $top = 100 }: ListParams) => {
+    requests.push({ $skip, $top })
+    return items.slice($skip, $skip + $top)
+  }
+}
+
+describe("paginate", () => {
+  it("should iterate over all pages and stop on short page", async () => {
+    const requests: ListParams[] = []
+    const result = await collect(paginate(fetchPage(requests), { pageSize: 3 }))
+
+    expect(result).toEqual(items)
+    expect(requests).toEqual([
+      { $skip: 0, $top: 3 },
+      { $skip: 3, $top: 3 },
+      { $skip: 6, $top: 3 },
+    ])
+  })
+
+  it("should request one more page if last page is full", async () => {
+    const requests: ListParams[] = []
+    const result = await collect(paginate(fetchPage(requests), { pageSize: 7 }))
+
+    expect(result).toHaveLength(7)
+    expect(requests).toHaveLength(2)
+  })
+
+  it("should start from $skip", async () => {
+    const result = await collect(paginate(fetchPage(), { pageSize: 2, $skip: 5 }))
+    expect(result).toEqual([{ id: "5" }, { id: "6" }])
+  })
+
+  it("should stop requesting pages when iteration is stopped", async () => {
+    const requests: ListParams[] = []
+    for await (const item of paginate(fetchPage(requests), { pageSize: 2 })) {
+      if (item.id === "1") {
+        break
+      }
+    }
+    expect(requests).toHaveLength(1)
+  })
+
+  it("should reject page size that is not a positive integer", async () => {
+    const requests: ListParams[] = []
+    for (const pageSize of [0, -1, 1.5]) {
+      await expect(collect(paginate(fetchPage(requests), { pageSize }))).rejects.toThrow(
+        `Page size must be a positive integer: ${pageSize}`,
+      )
+    }
+    expect(requests).toHaveLength(0)
+  })
+})
+
+describe("iterate methods", () => {
+  it("should page resource lists with request params", async () => {
+    const requests: string[] = []
+    const transport = (async ({ url }: FetchConfig) => {
+      requests.push(url)
+      const skip = Number(new URLSearchParams(url.split("?")[1]).get("$skip"))
+      return items.slice(skip, skip + 4)
+    }) as FetchFunc
+    const yt = new YouTrack("", transport)
+
+    const issues = await collect(yt.Issues.iterateIssues({ fields: ["id"], query: "#Unresolved", pageSize: 4 }))
+
+    expect(issues).toEqual(items)
+    expect(requests).toEqual([
+      "api/issues?fields=id&query=%23Unresolved&%24skip=0&%24top=4",
+      "api/issues?fields=id&query=%23Unresolved&%24skip=4&%24top=4",
+    ])
+  })
+
+  it("should page nested resource lists with request options", async () => {
+    const requests: FetchConfig[] = []
+    const transport = (async (config: FetchConfig) => {
+      requests.push(config)
+      return requests.length === 1 ? items.slice(0, 5) : []
+    }) as FetchFunc
+    const yt = new YouTrack("", transport)
+    const controller = new AbortController()
+
+    const users = await collect(
+      yt.Admin.UserBundles.iterateUserBundleAggregatedUsers("6-1", { pageSize: 5 }, { signal: controller.signal }),
+    )
+
+    expect(users).toEqual(items.slice(0, 5))
+    expect(requests.map(({ url }) => url)).toEqual([
+      "api/admin/customFieldSettings/bundles/user/6-1/aggregatedUsers?%24skip=0&%24top=5",
+      "api/admin/customFieldSettings/bundles/user/6-1/aggregatedUsers?%24skip=5&%24top=5",
+    ])
+  })
+})
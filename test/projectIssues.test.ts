@@ -0,0 +1,96 @@
+import { CustomFieldError, ProjectIssues, YouTrack } from "../src"
+import type { FetchConfig, FetchFunc } from "../src"
+
+const DemoFields = {
+  Priority: { $type: "SingleEnumIssueCustomField", values: ["Critical", "Major", "Normal"] },
+  "Fix versions": { $type: "MultiVersionIssueCustomField", values: ["1.0", "1.1"] },
+  Assignee: { $type: "SingleUserIssueCustomField" },
+  Estimation: { $type: "PeriodIssueCustomField" },
+  "Due Date": { $type: "DateIssueCustomField" },
+  "Story points": { $type: "SimpleIssueCustomField", valueType: "integer" },
+} as const
+
+const issue = {
+  id: "2-1",
+  idReadable: "DEMO-1",
+  customFields: [
+    { $type: "SingleEnumIssueCustomField", name: "Priority", value: { name: "Major" } },
+    { $type: "MultiVersionIssueCustomField", name: "Fix versions", value: [{ name: "1.0" }] },
+    { $type: "SingleUserIssueCustomField", name: "Assignee", value: { login: "john" } },
+    { $type: "PeriodIssueCustomField", name: "Estimation", value: null },
+    { $type: "DateIssueCustomField", name: "Due Date", value: 1700000000000 },
+  ],
+}
+
+const setup = (response: unknown = issue) => {
+  const requests: FetchConfig[] = []
+  const yt = new YouTrack("", (async (config: FetchConfig) => {
+    requests.push(config)
+    return response
+  }) as FetchFunc)
+  return { requests, demo: new ProjectIssues(yt, "0-0", DemoFields) }
+}
+
+describe("ProjectIssues", () => {
+  it("should read and decode custom fields of the issue", async () => {
+    const { requests, demo } = setup()
+
+    expect(await demo.getFields("DEMO-1")).toEqual({
+      Priority: "Major",
+      "Fix versions": ["1.0"],
+      Assignee: "john",
+      Estimation: null,
+      "Due Date": new Date(1700000000000),
+      "Story points": null,
+    })
+    expect(requests[0].url).toStartWith("api/issues/DEMO-1?fields=")
+  })
+
+  it("should update custom fields with bodies of the field types", async () => {
+    const { requests, demo } = setup()
+
+    await demo.updateFields("DEMO-1", { Priority: "Critical", Assignee: null, Estimation: "1h", "Fix versions": null })
+    expect(requests[0].method).toBe("POST")
+    expect(requests[0].data).toEqual({
+      customFields: [
+        { $type: "SingleEnumIssueCustomField", name: "Priority", value: { name: "Critical" } },
+        { $type: "SingleUserIssueCustomField", name: "Assignee", value: null },
+        { $type: "PeriodIssueCustomField", name: "Estimation", value: { presentation: "1h" } },
+        { $type: "MultiVersionIssueCustomField", name: "Fix versions", value: [] },
+      ],
+    })
+  })
+
+  it("should create issue in the project", async () => {
+    const { requests, demo } = setup()
+
+    const created = await demo.createIssue({ summary: "Bug" }, { "Story points": 3 })
+    expect(created.idReadable).toBe("DEMO-1")
+    expect(created.fields.Priority).toBe("Major")
+    expect(requests[0].data).toEqual({
+      summary: "Bug",
+      project: { id: "0-0" },
+      customFields: [{ $type: "SimpleIssueCustomField", name: "Story points", value: 3 }],
+    })
+  })
+
+  it("should reject unknown fields and values before the request", async () => {
+    const { requests, demo } = setup()
+
+    expect(() => demo.customFieldsBody({ Priority: "Blocker" as "Major" })).toThrow(
+      '"Blocker" is not a value of custom field "Priority"',
+    )
+    expect(() => demo.customFieldsBody({ Severity: "Major" } as {})).toThrow(CustomFieldError)
+    await expect(demo.updateFields("DEMO-1", { "Fix versions": ["2.0" as "1.0"] })).rejects.toThrow(CustomFieldError)
+    expect(requests).toHaveLength(0)
+  })
+
+  it("should throw if the field type differs from the descriptor", () => {
+    const { demo } = setup()
+    const changed = { customFields: [{ $type: "MultiEnumIssueCustomField", name: "Priority", value: [] }] }
+
+    expect(() => demo.decodeFields(changed)).toThrow(
+      'Custom field "Priority" is MultiEnumIssueCustomField, expected SingleEnumIssueCustomField',
+    )
+  })
+})
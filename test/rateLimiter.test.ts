@@ -0,0 +1,114 @@
+import { RequestLimiter, sleep, YouTrack } from "../src"
+import type { FetchFunc, RequestQueueStats } from "../src"
+
+const deferred = () => {
+  let resolve: (value: unknown) => void = () => {}
+  const promise = new Promise((r) => {
+    resolve = r
+  })
+  return { promise, resolve }
+}
+
+describe("RequestLimiter", () => {
+  it("should limit number of requests in flight", async () => {
+    const limiter = new RequestLimiter({ maxConcurrent: 2 })
+    const tasks = [deferred(), deferred(), deferred()]
+    const results = tasks.map((task) => limiter.schedule(() => task.promise))
+
+    await sleep(0)
+    expect(limiter.stats).toMatchObject({ queued: 1, inFlight: 2, completed: 0 })
+
+    tasks[0].resolve(1)
+    await sleep(0)
+    expect(limiter.stats).toMatchObject({ queued: 0, inFlight: 2, completed: 1 })
+
+    tasks[1].resolve(2)
+    tasks[2].resolve(3)
+    expect(await Promise.all(results)).toEqual([1, 2, 3])
+    expect(limiter.stats).toMatchObject({ queued: 0, inFlight: 0, completed: 3 })
+  })
+
+  it("should limit rate of requests", async () => {
+    const limiter = new RequestLimiter({ rateLimit: { requests: 1, interval: 20 } })
+    const started: number[] = []
+    const begin = Date.now()
+
+    await Promise.all(
+      [1, 2, 3].map(() =>
+        limiter.schedule(async () => {
+          started.push(Date.now() - begin)
+        }),
+      ),
+    )
+
+    expect(started[0]).toBeLessThan(15)
+    expect(started[1]).toBeGreaterThanOrEqual(15)
+    expect(started[2]).toBeGreaterThanOrEqual(35)
+    expect(limiter.stats.maxWait).toBeGreaterThanOrEqual(35)
+  })
+
+  it("should allow burst of requests", async () => {
+    const limiter = new RequestLimiter({ rateLimit: { requests: 1, interval: 1000, burst: 3 } })
+    const begin = Date.now()
+    await Promise.all([1, 2, 3].map(() => limiter.schedule(async () => {})))
+    expect(Date.now() - begin).toBeLessThan(100)
+  })
+
+  it("should notify subscribers and propagate errors", async () => {
+    const limiter = new RequestLimiter({ maxConcurrent: 1 })
+    const snapshots: RequestQueueStats[] = []
+    const unsubscribe = limiter.subscribe((stats) => snapshots.push(stats))
+
+    await expect(limiter.schedule(() => Promise.reject(new Error("failed")))).rejects.toThrow("failed")
+    unsubscribe()
+    await limiter.schedule(async () => {})
+
+    expect(snapshots.map(({ queued, inFlight }) => [queued, inFlight])).toEqual([
+      [1, 0],
+      [0, 1],
+      [0, 0],
+    ])
+  })
+
+  it("should remove aborted tasks from the queue", async () => {
+    const limiter = new RequestLimiter({ maxConcurrent: 1 })
+    const task = deferred()
+    const controller = new AbortController()
+    const started: string[] = []
+
+    const first = limiter.schedule(() => task.promise)
+    const aborted = limiter.schedule(async () => {
+      started.push("aborted")
+    }, controller.signal)
+    const last = limiter.schedule(async () => {
+      started.push("last")
+    })
+    controller.abort(new Error("cancelled"))
+
+    await expect(aborted).rejects.toThrow("cancelled")
+    expect(limiter.stats).toMatchObject({ queued: 1, inFlight: 1 })
+    task.resolve(1)
+    await Promise.all([first, last])
+    expect(started).toEqual(["last"])
+    expect(limiter.stats.completed).toBe(2)
+  })
+})
+
+describe("YouTrack limiter options", () => {
+  it("should queue requests over the concurrency limit", async () => {
+    let inFlight = 0
+    let maxInFlight = 0
+    const transport = (async () => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight)
+      await sleep(5)
+      inFlight--
+      return { id: "1" }
+    }) as FetchFunc
+
+    const yt = new YouTrack("", transport, { maxConcurrent: 2 })
+    await Promise.all(["A-1", "A-2", "A-3", "A-4", "A-5"].map((id) => yt.Issues.getIssueById(id)))
+
+    expect(maxInFlight).toBe(2)
+    expect(yt.limiter?.stats.completed).toBe(5)
+  })
+})
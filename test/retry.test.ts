@@ -0,0 +1,102 @@
+import { createYouTrackError, parseRetryAfter, retryDelay, retryMiddleware, YouTrack } from "../src"
+import type { FetchConfig, FetchFunc } from "../src"
+
+const failingTransport = (statuses: number[], requests: FetchConfig[] = [], retryAfter?: number) =>
+  (async (config: FetchConfig) => {
+    requests.push(config)
+    const status = statuses.shift()
+    if (status) {
+      throw createYouTrackError({ status, url: config.url, config, retryAfter })
+    }
+    return { id: "1" }
+  }) as FetchFunc
+
+describe("parseRetryAfter", () => {
+  it("should parse delay in seconds", () => {
+    expect(parseRetryAfter("120")).toBe(120000)
+  })
+
+  it("should parse http date", () => {
+    const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT")
+    expect(parseRetryAfter("Wed, 21 Oct 2015 07:28:30 GMT", now)).toBe(30000)
+  })
+
+  it("should return undefined for missing or invalid values", () => {
+    expect(parseRetryAfter(null)).toBeUndefined()
+    expect(parseRetryAfter("soon")).toBeUndefined()
+  })
+})
+
+describe("retryDelay", () => {
+  it("should grow exponentially up to max delay", () => {
+    const policy = { minDelay: 100, maxDelay: 1000, jitter: 0 }
+    expect(retryDelay(policy, 1)).toBe(100)
+    expect(retryDelay(policy, 2)).toBe(200)
+    expect(retryDelay(policy, 3)).toBe(400)
+    expect(retryDelay(policy, 5)).toBe(1000)
+  })
+
+  it("should apply jitter within range", () => {
+    const delay = retryDelay({ minDelay: 100, jitter: 0.5 }, 1)
+    expect(delay).toBeGreaterThanOrEqual(50)
+    expect(delay).toBeLessThanOrEqual(100)
+  })
+
+  it("should honor Retry-After", () => {
+    expect(retryDelay({ minDelay: 100, jitter: 0 }, 1, 2000)).toBe(2000)
+    expect(retryDelay({ minDelay: 100, jitter: 0, respectRetryAfter: false }, 1, 2000)).toBe(100)
+  })
+})
+
+describe("retryMiddleware", () => {
+  const policy = { minDelay: 1, maxDelay: 1 }
+
+  it("should retry GET requests on transient errors", async () => {
+    const requests: FetchConfig[] = []
+    const yt = new YouTrack("", failingTransport([503, 429], requests), { retry: policy })
+
+    expect(await yt.Issues.getIssueById("ABC-1")).toEqual({ id: "1" })
+    expect(requests).toHaveLength(3)
+  })
+
+  it("should stop after max attempts", async () => {
+    const requests: FetchConfig[] = []
+    const onRetry = jest.fn()
+    const yt = new YouTrack("", failingTransport([502, 502, 502, 502], requests), {
+      retry: { ...policy, maxAttempts: 2, onRetry },
+    })
+
+    const error = await yt.Issues.getIssueById("ABC-1").catch((e) => e)
+    expect(error.status).toBe(502)
+    expect(requests).toHaveLength(2)
+    expect(onRetry).toHaveBeenCalledTimes(1)
+  })
+
+  it("should not retry not transient errors", async () => {
+    const requests: FetchConfig[] = []
+    const yt = new YouTrack("", failingTransport([404], requests), { retry: policy })
+
+    await expect(yt.Issues.getIssueById("ABC-1")).rejects.toThrow("Error: 404")
+    expect(requests).toHaveLength(1)
+  })
+
+  it("should retry POST requests only when allowed per call", async () => {
+    const requests: FetchConfig[] = []
+    const yt = new YouTrack("", failingTransport([503, 503], requests), { retry: policy })
+
+    await expect(yt.Issues.updateIssue("ABC-1", { summary: "test" })).rejects.toThrow("Error: 503")
+    expect(requests).toHaveLength(1)
+
+    expect(await yt.Issues.updateIssue("ABC-1", { summary: "test" }, {}, { retry: true })).toEqual({ id: "1" })
+    expect(requests).toHaveLength(3)
+    expect(requests[2].retry).toBeUndefined()
+  })
+
+  it("should not retry when disabled per call", async () => {
+    const requests: FetchConfig[] = []
+    const fetch = failingTransport([503], requests)
+
+    await expect(retryMiddleware(policy)({ url: "api/tags", retry: false }, fetch)).rejects.toThrow("Error: 503")
+    expect(requests).toHaveLength(1)
+  })
+})
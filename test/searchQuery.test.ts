@@ -0,0 +1,118 @@
+import {
+  not,
+  quoteSearchValue,
+  range,
+  SearchQuerySyntaxError,
+  searchQuery,
+  serializeSearchQuery,
+  YouTrack,
+} from "../src"
+import type { FetchConfig, FetchFunc } from "../src"
+
+describe("quoteSearchValue", () => {
+  it("should keep plain values", () => {
+    expect(quoteSearchValue("Open")).toBe("Open")
+    expect(quoteSearchValue("2024-01-01")).toBe("2024-01-01")
+    expect(quoteSearchValue("ABC-*")).toBe("ABC-*")
+  })
+
+  it("should enclose values with spaces and special characters in braces", () => {
+    expect(quoteSearchValue("In Progress")).toBe("{In Progress}")
+    expect(quoteSearchValue("Won't fix, maybe")).toBe("{Won't fix, maybe}")
+    expect(quoteSearchValue("-1")).toBe("{-1}")
+    expect(quoteSearchValue("1..2")).toBe("{1..2}")
+    expect(quoteSearchValue("or")).toBe("{or}")
+    expect(quoteSearchValue("")).toBe("{}")
+  })
+
+  it("should throw if value cannot be quoted", () => {
+    expect(() => quoteSearchValue("a}b")).toThrow('Search value cannot contain "}": a}b')
+  })
+})
+
+describe("searchQuery", () => {
+  it("should build field terms with multiple values, negation and ranges", () => {
+    const query = searchQuery()
+      .field("State", "Open", "In Progress", not("Fixed"))
+      .field("created", range(new Date("2024-01-01T00:00:00Z"), "Today"))
+      .field("Estimation", range(undefined, 10))
+
+    expect(query.toString()).toBe("State: Open, {In Progress}, -Fixed created: 2024-01-01 .. Today Estimation: * .. 10")
+  })
+
+  it("should build has, tag and text terms", () => {
+    const query = searchQuery()
+      .has("assignee")
+      .has(not("attachments"))
+      .tag("Critical")
+      .tag("Needs review")
+      .tag(not("Minor"))
+      .text("login")
+      .text("cannot sign in", true)
+
+    expect(query.toString()).toBe(
+      'has: assignee has: -attachments #Critical #{Needs review} -Minor login "cannot sign in"',
+    )
+  })
+
+  it("should write text as a single word unless exact phrase is requested", () => {
+    expect(searchQuery().text("sort").text("by", true).toString()).toBe('sort "by"')
+    expect(() => searchQuery().text("cannot sign in").toString()).toThrow(
+      "Search text must be a single word, use exact phrase instead: cannot sign in",
+    )
+    expect(() => searchQuery().text("or").toString()).toThrow(SearchQuerySyntaxError)
+    expect(() => searchQuery().text('say "hi"', true).toString()).toThrow(SearchQuerySyntaxError)
+  })
+
+  it("should group terms with and/or", () => {
+    const query = searchQuery<"State" | "Priority" | "Fix versions">()
+      .field("State", "Open")
+      .or(
+        (q) => q.field("Priority", "Critical"),
+        (q) => q.field("Priority", "Major").field("Fix versions", "1.0"),
+      )
+
+    expect(query.toString()).toBe("State: Open (Priority: Critical or (Priority: Major {Fix versions}: 1.0))")
+    expect(query.expression).toEqual({
+      type: "and",
+      operands: [
+        { type: "field", field: "State", values: [{ type: "value", value: "Open" }] },
+        {
+          type: "or",
+          operands: [
+            { type: "field", field: "Priority", values: [{ type: "value", value: "Critical" }] },
+            {
+              type: "and",
+              operands: [
+                { type: "field", field: "Priority", values: [{ type: "value", value: "Major" }] },
+                { type: "field", field: "Fix versions", values: [{ type: "value", value: "1.0" }] },
+              ],
+            },
+          ],
+        },
+      ],
+    })
+  })
+
+  it("should skip empty groups", () => {
+    expect(
+      searchQuery()
+        .or(searchQuery(), (q) => q.tag("Critical"))
+        .toString(),
+    ).toBe("#Critical")
+  })
+
+  it("should add sort attributes", () => {
+    const query = searchQuery().tag("Unresolved").sortBy("Due Date", "asc").sortBy("created", "desc").sortBy("votes")
+    expect(query.toString()).toBe("#Unresolved sort by: {Due Date} asc, created desc, votes")
+    expect(serializeSearchQuery({ sort: [{ field: "updated" }] })).toBe("sort by: updated")
+  })
+
+  it("should be used as a query param", async () => {
+    const requests: string[] = []
+    const yt = new YouTrack("", (async ({ url }: FetchConfig) => requests.push(url)) as FetchFunc)
+
+    await yt.Issues.getIssues({ query: searchQuery().field("project", "DEMO").tag("Unresolved").toString() })
+    expect(requests[0]).toBe("api/issues?query=project%3A%20DEMO%20%23Unresolved")
+  })
+})
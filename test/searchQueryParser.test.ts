@@ -0,0 +1,105 @@
+import { mapSearchTerms, parseSearchQuery, SearchQuerySyntaxError, searchQuery, serializeSearchQuery } from "../src"
+
+const canonical = (query: string) => serializeSearchQuery(parseSearchQuery(query))
+
+describe("parseSearchQuery", () => {
+  it("should parse field terms, ranges and negated values", () => {
+    expect(parseSearchQuery("State: Open, {In Progress}, -Fixed created: 2024-01-01 .. Today")).toEqual({
+      expression: {
+        type: "and",
+        operands: [
+          {
+            type: "field",
+            field: "State",
+            values: [
+              { type: "value", value: "Open" },
+              { type: "value", value: "In Progress" },
+              { type: "value", value: "Fixed", negated: true },
+            ],
+          },
+          { type: "field", field: "created", values: [{ type: "range", from: "2024-01-01", to: "Today" }] },
+        ],
+      },
+      sort: [],
+    })
+  })
+
+  it("should parse has, tags, text and sort", () => {
+    expect(
+      parseSearchQuery(
+        'has: assignee, -attachments #{Needs review} -Minor login "sign in" sort by: {Due Date} asc, votes',
+      ),
+    ).toEqual({
+      expression: {
+        type: "and",
+        operands: [
+          {
+            type: "and",
+            operands: [
+              { type: "has", field: "assignee" },
+              { type: "has", field: "attachments", negated: true },
+            ],
+          },
+          { type: "tag", value: "Needs review" },
+          { type: "tag", value: "Minor", negated: true },
+          { type: "text", text: "login" },
+          { type: "text", text: "sign in", exact: true },
+        ],
+      },
+      sort: [{ field: "Due Date", direction: "asc" }, { field: "votes" }],
+    })
+  })
+
+  it("should respect and/or precedence and grouping", () => {
+    expect(canonical("a: 1 and b: 2 or c: 3")).toBe("(a: 1 b: 2) or c: 3")
+    expect(canonical("a: 1 AND (b: 2 OR c: 3)")).toBe("a: 1 (b: 2 or c: 3)")
+    expect(canonical("project: DEMO #Unresolved Estimation: *..10")).toBe(
+      "project: DEMO #Unresolved Estimation: * .. 10",
+    )
+  })
+
+  it("should round-trip with the builder", () => {
+    const builder = searchQuery()
+      .field("State", "Open", "In Progress")
+      .field("created", "2024-01-01T00:00:00Z")
+      .or(
+        (q) => q.tag("Critical"),
+        (q) => q.has("assignee").text("login page", true),
+        (q) => q.text("sort").text("by"),
+      )
+      .sortBy("Due Date", "desc")
+
+    expect(parseSearchQuery(builder.toString())).toEqual(builder.build())
+  })
+
+  it("should report positioned syntax errors", () => {
+    const errorOf = (query: string) => {
+      try {
+        parseSearchQuery(query)
+      } catch (error) {
+        return error as SearchQuerySyntaxError
+      }
+    }
+
+    expect(errorOf("State: Open)")).toMatchObject({ position: 11, message: 'Unexpected ")" at position 11' })
+    expect(errorOf("(State: Open")).toMatchObject({ position: 12, message: "Unexpected end of query at position 12" })
+    expect(errorOf("State: , Open")).toMatchObject({ position: 7, message: 'Expected value, found "," at position 7' })
+    expect(errorOf("#{Needs review")).toMatchObject({ position: 1, message: "Unterminated braces at position 1" })
+    expect(errorOf("State: Open or")).toBeInstanceOf(SearchQuerySyntaxError)
+  })
+})
+
+describe("mapSearchTerms", () => {
+  it("should rename field across the query", () => {
+    const { expression, sort } = parseSearchQuery("(Assignee: me or Assignee: Unassigned) #Critical sort by: Assignee")
+    const renamed = serializeSearchQuery({
+      expression:
+        expression &&
+        mapSearchTerms(expression, (term) =>
+          term.type === "field" && term.field === "Assignee" ? { ...term, field: "Owner" } : term,
+        ),
+      sort: sort.map((item) => (item.field === "Assignee" ? { ...item, field: "Owner" } : item)),
+    })
+    expect(renamed).toBe("(Owner: me or Owner: Unassigned) #Critical sort by: Owner")
+  })
+})
@@ -0,0 +1,112 @@
+import { aggregateWorkItems, fetchTimesheet, timesheetCsv, toCsv, workItemWeek, YouTrack } from "../src"
+import type { FetchConfig, FetchFunc, TimesheetWorkItem } from "../src"
+
+const day = (date: string) => Date.parse(`${date}T00:00:00Z`)
+
+const item = (
+  id: string,
+  date: string,
+  login: string,
+  issue: string,
+  minutes: number,
+  type: string | null,
+  attributes: Record<string, string> = {},
+): TimesheetWorkItem => ({
+  id,
+  date: day(date),
+  duration: { minutes },
+  text: `Work on ${issue}`,
+  author: { login, fullName: login.toUpperCase() },
+  type: type ? { name: type } : null,
+  issue: { idReadable: issue, project: { shortName: issue.split("-")[0] } },
+  attributes: Object.entries(attributes).map(([name, value]) => ({ name, value: { name: value } })),
+})
+
+// 2024-03-04 is Monday
+const items = [
+  item("1", "2024-03-05", "john", "DEMO-1", 120, "Development", { Billable: "Yes" }),
+  item("2", "2024-03-04", "jane", "DEMO-2", 60, "Testing", { Billable: "No" }),
+  item("3", "2024-03-04", "john", "OPS-7", 30, null),
+  item("4", "2024-03-11", "john", "DEMO-1", 240, "Development", { Billable: "Yes" }),
+]
+
+describe("aggregateWorkItems", () => {
+  it("should aggregate work items by groups", () => {
+    const report = aggregateWorkItems(items)
+
+    expect(report.total).toBe(450)
+    expect(report.rows.map(({ id }) => id)).toEqual(["2", "3", "1", "4"])
+    expect(report.byUser).toEqual({ john: 390, jane: 60 })
+    expect(report.byDay).toEqual({ "2024-03-04": 90, "2024-03-05": 120, "2024-03-11": 240 })
+    expect(report.byWeek).toEqual({ "2024-03-04": 210, "2024-03-11": 240 })
+    expect(report.byIssue).toEqual({ "DEMO-1": 360, "DEMO-2": 60, "OPS-7": 30 })
+    expect(report.byProject).toEqual({ DEMO: 420, OPS: 30 })
+    expect(report.byType).toEqual({ Development: 360, Testing: 60, "": 30 })
+    expect(report.byAttribute).toEqual({ Billable: { Yes: 360, No: 60 } })
+    expect(report.byUserDay).toEqual({
+      jane: { "2024-03-04": 60 },
+      john: { "2024-03-04": 30, "2024-03-05": 120, "2024-03-11": 240 },
+    })
+  })
+
+  it("should start weeks from the first day of week", () => {
+    expect(workItemWeek(day("2024-03-10"))).toBe("2024-03-04")
+    expect(workItemWeek(day("2024-03-10"), 0)).toBe("2024-03-10")
+    expect(aggregateWorkItems(items, { firstDayOfWeek: 0 }).byWeek).toEqual({ "2024-03-03": 210, "2024-03-10": 240 })
+  })
+})
+
+describe("timesheetCsv", () => {
+  const report = aggregateWorkItems(items.slice(0, 3))
+
+  it("should export rows of the work items", () => {
+    expect(timesheetCsv(report)).toBe(
+      [
+        "Date,User,Issue,Project,Type,Minutes,Duration,Billable,Text",
+        "2024-03-04,jane,DEMO-2,DEMO,Testing,60,1h,No,Work on DEMO-2",
+        "2024-03-04,john,OPS-7,OPS,,30,30m,,Work on OPS-7",
+        "2024-03-05,john,DEMO-1,DEMO,Development,120,2h,Yes,Work on DEMO-1",
+        "",
+      ].join("\n"),
+    )
+  })
+
+  it("should export totals", () => {
+    expect(timesheetCsv(report, { by: "user", duration: { minutesADay: 60 } })).toBe(
+      "User,Minutes,Duration\njane,60,1d\njohn,150,2d 30m\n",
+    )
+    expect(timesheetCsv(report, { by: "userDay", separator: ";" })).toBe(
+      "User;2024-03-04;2024-03-05;Total\njane;60;0;60\njohn;30;120;150\n",
+    )
+  })
+
+  it("should escape values", () => {
+    expect(toCsv([["a,b", 'say "hi"', "line\nbreak", null, 1]])).toBe('"a,b","say ""hi""","line\nbreak",,1\n')
+  })
+})
+
+describe("fetchTimesheet", () => {
+  it("should fetch work items of the date range and authors page by page", async () => {
+    const requests: FetchConfig[] = []
+    const pages = [items.slice(0, 2), items.slice(2)]
+    const yt = new YouTrack("", (async (config: FetchConfig) => {
+      requests.push(config)
+      return pages[requests.length - 1] ?? []
+    }) as FetchFunc)
+
+    const report = await fetchTimesheet(yt, {
+      from: new Date("2024-03-04T00:00:00Z"),
+      to: "2024-03-17",
+      authors: ["john", "jane"],
+      query: "project: DEMO",
+      pageSize: 2,
+    })
+
+    expect(report.total).toBe(450)
+    expect(requests).toHaveLength(3)
+    expect(requests[0].url).toStartWith("api/workItems?fields=id,date,text,duration(minutes)")
+    expect(requests[0].url).toContain("startDate=2024-03-04&endDate=2024-03-17&author=john&author=jane")
+    expect(requests[0].url).toContain("query=project%3A%20DEMO")
+    expect(requests[1].url).toContain("%24skip=2&%24top=2")
+  })
+})
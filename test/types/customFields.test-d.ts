@@ -0,0 +1,12 @@
+import { expectType } from "tsd"
+import { getDateField, getFieldValue, getUsersField } from "../../src"
+import type { CustomFieldValue, Entity, Issue, IssueFields, User } from "../../src"
+
+// Accessors accept fetched issues, the result includes undefined unless the field is required
+declare const issue: Entity<Issue, typeof IssueFields.standard>
+
+expectType<Date | null | undefined>(getDateField(issue, "Due Date"))
+expectType<Date | null>(getDateField(issue, "Due Date", { required: true }))
+expectType<Partial<User>[] | undefined>(getUsersField(issue, "Reviewers"))
+expectType<Partial<User>[]>(getUsersField(issue, "Reviewers", { required: true }))
+expectType<CustomFieldValue | CustomFieldValue[] | null | undefined>(getFieldValue(issue, "Priority"))
@@ -0,0 +1,12 @@
+import { expectError, expectType } from "tsd"
+import { formatDuration, parseDuration, RUSSIAN_DURATION_UNITS } from "../../src"
+import type { DurationPresentation, RussianUnits } from "../../src"
+
+expectType<DurationPresentation>(formatDuration(90))
+expectType<DurationPresentation<RussianUnits>>(formatDuration(90, { units: RUSSIAN_DURATION_UNITS }))
+expectType<number>(parseDuration("1w 2d"))
+
+const presentation: DurationPresentation = formatDuration(90, { minutesADay: 420 })
+expectType<number>(parseDuration(presentation))
+
+expectError<DurationPresentation>(formatDuration(90, { units: RUSSIAN_DURATION_UNITS }))
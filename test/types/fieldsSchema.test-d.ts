@@ -0,0 +1,9 @@
+import { expectType } from "tsd"
+import { parseFieldsSchema } from "../../src"
+import type { FieldsSchema } from "../../src"
+
+// Runtime parser result lines up with ParseSchema<T>
+expectType<["id", { owner: ["login", "email"] }]>(parseFieldsSchema("id,owner(login,email)"))
+
+// Schema of unknown string is FieldsSchema
+expectType<FieldsSchema>(parseFieldsSchema("id" as string))
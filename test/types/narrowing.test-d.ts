@@ -0,0 +1,18 @@
+import { expectType } from "tsd"
+import { isCustomFieldOfType, type IssueCustomFieldFields } from "../../src"
+import type { Entity, IssueCustomField } from "../../src"
+
+// Fields of all custom field variants can be requested, the value shape is narrowed by $type
+declare const field: Entity<IssueCustomField, typeof IssueCustomFieldFields.standard>
+
+if (isCustomFieldOfType(field, "SingleEnumIssueCustomField")) {
+  expectType<string | null>(field.value.name)
+}
+
+if (isCustomFieldOfType(field, "MultiUserIssueCustomField")) {
+  expectType<string[]>(field.value.map((user) => user.login))
+}
+
+if (field.$type === "PeriodIssueCustomField") {
+  expectType<number>(field.value.minutes)
+}
@@ -0,0 +1,16 @@
+import { expectType } from "tsd"
+import { IssueFields, mergeSchemas, UserFields } from "../../src"
+import type { Entity, Issue, User } from "../../src"
+
+// Presets infer the entity shape
+expectType<{ id: string; login: string }>({} as Entity<User, typeof UserFields.minimal>)
+
+// Merged schemas infer the shape of both schemas
+const schema = mergeSchemas(IssueFields.minimal, ["description", { reporter: UserFields.minimal }] as const)
+expectType<{
+  id: string
+  idReadable: string
+  summary: string | null
+  description: string | null
+  reporter: { id: string; login: string } | null
+}>({} as Entity<Issue, typeof schema>)
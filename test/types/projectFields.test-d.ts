@@ -0,0 +1,29 @@
+import { expectError, expectType } from "tsd"
+import type { ProjectFieldInputs, ProjectFieldsDescriptor, ProjectFieldValues } from "../../src"
+
+// Descriptor in the format of generateProjectFields output
+const DemoFields = {
+  Priority: { $type: "SingleEnumIssueCustomField", values: ["Critical", "Major"] },
+  "Fix versions": { $type: "MultiVersionIssueCustomField", values: ["1.0", "1.1"] },
+  Teams: { $type: "MultiGroupIssueCustomField" },
+  Assignee: { $type: "SingleUserIssueCustomField" },
+  Estimation: { $type: "PeriodIssueCustomField" },
+  "Due Date": { $type: "DateIssueCustomField" },
+  Started: { $type: "SimpleIssueCustomField", valueType: "date and time" },
+  "Story points": { $type: "SimpleIssueCustomField", valueType: "integer" },
+} as const satisfies ProjectFieldsDescriptor
+
+declare const values: ProjectFieldValues<typeof DemoFields>
+
+expectType<"Critical" | "Major" | null>(values.Priority)
+expectType<("1.0" | "1.1")[]>(values["Fix versions"])
+expectType<string[]>(values.Teams)
+expectType<string | null>(values.Assignee)
+expectType<number | null>(values.Estimation)
+expectType<Date | null>(values["Due Date"])
+expectType<Date | null>(values.Started)
+expectType<number | null>(values["Story points"])
+
+const inputs: ProjectFieldInputs<typeof DemoFields> = { Estimation: "1h 30m", "Due Date": 1700000000000 }
+expectType<ProjectFieldInputs<typeof DemoFields>>(inputs)
+expectError<ProjectFieldInputs<typeof DemoFields>>({ Priority: "Blocker" })
@@ -0,0 +1,140 @@
+import { FieldsSchemaSyntaxError, IssueFields, SchemaMismatchError, validateFieldsSchema, YouTrack } from "../src"
+import type { FetchConfig, FetchFunc } from "../src"
+
+describe("validateFieldsSchema", () => {
+  it("should report missing fields with path", () => {
+    const data = [
+      { id: "1", idReadable: "ABC-1", reporter: { id: "1-1", login: "john" } },
+      { id: "2", reporter: { id: "1-2" } },
+    ]
+    expect(validateFieldsSchema(data, ["id", "idReadable", { reporter: ["login"] }])).toEqual([
+      { path: "$[1].idReadable", reason: "missing" },
+      { path: "$[1].reporter.login", reason: "missing" },
+    ])
+  })
+
+  it("should report unexpected types of nested fields", () => {
+    expect(
+      validateFieldsSchema({ project: "DEMO", tags: [{ name: "a" }, 1] }, [{ project: ["id"] }, { tags: ["name"] }]),
+    ).toEqual([
+      { path: "$.project", reason: "type", received: "string" },
+      { path: "$.tags[1]", reason: "type", received: "number" },
+    ])
+  })
+
+  it("should check variants of union entities by $type", () => {
+    const issue = {
+      id: "2-1",
+      idReadable: "ABC-1",
+      summary: "Issue",
+      created: 1,
+      updated: 2,
+      resolved: null,
+      project: { id: "0-1", shortName: "ABC" },
+      reporter: { id: "1-1", login: "john" },
+      customFields: [
+        {
+          id: "3-1",
+          name: "Priority",
+          $type: "SingleEnumIssueCustomField",
+          value: { id: "4-1", $type: "EnumBundleElement", name: "Critical" },
+        },
+        { id: "3-2", name: "Assignee", $type: "SingleUserIssueCustomField", value: null },
+        {
+          id: "3-3",
+          name: "Estimation",
+          $type: "PeriodIssueCustomField",
+          value: { id: "5-1", $type: "PeriodValue", minutes: 90, presentation: "1h 30m" },
+        },
+        { id: "3-4", name: "Due Date", $type: "DateIssueCustomField", value: 1700000000000 },
+        { id: "3-5", name: "Subsystem", value: { name: 1 } },
+      ],
+    }
+
+    expect(validateFieldsSchema(issue, IssueFields.standard)).toEqual([
+      { path: "$.customFields[4].$type", reason: "missing" },
+      { path: "$.customFields[4].value.id", reason: "missing" },
+      { path: "$.customFields[4].value.$type", reason: "missing" },
+    ])
+    // Fields of entities without `$type` are required
+    const withoutSummary = Object.fromEntries(Object.entries(issue).filter(([key]) => key !== "summary"))
+    expect(validateFieldsSchema(withoutSummary, IssueFields.minimal)).toEqual([
+      { path: "$.summary", reason: "missing" },
+    ])
+  })
+
+  it("should report missing fields shared by all variants of union entities", () => {
+    const customFields = [
+      { name: "Priority", $type: "SingleEnumIssueCustomField", value: { $type: "EnumBundleElement", name: "Major" } },
+      { id: "3-2", name: "Estimation", $type: "PeriodIssueCustomField", value: { id: "5-1", $type: "PeriodValue" } },
+    ]
+    expect(validateFieldsSchema(customFields, IssueFields.standard[8].customFields)).toEqual([
+      { path: "$[0].id", reason: "missing" },
+      { path: "$[0].value.id", reason: "missing" },
+    ])
+  })
+
+  it("should allow null values and missing nested entities", () => {
+    expect(validateFieldsSchema({ reporter: null }, [{ reporter: ["login"] }])).toEqual([])
+    expect(validateFieldsSchema({}, [{ reporter: ["login"] }])).toEqual([{ path: "$.reporter", reason: "missing" }])
+  })
+})
+
+describe("YouTrack response validation", () => {
+  const transport = (requests: FetchConfig[] = []) =>
+    (async (config: FetchConfig) => {
+      requests.push(config)
+      return { id: "1", summary: "Issue" }
+    }) as FetchFunc
+
+  it("should not validate responses by default", async () => {
+    const yt = new YouTrack("", transport())
+    expect(await yt.Issues.getIssueById("ABC-1", { fields: ["id", "idReadable"] })).toEqual({
+      id: "1",
+      summary: "Issue",
+    })
+  })
+
+  it("should throw SchemaMismatchError in throw mode", async () => {
+    const requests: FetchConfig[] = []
+    const yt = new YouTrack("", transport(requests), { validate: "throw" })
+
+    const error = await yt.Issues.getIssueById("ABC-1", { fields: ["id", "idReadable"] }).catch((e) => e)
+
+    expect(error).toBeInstanceOf(SchemaMismatchError)
+    expect(error.message).toBe(
+      "Response of GET api/issues/ABC-1?fields=id,idReadable does not match fields schema: $.idReadable is missing",
+    )
+    expect(error.mismatches).toEqual([{ path: "$.idReadable", reason: "missing" }])
+    expect(requests[0].schema).toBeUndefined()
+  })
+
+  it("should report mismatches with the handler in warn mode", async () => {
+    const errors: unknown[] = []
+    const yt = new YouTrack("", transport(), { validate: "warn", onSchemaMismatch: (error) => errors.push(error) })
+
+    await yt.withOptions({}).Issues.getIssueById("ABC-1", { fields: ["id", "idReadable"] })
+    await yt.Issues.getIssueById("ABC-1", { fields: "id,reporter(" })
+
+    expect(errors).toHaveLength(2)
+    expect(errors[0]).toBeInstanceOf(SchemaMismatchError)
+    expect(errors[1]).toBeInstanceOf(FieldsSchemaSyntaxError)
+  })
+
+  it("should warn in warn mode and allow to override mode per request", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {})
+    const yt = new YouTrack("", transport(), { validate: "warn" })
+
+    expect(await yt.Issues.getIssueById("ABC-1", { fields: ["id", "idReadable"] })).toEqual({
+      id: "1",
+      summary: "Issue",
+    })
+    expect(warn).toHaveBeenCalledTimes(1)
+    expect(await yt.Issues.getIssueById("ABC-1", { fields: ["idReadable"] }, { validate: false })).toBeDefined()
+    expect(warn).toHaveBeenCalledTimes(1)
+    await expect(
+      yt.withOptions({ validate: "throw" }).Issues.getIssueById("ABC-1", { fields: ["idReadable"] }),
+    ).rejects.toBeInstanceOf(SchemaMismatchError)
+    warn.mockRestore()
+  })
+})
@@ -0,0 +1,277 @@
+import {
+  createYouTrackError,
+  exportWorkItems,
+  importWorkItems,
+  parseCsv,
+  parseWorkItemsCsv,
+  parseWorkItemsJson,
+  validateWorkItemImport,
+  workItemsCsv,
+  YouTrack,
+} from "../src"
+import type { FetchConfig, FetchFunc, WorkItemImportBody, WorkItemRow } from "../src"
+
+const csv = [
+  "Issue,Author,Date,Duration,Type,Text,Billable",
+  "DEMO-1,john,2024-03-04,1h 30m,Development,Implemented the feature,Yes",
+  'DEMO-1,John Doe,2024-03-05,45m,,"Review, fixes",',
+  "",
+].join("\n")
+
+const setup = (failCreate?: string) => {
+  const requests: FetchConfig[] = []
+  const yt = new YouTrack("", (async (config: FetchConfig) => {
+    requests.push(config)
+    const [path] = config.url.split("?")
+    if (path === "api/issues/NOPE-1") {
+      throw createYouTrackError({ status: 404, url: config.url, config })
+    }
+    if (path.endsWith("/timeTracking/workItems")) {
+      if ((config.data as WorkItemImportBody).text === failCreate) {
+        throw createYouTrackError({ status: 400, url: config.url, config, payload: { error: "bad_request" } })
+      }
+      return { id: `8-${requests.length}` }
+    }
+    if (path.startsWith("api/issues/")) {
+      const [, , id] = path.split("/")
+      const project = id.startsWith("OPS") ? { id: "0-2", shortName: "OPS" } : { id: "0-1", shortName: "DEMO" }
+      return { id: "2-1", project }
+    }
+    if (path === "api/admin/projects/0-1/timeTrackingSettings") {
+      return {
+        enabled: true,
+        workItemTypes: [{ id: "5-1", name: "Development" }],
+        attributes: [{ id: "9-1", name: "Billable", values: [{ id: "9-2", name: "Yes" }] }],
+      }
+    }
+    if (path === "api/admin/projects/0-2/timeTrackingSettings") {
+      return { enabled: false, workItemTypes: [], attributes: [] }
+    }
+    if (path === "api/users") {
+      const page = Array.from({ length: 99 }, (_, index) => ({ id: `1-${index + 2}`, login: `user${index}` }))
+      return config.url.includes("skip=0") ? [{ id: "1-1", login: "john", fullName: "John Doe" }, ...page] : []
+    }
+    if (path === "api/admin/timeTrackingSettings/workTimeSettings") {
+      return { minutesADay: 420, workDays: [1, 2, 3, 4, 5], firstDayOfWeek: 1 }
+    }
+    throw new Error(`Unexpected request ${config.url}`)
+  }) as FetchFunc)
+  return { requests, yt }
+}
+
+describe("work item rows", () => {
+  it("should parse CSV with quoted values", () => {
+    expect(parseCsv('a,"b ""c""",d\r\n\r\n"e\nf",,\n')).toEqual([
+      ["a", 'b "c"', "d"],
+      ["e\nf", "", ""],
+    ])
+  })
+
+  it("should reject separators that are not a single character", () => {
+    expect(parseCsv("a;b\n", ";")).toEqual([["a", "b"]])
+    expect(() => parseCsv("a;;b\n", ";;")).toThrow(RangeError)
+    expect(() => parseCsv("a\t\tb\n", "\t\t")).toThrow(RangeError)
+    expect(() => parseCsv("a,b\n", "")).toThrow(RangeError)
+    expect(() => parseCsv('a"b\n', '"')).toThrow(RangeError)
+  })
+
+  it("should parse work item rows from CSV and JSON", () => {
+    const rows = parseWorkItemsCsv(csv)
+
+    expect(rows).toEqual([
+      {
+        issue: "DEMO-1",
+        author: "john",
+        date: "2024-03-04",
+        duration: "1h 30m",
+        type: "Development",
+        text: "Implemented the feature",
+        attributes: { Billable: "Yes" },
+      },
+      { issue: "DEMO-1", author: "John Doe", date: "2024-03-05", duration: "45m", type: "", text: "Review, fixes" },
+    ])
+    expect(workItemsCsv(rows)).toBe(csv)
+    expect(parseWorkItemsJson(JSON.stringify(rows))).toEqual(rows)
+    expect(() => parseWorkItemsJson("{}")).toThrow("Work items JSON must be an array of rows")
+  })
+})
+
+describe("importWorkItems", () => {
+  it("should validate every row in dry run", async () => {
+    const rows: WorkItemRow[] = [
+      ...parseWorkItemsCsv(csv),
+      { issue: "NOPE-1", date: "2024-03-04", duration: "1h" },
+      { issue: "OPS-1", date: "2024-03-04", duration: "1h" },
+      {
+        issue: "DEMO-1",
+        author: "jane",
+        date: "04.03.2024",
+        duration: "1x",
+        type: "Testing",
+        attributes: { Billable: "Maybe", Team: "A" },
+      },
+      { issue: "", date: "2024-03-04", duration: 0 },
+    ]
+    const { requests, yt } = setup()
+
+    const result = await importWorkItems(yt, rows, { dryRun: true })
+
+    expect(result.created).toEqual([])
+    expect(requests.some(({ method }) => method === "POST")).toBe(false)
+    expect(result.items).toEqual([
+      {
+        row: 0,
+        issue: "DEMO-1",
+        body: {
+          date: Date.parse("2024-03-04T00:00:00Z"),
+          duration: { minutes: 90 },
+          author: { id: "1-1" },
+          type: { id: "5-1" },
+          text: "Implemented the feature",
+          attributes: [{ id: "9-1", value: { id: "9-2" } }],
+        },
+      },
+      {
+        row: 1,
+        issue: "DEMO-1",
+        body: {
+          date: Date.parse("2024-03-05T00:00:00Z"),
+          duration: { minutes: 45 },
+          author: { id: "1-1" },
+          text: "Review, fixes",
+        },
+      },
+    ])
+    expect(result.errors).toEqual([
+      { row: 2, field: "issue", message: "Issue NOPE-1 is not found" },
+      { row: 3, field: "issue", message: "Time tracking is disabled in project OPS" },
+      { row: 4, field: "date", message: 'Invalid date "04.03.2024", expected YYYY-MM-DD' },
+      { row: 4, field: "duration", message: 'Unexpected duration part "1x": "1x"' },
+      { row: 4, field: "author", message: 'User "jane" is not found' },
+      { row: 4, field: "type", message: 'Work item type "Testing" is not used in project DEMO' },
+      { row: 4, field: "attributes", message: 'Attribute "Billable" has no value "Maybe"' },
+      { row: 4, field: "attributes", message: 'Attribute "Team" is not found in project DEMO' },
+      { row: 5, field: "duration", message: 'Duration must be positive: "0"' },
+      { row: 5, field: "issue", message: "Issue is required" },
+    ])
+    // Issues and projects are requested once
+    expect(requests.filter(({ url }) => url.startsWith("api/issues/DEMO-1"))).toHaveLength(1)
+    expect(requests.filter(({ url }) => url.startsWith("api/admin/projects/0-1"))).toHaveLength(1)
+  })
+
+  it("should not create work items if any row is invalid", async () => {
+    const { requests, yt } = setup()
+    const rows = [...parseWorkItemsCsv(csv), { issue: "NOPE-1", date: "2024-03-04", duration: "1h" }]
+
+    const result = await importWorkItems(yt, rows)
+
+    expect(result.errors).toHaveLength(1)
+    expect(result.created).toEqual([])
+    expect(requests.some(({ method }) => method === "POST")).toBe(false)
+  })
+
+  it("should create work items and report failed requests", async () => {
+    const { requests, yt } = setup("Review, fixes")
+
+    const result = await importWorkItems(yt, parseWorkItemsCsv(csv), { concurrency: 1, muteUpdateNotifications: true })
+
+    const posts = requests.filter(({ method }) => method === "POST")
+    expect(posts.map(({ url }) => url)).toEqual([
+      "api/issues/DEMO-1/timeTracking/workItems?fields=id&muteUpdateNotifications=true",
+      "api/issues/DEMO-1/timeTracking/workItems?fields=id&muteUpdateNotifications=true",
+    ])
+    expect(result.created).toEqual([{ row: 0, id: expect.any(String) }])
+    expect(result.failed).toHaveLength(1)
+    expect(result.failed[0].row).toBe(1)
+    expect(result.failed[0].error.status).toBe(400)
+  })
+
+  it("should not request users if rows have no authors", async () => {
+    const { requests, yt } = setup()
+
+    const { items } = await validateWorkItemImport(yt, [{ issue: "DEMO-1", date: "2024-03-04", duration: 30 }])
+
+    expect(items).toHaveLength(1)
+    expect(requests.some(({ url }) => url.startsWith("api/users"))).toBe(false)
+  })
+
+  it("should stop requesting users once every author is found by login", async () => {
+    const { requests, yt } = setup()
+
+    const { items } = await validateWorkItemImport(yt, [
+      { issue: "DEMO-1", author: "john", date: "2024-03-04", duration: 30 },
+    ])
+
+    expect(items[0].body.author).toEqual({ id: "1-1" })
+    expect(requests.filter(({ url }) => url.startsWith("api/users"))).toHaveLength(1)
+  })
+
+  it("should parse durations with the global work time settings by default", async () => {
+    const { requests, yt } = setup()
+    const rows = [{ issue: "DEMO-1", date: "2024-03-04", duration: "1d" }]
+
+    const [global, custom] = await Promise.all([
+      validateWorkItemImport(yt, rows),
+      validateWorkItemImport(yt, rows, { duration: { minutesADay: 480 } }),
+    ])
+
+    expect(global.items[0].body.duration).toEqual({ minutes: 420 })
+    expect(custom.items[0].body.duration).toEqual({ minutes: 480 })
+    expect(requests.filter(({ url }) => url.startsWith("api/admin/timeTrackingSettings"))).toHaveLength(1)
+  })
+})
+
+describe("exportWorkItems", () => {
+  const workItem = {
+    id: "8-1",
+    date: Date.parse("2024-03-04T00:00:00Z"),
+    duration: { minutes: 570 },
+    text: "Implemented the feature",
+    author: { login: "john" },
+    type: { name: "Development" },
+    issue: { idReadable: "DEMO-1" },
+    attributes: [
+      { name: "Billable", value: { name: "Yes" } },
+      { name: "Team", value: null },
+    ],
+  }
+
+  const setupExport = () => {
+    const requests: FetchConfig[] = []
+    const yt = new YouTrack("", (async (config: FetchConfig) => {
+      requests.push(config)
+      return requests.length === 1 ? [workItem] : []
+    }) as FetchFunc)
+    return { requests, yt }
+  }
+
+  it("should export work items in the import format", async () => {
+    const { requests, yt } = setupExport()
+
+    const exported = await exportWorkItems(yt, { from: "2024-03-04", query: "project: DEMO" })
+
+    expect(requests[0].url).toContain("startDate=2024-03-04")
+    expect(exported).toBe(
+      "Issue,Author,Date,Duration,Type,Text,Billable\nDEMO-1,john,2024-03-04,1d 1h 30m,Development,Implemented the feature,Yes\n",
+    )
+    expect(parseWorkItemsCsv(exported)[0].duration).toBe("1d 1h 30m")
+  })
+
+  it("should export JSON with durations of the work time settings", async () => {
+    const { yt } = setupExport()
+
+    const exported = await exportWorkItems(yt, {}, { format: "json", duration: { minutesADay: 600 } })
+
+    expect(JSON.parse(exported)).toEqual([
+      {
+        issue: "DEMO-1",
+        author: "john",
+        date: "2024-03-04",
+        duration: "9h 30m",
+        type: "Development",
+        text: "Implemented the feature",
+        attributes: { Billable: "Yes" },
+      },
+    ])
+  })
+})
@@ -0,0 +1,119 @@
+import { aggregateWorkItems, analyzeWorkTime, fetchWorkTimeAnalysis, YouTrack } from "../src"
+import type { FetchConfig, FetchFunc, TimesheetWorkItem } from "../src"
+
+const item = (date: string, login: string, minutes: number): TimesheetWorkItem => ({
+  date: Date.parse(`${date}T00:00:00Z`),
+  duration: { minutes },
+  author: { login },
+  issue: { idReadable: "DEMO-1" },
+})
+
+// 2024-03-04 is Monday
+const items = [
+  item("2024-03-04", "john", 480),
+  item("2024-03-05", "john", 300),
+  item("2024-03-05", "john", 300),
+  item("2024-03-06", "john", 470),
+  item("2024-03-09", "john", 60),
+  item("2024-03-11", "john", 480),
+  item("2024-03-04", "jane", 480),
+]
+
+describe("analyzeWorkTime", () => {
+  const report = aggregateWorkItems(items)
+
+  it("should compare logged time with expected time by day and week", () => {
+    const { users, ...period } = analyzeWorkTime(
+      report,
+      { minutesADay: 480, workDays: [1, 2, 3, 4, 5] },
+      {
+        from: "2024-03-04",
+        to: new Date("2024-03-11T00:00:00Z"),
+      },
+    )
+
+    expect(period).toEqual({ from: "2024-03-04", to: "2024-03-11", minutesADay: 480, workDays: [1, 2, 3, 4, 5] })
+    expect(users.map(({ user }) => user)).toEqual(["jane", "john"])
+
+    const john = users[1]
+    expect(john).toMatchObject({ expected: 2880, logged: 2090, difference: -790 })
+    expect(john.days[1]).toEqual({
+      date: "2024-03-05",
+      workingDay: true,
+      expected: 480,
+      logged: 600,
+      difference: 120,
+      status: "overtime",
+    })
+    expect(john.days.map(({ status }) => status)).toEqual([
+      "ok",
+      "overtime",
+      "gap",
+      "gap",
+      "gap",
+      "nonWorkingDay",
+      "ok",
+      "ok",
+    ])
+    expect(john.gaps).toEqual(["2024-03-06", "2024-03-07", "2024-03-08"])
+    expect(john.overtime).toEqual(["2024-03-05"])
+    expect(john.nonWorkingDays).toEqual(["2024-03-09"])
+    expect(john.weeks).toEqual([
+      { week: "2024-03-04", expected: 2400, logged: 1610, difference: -790, status: "gap" },
+      { week: "2024-03-11", expected: 480, logged: 480, difference: 0, status: "ok" },
+    ])
+  })
+
+  it("should include users without logged time and apply tolerance", () => {
+    const { users } = analyzeWorkTime(
+      report,
+      { minutesADay: 480 },
+      { from: "2024-03-04", to: "2024-03-06", users: ["bob"], tolerance: 15 },
+    )
+
+    expect(users.map(({ user, logged, gaps }) => [user, logged, gaps])).toEqual([
+      ["bob", 0, ["2024-03-04", "2024-03-05", "2024-03-06"]],
+      ["jane", 480, ["2024-03-05", "2024-03-06"]],
+      ["john", 1550, []],
+    ])
+    expect(users[2].overtime).toEqual(["2024-03-05"])
+  })
+
+  it("should use the first day of week", () => {
+    const { users } = analyzeWorkTime(report, {}, { from: "2024-03-09", to: "2024-03-11", firstDayOfWeek: 0 })
+
+    expect(users[1].weeks.map(({ week }) => week)).toEqual(["2024-03-03", "2024-03-10"])
+    expect(() => analyzeWorkTime(report, {}, { from: "2024-03-04", to: "next week" })).toThrow(
+      "Invalid date: next week",
+    )
+  })
+})
+
+describe("fetchWorkTimeAnalysis", () => {
+  it("should fetch work time settings and work items of the users", async () => {
+    const requests: FetchConfig[] = []
+    const yt = new YouTrack("", (async (config: FetchConfig) => {
+      requests.push(config)
+      if (config.url.startsWith("api/admin")) {
+        return { minutesADay: 420, workDays: [0, 1, 2, 3, 4], firstDayOfWeek: 0 }
+      }
+      return config.url.includes("skip=0") ? items.filter(({ author }) => author?.login === "jane") : []
+    }) as FetchFunc)
+
+    const { users, minutesADay } = await fetchWorkTimeAnalysis(yt, {
+      from: "2024-03-03",
+      to: "2024-03-09",
+      users: ["jane"],
+    })
+
+    expect(requests[0].url).toBe(
+      "api/admin/timeTrackingSettings/workTimeSettings?fields=minutesADay,workDays,firstDayOfWeek",
+    )
+    expect(requests[1].url).toContain("startDate=2024-03-03&endDate=2024-03-09&author=jane")
+    expect(minutesADay).toBe(420)
+    expect(users).toHaveLength(1)
+    expect(users[0]).toMatchObject({ user: "jane", expected: 2100, logged: 480 })
+    expect(users[0].weeks.map(({ week }) => week)).toEqual(["2024-03-03"])
+    expect(users[0].overtime).toEqual(["2024-03-04"])
+  })
+})